@@ -1,12 +1,17 @@
 import { Canvas } from '@/components/canvas';
+import { CommandPalette } from '@/components/command-palette';
+import { Comments } from '@/components/comments';
 import { Controls } from '@/components/controls';
+import { Presentation } from '@/components/presentation';
+import { ProjectThumbnail } from '@/components/project-thumbnail';
 import { Reasoning } from '@/components/reasoning';
 import { SaveIndicator } from '@/components/save-indicator';
 import { Toolbar } from '@/components/toolbar';
 import { TopLeft } from '@/components/top-left';
 import { TopRight } from '@/components/top-right';
-import { currentUserProfile } from '@/lib/auth';
+import { currentUser, currentUserProfile } from '@/lib/auth';
 import { database } from '@/lib/database';
+import { getProjectRole } from '@/lib/members';
 import { ProjectProvider } from '@/providers/project';
 import { projects } from '@/schema';
 import { eq } from 'drizzle-orm';
@@ -30,6 +35,7 @@ type ProjectProps = {
 const Project = async ({ params }: ProjectProps) => {
   try {
     const { projectId } = await params;
+    const user = await currentUser();
     const profile = await currentUserProfile();
 
     if (!profile) {
@@ -51,36 +57,51 @@ const Project = async ({ params }: ProjectProps) => {
       notFound();
     }
 
+    const role = user ? getProjectRole(project, user) : null;
+
+    // Projects are only visible to their owner and invited members
+    if (!role) {
+      notFound();
+    }
+
     console.log('Project loaded successfully:', project.id);
 
-  return (
-    <div className="flex h-screen w-screen items-stretch overflow-hidden">
-      <div className="relative flex-1">
-        <ProjectProvider data={project}>
-          <Canvas>
-            <Controls />
-            <Toolbar />
-            <SaveIndicator />
-          </Canvas>
-        </ProjectProvider>
-        <Suspense fallback={null}>
-          <TopLeft id={projectId} />
-        </Suspense>
-        <Suspense fallback={null}>
-          <TopRight id={projectId} />
-        </Suspense>
+    return (
+      <div className="flex h-screen w-screen items-stretch overflow-hidden">
+        <div className="relative flex-1">
+          <ProjectProvider data={project} access={role}>
+            <Canvas>
+              <Controls />
+              <Toolbar />
+              <SaveIndicator />
+              <CommandPalette />
+              <Comments />
+              <Presentation />
+              <ProjectThumbnail />
+            </Canvas>
+          </ProjectProvider>
+          <Suspense fallback={null}>
+            <TopLeft id={projectId} />
+          </Suspense>
+          <Suspense fallback={null}>
+            <TopRight id={projectId} />
+          </Suspense>
+        </div>
+        <Reasoning />
       </div>
-      <Reasoning />
-    </div>
-  );
+    );
   } catch (error) {
     console.error('Error loading project:', error);
     return (
       <div className="flex h-screen w-screen items-center justify-center">
         <div className="text-center">
-          <h1 className="text-2xl font-bold text-red-600 mb-4">Error Loading Project</h1>
-          <p className="text-gray-600 mb-4">Something went wrong while loading the project.</p>
-          <pre className="text-sm text-gray-500 bg-gray-100 p-4 rounded overflow-auto max-w-2xl">
+          <h1 className="mb-4 font-bold text-2xl text-red-600">
+            Error Loading Project
+          </h1>
+          <p className="mb-4 text-gray-600">
+            Something went wrong while loading the project.
+          </p>
+          <pre className="max-w-2xl overflow-auto rounded bg-gray-100 p-4 text-gray-500 text-sm">
             {error instanceof Error ? error.message : String(error)}
           </pre>
         </div>
@@ -1,13 +1,17 @@
 import { createProjectAction } from '@/app/actions/project/create';
-import { currentUser, currentUserProfile } from '@/lib/auth';
-import { database } from '@/lib/database';
-import { projects } from '@/schema';
-import { eq } from 'drizzle-orm';
+import { ProjectDashboard } from '@/components/dashboard';
+import {
+  currentUser,
+  currentUserProfile,
+  getAccessibleProjects,
+  getProjectPreferences,
+} from '@/lib/auth';
+import { getProjectSummary } from '@/lib/dashboard';
 import type { Metadata } from 'next';
 import { redirect } from 'next/navigation';
 
 export const metadata: Metadata = {
-  title: 'Tersa',
+  title: 'Projects | Tersa',
   description: 'Create and share AI workflows',
 };
 
@@ -26,29 +30,28 @@ const Projects = async () => {
     return redirect('/welcome');
   }
 
-  let project = await database.query.projects.findFirst({
-    where: eq(projects.userId, profile.id),
-  });
+  const allProjects = await getAccessibleProjects(user);
 
-  if (!project) {
+  // New users start straight on a canvas
+  if (!allProjects.length) {
     const newProject = await createProjectAction('Untitled Project');
 
     if ('error' in newProject) {
       throw new Error(newProject.error);
     }
 
-    const newFetchedProject = await database.query.projects.findFirst({
-      where: eq(projects.id, newProject.id),
-    });
-
-    if (!newFetchedProject) {
-      throw new Error('Failed to create project');
-    }
-
-    project = newFetchedProject;
+    redirect(`/projects/${newProject.id}`);
   }
 
-  redirect(`/projects/${project.id}`);
+  const preferences = await getProjectPreferences(user.id);
+
+  return (
+    <ProjectDashboard
+      projects={allProjects.map((project) =>
+        getProjectSummary(project, preferences.get(project.id))
+      )}
+    />
+  );
 };
 
 export default Projects;
@@ -48,7 +48,7 @@ const Welcome = async () => {
 
   return (
     <div className="flex flex-col gap-4">
-      <ProjectProvider data={welcomeProject}>
+      <ProjectProvider data={welcomeProject} access="owner">
         <WelcomeDemo title={title} description={description} />
       </ProjectProvider>
     </div>
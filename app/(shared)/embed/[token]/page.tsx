@@ -0,0 +1,57 @@
+import { Canvas } from '@/components/canvas';
+import { Controls } from '@/components/controls';
+import { SharePassword } from '@/components/share-password';
+import {
+  getShare,
+  getSharedProject,
+  hasShareAccess,
+  shareRole,
+} from '@/lib/share';
+import { ProjectProvider } from '@/providers/project';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+type EmbedPageProps = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+
+export const metadata: Metadata = {
+  title: 'Tersa',
+  robots: { index: false },
+};
+
+// The share page without its header, for embedding in an iframe
+const EmbedPage = async ({ params }: EmbedPageProps) => {
+  const { token } = await params;
+  const share = await getShare(token);
+
+  if (!share) {
+    notFound();
+  }
+
+  if (!(await hasShareAccess(share))) {
+    return <SharePassword token={token} />;
+  }
+
+  return (
+    <div className="relative h-screen w-screen overflow-hidden">
+      <ProjectProvider data={getSharedProject(share)} access={shareRole} shared>
+        <Canvas>
+          <Controls />
+        </Canvas>
+      </ProjectProvider>
+      <Link
+        href={`/share/${token}`}
+        target="_blank"
+        className="absolute top-0 right-0 z-[50] m-4 rounded-full border bg-card/90 px-3 py-1.5 font-medium text-xs drop-shadow-xs backdrop-blur-sm"
+      >
+        Open in Tersa
+      </Link>
+    </div>
+  );
+};
+
+export default EmbedPage;
@@ -0,0 +1,13 @@
+import { ReactFlowProvider } from '@xyflow/react';
+import type { ReactNode } from 'react';
+
+type SharedLayoutProps = {
+  children: ReactNode;
+};
+
+// Published snapshots are public, so there's no session or subscription here
+const SharedLayout = ({ children }: SharedLayoutProps) => (
+  <ReactFlowProvider>{children}</ReactFlowProvider>
+);
+
+export default SharedLayout;
@@ -0,0 +1,61 @@
+import { Canvas } from '@/components/canvas';
+import { Controls } from '@/components/controls';
+import { ShareHeader } from '@/components/share-header';
+import { SharePassword } from '@/components/share-password';
+import { currentUser } from '@/lib/auth';
+import {
+  getShare,
+  getSharedProject,
+  hasShareAccess,
+  shareRole,
+} from '@/lib/share';
+import { ProjectProvider } from '@/providers/project';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+
+type SharePageProps = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+
+export const generateMetadata = async ({
+  params,
+}: SharePageProps): Promise<Metadata> => {
+  const { token } = await params;
+  const share = await getShare(token);
+
+  return {
+    title: share ? `${share.name} | Tersa` : 'Tersa',
+    description: 'A read-only AI workflow shared from Tersa',
+    robots: { index: false },
+  };
+};
+
+const SharePage = async ({ params }: SharePageProps) => {
+  const { token } = await params;
+  const share = await getShare(token);
+
+  if (!share) {
+    notFound();
+  }
+
+  if (!(await hasShareAccess(share))) {
+    return <SharePassword token={token} />;
+  }
+
+  const user = await currentUser();
+
+  return (
+    <div className="relative h-screen w-screen overflow-hidden">
+      <ProjectProvider data={getSharedProject(share)} access={shareRole} shared>
+        <Canvas>
+          <Controls />
+        </Canvas>
+      </ProjectProvider>
+      <ShareHeader token={token} name={share.name} signedIn={Boolean(user)} />
+    </div>
+  );
+};
+
+export default SharePage;
@@ -0,0 +1,181 @@
+'use server';
+
+import { CommentEmailTemplate } from '@/emails/comment';
+import { getProjectAccess, getProjectPeople } from '@/lib/auth';
+import {
+  type Comment,
+  type CommentAnchor,
+  getAuthorName,
+  getMentions,
+} from '@/lib/comments';
+import type { ProjectContent } from '@/lib/content';
+import { database } from '@/lib/database';
+import { env } from '@/lib/env';
+import { parseError } from '@/lib/error/parse';
+import { resend } from '@/lib/resend';
+import { getNodeTitle } from '@/lib/search';
+import { comments } from '@/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+
+type CreateCommentActionProps = {
+  projectId: string;
+  nodeId: string;
+  body: string;
+
+  // Replies point at the first comment of their thread
+  threadId?: string;
+
+  // Only used when starting a thread on a point of an image
+  anchor?: CommentAnchor;
+};
+
+const protocol = process.env.NODE_ENV === 'production' ? 'https' : 'http';
+const returnUrl = `${protocol}://${env.VERCEL_PROJECT_PRODUCTION_URL}`;
+
+export const createCommentAction = async ({
+  projectId,
+  nodeId,
+  body,
+  threadId,
+  anchor,
+}: CreateCommentActionProps): Promise<
+  | {
+      comment: Comment;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const { user, project } = await getProjectAccess(projectId, 'viewer');
+    const text = body.trim();
+
+    if (!text) {
+      throw new Error('Comment is empty');
+    }
+
+    if (!user.email) {
+      throw new Error('You need an email address to comment.');
+    }
+
+    const existing = await database.query.comments.findMany({
+      where: eq(comments.projectId, projectId),
+    });
+
+    const thread = threadId
+      ? existing.find((comment) => comment.id === threadId && !comment.threadId)
+      : undefined;
+
+    if (threadId && !thread) {
+      throw new Error('Thread not found');
+    }
+
+    // Only people with access to the project can be mentioned or notified,
+    // which leaves out past commenters who have since been removed
+    const people = new Set(await getProjectPeople(project));
+    const mentions = getMentions(text).filter((email) => people.has(email));
+
+    const [comment] = await database
+      .insert(comments)
+      .values({
+        projectId,
+        nodeId: thread?.nodeId ?? nodeId,
+        threadId: thread?.id ?? null,
+        anchor: thread ? null : (anchor ?? null),
+        body: text,
+        mentions,
+        userId: user.id,
+        authorEmail: user.email,
+        authorName: user.user_metadata.full_name ?? null,
+      })
+      .returning();
+
+    // Replying to a resolved thread reopens it
+    if (thread?.resolvedAt) {
+      await database
+        .update(comments)
+        .set({ resolvedAt: null, resolvedBy: null })
+        .where(and(eq(comments.id, thread.id), isNull(comments.threadId)));
+    }
+
+    const participants = thread
+      ? existing
+          .filter(
+            (entry) => entry.id === thread.id || entry.threadId === thread.id
+          )
+          .map((entry) => entry.authorEmail.toLowerCase())
+          .filter((email) => people.has(email))
+      : [];
+
+    await notify({
+      comment,
+      projectName: project.name,
+      content: project.content as ProjectContent | null,
+      mentions,
+      participants,
+    });
+
+    return { comment };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
+
+type NotifyProps = {
+  comment: Comment;
+  projectName: string;
+  content: ProjectContent | null;
+  mentions: string[];
+  participants: string[];
+};
+
+// Mentioned people and everyone already in the thread hear about the new
+// comment, except its author. A failed email doesn't fail the comment.
+const notify = async ({
+  comment,
+  projectName,
+  content,
+  mentions,
+  participants,
+}: NotifyProps) => {
+  const author = comment.authorEmail.toLowerCase();
+  const recipients = new Map<string, 'mention' | 'reply'>();
+
+  for (const email of participants) {
+    recipients.set(email, 'reply');
+  }
+
+  for (const email of mentions) {
+    recipients.set(email, 'mention');
+  }
+
+  recipients.delete(author);
+
+  const node = content?.nodes.find((entry) => entry.id === comment.nodeId);
+  const nodeTitle = node ? getNodeTitle(node) : 'a node';
+  const link = `${returnUrl}/projects/${comment.projectId}?comment=${comment.threadId ?? comment.id}`;
+
+  await Promise.allSettled(
+    [...recipients].map(([email, reason]) =>
+      resend.emails.send({
+        from: env.RESEND_EMAIL,
+        to: email,
+        subject:
+          reason === 'mention'
+            ? `${getAuthorName(comment)} mentioned you in ${projectName}`
+            : `${getAuthorName(comment)} replied in ${projectName}`,
+        react: CommentEmailTemplate({
+          author: getAuthorName(comment),
+          projectName,
+          nodeTitle,
+          body: comment.body,
+          link,
+          email,
+          reason,
+        }),
+      })
+    )
+  );
+};
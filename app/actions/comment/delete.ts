@@ -0,0 +1,51 @@
+'use server';
+
+import { getProjectAccess } from '@/lib/auth';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import { comments } from '@/schema';
+import { and, eq, or } from 'drizzle-orm';
+
+// Comments can only be deleted by their author. Deleting the first comment of
+// a thread deletes the whole thread.
+export const deleteCommentAction = async (
+  projectId: string,
+  commentId: string
+): Promise<
+  | {
+      success: true;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const { user } = await getProjectAccess(projectId, 'viewer');
+
+    const comment = await database.query.comments.findFirst({
+      where: and(eq(comments.id, commentId), eq(comments.projectId, projectId)),
+    });
+
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+
+    if (comment.userId !== user.id) {
+      throw new Error('You can only delete your own comments.');
+    }
+
+    await database
+      .delete(comments)
+      .where(
+        comment.threadId
+          ? eq(comments.id, commentId)
+          : or(eq(comments.id, commentId), eq(comments.threadId, commentId))
+      );
+
+    return { success: true };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
@@ -0,0 +1,37 @@
+'use server';
+
+import { getProjectAccess, getProjectPeople } from '@/lib/auth';
+import type { Comment } from '@/lib/comments';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import { comments } from '@/schema';
+import { asc, eq } from 'drizzle-orm';
+
+export const listCommentsAction = async (
+  projectId: string
+): Promise<
+  | {
+      comments: Comment[];
+
+      // Who can be mentioned, see getProjectPeople
+      people: string[];
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const { project } = await getProjectAccess(projectId, 'viewer');
+
+    const rows = await database.query.comments.findMany({
+      where: eq(comments.projectId, projectId),
+      orderBy: asc(comments.createdAt),
+    });
+
+    return { comments: rows, people: await getProjectPeople(project) };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
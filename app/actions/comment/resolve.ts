@@ -0,0 +1,49 @@
+'use server';
+
+import { getProjectAccess } from '@/lib/auth';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import { comments } from '@/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+
+export const resolveCommentThreadAction = async (
+  projectId: string,
+  threadId: string,
+  resolved: boolean
+): Promise<
+  | {
+      success: true;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const { user } = await getProjectAccess(projectId, 'viewer');
+
+    const thread = await database
+      .update(comments)
+      .set({
+        resolvedAt: resolved ? new Date() : null,
+        resolvedBy: resolved ? user.id : null,
+      })
+      .where(
+        and(
+          eq(comments.id, threadId),
+          eq(comments.projectId, projectId),
+          isNull(comments.threadId)
+        )
+      )
+      .returning({ id: comments.id });
+
+    if (!thread.length) {
+      throw new Error('Thread not found');
+    }
+
+    return { success: true };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
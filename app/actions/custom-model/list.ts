@@ -0,0 +1,31 @@
+'use server';
+
+import { currentUser } from '@/lib/auth';
+import { getCustomModels } from '@/lib/custom-endpoint';
+import { parseError } from '@/lib/error/parse';
+import type { CustomModel } from '@/lib/models/custom';
+
+export const listCustomModelsAction = async (): Promise<
+  | {
+      models: CustomModel[];
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const user = await currentUser();
+
+    if (!user) {
+      throw new Error('You need to be logged in to view models!');
+    }
+
+    const models = await getCustomModels();
+
+    return { models };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
@@ -1,12 +1,11 @@
 'use server';
 
-import { getSubscribedUser } from '@/lib/auth';
-import { database } from '@/lib/database';
+import { getProjectAccess, getSubscribedUser } from '@/lib/auth';
+import { withProviderKeys } from '@/lib/credentials';
+import { getVisionModel } from '@/lib/custom-endpoint';
 import { parseError } from '@/lib/error/parse';
-import { visionModels } from '@/lib/models/vision';
-import { projects } from '@/schema';
-import { eq } from 'drizzle-orm';
-import OpenAI from 'openai';
+import { routeRequest } from '@/lib/routing';
+import { generateText } from 'ai';
 
 export const describeAction = async (
   url: string,
@@ -20,19 +19,11 @@ export const describeAction = async (
     }
 > => {
   try {
-    await getSubscribedUser();
+    const user = await getSubscribedUser();
 
-    const openai = new OpenAI();
+    const { project } = await getProjectAccess(projectId, 'editor');
 
-    const project = await database.query.projects.findFirst({
-      where: eq(projects.id, projectId),
-    });
-
-    if (!project) {
-      throw new Error('Project not found');
-    }
-
-    const model = visionModels[project.visionModel];
+    const model = getVisionModel(project.visionModel);
 
     if (!model) {
       throw new Error('Model not found');
@@ -47,25 +38,24 @@ export const describeAction = async (
       parsedUrl = `data:${blob.type};base64,${Buffer.from(await blob.arrayBuffer()).toString('base64')}`;
     }
 
-    const response = await openai.chat.completions.create({
-      model: model.providers[0].model.modelId,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            { type: 'text', text: 'Describe this image.' },
+    const {
+      result: { text: description },
+    } = await withProviderKeys({ userId: user.id, projectId }, () =>
+      routeRequest(model, (provider) =>
+        generateText({
+          model: provider.model,
+          messages: [
             {
-              type: 'image_url',
-              image_url: {
-                url: parsedUrl,
-              },
+              role: 'user',
+              content: [
+                { type: 'text', text: 'Describe this image.' },
+                { type: 'image', image: new URL(parsedUrl) },
+              ],
             },
           ],
-        },
-      ],
-    });
-
-    const description = response.choices.at(0)?.message.content;
+        })
+      )
+    );
 
     if (!description) {
       throw new Error('No description found');
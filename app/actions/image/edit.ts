@@ -1,18 +1,19 @@
 'use server';
 
-import { getSubscribedUser } from '@/lib/auth';
-import { database } from '@/lib/database';
+import { getProjectAccess, getSubscribedUser } from '@/lib/auth';
+import { withProviderKeys } from '@/lib/credentials';
+import { getImageModel } from '@/lib/custom-endpoint';
 import { parseError } from '@/lib/error/parse';
-import { imageModels } from '@/lib/models/image';
+import { addGenerationVersion } from '@/lib/history';
+import { patchProjectNode } from '@/lib/patch-node';
+import { getProviderKey } from '@/lib/provider-keys';
+import { routeRequest } from '@/lib/routing';
 import { trackCreditUsage } from '@/lib/stripe';
 import { createClient } from '@/lib/supabase/server';
-import { projects } from '@/schema';
-import type { Edge, Node, Viewport } from '@xyflow/react';
 import {
   type Experimental_GenerateImageResult,
   experimental_generateImage as generateImage,
 } from 'ai';
-import { eq } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 import OpenAI, { toFile } from 'openai';
 
@@ -26,6 +27,7 @@ type EditImageActionProps = {
   nodeId: string;
   projectId: string;
   size?: string;
+  inputHash?: string;
 };
 
 const generateGptImage1Image = async ({
@@ -40,7 +42,7 @@ const generateGptImage1Image = async ({
     type: string;
   }[];
 }) => {
-  const openai = new OpenAI();
+  const openai = new OpenAI({ apiKey: getProviderKey('openai') });
   const promptImages = await Promise.all(
     images.map(async (image) => {
       const response = await fetch(image.url);
@@ -89,6 +91,7 @@ export const editImageAction = async ({
   nodeId,
   projectId,
   size,
+  inputHash,
 }: EditImageActionProps): Promise<
   | {
       nodeData: object;
@@ -101,7 +104,9 @@ export const editImageAction = async ({
     const client = await createClient();
     const user = await getSubscribedUser();
 
-    const model = imageModels[modelId];
+    await getProjectAccess(projectId, 'editor');
+
+    const model = getImageModel(modelId);
 
     if (!model) {
       throw new Error('Model not found');
@@ -111,10 +116,6 @@ export const editImageAction = async ({
       throw new Error('Model does not support editing');
     }
 
-    const provider = model.providers[0];
-
-    let image: Experimental_GenerateImageResult['image'] | undefined;
-
     const defaultPrompt =
       images.length > 1
         ? 'Create a variant of the image.'
@@ -123,59 +124,72 @@ export const editImageAction = async ({
     const prompt =
       !instructions || instructions === '' ? defaultPrompt : instructions;
 
-    if (provider.model.modelId === 'gpt-image-1') {
-      const generatedImageResponse = await generateGptImage1Image({
-        prompt,
-        images,
-        size,
-      });
-
-      await trackCreditUsage({
-        action: 'generate_image',
-        cost: provider.getCost({
-          ...generatedImageResponse.usage,
-          size,
-        }),
-      });
-
-      image = generatedImageResponse.image;
-    } else {
-      // Convert all images to base64 for combining
-      const base64Images = await Promise.all(
-        images.map(async (img) => {
-          const response = await fetch(img.url);
-          const arrayBuffer = await response.arrayBuffer();
-          return Buffer.from(arrayBuffer).toString('base64');
-        })
-      );
-
-      // Use the provider ID to determine the correct providerOptions key
-      const providerId = provider.id || 'nano-banana-pro';
-      
-      const generatedImageResponse = await generateImage({
-        model: provider.model,
-        prompt,
-        size: size as never,
-        providerOptions: {
-          [providerId]: {
-            // Pass multiple images if more than one, otherwise single image
-            ...(base64Images.length > 1 
-              ? { images: base64Images }
-              : { image: base64Images[0] }
-            ),
+    const { image, cost, provider } = await withProviderKeys(
+      { userId: user.id, projectId },
+      async () => {
+        const { result, provider } = await routeRequest(
+          model,
+          async (provider) => {
+            if (provider.model.modelId === 'gpt-image-1') {
+              const generatedImageResponse = await generateGptImage1Image({
+                prompt,
+                images,
+                size,
+              });
+
+              return {
+                image: generatedImageResponse.image,
+                cost: provider.getCost({
+                  ...generatedImageResponse.usage,
+                  size,
+                }),
+              };
+            }
+
+            // Convert all images to base64 for combining
+            const base64Images = await Promise.all(
+              images.map(async (img) => {
+                const response = await fetch(img.url);
+                const arrayBuffer = await response.arrayBuffer();
+                return Buffer.from(arrayBuffer).toString('base64');
+              })
+            );
+
+            // Use the provider ID to determine the correct providerOptions key
+            const providerId = provider.id || 'nano-banana-pro';
+
+            const generatedImageResponse = await generateImage({
+              model: provider.model,
+              prompt,
+              size: size as never,
+              providerOptions: {
+                [providerId]: {
+                  // Pass multiple images if more than one, otherwise single image
+                  ...(base64Images.length > 1
+                    ? { images: base64Images }
+                    : { image: base64Images[0] }),
+                },
+              },
+            });
+
+            return {
+              image: generatedImageResponse.image,
+              cost: provider.getCost({ size }),
+            };
           },
-        },
-      });
+          (provider) => provider.getCost({ size })
+        );
 
-      await trackCreditUsage({
-        action: 'generate_image',
-        cost: provider.getCost({
-          size,
-        }),
-      });
+        await trackCreditUsage({
+          action: 'generate_image',
+          cost: result.cost,
+          provider: provider.id,
+          projectId,
+        });
 
-      image = generatedImageResponse.image;
-    }
+        return { ...result, provider };
+      }
+    );
 
     const bytes = Buffer.from(image.base64, 'base64');
     const contentType = 'image/png';
@@ -194,51 +208,30 @@ export const editImageAction = async ({
       .from('files')
       .getPublicUrl(blob.data.path);
 
-    const project = await database.query.projects.findFirst({
-      where: eq(projects.id, projectId),
-    });
-
-    if (!project) {
-      throw new Error('Project not found');
-    }
-
-    const content = project.content as {
-      nodes: Node[];
-      edges: Edge[];
-      viewport: Viewport;
-    };
-
-    const existingNode = content.nodes.find((n) => n.id === nodeId);
-
-    if (!existingNode) {
-      throw new Error('Node not found');
-    }
-
-    const newData = {
-      ...(existingNode.data ?? {}),
-      updatedAt: new Date().toISOString(),
-      generated: {
-        url: downloadUrl.publicUrl,
-        type: contentType,
-      },
-      description: instructions ?? defaultPrompt,
-    };
-
-    const updatedNodes = content.nodes.map((existingNode) => {
-      if (existingNode.id === nodeId) {
-        return {
-          ...existingNode,
-          data: newData,
-        };
-      }
-
-      return existingNode;
-    });
-
-    await database
-      .update(projects)
-      .set({ content: { ...content, nodes: updatedNodes } })
-      .where(eq(projects.id, projectId));
+    const { data: newData } = await patchProjectNode(
+      projectId,
+      nodeId,
+      (data) =>
+        addGenerationVersion(
+          { ...data, updatedAt: new Date().toISOString() },
+          {
+            output: {
+              generated: {
+                url: downloadUrl.publicUrl,
+                type: contentType,
+              },
+              description: instructions ?? defaultPrompt,
+              inputHash,
+            },
+            model: modelId,
+            prompt,
+            instructions,
+            size,
+            cost,
+            provider: provider.id,
+          }
+        )
+    );
 
     return {
       nodeData: newData,
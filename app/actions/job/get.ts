@@ -0,0 +1,51 @@
+'use server';
+
+import { getProjectAccess } from '@/lib/auth';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import { processJob, toNodeJob } from '@/lib/job-worker';
+import { type NodeJob, isPendingJob } from '@/lib/jobs';
+import { jobs } from '@/schema';
+import { eq } from 'drizzle-orm';
+
+const getJob = (jobId: string) =>
+  database.query.jobs.findFirst({
+    where: eq(jobs.id, jobId),
+  });
+
+export const getJobAction = async (
+  jobId: string
+): Promise<
+  | {
+      job: NodeJob;
+      nodeData?: Record<string, unknown>;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    let job = await getJob(jobId);
+
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    await getProjectAccess(job.projectId, 'viewer');
+
+    // Someone is waiting on the job, so it's moved along without waiting for
+    // the next cron run. Jobs already being worked on are left alone.
+    if (isPendingJob(toNodeJob(job))) {
+      await processJob(job.id);
+      job = (await getJob(jobId)) ?? job;
+    }
+
+    const result = job.result as { nodeData?: Record<string, unknown> } | null;
+
+    return { job: toNodeJob(job), nodeData: result?.nodeData };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
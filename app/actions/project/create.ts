@@ -1,6 +1,7 @@
 'use server';
 
 import { currentUser } from '@/lib/auth';
+import { getVisionModel } from '@/lib/custom-endpoint';
 import { database } from '@/lib/database';
 import { parseError } from '@/lib/error/parse';
 import { transcriptionModels } from '@/lib/models/transcription';
@@ -25,7 +26,11 @@ if (!defaultVisionModel) {
 
 export const createProjectAction = async (
   name: string,
-  welcomeProject?: boolean
+  welcomeProject?: boolean,
+  data?: Pick<
+    Partial<typeof projects.$inferInsert>,
+    'content' | 'variables' | 'transcriptionModel' | 'visionModel'
+  >
 ): Promise<
   | {
       id: string;
@@ -46,8 +51,19 @@ export const createProjectAction = async (
       .values({
         name,
         userId: user.id,
-        transcriptionModel: defaultTranscriptionModel[0],
-        visionModel: defaultVisionModel[0],
+        content: data?.content,
+        variables: data?.variables,
+
+        // Imported projects may reference models that no longer exist
+        transcriptionModel:
+          data?.transcriptionModel &&
+          data.transcriptionModel in transcriptionModels
+            ? data.transcriptionModel
+            : defaultTranscriptionModel[0],
+        visionModel:
+          data?.visionModel && getVisionModel(data.visionModel)
+            ? data.visionModel
+            : defaultVisionModel[0],
         welcomeProject,
       })
       .returning({ id: projects.id });
@@ -3,7 +3,14 @@
 import { currentUser } from '@/lib/auth';
 import { database } from '@/lib/database';
 import { parseError } from '@/lib/error/parse';
-import { projects } from '@/schema';
+import {
+  comments,
+  jobs,
+  projectPreferences,
+  projects,
+  providerKeys,
+  shares,
+} from '@/schema';
 import { and, eq } from 'drizzle-orm';
 
 export const deleteProjectAction = async (
@@ -23,13 +30,31 @@ export const deleteProjectAction = async (
       throw new Error('You need to be logged in to delete a project!');
     }
 
-    const project = await database
-      .delete(projects)
-      .where(and(eq(projects.id, projectId), eq(projects.userId, user.id)));
+    // Everything stored against the project goes with it, so nothing is left
+    // pointing at it and its queued jobs aren't picked up by the worker
+    await database.transaction(async (tx) => {
+      const [project] = await tx
+        .delete(projects)
+        .where(and(eq(projects.id, projectId), eq(projects.userId, user.id)))
+        .returning({ id: projects.id });
 
-    if (!project) {
-      throw new Error('Project not found');
-    }
+      if (!project) {
+        throw new Error('Project not found');
+      }
+
+      // The keys saved for the project's team, and how everyone organised it
+      // on their dashboard
+      await tx
+        .delete(providerKeys)
+        .where(eq(providerKeys.projectId, project.id));
+      await tx
+        .delete(projectPreferences)
+        .where(eq(projectPreferences.projectId, project.id));
+
+      await tx.delete(shares).where(eq(shares.projectId, project.id));
+      await tx.delete(comments).where(eq(comments.projectId, project.id));
+      await tx.delete(jobs).where(eq(jobs.projectId, project.id));
+    });
 
     return { success: true };
   } catch (error) {
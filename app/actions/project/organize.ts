@@ -0,0 +1,73 @@
+'use server';
+
+import { currentUser, getProjectAccess } from '@/lib/auth';
+import { normalizeTag } from '@/lib/dashboard';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import { projectPreferences } from '@/schema';
+
+export const organizeProjectsAction = async (
+  projectIds: string[],
+  data: {
+    tags?: string[];
+    pinned?: boolean;
+    archived?: boolean;
+  }
+): Promise<
+  | {
+      success: true;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const user = await currentUser();
+
+    if (!user) {
+      throw new Error('You need to be logged in to organise projects!');
+    }
+
+    // Organising only changes the user's own dashboard, so anyone with
+    // access to a project can
+    for (const projectId of projectIds) {
+      await getProjectAccess(projectId, 'viewer');
+    }
+
+    if (!projectIds.length) {
+      return { success: true };
+    }
+
+    const tags = data.tags
+      ? [...new Set(data.tags.map(normalizeTag).filter(Boolean))]
+      : undefined;
+
+    let archivedAt: Date | null | undefined;
+
+    if (data.archived !== undefined) {
+      archivedAt = data.archived ? new Date() : null;
+    }
+
+    const preference = { tags, pinned: data.pinned, archivedAt };
+
+    await database
+      .insert(projectPreferences)
+      .values(
+        projectIds.map((projectId) => ({
+          userId: user.id,
+          projectId,
+          ...preference,
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [projectPreferences.userId, projectPreferences.projectId],
+        set: preference,
+      });
+
+    return { success: true };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
@@ -0,0 +1,35 @@
+'use server';
+
+import { getProjectAccess } from '@/lib/auth';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import { projects } from '@/schema';
+import { eq } from 'drizzle-orm';
+
+// Unlike other updates, a new thumbnail doesn't count as an edit
+export const updateProjectThumbnailAction = async (
+  projectId: string,
+  image: string
+): Promise<
+  | {
+      success: true;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    await getProjectAccess(projectId, 'editor');
+
+    await database
+      .update(projects)
+      .set({ image })
+      .where(eq(projects.id, projectId));
+
+    return { success: true };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
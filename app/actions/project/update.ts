@@ -1,42 +1,100 @@
 'use server';
 
-import { currentUser } from '@/lib/auth';
+import { getProjectAccess } from '@/lib/auth';
+import type { ProjectConflict, ProjectContent } from '@/lib/content';
 import { database } from '@/lib/database';
 import { parseError } from '@/lib/error/parse';
 import { projects } from '@/schema';
-import { and, eq } from 'drizzle-orm';
+import { and, eq, sql } from 'drizzle-orm';
+
+// The fields editors can change. Owners can also change who has access to the
+// project, everything else is only ever set by the server.
+const editorFields = [
+  'content',
+  'variables',
+  'name',
+  'transcriptionModel',
+  'visionModel',
+] as const;
+
+const ownerFields = [...editorFields, 'members'] as const;
+
+type ProjectUpdate = Partial<
+  Pick<typeof projects.$inferInsert, (typeof ownerFields)[number]>
+>;
+
+const isField = <T extends string>(fields: readonly T[], field: string) =>
+  fields.includes(field as T);
 
 export const updateProjectAction = async (
   projectId: string,
-  data: Partial<typeof projects.$inferInsert>
+  data: ProjectUpdate,
+  revision?: number
 ): Promise<
   | {
       success: true;
+      revision: number;
     }
   | {
       error: string;
+      conflict?: ProjectConflict;
     }
 > => {
   try {
-    const user = await currentUser();
+    const fields = Object.keys(data);
 
-    if (!user) {
-      throw new Error('You need to be logged in to update a project!');
+    if (!fields.every((field) => isField(ownerFields, field))) {
+      throw new Error('This project field cannot be updated.');
     }
 
+    const required = fields.every((field) => isField(editorFields, field))
+      ? 'editor'
+      : 'owner';
+
+    await getProjectAccess(projectId, required);
+
+    // Content writes bump the revision. When the caller passes the revision
+    // its content is based on, the write is rejected if someone else saved
+    // in the meantime instead of silently overwriting their changes.
+    const isContentUpdate = 'content' in data;
     const project = await database
       .update(projects)
       .set({
         ...data,
         updatedAt: new Date(),
+        ...(isContentUpdate ? { revision: sql`${projects.revision} + 1` } : {}),
       })
-      .where(and(eq(projects.id, projectId), eq(projects.userId, user.id)));
+      .where(
+        and(
+          eq(projects.id, projectId),
+          isContentUpdate && revision !== undefined
+            ? eq(projects.revision, revision)
+            : undefined
+        )
+      )
+      .returning({ revision: projects.revision });
+
+    if (!project.length && revision !== undefined) {
+      const latest = await database.query.projects.findFirst({
+        where: eq(projects.id, projectId),
+      });
+
+      if (latest) {
+        return {
+          error: 'This project was changed somewhere else.',
+          conflict: {
+            revision: latest.revision,
+            content: latest.content as ProjectContent,
+          },
+        };
+      }
+    }
 
-    if (!project) {
+    if (!project.length) {
       throw new Error('Project not found');
     }
 
-    return { success: true };
+    return { success: true, revision: project[0].revision };
   } catch (error) {
     const message = parseError(error);
 
@@ -0,0 +1,33 @@
+'use server';
+
+import { getManagedKeys } from '@/lib/credentials';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import { providerKeys } from '@/schema';
+import { and, eq } from 'drizzle-orm';
+
+export const deleteProviderKeyAction = async (
+  keyId: string,
+  projectId?: string
+): Promise<
+  | {
+      success: true;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const { where } = await getManagedKeys(projectId);
+
+    await database
+      .delete(providerKeys)
+      .where(and(where, eq(providerKeys.id, keyId)));
+
+    return { success: true };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
@@ -0,0 +1,34 @@
+'use server';
+
+import { getManagedKeys } from '@/lib/credentials';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import { type ProviderKey, toProviderKey } from '@/lib/provider-keys';
+import { providerKeys } from '@/schema';
+import { asc } from 'drizzle-orm';
+
+export const listProviderKeysAction = async (
+  projectId?: string
+): Promise<
+  | {
+      keys: ProviderKey[];
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const { where } = await getManagedKeys(projectId);
+
+    const rows = await database.query.providerKeys.findMany({
+      where,
+      orderBy: asc(providerKeys.provider),
+    });
+
+    return { keys: rows.map(toProviderKey) };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
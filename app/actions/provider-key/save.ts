@@ -0,0 +1,80 @@
+'use server';
+
+import {
+  encryptProviderKey,
+  getKeyHint,
+  getManagedKeys,
+} from '@/lib/credentials';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import {
+  type ProviderKey,
+  isKeyProvider,
+  toProviderKey,
+} from '@/lib/provider-keys';
+import { providerKeys } from '@/schema';
+import { and, eq } from 'drizzle-orm';
+
+type SaveProviderKeyActionProps = {
+  provider: string;
+  key: string;
+  projectId?: string;
+};
+
+// Replaces any key already saved for the provider in the same scope
+export const saveProviderKeyAction = async ({
+  provider,
+  key,
+  projectId,
+}: SaveProviderKeyActionProps): Promise<
+  | {
+      key: ProviderKey;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const { user, where } = await getManagedKeys(projectId);
+    const apiKey = key.trim();
+
+    if (!isKeyProvider(provider)) {
+      throw new Error("Keys can't be used for this provider.");
+    }
+
+    if (!apiKey) {
+      throw new Error('Enter a key to save.');
+    }
+
+    const values = {
+      encryptedKey: encryptProviderKey(apiKey),
+      hint: getKeyHint(apiKey),
+      updatedAt: new Date(),
+    };
+
+    const [updated] = await database
+      .update(providerKeys)
+      .set({ ...values, userId: user.id })
+      .where(and(where, eq(providerKeys.provider, provider)))
+      .returning();
+
+    if (updated) {
+      return { key: toProviderKey(updated) };
+    }
+
+    const [created] = await database
+      .insert(providerKeys)
+      .values({ ...values, userId: user.id, projectId, provider })
+      .returning();
+
+    if (!created) {
+      throw new Error('Failed to save key');
+    }
+
+    return { key: toProviderKey(created) };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
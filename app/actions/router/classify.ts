@@ -0,0 +1,85 @@
+'use server';
+
+import { getProjectAccess, getSubscribedUser } from '@/lib/auth';
+import { withProviderKeys } from '@/lib/credentials';
+import { getTextModel } from '@/lib/custom-endpoint';
+import { parseError } from '@/lib/error/parse';
+import { estimateTextCost } from '@/lib/models/text';
+import { routeRequest } from '@/lib/routing';
+import { trackCreditUsage } from '@/lib/stripe';
+import { generateText } from 'ai';
+
+type ClassifyActionProps = {
+  text: string;
+  labels: string[];
+  modelId: string;
+  projectId: string;
+};
+
+export const classifyAction = async ({
+  text,
+  labels,
+  modelId,
+  projectId,
+}: ClassifyActionProps): Promise<
+  | {
+      label: string;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const user = await getSubscribedUser();
+    await getProjectAccess(projectId, 'editor');
+
+    const model = getTextModel(modelId);
+
+    if (!model) {
+      throw new Error('Model not found');
+    }
+
+    if (!labels.length) {
+      throw new Error('Add at least one route to classify into');
+    }
+
+    const label = await withProviderKeys(
+      { userId: user.id, projectId },
+      async () => {
+        const { result, provider } = await routeRequest(
+          model,
+          (provider) =>
+            generateText({
+              model: provider.model,
+              system: [
+                'You classify content into exactly one of the given labels.',
+                'Answer with the label only, exactly as written, and nothing else.',
+                'If none of the labels fit, answer with "none".',
+                `Labels: ${labels.map((item) => `"${item}"`).join(', ')}`,
+              ].join('\n'),
+              prompt: text,
+            }),
+          estimateTextCost
+        );
+
+        await trackCreditUsage({
+          action: 'classify',
+          cost: provider.getCost({
+            input: result.usage.promptTokens,
+            output: result.usage.completionTokens,
+          }),
+          provider: provider.id,
+          projectId,
+        });
+
+        return result.text;
+      }
+    );
+
+    return { label };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
@@ -0,0 +1,67 @@
+'use server';
+
+import { getProjectAccess } from '@/lib/auth';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import {
+  type ShareLink,
+  createShareToken,
+  hashSharePassword,
+  toShareLink,
+} from '@/lib/share';
+import { shares } from '@/schema';
+
+type CreateShareActionProps = {
+  password?: string;
+  expiresInDays?: number;
+};
+
+const day = 24 * 60 * 60 * 1000;
+
+// Publishes the project as it was last saved. Later changes aren't shown
+// until a new link is created.
+export const createShareAction = async (
+  projectId: string,
+  { password, expiresInDays }: CreateShareActionProps
+): Promise<
+  | {
+      share: ShareLink;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const { user, project } = await getProjectAccess(projectId, 'editor');
+
+    if (!project.content) {
+      throw new Error('Save the project before sharing it.');
+    }
+
+    const [share] = await database
+      .insert(shares)
+      .values({
+        token: createShareToken(),
+        projectId,
+        userId: user.id,
+        name: project.name,
+        content: project.content,
+        variables: project.variables,
+        passwordHash: password ? hashSharePassword(password) : null,
+        expiresAt: expiresInDays
+          ? new Date(Date.now() + expiresInDays * day)
+          : null,
+      })
+      .returning();
+
+    if (!share) {
+      throw new Error('Failed to create share link');
+    }
+
+    return { share: toShareLink(share) };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
@@ -0,0 +1,33 @@
+'use server';
+
+import { getProjectAccess } from '@/lib/auth';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import { shares } from '@/schema';
+import { and, eq } from 'drizzle-orm';
+
+export const deleteShareAction = async (
+  projectId: string,
+  shareId: string
+): Promise<
+  | {
+      success: true;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    await getProjectAccess(projectId, 'editor');
+
+    await database
+      .delete(shares)
+      .where(and(eq(shares.id, shareId), eq(shares.projectId, projectId)));
+
+    return { success: true };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
@@ -0,0 +1,41 @@
+'use server';
+
+import { createProjectAction } from '@/app/actions/project/create';
+import { currentUser } from '@/lib/auth';
+import { parseError } from '@/lib/error/parse';
+import { getShare, hasShareAccess } from '@/lib/share';
+
+// Copies the shared snapshot into a new project owned by the viewer
+export const duplicateShareAction = async (
+  token: string
+): Promise<
+  | {
+      id: string;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const user = await currentUser();
+
+    if (!user) {
+      throw new Error('You need to be logged in to duplicate this project!');
+    }
+
+    const share = await getShare(token);
+
+    if (!share || !(await hasShareAccess(share))) {
+      throw new Error('This link has expired or been removed.');
+    }
+
+    return await createProjectAction(`${share.name} (copy)`, false, {
+      content: share.content,
+      variables: share.variables,
+    });
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
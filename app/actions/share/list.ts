@@ -0,0 +1,34 @@
+'use server';
+
+import { getProjectAccess } from '@/lib/auth';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import { type ShareLink, toShareLink } from '@/lib/share';
+import { shares } from '@/schema';
+import { desc, eq } from 'drizzle-orm';
+
+export const listSharesAction = async (
+  projectId: string
+): Promise<
+  | {
+      shares: ShareLink[];
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    await getProjectAccess(projectId, 'editor');
+
+    const rows = await database.query.shares.findMany({
+      where: eq(shares.projectId, projectId),
+      orderBy: desc(shares.createdAt),
+    });
+
+    return { shares: rows.map(toShareLink) };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
@@ -0,0 +1,77 @@
+'use server';
+
+import { parseError } from '@/lib/error/parse';
+import { createRateLimiter, slidingWindow } from '@/lib/rate-limit';
+import {
+  getShare,
+  getShareAccessKey,
+  getShareCookieName,
+  verifySharePassword,
+} from '@/lib/share';
+import { cookies, headers } from 'next/headers';
+
+// Guessing attempts are limited per link and IP address
+const rateLimiter = createRateLimiter({
+  limiter: slidingWindow(5, '1 m'),
+  prefix: 'share-unlock',
+});
+
+// The same whether the password is wrong or the limit was hit, so neither
+// tells a guesser anything
+const unlockError =
+  'Incorrect password, or too many attempts. Try again later.';
+
+export const unlockShareAction = async (
+  token: string,
+  password: string
+): Promise<
+  | {
+      success: true;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const share = await getShare(token);
+
+    if (!share) {
+      throw new Error('This link has expired or been removed.');
+    }
+
+    if (share.passwordHash && process.env.NODE_ENV === 'production') {
+      const headerStore = await headers();
+      const ip = headerStore.get('x-forwarded-for') || 'anonymous';
+      const { success } = await rateLimiter.limit(`${share.token}:${ip}`);
+
+      if (!success) {
+        throw new Error(unlockError);
+      }
+    }
+
+    if (
+      share.passwordHash &&
+      !verifySharePassword(password, share.passwordHash)
+    ) {
+      throw new Error(unlockError);
+    }
+
+    // Embedded canvases are unlocked inside a third-party iframe
+    const secure = process.env.NODE_ENV === 'production';
+    const cookieStore = await cookies();
+
+    cookieStore.set(getShareCookieName(share.token), getShareAccessKey(share), {
+      httpOnly: true,
+      secure,
+      sameSite: secure ? 'none' : 'lax',
+      path: '/',
+      expires: share.expiresAt ?? undefined,
+    });
+
+    return { success: true };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
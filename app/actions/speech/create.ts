@@ -1,15 +1,15 @@
 'use server';
 
-import { getSubscribedUser } from '@/lib/auth';
-import { database } from '@/lib/database';
+import { getProjectAccess, getSubscribedUser } from '@/lib/auth';
+import { withProviderKeys } from '@/lib/credentials';
 import { parseError } from '@/lib/error/parse';
+import { addGenerationVersion } from '@/lib/history';
 import { speechModels } from '@/lib/models/speech';
+import { patchProjectNode } from '@/lib/patch-node';
+import { routeRequest } from '@/lib/routing';
 import { trackCreditUsage } from '@/lib/stripe';
 import { createClient } from '@/lib/supabase/server';
-import { projects } from '@/schema';
-import type { Edge, Node, Viewport } from '@xyflow/react';
 import { experimental_generateSpeech as generateSpeech } from 'ai';
-import { eq } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 
 type GenerateSpeechActionProps = {
@@ -19,6 +19,7 @@ type GenerateSpeechActionProps = {
   projectId: string;
   instructions?: string;
   voice?: string;
+  inputHash?: string;
 };
 
 export const generateSpeechAction = async ({
@@ -28,6 +29,7 @@ export const generateSpeechAction = async ({
   projectId,
   instructions,
   voice,
+  inputHash,
 }: GenerateSpeechActionProps): Promise<
   | {
       nodeData: object;
@@ -40,32 +42,52 @@ export const generateSpeechAction = async ({
     const client = await createClient();
     const user = await getSubscribedUser();
 
+    await getProjectAccess(projectId, 'editor');
+
     const model = speechModels[modelId];
 
     if (!model) {
       throw new Error('Model not found');
     }
 
-    const provider = model.providers[0];
-
-    const { audio } = await generateSpeech({
-      model: provider.model,
-      text,
-      outputFormat: 'mp3',
-      instructions,
-      voice,
-    });
-
-    await trackCreditUsage({
-      action: 'generate_speech',
-      cost: provider.getCost(text.length),
-    });
+    const { audio, provider, cost } = await withProviderKeys(
+      { userId: user.id, projectId },
+      async () => {
+        const { result, provider } = await routeRequest(
+          model,
+          (provider) =>
+            generateSpeech({
+              model: provider.model,
+              text,
+              outputFormat: 'mp3',
+              instructions,
+              voice,
+            }),
+          (provider) => provider.getCost(text.length)
+        );
+
+        const cost = provider.getCost(text.length);
+
+        await trackCreditUsage({
+          action: 'generate_speech',
+          cost,
+          provider: provider.id,
+          projectId,
+        });
+
+        return { audio: result.audio, provider, cost };
+      }
+    );
 
     const blob = await client.storage
       .from('files')
-      .upload(`${user.id}/${nanoid()}.mp3`, new Blob([audio.uint8Array as BlobPart]), {
-        contentType: audio.mimeType,
-      });
+      .upload(
+        `${user.id}/${nanoid()}.mp3`,
+        new Blob([audio.uint8Array as BlobPart]),
+        {
+          contentType: audio.mimeType,
+        }
+      );
 
     if (blob.error) {
       throw new Error(blob.error.message);
@@ -75,50 +97,28 @@ export const generateSpeechAction = async ({
       .from('files')
       .getPublicUrl(blob.data.path);
 
-    const project = await database.query.projects.findFirst({
-      where: eq(projects.id, projectId),
-    });
-
-    if (!project) {
-      throw new Error('Project not found');
-    }
-
-    const content = project.content as {
-      nodes: Node[];
-      edges: Edge[];
-      viewport: Viewport;
-    };
-
-    const existingNode = content.nodes.find((n) => n.id === nodeId);
-
-    if (!existingNode) {
-      throw new Error('Node not found');
-    }
-
-    const newData = {
-      ...(existingNode.data ?? {}),
-      updatedAt: new Date().toISOString(),
-      generated: {
-        url: downloadUrl.publicUrl,
-        type: audio.mimeType,
-      },
-    };
-
-    const updatedNodes = content.nodes.map((existingNode) => {
-      if (existingNode.id === nodeId) {
-        return {
-          ...existingNode,
-          data: newData,
-        };
-      }
-
-      return existingNode;
-    });
-
-    await database
-      .update(projects)
-      .set({ content: { ...content, nodes: updatedNodes } })
-      .where(eq(projects.id, projectId));
+    const { data: newData } = await patchProjectNode(
+      projectId,
+      nodeId,
+      (data) =>
+        addGenerationVersion(
+          { ...data, updatedAt: new Date().toISOString() },
+          {
+            output: {
+              generated: {
+                url: downloadUrl.publicUrl,
+                type: audio.mimeType,
+              },
+              inputHash,
+            },
+            model: modelId,
+            prompt: text,
+            instructions,
+            cost,
+            provider: provider.id,
+          }
+        )
+    );
 
     return {
       nodeData: newData,
@@ -1,12 +1,11 @@
 'use server';
 
-import { getSubscribedUser } from '@/lib/auth';
-import { database } from '@/lib/database';
+import { getProjectAccess, getSubscribedUser } from '@/lib/auth';
+import { withProviderKeys } from '@/lib/credentials';
 import { parseError } from '@/lib/error/parse';
 import { transcriptionModels } from '@/lib/models/transcription';
-import { projects } from '@/schema';
+import { routeRequest } from '@/lib/routing';
 import { experimental_transcribe as transcribe } from 'ai';
-import { eq } from 'drizzle-orm';
 
 export const transcribeAction = async (
   url: string,
@@ -20,15 +19,9 @@ export const transcribeAction = async (
     }
 > => {
   try {
-    await getSubscribedUser();
+    const user = await getSubscribedUser();
 
-    const project = await database.query.projects.findFirst({
-      where: eq(projects.id, projectId),
-    });
-
-    if (!project) {
-      throw new Error('Project not found');
-    }
+    const { project } = await getProjectAccess(projectId, 'editor');
 
     const model = transcriptionModels[project.transcriptionModel];
 
@@ -36,11 +29,16 @@ export const transcribeAction = async (
       throw new Error('Model not found');
     }
 
-    const provider = model.providers[0];
-    const transcript = await transcribe({
-      model: provider.model,
-      audio: new URL(url),
-    });
+    const { result: transcript } = await withProviderKeys(
+      { userId: user.id, projectId },
+      () =>
+        routeRequest(model, (provider) =>
+          transcribe({
+            model: provider.model,
+            audio: new URL(url),
+          })
+        )
+    );
 
     return {
       transcript: transcript.text,
@@ -0,0 +1,56 @@
+'use server';
+
+import { currentUser } from '@/lib/auth';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import type { TemplateContent, TemplateInput } from '@/lib/templates';
+import { templates } from '@/schema';
+
+export const createTemplateAction = async (
+  name: string,
+  content: TemplateContent,
+  inputs: TemplateInput[],
+  description?: string
+): Promise<
+  | {
+      id: string;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const user = await currentUser();
+
+    if (!user) {
+      throw new Error('You need to be logged in to create a template!');
+    }
+
+    if (!content.nodes.length) {
+      throw new Error('Select at least one node to save as a template.');
+    }
+
+    const nodeIds = new Set(content.nodes.map((node) => node.id));
+
+    const template = await database
+      .insert(templates)
+      .values({
+        name,
+        description,
+        content,
+        inputs: inputs.filter((input) => nodeIds.has(input.nodeId)),
+        userId: user.id,
+      })
+      .returning({ id: templates.id });
+
+    if (!template?.length) {
+      throw new Error('Failed to create template');
+    }
+
+    return { id: template[0].id };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
@@ -0,0 +1,36 @@
+'use server';
+
+import { currentUser } from '@/lib/auth';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import { templates } from '@/schema';
+import { and, eq } from 'drizzle-orm';
+
+export const deleteTemplateAction = async (
+  templateId: string
+): Promise<
+  | {
+      success: true;
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const user = await currentUser();
+
+    if (!user) {
+      throw new Error('You need to be logged in to delete a template!');
+    }
+
+    await database
+      .delete(templates)
+      .where(and(eq(templates.id, templateId), eq(templates.userId, user.id)));
+
+    return { success: true };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
@@ -0,0 +1,44 @@
+'use server';
+
+import { currentUser } from '@/lib/auth';
+import { database } from '@/lib/database';
+import { parseError } from '@/lib/error/parse';
+import type { Template, TemplateContent, TemplateInput } from '@/lib/templates';
+import { templates } from '@/schema';
+import { desc, eq } from 'drizzle-orm';
+
+export const listTemplatesAction = async (): Promise<
+  | {
+      templates: Template[];
+    }
+  | {
+      error: string;
+    }
+> => {
+  try {
+    const user = await currentUser();
+
+    if (!user) {
+      throw new Error('You need to be logged in to view templates!');
+    }
+
+    const rows = await database.query.templates.findMany({
+      where: eq(templates.userId, user.id),
+      orderBy: desc(templates.createdAt),
+    });
+
+    return {
+      templates: rows.map((row) => ({
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        content: row.content as TemplateContent,
+        inputs: row.inputs as TemplateInput[],
+      })),
+    };
+  } catch (error) {
+    const message = parseError(error);
+
+    return { error: message };
+  }
+};
@@ -1,9 +1,12 @@
-import { getSubscribedUser } from '@/lib/auth';
+import { getProjectAccess, getSubscribedUser } from '@/lib/auth';
+import { withProviderKeys } from '@/lib/credentials';
+import { getTextModel } from '@/lib/custom-endpoint';
 import { parseError } from '@/lib/error/parse';
-import { textModels } from '@/lib/models/text';
+import { estimateTextCost } from '@/lib/models/text';
 import { createRateLimiter, slidingWindow } from '@/lib/rate-limit';
+import { routeLanguageModel } from '@/lib/routing';
 import { trackCreditUsage } from '@/lib/stripe';
-import { streamText } from 'ai';
+import { createDataStreamResponse, streamText } from 'ai';
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
@@ -15,8 +18,10 @@ const rateLimiter = createRateLimiter({
 });
 
 export const POST = async (req: Request) => {
+  let user: Awaited<ReturnType<typeof getSubscribedUser>>;
+
   try {
-    await getSubscribedUser();
+    user = await getSubscribedUser();
   } catch (error) {
     const message = parseError(error);
 
@@ -40,46 +45,79 @@ export const POST = async (req: Request) => {
     }
   }
 
-  const { messages, modelId } = await req.json();
+  const { messages, modelId, projectId } = await req.json();
 
   if (typeof modelId !== 'string') {
     return new Response('Model must be a string', { status: 400 });
   }
 
-  const model = textModels[modelId];
+  const model = getTextModel(modelId);
 
   if (!model) {
     return new Response('Invalid model', { status: 400 });
   }
 
-  const provider = model.providers[0];
-
-  const result = streamText({
-    model: provider.model,
-    system: [
-      'You are a helpful assistant that synthesizes an answer or content.',
-      'The user will provide a collection of data from disparate sources.',
-      'They may also provide instructions for how to synthesize the content.',
-      'If the instructions are a question, then your goal is to answer the question based on the context provided.',
-      provider.model.modelId.startsWith('grok') &&
-        'The user may refer to you as @gork, you can ignore this',
-      "You will then synthesize the content based on the user's instructions and the context provided.",
-      'The output should be a concise summary of the content, no more than 100 words.',
-    ].join('\n'),
-    messages,
-    onFinish: async ({ usage }) => {
-      await trackCreditUsage({
-        action: 'chat',
-        cost: provider.getCost({
-          input: usage.promptTokens,
-          output: usage.completionTokens,
-        }),
-      });
+  if (projectId !== undefined && typeof projectId !== 'string') {
+    return new Response('Project must be a string', { status: 400 });
+  }
+
+  // The project's keys are used for generations within it
+  if (projectId) {
+    try {
+      await getProjectAccess(projectId, 'editor');
+    } catch (error) {
+      const message = parseError(error);
+
+      return new Response(message, { status: 403 });
+    }
+  }
+
+  let provider = model.providers[0];
+  const routedModel = routeLanguageModel(
+    model,
+    (served) => {
+      provider = served;
     },
-  });
+    estimateTextCost
+  );
+
+  return withProviderKeys({ userId: user.id, projectId }, async () =>
+    createDataStreamResponse({
+      execute: (dataStream) => {
+        const result = streamText({
+          model: routedModel,
+          system: [
+            'You are a helpful assistant that synthesizes an answer or content.',
+            'The user will provide a collection of data from disparate sources.',
+            'They may also provide instructions for how to synthesize the content.',
+            'If the instructions are a question, then your goal is to answer the question based on the context provided.',
+            routedModel.modelId.startsWith('grok') &&
+              'The user may refer to you as @gork, you can ignore this',
+            "You will then synthesize the content based on the user's instructions and the context provided.",
+            'The output should be a concise summary of the content, no more than 100 words.',
+          ].join('\n'),
+          messages,
+          onFinish: async ({ usage }) => {
+            // Recorded with the node's output
+            dataStream.writeMessageAnnotation({ provider: provider.id });
+
+            await trackCreditUsage({
+              action: 'chat',
+              cost: provider.getCost({
+                input: usage.promptTokens,
+                output: usage.completionTokens,
+              }),
+              provider: provider.id,
+              projectId,
+            });
+          },
+        });
 
-  return result.toDataStreamResponse({
-    sendReasoning: true,
-    sendSources: true,
-  });
+        result.mergeIntoDataStream(dataStream, {
+          sendReasoning: true,
+          sendSources: true,
+        });
+      },
+    })
+  );
 };
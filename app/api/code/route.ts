@@ -1,9 +1,12 @@
-import { getSubscribedUser } from '@/lib/auth';
+import { getProjectAccess, getSubscribedUser } from '@/lib/auth';
+import { withProviderKeys } from '@/lib/credentials';
+import { getTextModel } from '@/lib/custom-endpoint';
 import { parseError } from '@/lib/error/parse';
-import { textModels } from '@/lib/models/text';
+import { estimateTextCost } from '@/lib/models/text';
 import { createRateLimiter, slidingWindow } from '@/lib/rate-limit';
+import { routeLanguageModel } from '@/lib/routing';
 import { trackCreditUsage } from '@/lib/stripe';
-import { streamText } from 'ai';
+import { createDataStreamResponse, streamText } from 'ai';
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
@@ -15,8 +18,10 @@ const rateLimiter = createRateLimiter({
 });
 
 export const POST = async (req: Request) => {
+  let user: Awaited<ReturnType<typeof getSubscribedUser>>;
+
   try {
-    await getSubscribedUser();
+    user = await getSubscribedUser();
   } catch (error) {
     const message = parseError(error);
 
@@ -40,42 +45,75 @@ export const POST = async (req: Request) => {
     }
   }
 
-  const { messages, modelId, language } = await req.json();
+  const { messages, modelId, language, projectId } = await req.json();
 
   if (typeof modelId !== 'string') {
     return new Response('Model must be a string', { status: 400 });
   }
 
-  const model = textModels[modelId];
+  const model = getTextModel(modelId);
 
   if (!model) {
     return new Response('Invalid model', { status: 400 });
   }
 
-  const provider = model.providers[0];
-
-  const result = streamText({
-    model: provider.model,
-    system: [
-      `Output the code in the language specified: ${language ?? 'javascript'}`,
-      'If the user specifies an output language in the context below, ignore it.',
-      'Respond with the code only, no other text.',
-      'Do not format the code as Markdown, just return the code as is.',
-    ].join('\n'),
-    messages,
-    onError: (error) => {
-      console.error(error);
-    },
-    onFinish: async ({ usage }) => {
-      await trackCreditUsage({
-        action: 'code',
-        cost: provider.getCost({
-          input: usage.promptTokens,
-          output: usage.completionTokens,
-        }),
-      });
+  if (projectId !== undefined && typeof projectId !== 'string') {
+    return new Response('Project must be a string', { status: 400 });
+  }
+
+  // The project's keys are used for generations within it
+  if (projectId) {
+    try {
+      await getProjectAccess(projectId, 'editor');
+    } catch (error) {
+      const message = parseError(error);
+
+      return new Response(message, { status: 403 });
+    }
+  }
+
+  let provider = model.providers[0];
+  const routedModel = routeLanguageModel(
+    model,
+    (served) => {
+      provider = served;
     },
-  });
+    estimateTextCost
+  );
+
+  return withProviderKeys({ userId: user.id, projectId }, async () =>
+    createDataStreamResponse({
+      execute: (dataStream) => {
+        const result = streamText({
+          model: routedModel,
+          system: [
+            `Output the code in the language specified: ${language ?? 'javascript'}`,
+            'If the user specifies an output language in the context below, ignore it.',
+            'Respond with the code only, no other text.',
+            'Do not format the code as Markdown, just return the code as is.',
+          ].join('\n'),
+          messages,
+          onError: (error) => {
+            console.error(error);
+          },
+          onFinish: async ({ usage }) => {
+            // Recorded with the node's output
+            dataStream.writeMessageAnnotation({ provider: provider.id });
+
+            await trackCreditUsage({
+              action: 'code',
+              cost: provider.getCost({
+                input: usage.promptTokens,
+                output: usage.completionTokens,
+              }),
+              provider: provider.id,
+              projectId,
+            });
+          },
+        });
 
-  return result.toDataStreamResponse();
+        result.mergeIntoDataStream(dataStream);
+      },
+    })
+  );
 };
@@ -0,0 +1,16 @@
+import { env } from '@/lib/env';
+import { processJobs } from '@/lib/job-worker';
+import { NextResponse } from 'next/server';
+
+export const maxDuration = 800; // 13 minutes
+
+// Called every minute by Vercel Cron to move along jobs no one is watching
+export async function GET(req: Request) {
+  if (req.headers.get('authorization') !== `Bearer ${env.CRON_SECRET}`) {
+    return new NextResponse('Unauthorized', { status: 401 });
+  }
+
+  const processed = await processJobs();
+
+  return NextResponse.json({ processed });
+}
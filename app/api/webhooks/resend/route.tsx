@@ -3,9 +3,9 @@ import { LoginEmailTemplate } from '@/emails/sign-in';
 import { SignupEmailTemplate } from '@/emails/sign-up';
 import { env } from '@/lib/env';
 import { parseError } from '@/lib/error/parse';
+import { resend } from '@/lib/resend';
 import { NextResponse } from 'next/server';
 import type { ReactElement } from 'react';
-import { Resend } from 'resend';
 import { Webhook } from 'standardwebhooks';
 
 type WebhookPayload = {
@@ -34,8 +34,6 @@ type WebhookPayload = {
   };
 };
 
-const resend = new Resend(env.RESEND_TOKEN);
-
 export const POST = async (req: Request) => {
   try {
     const payload = await req.text();
@@ -67,7 +65,10 @@ export const POST = async (req: Request) => {
 
     if (email_action_type === 'signup') {
       // Skip sending signup confirmation emails since confirmations are disabled
-      return NextResponse.json({ message: 'Signup confirmation emails are disabled' }, { status: 200 });
+      return NextResponse.json(
+        { message: 'Signup confirmation emails are disabled' },
+        { status: 200 }
+      );
     } else if (email_action_type === 'magiclink') {
       react = (
         <LoginEmailTemplate
@@ -1,16 +1,58 @@
 'use client';
 
-import { updateProjectAction } from '@/app/actions/project/update';
 import { useAnalytics } from '@/hooks/use-analytics';
-import { useSaveProject } from '@/hooks/use-save-project';
-import { handleError } from '@/lib/error/handle';
+import { useCanvasSave } from '@/hooks/use-canvas-save';
+import {
+  type CanvasChanges,
+  useCollaboration,
+} from '@/hooks/use-collaboration';
+import { useExecution } from '@/hooks/use-execution';
+import { useGraphRunner } from '@/hooks/use-graph-runner';
+import { useStartPresentation } from '@/hooks/use-presentation';
+import { useVariables } from '@/hooks/use-variables';
+import { withAnnotationDefaults, withFrameContents } from '@/lib/annotations';
+import {
+  createGroup,
+  duplicateGroup,
+  getGroupProxyEdges,
+  getHandleChildId,
+  isGroupNode,
+  isGroupProxyEdge,
+  resolveGroupConnection,
+} from '@/lib/groups';
+import {
+  type LayoutDensity,
+  getLayout,
+  isLayoutNode,
+  layoutDensities,
+  layoutSpacings,
+} from '@/lib/layout';
+import {
+  type Template,
+  getTemplateNodes,
+  instantiateTemplate,
+} from '@/lib/templates';
+import {
+  type CanvasCommand,
+  canMergeCommands,
+  getEdgeChangeSet,
+  getNodeChangeSet,
+  isEmptyCommand,
+} from '@/lib/undo';
 import { uploadFile } from '@/lib/upload';
 import { isValidSourceTarget } from '@/lib/xyflow';
+import { GraphExecutorProvider } from '@/providers/graph-executor';
 import { NodeDropzoneProvider } from '@/providers/node-dropzone';
 import { NodeOperationsProvider } from '@/providers/node-operations';
-import { useProject } from '@/providers/project';
+import {
+  useProject,
+  useProjectRole,
+  useProjectShared,
+} from '@/providers/project';
+import { StaleProvider } from '@/providers/stale';
 import {
   Background,
+  type Handle,
   type IsValidConnection,
   type OnConnect,
   type OnConnectEnd,
@@ -24,28 +66,59 @@ import {
 } from '@xyflow/react';
 import {
   type Edge,
+  type EdgeChange,
   type Node,
+  type NodeChange,
+  type XYPosition,
   applyEdgeChanges,
   applyNodeChanges,
 } from '@xyflow/react';
-import { BoxSelectIcon, PlusIcon } from 'lucide-react';
+import {
+  BoxSelectIcon,
+  GroupIcon,
+  LayoutTemplateIcon,
+  ListChecksIcon,
+  NetworkIcon,
+  PlayIcon,
+  PlusIcon,
+  PresentationIcon,
+  SaveIcon,
+} from 'lucide-react';
 import { nanoid } from 'nanoid';
 import type { MouseEvent, MouseEventHandler } from 'react';
-import { useCallback, useState, useEffect } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useHotkeys } from 'react-hotkeys-hook';
-import { useDebouncedCallback } from 'use-debounce';
+import { Collaborators } from './collaborators';
 import { ConnectionLine } from './connection-line';
 import { edgeTypes } from './edges';
+import { InsertTemplate } from './insert-template';
 import { nodeTypes } from './nodes';
+import { SaveTemplate } from './save-template';
 import {
   ContextMenu,
   ContextMenuContent,
   ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
   ContextMenuTrigger,
 } from './ui/context-menu';
 
+const layoutDuration = 300;
+
+// Router routes are kept when a connection is dropped on the pane, group
+// handles belong to the child behind them
+const getDroppedSourceHandle = (handle: Handle | null) =>
+  handle?.type === 'source' && !getHandleChildId(handle.id)
+    ? handle.id
+    : undefined;
+
 export const Canvas = ({ children, ...props }: ReactFlowProps) => {
   const project = useProject();
+  const role = useProjectRole();
+  const shared = useProjectShared();
+  const readOnly = role === 'viewer';
   const {
     onConnect,
     onConnectStart,
@@ -64,9 +137,18 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
     initialEdges ?? content?.edges ?? []
   );
   const [copiedNodes, setCopiedNodes] = useState<Node[]>([]);
+  const displayedEdges = useMemo(
+    () => [...edges, ...getGroupProxyEdges(nodes, edges)],
+    [nodes, edges]
+  );
+  const [templateSelection, setTemplateSelection] = useState<{
+    nodes: Node[];
+    edges: Edge[];
+  } | null>(null);
+  const [insertTemplateOpen, setInsertTemplateOpen] = useState(false);
+  const contextMenuPosition = useRef<XYPosition>({ x: 0, y: 0 });
   const {
     getEdges,
-    toObject,
     screenToFlowPosition,
     getNodes,
     getNode,
@@ -74,34 +156,111 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
     getViewport,
   } = useReactFlow();
   const analytics = useAnalytics();
-  const [saveState, setSaveState] = useSaveProject();
+  const [execution] = useExecution();
+  const startPresentation = useStartPresentation();
+  const variables = useVariables();
+
+  // Undo history lives outside of the saved content, so autosaving never
+  // resets it and undone states are persisted like any other edit
+  const history = useRef<{ past: CanvasCommand[]; future: CanvasCommand[] }>({
+    past: [],
+    future: [],
+  });
+  const pendingCommand = useRef<CanvasCommand | null>(null);
+  const dragOrigins = useRef(new Map<string, XYPosition>());
+  const layoutFrame = useRef<number | null>(null);
+
+  const save = useCanvasSave(setNodes, setEdges);
+
+  // Remote changes are already saved by the session that made them, so they
+  // are neither saved again nor added to the local undo history
+  const handleRemoteChanges = useCallback(
+    ({ nodes: nodeChanges, edges: edgeChanges }: CanvasChanges) => {
+      setNodes((current) =>
+        applyNodeChanges(
+          nodeChanges.map((change) =>
+            change.type === 'replace'
+              ? {
+                  ...change,
+                  item: {
+                    ...change.item,
+                    selected: current.find((node) => node.id === change.id)
+                      ?.selected,
+                  },
+                }
+              : change
+          ),
+          current
+        )
+      );
+      setEdges((current) => applyEdgeChanges(edgeChanges, current));
+    },
+    []
+  );
 
-  const save = useDebouncedCallback(async () => {
-    if (saveState.isSaving || !project?.userId || !project?.id) {
-      return;
+  // Shared snapshots are detached from the project they were published from
+  const { collaborators, broadcastChanges, broadcastCursor } = useCollaboration(
+    shared ? undefined : project?.id,
+    role,
+    handleRemoteChanges
+  );
+
+  // Changes made in the same tick, e.g. deleting nodes along with their
+  // edges, are grouped into a single command
+  const getPendingCommand = useCallback(() => {
+    if (pendingCommand.current) {
+      return pendingCommand.current;
     }
 
-    try {
-      setSaveState((prev) => ({ ...prev, isSaving: true }));
+    const command: CanvasCommand = { nodes: [], edges: [], updatedAt: 0 };
+    pendingCommand.current = command;
 
-      const response = await updateProjectAction(project.id, {
-        content: toObject(),
-      });
+    queueMicrotask(() => {
+      pendingCommand.current = null;
+      command.updatedAt = Date.now();
 
-      if ('error' in response) {
-        throw new Error(response.error);
+      if (isEmptyCommand(command)) {
+        return;
       }
 
-      setSaveState((prev) => ({ ...prev, lastSaved: new Date() }));
-    } catch (error) {
-      handleError('Error saving project', error);
-    } finally {
-      setSaveState((prev) => ({ ...prev, isSaving: false }));
-    }
-  }, 1000);
+      const { past } = history.current;
+      const previous = past.at(-1);
+
+      if (previous && canMergeCommands(previous, command)) {
+        previous.nodes.push(...command.nodes);
+        previous.updatedAt = command.updatedAt;
+      } else {
+        past.push(command);
+      }
+
+      history.current.future = [];
+    });
+
+    return command;
+  }, []);
+
+  const recordNodeChanges = useCallback(
+    (changes: NodeChange[]) => {
+      getPendingCommand().nodes.push(
+        getNodeChangeSet(changes, getNodes(), dragOrigins.current)
+      );
+    },
+    [getPendingCommand, getNodes]
+  );
+
+  const recordEdgeChanges = useCallback(
+    (changes: EdgeChange[]) => {
+      getPendingCommand().edges.push(getEdgeChangeSet(changes, getEdges()));
+    },
+    [getPendingCommand, getEdges]
+  );
 
   const handleNodesChange = useCallback<OnNodesChange>(
-    (changes) => {
+    (nodeChanges) => {
+      const changes = withFrameContents(nodeChanges, getNodes());
+
+      recordNodeChanges(changes);
+      broadcastChanges({ nodes: changes });
       setNodes((current) => {
         const updated = applyNodeChanges(changes, current);
         save();
@@ -109,11 +268,22 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
         return updated;
       });
     },
-    [save, onNodesChange]
+    [save, onNodesChange, recordNodeChanges, broadcastChanges, getNodes]
   );
 
   const handleEdgesChange = useCallback<OnEdgesChange>(
-    (changes) => {
+    (allChanges) => {
+      // Edges to collapsed groups are derived from the real edges below
+      const changes = allChanges.filter(
+        (change) => !isGroupProxyEdge('id' in change ? change : change.item)
+      );
+
+      if (!changes.length) {
+        return;
+      }
+
+      recordEdgeChanges(changes);
+      broadcastChanges({ edges: changes });
       setEdges((current) => {
         const updated = applyEdgeChanges(changes, current);
         save();
@@ -121,7 +291,7 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
         return updated;
       });
     },
-    [save, onEdgesChange]
+    [save, onEdgesChange, recordEdgeChanges, broadcastChanges]
   );
 
   const handleConnect = useCallback<OnConnect>(
@@ -129,31 +299,27 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
       const newEdge: Edge = {
         id: nanoid(),
         type: 'animated',
-        ...connection,
+        ...resolveGroupConnection(connection),
       };
-      setEdges((eds: Edge[]) => eds.concat(newEdge));
-      save();
+      handleEdgesChange([{ type: 'add', item: newEdge }]);
       onConnect?.(connection);
     },
-    [save, onConnect]
+    [handleEdgesChange, onConnect]
   );
 
   const addNode = useCallback(
     (type: string, options?: Record<string, unknown>) => {
-      const { data: nodeData, ...rest } = options ?? {};
+      const { data: nodeData, ...rest } = withAnnotationDefaults(type, options);
       const newNode: Node = {
         id: nanoid(),
         type,
-        data: {
-          ...(nodeData ? nodeData : {}),
-        },
+        data: nodeData,
         position: { x: 0, y: 0 },
         origin: [0, 0.5],
         ...rest,
       };
 
-      setNodes((nds: Node[]) => nds.concat(newNode));
-      save();
+      handleNodesChange([{ type: 'add', item: newNode }]);
 
       analytics.track('toolbar', 'node', 'added', {
         type,
@@ -161,7 +327,7 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
 
       return newNode.id;
     },
-    [save, analytics]
+    [handleNodesChange, analytics]
   );
 
   const duplicateNode = useCallback(
@@ -172,6 +338,27 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
         return;
       }
 
+      // Groups are copied along with their children and internal edges
+      if (isGroupNode(node)) {
+        const copy = duplicateGroup(node, getNodes(), getEdges(), {
+          x: 200,
+          y: 200,
+        });
+
+        handleNodesChange([
+          { type: 'select', id, selected: false },
+          { type: 'add', item: copy.group },
+          ...copy.children.map((child) => ({
+            type: 'add' as const,
+            item: child,
+          })),
+        ]);
+        handleEdgesChange(
+          copy.edges.map((edge) => ({ type: 'add' as const, item: edge }))
+        );
+        return;
+      }
+
       const { id: oldId, ...rest } = node;
 
       const newId = addNode(node.type, {
@@ -188,7 +375,15 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
         updateNode(newId, { selected: true });
       }, 0);
     },
-    [addNode, getNode, updateNode]
+    [
+      addNode,
+      getNode,
+      getNodes,
+      getEdges,
+      updateNode,
+      handleNodesChange,
+      handleEdgesChange,
+    ]
   );
 
   const handleConnectEnd = useCallback<OnConnectEnd>(
@@ -200,8 +395,10 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
         const { clientX, clientY } =
           'changedTouches' in event ? event.changedTouches[0] : event;
 
-        const sourceId = connectionState.fromNode?.id;
         const isSourceHandle = connectionState.fromHandle?.type === 'source';
+        const sourceId =
+          getHandleChildId(connectionState.fromHandle?.id) ??
+          connectionState.fromNode?.id;
 
         if (!sourceId) {
           return;
@@ -214,23 +411,28 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
           },
         });
 
-        setEdges((eds: Edge[]) =>
-          eds.concat({
-            id: nanoid(),
-            source: isSourceHandle ? sourceId : newNodeId,
-            target: isSourceHandle ? newNodeId : sourceId,
-            type: 'temporary',
-          })
-        );
+        handleEdgesChange([
+          {
+            type: 'add',
+            item: {
+              id: nanoid(),
+              source: isSourceHandle ? sourceId : newNodeId,
+              target: isSourceHandle ? newNodeId : sourceId,
+              sourceHandle: getDroppedSourceHandle(connectionState.fromHandle),
+              type: 'temporary',
+            },
+          },
+        ]);
       }
     },
-    [addNode, screenToFlowPosition]
+    [addNode, screenToFlowPosition, handleEdgesChange]
   );
 
   const isValidConnection = useCallback<IsValidConnection>(
-    (connection) => {
+    (edgeOrConnection) => {
       // we are using getNodes and getEdges helpers here
       // to make sure we create isValidConnection function only once
+      const connection = resolveGroupConnection(edgeOrConnection);
       const nodes = getNodes();
       const edges = getEdges();
       const target = nodes.find((node) => node.id === connection.target);
@@ -243,7 +445,11 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
           return false;
         }
 
-        const valid = isValidSourceTarget(source, target);
+        const valid = isValidSourceTarget(
+          source,
+          target,
+          connection.sourceHandle
+        );
 
         if (!valid) {
           return false;
@@ -409,17 +615,68 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
       selected: true,
     }));
 
-    // Unselect all existing nodes
-    setNodes((nodes: Node[]) =>
-      nodes.map((node: Node) => ({
-        ...node,
+    // Unselect all existing nodes and add the new ones
+    handleNodesChange([
+      ...getNodes().map((node) => ({
+        type: 'select' as const,
+        id: node.id,
         selected: false,
-      }))
-    );
+      })),
+      ...newNodes.map((node) => ({ type: 'add' as const, item: node })),
+    ]);
+  }, [copiedNodes, handlePasteImage, handleNodesChange, getNodes]);
+
+  const applyCommand = useCallback(
+    (command: CanvasCommand, direction: 'undo' | 'redo') => {
+      const nodeSets =
+        direction === 'undo' ? [...command.nodes].reverse() : command.nodes;
+      const edgeSets =
+        direction === 'undo' ? [...command.edges].reverse() : command.edges;
+      const key = direction === 'undo' ? 'inverse' : 'changes';
+
+      broadcastChanges({
+        nodes: nodeSets.flatMap((set) => set[key]),
+        edges: edgeSets.flatMap((set) => set[key]),
+      });
+
+      setNodes((current) =>
+        nodeSets.reduce(
+          (result, set) => applyNodeChanges(set[key], result),
+          current
+        )
+      );
+      setEdges((current) =>
+        edgeSets.reduce(
+          (result, set) => applyEdgeChanges(set[key], result),
+          current
+        )
+      );
+      save();
+    },
+    [save, broadcastChanges]
+  );
+
+  const handleUndo = useCallback(() => {
+    const command = history.current.past.pop();
+
+    if (!command) {
+      return;
+    }
+
+    applyCommand(command, 'undo');
+    history.current.future.push(command);
+  }, [applyCommand]);
+
+  const handleRedo = useCallback(() => {
+    const command = history.current.future.pop();
+
+    if (!command) {
+      return;
+    }
 
-    // Add new nodes
-    setNodes((nodes: Node[]) => [...nodes, ...newNodes]);
-  }, [copiedNodes, handlePasteImage]);
+    applyCommand(command, 'redo');
+    history.current.past.push(command);
+  }, [applyCommand]);
 
   const handleDuplicateAll = useCallback(() => {
     const selected = getNodes().filter((node) => node.selected);
@@ -429,14 +686,166 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
     }
   }, [getNodes, duplicateNode]);
 
-  const handleContextMenu = useCallback((event: MouseEvent) => {
-    if (
-      !(event.target instanceof HTMLElement) ||
-      !event.target.classList.contains('react-flow__pane')
-    ) {
-      event.preventDefault();
+  const { registerRunner, runAll, runSelected, runDownstream } = useGraphRunner(
+    handleNodesChange,
+    handleEdgesChange
+  );
+
+  const handleMouseMove = useCallback<MouseEventHandler<HTMLDivElement>>(
+    (event) =>
+      broadcastCursor(
+        screenToFlowPosition({ x: event.clientX, y: event.clientY })
+      ),
+    [broadcastCursor, screenToFlowPosition]
+  );
+
+  const handleContextMenu = useCallback(
+    (event: MouseEvent) => {
+      if (
+        !(event.target instanceof HTMLElement) ||
+        !event.target.classList.contains('react-flow__pane')
+      ) {
+        event.preventDefault();
+        return;
+      }
+
+      contextMenuPosition.current = screenToFlowPosition({
+        x: event.clientX,
+        y: event.clientY,
+      });
+    },
+    [screenToFlowPosition]
+  );
+
+  const handleGroupSelection = useCallback(() => {
+    // Groups can't be nested, only top-level nodes are grouped
+    const selected = getNodes().filter(
+      (node) =>
+        node.selected &&
+        !node.parentId &&
+        !isGroupNode(node) &&
+        node.type !== 'drop'
+    );
+
+    if (!selected.length) {
+      return;
     }
-  }, []);
+
+    const { group, children } = createGroup(selected);
+
+    handleNodesChange([
+      { type: 'add', item: { ...group, selected: true }, index: 0 },
+      ...children.map((child) => ({
+        type: 'replace' as const,
+        id: child.id,
+        item: child,
+      })),
+    ]);
+
+    analytics.track('canvas', 'group', 'created', {
+      nodeCount: children.length,
+    });
+  }, [getNodes, handleNodesChange, analytics]);
+
+  const handleSaveTemplate = useCallback(() => {
+    const nodes = getNodes();
+    const selected = nodes.filter((node) => node.selected);
+
+    setTemplateSelection({
+      nodes: getTemplateNodes(selected, nodes),
+      edges: getEdges(),
+    });
+  }, [getNodes, getEdges]);
+
+  const handleInsertTemplate = useCallback(
+    (template: Template, values: Record<string, string>) => {
+      const content = instantiateTemplate(
+        template,
+        contextMenuPosition.current,
+        values
+      );
+
+      // Select the inserted nodes so they can be moved as one
+      handleNodesChange([
+        ...getNodes().map((node) => ({
+          type: 'select' as const,
+          id: node.id,
+          selected: false,
+        })),
+        ...content.nodes.map((node) => ({
+          type: 'add' as const,
+          item: { ...node, selected: true },
+        })),
+      ]);
+      handleEdgesChange(
+        content.edges.map((edge) => ({ type: 'add' as const, item: edge }))
+      );
+
+      analytics.track('canvas', 'template', 'inserted', {
+        template: template.builtIn ? template.id : 'custom',
+        nodeCount: content.nodes.length,
+      });
+    },
+    [handleNodesChange, handleEdgesChange, getNodes, analytics]
+  );
+
+  // Lays out the selection, or the whole canvas when at most one node is
+  // selected. Nodes are moved like a drag, so the layout is undone in one go.
+  const handleLayout = useCallback(
+    (density: LayoutDensity = 'comfortable') => {
+      const nodes = getNodes();
+      const selected = nodes.filter(
+        (node) => node.selected && isLayoutNode(node)
+      );
+      const targets = selected.length > 1 ? selected : nodes;
+      const layout = getLayout(targets, getEdges(), layoutSpacings[density]);
+      const moves = targets.flatMap((node) => {
+        const to = layout.get(node.id);
+
+        return to && (to.x !== node.position.x || to.y !== node.position.y)
+          ? [{ id: node.id, from: node.position, to }]
+          : [];
+      });
+
+      if (!moves.length) {
+        return;
+      }
+
+      if (layoutFrame.current !== null) {
+        cancelAnimationFrame(layoutFrame.current);
+      }
+
+      const start = performance.now();
+
+      const step = (now: number) => {
+        const progress = Math.min((now - start) / layoutDuration, 1);
+        const eased = 1 - (1 - progress) ** 3;
+
+        handleNodesChange(
+          moves.map(({ id, from, to }) => ({
+            type: 'position' as const,
+            id,
+            position: {
+              x: from.x + (to.x - from.x) * eased,
+              y: from.y + (to.y - from.y) * eased,
+            },
+            dragging: progress < 1,
+          }))
+        );
+
+        layoutFrame.current = progress < 1 ? requestAnimationFrame(step) : null;
+      };
+
+      layoutFrame.current = requestAnimationFrame(step);
+
+      analytics.track('canvas', 'layout', 'applied', {
+        density,
+        nodeCount: moves.length,
+        selection: targets !== nodes,
+      });
+    },
+    [getNodes, getEdges, handleNodesChange, analytics]
+  );
 
   useHotkeys('meta+a', handleSelectAll, {
     enableOnContentEditable: false,
@@ -446,6 +855,13 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
   useHotkeys('meta+d', handleDuplicateAll, {
     enableOnContentEditable: false,
     preventDefault: true,
+    enabled: !readOnly,
+  });
+
+  useHotkeys('meta+g', handleGroupSelection, {
+    enableOnContentEditable: false,
+    preventDefault: true,
+    enabled: !readOnly,
   });
 
   useHotkeys('meta+c', handleCopy, {
@@ -456,6 +872,37 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
   useHotkeys('meta+v', handlePaste, {
     enableOnContentEditable: false,
     preventDefault: true,
+    enabled: !readOnly,
+  });
+
+  useHotkeys('meta+shift+l', () => handleLayout(), {
+    enableOnContentEditable: false,
+    preventDefault: true,
+    enabled: !readOnly,
+  });
+
+  useHotkeys('meta+z', handleUndo, {
+    enableOnContentEditable: false,
+    preventDefault: true,
+    enabled: !readOnly,
+  });
+
+  useHotkeys('meta+shift+z', handleRedo, {
+    enableOnContentEditable: false,
+    preventDefault: true,
+    enabled: !readOnly,
+  });
+
+  useHotkeys('meta+enter', runSelected, {
+    enableOnContentEditable: false,
+    preventDefault: true,
+    enabled: !readOnly,
+  });
+
+  useHotkeys('meta+shift+enter', runAll, {
+    enableOnContentEditable: false,
+    preventDefault: true,
+    enabled: !readOnly,
   });
 
   // Also listen to paste events as a fallback (in case Clipboard API fails)
@@ -501,46 +948,127 @@ export const Canvas = ({ children, ...props }: ReactFlowProps) => {
 
   return (
     <NodeOperationsProvider addNode={addNode} duplicateNode={duplicateNode}>
-      <NodeDropzoneProvider>
-        <ContextMenu>
-          <ContextMenuTrigger onContextMenu={handleContextMenu}>
-            <ReactFlow
-              deleteKeyCode={['Backspace', 'Delete']}
-              nodes={nodes}
-              onNodesChange={handleNodesChange}
-              edges={edges}
-              onEdgesChange={handleEdgesChange}
-              onConnectStart={handleConnectStart}
-              onConnect={handleConnect}
-              onConnectEnd={handleConnectEnd}
-              nodeTypes={nodeTypes}
-              edgeTypes={edgeTypes}
-              isValidConnection={isValidConnection}
-              connectionLineComponent={ConnectionLine}
-              panOnScroll
-              fitView
-              zoomOnDoubleClick={false}
-              panOnDrag={false}
-              selectionOnDrag={true}
-              onDoubleClick={addDropNode}
-              {...rest}
-            >
-              <Background />
-              {children}
-            </ReactFlow>
-          </ContextMenuTrigger>
-          <ContextMenuContent>
-            <ContextMenuItem onClick={addDropNode}>
-              <PlusIcon size={12} />
-              <span>Add a new node</span>
-            </ContextMenuItem>
-            <ContextMenuItem onClick={handleSelectAll}>
-              <BoxSelectIcon size={12} />
-              <span>Select all</span>
-            </ContextMenuItem>
-          </ContextMenuContent>
-        </ContextMenu>
-      </NodeDropzoneProvider>
+      <GraphExecutorProvider
+        registerRunner={registerRunner}
+        runAll={runAll}
+        runSelected={runSelected}
+        runDownstream={runDownstream}
+      >
+        <StaleProvider nodes={nodes} edges={edges} variables={variables}>
+          <NodeDropzoneProvider>
+            <ContextMenu>
+              <ContextMenuTrigger onContextMenu={handleContextMenu}>
+                <ReactFlow
+                  deleteKeyCode={readOnly ? null : ['Backspace', 'Delete']}
+                  nodesDraggable={!readOnly}
+                  nodesConnectable={!readOnly}
+                  nodes={nodes}
+                  onNodesChange={handleNodesChange}
+                  edges={displayedEdges}
+                  onEdgesChange={handleEdgesChange}
+                  onConnectStart={handleConnectStart}
+                  onConnect={handleConnect}
+                  onConnectEnd={handleConnectEnd}
+                  nodeTypes={nodeTypes}
+                  edgeTypes={edgeTypes}
+                  isValidConnection={isValidConnection}
+                  connectionLineComponent={ConnectionLine}
+                  panOnScroll
+                  fitView
+                  zoomOnDoubleClick={false}
+                  panOnDrag={false}
+                  selectionOnDrag={true}
+                  onDoubleClick={readOnly ? undefined : addDropNode}
+                  onMouseMove={handleMouseMove}
+                  {...rest}
+                >
+                  <Background />
+                  <Collaborators collaborators={collaborators} />
+                  {children}
+                </ReactFlow>
+              </ContextMenuTrigger>
+              <ContextMenuContent>
+                <ContextMenuItem onClick={addDropNode} disabled={readOnly}>
+                  <PlusIcon size={12} />
+                  <span>Add a new node</span>
+                </ContextMenuItem>
+                <ContextMenuItem onClick={handleSelectAll}>
+                  <BoxSelectIcon size={12} />
+                  <span>Select all</span>
+                </ContextMenuItem>
+                <ContextMenuItem
+                  onClick={handleGroupSelection}
+                  disabled={readOnly || !nodes.some((node) => node.selected)}
+                >
+                  <GroupIcon size={12} />
+                  <span>Group selection</span>
+                </ContextMenuItem>
+                <ContextMenuSub>
+                  <ContextMenuSubTrigger className="gap-2" disabled={readOnly}>
+                    <NetworkIcon size={12} />
+                    <span>Auto-layout</span>
+                  </ContextMenuSubTrigger>
+                  <ContextMenuSubContent>
+                    {Object.entries(layoutDensities).map(([density, label]) => (
+                      <ContextMenuItem
+                        key={density}
+                        onClick={() => handleLayout(density as LayoutDensity)}
+                      >
+                        {label}
+                      </ContextMenuItem>
+                    ))}
+                  </ContextMenuSubContent>
+                </ContextMenuSub>
+                <ContextMenuSeparator />
+                <ContextMenuItem
+                  onClick={() => setInsertTemplateOpen(true)}
+                  disabled={readOnly}
+                >
+                  <LayoutTemplateIcon size={12} />
+                  <span>Insert template</span>
+                </ContextMenuItem>
+                <ContextMenuItem
+                  onClick={handleSaveTemplate}
+                  disabled={shared || !nodes.some((node) => node.selected)}
+                >
+                  <SaveIcon size={12} />
+                  <span>Save selection as template</span>
+                </ContextMenuItem>
+                <ContextMenuSeparator />
+                <ContextMenuItem onClick={startPresentation}>
+                  <PresentationIcon size={12} />
+                  <span>Present</span>
+                </ContextMenuItem>
+                <ContextMenuItem
+                  onClick={runAll}
+                  disabled={shared || readOnly || execution.isRunning}
+                >
+                  <PlayIcon size={12} />
+                  <span>Run entire project</span>
+                </ContextMenuItem>
+                <ContextMenuItem
+                  onClick={runSelected}
+                  disabled={shared || readOnly || execution.isRunning}
+                >
+                  <ListChecksIcon size={12} />
+                  <span>Run selected</span>
+                </ContextMenuItem>
+              </ContextMenuContent>
+            </ContextMenu>
+            <InsertTemplate
+              open={insertTemplateOpen}
+              onOpenChange={setInsertTemplateOpen}
+              onInsert={handleInsertTemplate}
+            />
+            <SaveTemplate
+              open={Boolean(templateSelection)}
+              onOpenChange={(open) => !open && setTemplateSelection(null)}
+              nodes={templateSelection?.nodes ?? []}
+              edges={templateSelection?.edges ?? []}
+            />
+          </NodeDropzoneProvider>
+        </StaleProvider>
+      </GraphExecutorProvider>
     </NodeOperationsProvider>
   );
 };
@@ -0,0 +1,89 @@
+'use client';
+
+import type { Collaborator } from '@/hooks/use-collaboration';
+import { usePerfectCursor } from '@/hooks/use-perfect-cursor';
+import { Panel, ViewportPortal } from '@xyflow/react';
+import { MousePointer2Icon } from 'lucide-react';
+import { useCallback, useLayoutEffect, useRef } from 'react';
+import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
+
+type CursorProps = {
+  collaborator: Collaborator & { cursor: NonNullable<Collaborator['cursor']> };
+};
+
+const Cursor = ({ collaborator }: CursorProps) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Cursor updates arrive throttled, so the points in between are
+  // interpolated to keep the movement smooth
+  const animateCursor = useCallback((point: number[]) => {
+    ref.current?.style.setProperty(
+      'transform',
+      `translate(${point[0]}px, ${point[1]}px)`
+    );
+  }, []);
+
+  const onPointChange = usePerfectCursor(animateCursor);
+
+  useLayoutEffect(() => {
+    onPointChange([collaborator.cursor.x, collaborator.cursor.y]);
+  }, [onPointChange, collaborator.cursor]);
+
+  return (
+    <div ref={ref} className="pointer-events-none absolute top-0 left-0 z-50">
+      <MousePointer2Icon
+        size={20}
+        style={{ color: collaborator.color, fill: collaborator.color }}
+      />
+      <span
+        className="ml-4 whitespace-nowrap rounded-full px-2 py-0.5 text-white text-xs"
+        style={{ backgroundColor: collaborator.color }}
+      >
+        {collaborator.name}
+      </span>
+    </div>
+  );
+};
+
+type CollaboratorsProps = {
+  collaborators: Collaborator[];
+};
+
+export const Collaborators = ({ collaborators }: CollaboratorsProps) => {
+  if (!collaborators.length) {
+    return null;
+  }
+
+  return (
+    <>
+      <ViewportPortal>
+        {collaborators.map((collaborator) =>
+          collaborator.cursor ? (
+            <Cursor
+              key={collaborator.id}
+              collaborator={{ ...collaborator, cursor: collaborator.cursor }}
+            />
+          ) : null
+        )}
+      </ViewportPortal>
+      <Panel
+        position="top-center"
+        className="-space-x-2 m-4 flex items-center rounded-full border bg-card/90 p-1 drop-shadow-xs backdrop-blur-sm"
+      >
+        {collaborators.map((collaborator) => (
+          <Tooltip key={collaborator.id}>
+            <TooltipTrigger asChild>
+              <div
+                className="flex size-8 items-center justify-center rounded-full border-2 border-card font-medium text-white text-xs uppercase"
+                style={{ backgroundColor: collaborator.color }}
+              >
+                {collaborator.name.slice(0, 1)}
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>{collaborator.name}</TooltipContent>
+          </Tooltip>
+        ))}
+      </Panel>
+    </>
+  );
+};
@@ -0,0 +1,244 @@
+'use client';
+
+import { useAnalytics } from '@/hooks/use-analytics';
+import { useExportProject } from '@/hooks/use-export-project';
+import { useFocusNode } from '@/hooks/use-focus-node';
+import { useStartPresentation } from '@/hooks/use-presentation';
+import { useProjectSettingsOpen } from '@/hooks/use-project-settings';
+import { handleError } from '@/lib/error/handle';
+import { nodeButtons } from '@/lib/node-buttons';
+import { searchNodes } from '@/lib/search';
+import { useGraphExecutor } from '@/providers/graph-executor';
+import { useNodeOperations } from '@/providers/node-operations';
+import { useProject, useProjectRole } from '@/providers/project';
+import { useReactFlow } from '@xyflow/react';
+import {
+  DownloadIcon,
+  ListChecksIcon,
+  PlayIcon,
+  PresentationIcon,
+  SettingsIcon,
+} from 'lucide-react';
+import { memo, useMemo, useState } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { toast } from 'sonner';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from './ui/command';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+export const CommandPaletteInner = () => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const { getNodes, screenToFlowPosition } = useReactFlow();
+  const exportProject = useExportProject();
+  const { addNode } = useNodeOperations();
+  const { runAll, runSelected } = useGraphExecutor();
+  const [, setSettingsOpen] = useProjectSettingsOpen();
+  const focusNode = useFocusNode();
+  const startPresentation = useStartPresentation();
+  const project = useProject();
+  const role = useProjectRole();
+  const analytics = useAnalytics();
+  const readOnly = role === 'viewer';
+
+  useHotkeys('meta+k', () => setOpen((current) => !current), {
+    enableOnContentEditable: false,
+    enableOnFormTags: true,
+    preventDefault: true,
+  });
+
+  // Nodes are only read while the palette is open
+  const results = useMemo(
+    () => (open ? searchNodes(getNodes(), query) : []),
+    [open, query, getNodes]
+  );
+
+  const search = query.trim().toLowerCase();
+  const matches = (label: string) =>
+    !search || label.toLowerCase().includes(search);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    setQuery('');
+  };
+
+  const runCommand = (command: string, callback: () => unknown) => {
+    handleOpenChange(false);
+    analytics.track('canvas', 'command', 'selected', { command });
+    callback();
+  };
+
+  const handleAddNode = (type: string, options?: Record<string, unknown>) => {
+    const { data: nodeData, ...rest } = options ?? {};
+
+    addNode(type, {
+      position: screenToFlowPosition({
+        x: window.innerWidth / 2,
+        y: window.innerHeight / 2,
+      }),
+      data: {
+        ...(nodeData ? nodeData : {}),
+      },
+      ...rest,
+    });
+  };
+
+  const handleExport = async () => {
+    if (!project) {
+      return;
+    }
+
+    try {
+      await exportProject(project);
+      toast.success('Project exported successfully');
+    } catch (error) {
+      handleError('Error exporting project', error);
+    }
+  };
+
+  const actions = [
+    {
+      id: 'run-selected',
+      label: 'Run selected',
+      icon: ListChecksIcon,
+      shortcut: '⌘↵',
+      onSelect: runSelected,
+      hidden: readOnly,
+    },
+    {
+      id: 'run-all',
+      label: 'Run entire project',
+      icon: PlayIcon,
+      shortcut: '⇧⌘↵',
+      onSelect: runAll,
+      hidden: readOnly,
+    },
+    {
+      id: 'present',
+      label: 'Start presentation',
+      icon: PresentationIcon,
+      onSelect: startPresentation,
+      hidden: false,
+    },
+    {
+      id: 'export',
+      label: 'Export project',
+      icon: DownloadIcon,
+      onSelect: handleExport,
+      hidden: !project,
+    },
+    {
+      id: 'settings',
+      label: 'Open settings',
+      icon: SettingsIcon,
+      onSelect: () => setSettingsOpen(true),
+      hidden: readOnly,
+    },
+  ].filter((action) => !action.hidden && matches(action.label));
+
+  const addActions = readOnly
+    ? []
+    : nodeButtons.filter((button) => matches(`Add ${button.label} node`));
+
+  // Nodes are matched by searchNodes, which looks through their content, so
+  // cmdk's own filtering is turned off
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0" showCloseButton={false}>
+        <DialogHeader className="sr-only">
+          <DialogTitle>Command palette</DialogTitle>
+          <DialogDescription>Search nodes and run commands</DialogDescription>
+        </DialogHeader>
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder="Search nodes or type a command..."
+            value={query}
+            onValueChange={setQuery}
+          />
+          <CommandList>
+            <CommandEmpty>No results found.</CommandEmpty>
+            {results.length > 0 && (
+              <CommandGroup heading="Nodes">
+                {results.map(({ node, title, snippet }) => {
+                  const Icon = nodeButtons.find(
+                    (button) => button.id === node.type
+                  )?.icon;
+
+                  return (
+                    <CommandItem
+                      key={node.id}
+                      value={`node:${node.id}`}
+                      onSelect={() =>
+                        runCommand('focus', () => focusNode(node.id))
+                      }
+                    >
+                      {Icon && <Icon size={16} />}
+                      <div className="grid min-w-0 flex-1">
+                        <span className="truncate">{title}</span>
+                        {snippet && (
+                          <span className="truncate text-muted-foreground text-xs">
+                            {snippet}
+                          </span>
+                        )}
+                      </div>
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            )}
+            {actions.length > 0 && (
+              <CommandGroup heading="Actions">
+                {actions.map((action) => (
+                  <CommandItem
+                    key={action.id}
+                    value={action.id}
+                    onSelect={() => runCommand(action.id, action.onSelect)}
+                  >
+                    <action.icon size={16} />
+                    {action.label}
+                    {action.shortcut && (
+                      <CommandShortcut>{action.shortcut}</CommandShortcut>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {addActions.length > 0 && (
+              <CommandGroup heading="Add node">
+                {addActions.map((button) => (
+                  <CommandItem
+                    key={button.id}
+                    value={`add:${button.id}`}
+                    onSelect={() =>
+                      runCommand(`add-${button.id}`, () =>
+                        handleAddNode(button.id, button.data)
+                      )
+                    }
+                  >
+                    <button.icon size={16} />
+                    Add {button.label.toLowerCase()} node
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export const CommandPalette = memo(CommandPaletteInner);
@@ -0,0 +1,146 @@
+'use client';
+
+import { createCommentAction } from '@/app/actions/comment/create';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useComments } from '@/hooks/use-comments';
+import { type CommentAnchor, getOpenMention } from '@/lib/comments';
+import { handleError } from '@/lib/error/handle';
+import { useProject } from '@/providers/project';
+import { Loader2Icon, SendIcon } from 'lucide-react';
+import { type FormEventHandler, useRef, useState } from 'react';
+
+type CommentComposerProps = {
+  nodeId: string;
+  threadId?: string;
+  anchor?: CommentAnchor;
+  placeholder?: string;
+  onCreated?: (threadId: string) => void;
+};
+
+const maxSuggestions = 5;
+
+export const CommentComposer = ({
+  nodeId,
+  threadId,
+  anchor,
+  placeholder = 'Add a comment, @ to mention someone...',
+  onCreated,
+}: CommentComposerProps) => {
+  const project = useProject();
+  const { people, refresh } = useComments();
+  const [body, setBody] = useState('');
+  const [cursor, setCursor] = useState(0);
+  const [isSending, setIsSending] = useState(false);
+  const textarea = useRef<HTMLTextAreaElement>(null);
+
+  const mention = getOpenMention(body, cursor);
+  const suggestions = mention
+    ? people
+        .filter((email) => email.startsWith(mention.query.toLowerCase()))
+        .slice(0, maxSuggestions)
+    : [];
+
+  const handleMention = (email: string) => {
+    if (!mention) {
+      return;
+    }
+
+    const before = body.slice(0, mention.start);
+    const after = body.slice(cursor).trimStart();
+    const next = `${before}${email} ${after}`;
+    const position = before.length + email.length + 1;
+
+    setBody(next);
+    setCursor(position);
+
+    requestAnimationFrame(() => {
+      textarea.current?.focus();
+      textarea.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleSubmit: FormEventHandler<HTMLFormElement> = async (event) => {
+    event.preventDefault();
+
+    if (!project || !body.trim() || isSending) {
+      return;
+    }
+
+    setIsSending(true);
+
+    try {
+      const response = await createCommentAction({
+        projectId: project.id,
+        nodeId,
+        body,
+        threadId,
+        anchor,
+      });
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      setBody('');
+      setCursor(0);
+      await refresh();
+      onCreated?.(response.comment.threadId ?? response.comment.id);
+    } catch (error) {
+      handleError('Error posting comment', error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="relative flex flex-col gap-2">
+      <Textarea
+        ref={textarea}
+        value={body}
+        placeholder={placeholder}
+        onChange={({ target }) => {
+          setBody(target.value);
+          setCursor(target.selectionStart);
+        }}
+        onSelect={({ currentTarget }) =>
+          setCursor(currentTarget.selectionStart)
+        }
+        onKeyDown={(event) => {
+          if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+            event.currentTarget.form?.requestSubmit();
+          }
+        }}
+        className="max-h-40 min-h-16 resize-none text-sm"
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute top-full right-0 left-0 z-10 mt-1 overflow-hidden rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((email) => (
+            <button
+              key={email}
+              type="button"
+              className="block w-full truncate rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent"
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => handleMention(email)}
+            >
+              {email}
+            </button>
+          ))}
+        </div>
+      )}
+      <Button
+        type="submit"
+        size="sm"
+        className="self-end rounded-full"
+        disabled={!body.trim() || isSending}
+      >
+        {isSending ? (
+          <Loader2Icon size={14} className="animate-spin" />
+        ) : (
+          <SendIcon size={14} />
+        )}
+        {threadId ? 'Reply' : 'Comment'}
+      </Button>
+    </form>
+  );
+};
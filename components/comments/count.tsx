@@ -0,0 +1,39 @@
+'use client';
+
+import { useComments, useCommentsPanel } from '@/hooks/use-comments';
+import { MessageSquareIcon } from 'lucide-react';
+
+type NodeCommentCountProps = {
+  id: string;
+};
+
+// Shown above a node with open threads. A single thread opens directly,
+// otherwise the list is shown.
+export const NodeCommentCount = ({ id }: NodeCommentCountProps) => {
+  const { threads } = useComments();
+  const [, setPanel] = useCommentsPanel();
+  const openThreads = threads.filter(
+    (thread) => thread.nodeId === id && !thread.resolvedAt
+  );
+
+  if (!openThreads.length) {
+    return null;
+  }
+
+  return (
+    <button
+      type="button"
+      className="nodrag flex items-center gap-1 font-mono text-muted-foreground text-xs tracking-tighter hover:text-foreground"
+      title="Open comment threads"
+      onClick={() =>
+        setPanel({
+          open: true,
+          threadId: openThreads.length === 1 ? openThreads[0].id : undefined,
+        })
+      }
+    >
+      <MessageSquareIcon size={12} />
+      {openThreads.length}
+    </button>
+  );
+};
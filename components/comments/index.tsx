@@ -0,0 +1,199 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useComments, useCommentsPanel } from '@/hooks/use-comments';
+import { useFocusNode } from '@/hooks/use-focus-node';
+import { usePresentation } from '@/hooks/use-presentation';
+import { type CommentThread, getAuthorName } from '@/lib/comments';
+import { getNodeTitle } from '@/lib/search';
+import { Panel, useReactFlow } from '@xyflow/react';
+import {
+  ArrowLeftIcon,
+  MapPinIcon,
+  MessageSquareIcon,
+  XIcon,
+} from 'lucide-react';
+import { useSearchParams } from 'next/navigation';
+import { memo, useEffect, useState } from 'react';
+import { CommentComposer } from './composer';
+import { CommentThreadView } from './thread';
+
+type ThreadItemProps = {
+  thread: CommentThread;
+  onSelect: () => void;
+};
+
+const ThreadItem = ({ thread, onSelect }: ThreadItemProps) => {
+  const { getNode } = useReactFlow();
+  const node = getNode(thread.nodeId);
+  const [first] = thread.comments;
+  const replies = thread.comments.length - 1;
+
+  return (
+    <button
+      type="button"
+      className="flex w-full flex-col gap-1 rounded-lg p-2 text-left hover:bg-accent"
+      onClick={onSelect}
+    >
+      <span className="flex items-center gap-1 text-muted-foreground text-xs">
+        {thread.anchor && <MapPinIcon size={10} />}
+        {node ? getNodeTitle(node) : 'Deleted node'}
+        {thread.resolvedAt && ' · Resolved'}
+      </span>
+      <span className="line-clamp-2 text-sm">{first.body}</span>
+      <span className="text-muted-foreground text-xs">
+        {getAuthorName(first)}
+        {replies > 0 && ` · ${replies} ${replies === 1 ? 'reply' : 'replies'}`}
+      </span>
+    </button>
+  );
+};
+
+export const CommentsInner = () => {
+  const { threads } = useComments();
+  const [panel, setPanel] = useCommentsPanel();
+  const [showResolved, setShowResolved] = useState(false);
+  const [presentation] = usePresentation();
+  const { getNode } = useReactFlow();
+  const focusNode = useFocusNode();
+  const searchParams = useSearchParams();
+  const linkedThread = searchParams.get('comment');
+
+  const openThreads = threads.filter((thread) => !thread.resolvedAt);
+  const listed = showResolved ? threads : openThreads;
+  const thread = threads.find((entry) => entry.id === panel.threadId);
+  const newThreadNode = panel.nodeId ? getNode(panel.nodeId) : undefined;
+
+  // Links from notification emails open their thread
+  useEffect(() => {
+    if (linkedThread) {
+      setPanel({ open: true, threadId: linkedThread });
+    }
+  }, [linkedThread, setPanel]);
+
+  const threadNodeId = thread?.nodeId;
+
+  useEffect(() => {
+    if (threadNodeId) {
+      focusNode(threadNodeId);
+    }
+  }, [threadNodeId, focusNode]);
+
+  if (presentation.open) {
+    return null;
+  }
+
+  if (!panel.open) {
+    return (
+      <Panel
+        position="top-right"
+        className="m-4 mt-36 rounded-full border bg-card/90 p-1 drop-shadow-xs backdrop-blur-sm sm:mt-20"
+      >
+        <Button
+          variant="ghost"
+          size="sm"
+          className="rounded-full"
+          onClick={() => setPanel({ open: true })}
+        >
+          <MessageSquareIcon size={16} />
+          {openThreads.length > 0 && openThreads.length}
+        </Button>
+      </Panel>
+    );
+  }
+
+  const renderContent = () => {
+    if (thread) {
+      return <CommentThreadView thread={thread} />;
+    }
+
+    if (panel.nodeId && newThreadNode) {
+      return (
+        <div className="flex flex-col gap-2">
+          <p className="text-muted-foreground text-xs">
+            {panel.anchor ? 'On a point of ' : 'On '}
+            {getNodeTitle(newThreadNode)}
+          </p>
+          <CommentComposer
+            nodeId={panel.nodeId}
+            anchor={panel.anchor}
+            onCreated={(threadId) => setPanel({ open: true, threadId })}
+          />
+        </div>
+      );
+    }
+
+    if (!listed.length) {
+      return (
+        <p className="p-2 text-center text-muted-foreground text-sm">
+          {showResolved ? 'No comments yet.' : 'No open threads.'}
+        </p>
+      );
+    }
+
+    return listed.map((entry) => (
+      <ThreadItem
+        key={entry.id}
+        thread={entry}
+        onSelect={() => setPanel({ open: true, threadId: entry.id })}
+      />
+    ));
+  };
+
+  const isDetail = Boolean(thread || panel.nodeId);
+
+  return (
+    <Panel
+      position="top-right"
+      className="m-4 mt-36 flex max-h-[calc(100%-12rem)] w-80 flex-col overflow-hidden rounded-2xl border bg-card/90 drop-shadow-xs backdrop-blur-sm sm:mt-20 sm:max-h-[calc(100%-8rem)]"
+    >
+      <div className="flex items-center justify-between gap-2 border-b p-2 pl-3">
+        <div className="flex items-center gap-1">
+          {isDetail && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7 rounded-full"
+              onClick={() => setPanel({ open: true })}
+            >
+              <ArrowLeftIcon size={14} />
+            </Button>
+          )}
+          <p className="font-semibold text-sm">Comments</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {!isDetail && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id="show-resolved"
+                checked={showResolved}
+                onCheckedChange={setShowResolved}
+              />
+              <Label
+                htmlFor="show-resolved"
+                className="font-normal text-muted-foreground text-xs"
+              >
+                Resolved
+              </Label>
+            </div>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-7 rounded-full"
+            onClick={() => setPanel({ open: false })}
+          >
+            <XIcon size={14} />
+          </Button>
+        </div>
+      </div>
+      <div className="nowheel flex flex-col gap-1 overflow-y-auto p-2">
+        {renderContent()}
+      </div>
+    </Panel>
+  );
+};
+
+export const Comments = memo(CommentsInner);
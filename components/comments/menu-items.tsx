@@ -0,0 +1,40 @@
+'use client';
+
+import { ContextMenuItem } from '@/components/ui/context-menu';
+import { useCommentPin, useCommentsPanel } from '@/hooks/use-comments';
+import { useProjectShared } from '@/providers/project';
+import { MapPinIcon, MessageSquarePlusIcon } from 'lucide-react';
+
+type NodeCommentMenuItemsProps = {
+  id: string;
+  type: string;
+};
+
+// Images can also be commented on at a point the user picks on them
+export const NodeCommentMenuItems = ({
+  id,
+  type,
+}: NodeCommentMenuItemsProps) => {
+  const [, setPanel] = useCommentsPanel();
+  const [, setPin] = useCommentPin();
+  const shared = useProjectShared();
+
+  if (shared) {
+    return null;
+  }
+
+  return (
+    <>
+      <ContextMenuItem onClick={() => setPanel({ open: true, nodeId: id })}>
+        <MessageSquarePlusIcon size={12} />
+        <span>Comment</span>
+      </ContextMenuItem>
+      {type === 'image' && (
+        <ContextMenuItem onClick={() => setPin(id)}>
+          <MapPinIcon size={12} />
+          <span>Comment on a point</span>
+        </ContextMenuItem>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,84 @@
+'use client';
+
+import {
+  useCommentPin,
+  useComments,
+  useCommentsPanel,
+} from '@/hooks/use-comments';
+import { cn } from '@/lib/utils';
+import { MessageCircleIcon } from 'lucide-react';
+import type { MouseEventHandler } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+
+type CommentPinsProps = {
+  nodeId: string;
+};
+
+// Open threads on points of an image, placed over the image. While the user
+// is picking a point, a click anywhere on the image starts a thread there.
+export const CommentPins = ({ nodeId }: CommentPinsProps) => {
+  const { threads } = useComments();
+  const [panel, setPanel] = useCommentsPanel();
+  const [pin, setPin] = useCommentPin();
+  const isPinning = pin === nodeId;
+
+  useHotkeys('escape', () => setPin(null), { enabled: isPinning });
+
+  const pins = threads.filter(
+    (thread) => thread.nodeId === nodeId && thread.anchor && !thread.resolvedAt
+  );
+
+  const handlePick: MouseEventHandler<HTMLButtonElement> = (event) => {
+    event.stopPropagation();
+
+    const bounds = event.currentTarget.getBoundingClientRect();
+
+    setPin(null);
+    setPanel({
+      open: true,
+      nodeId,
+      anchor: {
+        x: (event.clientX - bounds.left) / bounds.width,
+        y: (event.clientY - bounds.top) / bounds.height,
+      },
+    });
+  };
+
+  if (!pins.length && !isPinning) {
+    return null;
+  }
+
+  return (
+    <div className="pointer-events-none absolute inset-0 z-10">
+      {isPinning && (
+        <button
+          type="button"
+          aria-label="Pick a point to comment on"
+          className="nodrag pointer-events-auto absolute inset-0 cursor-crosshair bg-primary/10"
+          onClick={handlePick}
+        />
+      )}
+      {pins.map((thread, index) => (
+        <button
+          key={thread.id}
+          type="button"
+          className={cn(
+            'nodrag -translate-x-1/2 -translate-y-full pointer-events-auto absolute flex items-center gap-0.5 rounded-full rounded-bl-none border bg-background px-1.5 py-0.5 font-medium text-xs shadow-sm',
+            panel.threadId === thread.id && 'border-primary text-primary'
+          )}
+          style={{
+            left: `${(thread.anchor?.x ?? 0) * 100}%`,
+            top: `${(thread.anchor?.y ?? 0) * 100}%`,
+          }}
+          onClick={(event) => {
+            event.stopPropagation();
+            setPanel({ open: true, threadId: thread.id });
+          }}
+        >
+          <MessageCircleIcon size={10} />
+          {index + 1}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+'use client';
+
+import { deleteCommentAction } from '@/app/actions/comment/delete';
+import { resolveCommentThreadAction } from '@/app/actions/comment/resolve';
+import { Button } from '@/components/ui/button';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { useComments } from '@/hooks/use-comments';
+import { useUser } from '@/hooks/use-user';
+import { type CommentThread, getAuthorName } from '@/lib/comments';
+import { handleError } from '@/lib/error/handle';
+import { useProject } from '@/providers/project';
+import { CheckCircle2Icon, RotateCcwIcon, TrashIcon } from 'lucide-react';
+import { CommentComposer } from './composer';
+
+type CommentThreadViewProps = {
+  thread: CommentThread;
+};
+
+const formatDate = (date: Date) =>
+  new Date(date).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+export const CommentThreadView = ({ thread }: CommentThreadViewProps) => {
+  const project = useProject();
+  const user = useUser();
+  const { refresh } = useComments();
+
+  const handleResolve = async () => {
+    if (!project) {
+      return;
+    }
+
+    try {
+      const response = await resolveCommentThreadAction(
+        project.id,
+        thread.id,
+        !thread.resolvedAt
+      );
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      await refresh();
+    } catch (error) {
+      handleError('Error updating thread', error);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!project) {
+      return;
+    }
+
+    try {
+      const response = await deleteCommentAction(project.id, commentId);
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      await refresh();
+    } catch (error) {
+      handleError('Error deleting comment', error);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-muted-foreground text-xs">
+          {thread.resolvedAt
+            ? `Resolved ${formatDate(thread.resolvedAt)}`
+            : `${thread.comments.length} ${thread.comments.length === 1 ? 'comment' : 'comments'}`}
+        </p>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="rounded-full"
+          onClick={handleResolve}
+        >
+          {thread.resolvedAt ? (
+            <RotateCcwIcon size={14} />
+          ) : (
+            <CheckCircle2Icon size={14} />
+          )}
+          {thread.resolvedAt ? 'Reopen' : 'Resolve'}
+        </Button>
+      </div>
+      {thread.comments.map((comment) => (
+        <div key={comment.id} className="group flex flex-col gap-1">
+          <div className="flex items-center justify-between gap-2">
+            <p className="truncate font-medium text-sm">
+              {getAuthorName(comment)}
+            </p>
+            <div className="flex shrink-0 items-center gap-1">
+              <span className="text-muted-foreground text-xs">
+                {formatDate(comment.createdAt)}
+              </span>
+              {comment.userId === user?.id && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="size-6 rounded-full opacity-0 group-hover:opacity-100"
+                      onClick={() => handleDelete(comment.id)}
+                    >
+                      <TrashIcon size={12} />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {comment.threadId ? 'Delete comment' : 'Delete thread'}
+                  </TooltipContent>
+                </Tooltip>
+              )}
+            </div>
+          </div>
+          <p className="whitespace-pre-wrap break-words text-sm">
+            {comment.body}
+          </p>
+        </div>
+      ))}
+      <CommentComposer
+        nodeId={thread.nodeId}
+        threadId={thread.id}
+        placeholder="Reply..."
+      />
+    </div>
+  );
+};
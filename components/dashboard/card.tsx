@@ -0,0 +1,101 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { ProjectSummary } from '@/lib/dashboard';
+import { getFormattedTime } from '@/lib/time';
+import { cn } from '@/lib/utils';
+import { ImageIcon, PinIcon, PinOffIcon } from 'lucide-react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { ProjectTagsEditor } from './tags';
+
+type ProjectCardProps = {
+  project: ProjectSummary;
+  tags: string[];
+  selected: boolean;
+  onSelectedChange: (selected: boolean) => void;
+  onOrganize: (data: { tags?: string[]; pinned?: boolean }) => void;
+};
+
+export const ProjectCard = ({
+  project,
+  tags,
+  selected,
+  onSelectedChange,
+  onOrganize,
+}: ProjectCardProps) => (
+  <div
+    className={cn(
+      'group relative overflow-hidden rounded-2xl border bg-card',
+      selected && 'ring-2 ring-primary',
+      project.archived && 'opacity-60'
+    )}
+  >
+    <Link
+      href={`/projects/${project.id}`}
+      className="flex aspect-[1200/630] items-center justify-center bg-secondary"
+    >
+      {project.image ? (
+        <Image
+          src={project.image}
+          alt={project.name}
+          width={1200}
+          height={630}
+          className="size-full object-cover"
+        />
+      ) : (
+        <ImageIcon size={24} className="text-muted-foreground" />
+      )}
+    </Link>
+    <Checkbox
+      checked={selected}
+      onCheckedChange={(checked) => onSelectedChange(checked === true)}
+      aria-label={`Select ${project.name}`}
+      className={cn(
+        'absolute top-3 left-3 bg-card',
+        !selected && 'opacity-0 group-hover:opacity-100'
+      )}
+    />
+    <div className="grid gap-1 p-4">
+      <div className="flex items-center gap-1">
+        <Link
+          href={`/projects/${project.id}`}
+          className="flex-1 truncate font-medium"
+        >
+          {project.name}
+        </Link>
+        <ProjectTagsEditor
+          tags={project.tags}
+          suggestions={tags}
+          onChange={(value) => onOrganize({ tags: value })}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7 rounded-full"
+          onClick={() => onOrganize({ pinned: !project.pinned })}
+        >
+          {project.pinned ? <PinOffIcon size={14} /> : <PinIcon size={14} />}
+        </Button>
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Edited {getFormattedTime(project.updatedAt)} ·{' '}
+        {project.nodeCount === 1 ? '1 node' : `${project.nodeCount} nodes`} · $
+        {project.spend.toFixed(2)}
+      </p>
+      {project.tags.length > 0 && (
+        <div className="mt-1 flex flex-wrap gap-1">
+          {project.tags.map((tag) => (
+            <span
+              key={tag}
+              className="rounded-full bg-secondary px-2 py-0.5 text-xs"
+            >
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,213 @@
+'use client';
+
+import { createProjectAction } from '@/app/actions/project/create';
+import { organizeProjectsAction } from '@/app/actions/project/organize';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  type ProjectSort,
+  type ProjectSummary,
+  getProjectTags,
+  projectSorts,
+  sortProjects,
+} from '@/lib/dashboard';
+import { handleError } from '@/lib/error/handle';
+import Fuse from 'fuse.js';
+import { ArchiveIcon, ArchiveRestoreIcon, PlusIcon } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useMemo, useState } from 'react';
+import { ProjectCard } from './card';
+
+type ProjectDashboardProps = {
+  projects: ProjectSummary[];
+};
+
+type OrganizeData = Parameters<typeof organizeProjectsAction>[1];
+
+const allTags = 'all';
+
+export const ProjectDashboard = ({ projects }: ProjectDashboardProps) => {
+  const router = useRouter();
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<ProjectSort>('updated');
+  const [tag, setTag] = useState(allTags);
+  const [showArchived, setShowArchived] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const tags = useMemo(() => getProjectTags(projects), [projects]);
+
+  const fuse = useMemo(
+    () =>
+      new Fuse(projects, {
+        keys: ['name', 'tags'],
+        minMatchCharLength: 1,
+        threshold: 0.3,
+      }),
+    [projects]
+  );
+
+  const visible = useMemo(() => {
+    const matches = search.trim()
+      ? fuse.search(search.trim()).map((result) => result.item)
+      : projects;
+
+    return sortProjects(
+      matches.filter(
+        (project) =>
+          project.archived === showArchived &&
+          (tag === allTags || project.tags.includes(tag))
+      ),
+      sort
+    );
+  }, [projects, fuse, search, sort, tag, showArchived]);
+
+  const organize = async (projectIds: string[], data: OrganizeData) => {
+    try {
+      const response = await organizeProjectsAction(projectIds, data);
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      setSelected((prev) => prev.filter((id) => !projectIds.includes(id)));
+      router.refresh();
+    } catch (error) {
+      handleError('Error updating projects', error);
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+
+    try {
+      const response = await createProjectAction('Untitled Project');
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      router.push(`/projects/${response.id}`);
+    } catch (error) {
+      handleError('Error creating project', error);
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto grid max-w-7xl gap-6 px-4 py-8">
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="font-bold text-3xl tracking-tight">Projects</h1>
+        <Button onClick={handleCreate} disabled={isCreating}>
+          <PlusIcon size={16} />
+          New project
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          type="text"
+          placeholder="Search projects..."
+          value={search}
+          onChange={({ target }) => setSearch(target.value)}
+          className="w-64"
+        />
+        <Select value={tag} onValueChange={setTag}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={allTags}>All tags</SelectItem>
+            {tags.map((item) => (
+              <SelectItem key={item} value={item}>
+                {item}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={sort}
+          onValueChange={(value) => setSort(value as ProjectSort)}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(projectSorts).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="ml-auto flex items-center gap-2">
+          <Switch
+            id="show-archived"
+            checked={showArchived}
+            onCheckedChange={(checked) => {
+              setShowArchived(checked);
+              setSelected([]);
+            }}
+          />
+          <Label htmlFor="show-archived">Archived</Label>
+        </div>
+      </div>
+      {selected.length > 0 && (
+        <div className="flex items-center gap-2 rounded-full border bg-card p-1 pl-4">
+          <p className="flex-1 text-sm">{selected.length} selected</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="rounded-full"
+            onClick={() => setSelected([])}
+          >
+            Clear
+          </Button>
+          <Button
+            size="sm"
+            className="rounded-full"
+            onClick={() => organize(selected, { archived: !showArchived })}
+          >
+            {showArchived ? (
+              <ArchiveRestoreIcon size={16} />
+            ) : (
+              <ArchiveIcon size={16} />
+            )}
+            {showArchived ? 'Unarchive' : 'Archive'}
+          </Button>
+        </div>
+      )}
+      {visible.length ? (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+          {visible.map((project) => (
+            <ProjectCard
+              key={project.id}
+              project={project}
+              tags={tags}
+              selected={selected.includes(project.id)}
+              onSelectedChange={(checked) =>
+                setSelected((prev) =>
+                  checked
+                    ? [...prev, project.id]
+                    : prev.filter((id) => id !== project.id)
+                )
+              }
+              onOrganize={(data) => organize([project.id], data)}
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="py-16 text-center text-muted-foreground text-sm">
+          {showArchived ? 'No archived projects.' : 'No projects found.'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { normalizeTag } from '@/lib/dashboard';
+import { TagIcon, XIcon } from 'lucide-react';
+import { type FormEventHandler, useState } from 'react';
+
+type ProjectTagsEditorProps = {
+  tags: string[];
+
+  // Tags used on other projects, offered so folders stay consistent
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+};
+
+export const ProjectTagsEditor = ({
+  tags,
+  suggestions,
+  onChange,
+}: ProjectTagsEditorProps) => {
+  const [value, setValue] = useState('');
+  const unused = suggestions.filter((tag) => !tags.includes(tag));
+
+  const handleAdd: FormEventHandler<HTMLFormElement> = (event) => {
+    event.preventDefault();
+
+    const tag = normalizeTag(value);
+
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+
+    setValue('');
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="size-7 rounded-full">
+          <TagIcon size={14} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="grid w-64 gap-3 p-3" align="end">
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map((tag) => (
+              <button
+                type="button"
+                key={tag}
+                className="flex items-center gap-1 rounded-full bg-secondary px-2 py-0.5 text-xs"
+                onClick={() => onChange(tags.filter((item) => item !== tag))}
+              >
+                {tag}
+                <XIcon size={12} />
+              </button>
+            ))}
+          </div>
+        )}
+        <form onSubmit={handleAdd}>
+          <Input
+            type="text"
+            placeholder="Add a tag"
+            value={value}
+            onChange={({ target }) => setValue(target.value)}
+            className="h-8"
+          />
+        </form>
+        {unused.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {unused.map((tag) => (
+              <button
+                type="button"
+                key={tag}
+                className="rounded-full border px-2 py-0.5 text-muted-foreground text-xs hover:text-foreground"
+                onClick={() => onChange([...tags, tag])}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
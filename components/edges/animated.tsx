@@ -10,14 +10,18 @@ import { Position } from '@xyflow/react';
 
 const getHandleCoordsByPosition = (
   node: InternalNode<Node>,
-  handlePosition: Position
+  handlePosition: Position,
+  handleId?: string | null
 ) => {
   // Choose the handle type based on position - Left is for target, Right is for source
   const handleType = handlePosition === Position.Left ? 'target' : 'source';
+  const handles = node.internals.handleBounds?.[handleType];
 
-  const handle = node.internals.handleBounds?.[handleType]?.find(
-    (h) => h.position === handlePosition
-  );
+  // Nodes with several handles on a side, e.g. collapsed groups, need the
+  // edge's own handle
+  const handle =
+    (handleId && handles?.find((h) => h.id === handleId)) ||
+    handles?.find((h) => h.position === handlePosition);
 
   if (!handle) {
     return [0, 0];
@@ -54,12 +58,14 @@ const getHandleCoordsByPosition = (
 
 const getEdgeParams = (
   source: InternalNode<Node>,
-  target: InternalNode<Node>
+  target: InternalNode<Node>,
+  sourceHandleId?: string | null,
+  targetHandleId?: string | null
 ) => {
   const sourcePos = Position.Right;
-  const [sx, sy] = getHandleCoordsByPosition(source, sourcePos);
+  const [sx, sy] = getHandleCoordsByPosition(source, sourcePos, sourceHandleId);
   const targetPos = Position.Left;
-  const [tx, ty] = getHandleCoordsByPosition(target, targetPos);
+  const [tx, ty] = getHandleCoordsByPosition(target, targetPos, targetHandleId);
 
   return {
     sx,
@@ -75,6 +81,8 @@ export const AnimatedEdge = ({
   id,
   source,
   target,
+  sourceHandleId,
+  targetHandleId,
   markerEnd,
   style,
 }: EdgeProps) => {
@@ -87,7 +95,9 @@ export const AnimatedEdge = ({
 
   const { sx, sy, tx, ty, sourcePos, targetPos } = getEdgeParams(
     sourceNode,
-    targetNode
+    targetNode,
+    sourceHandleId,
+    targetHandleId
   );
 
   const [edgePath] = getBezierPath({
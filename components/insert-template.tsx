@@ -0,0 +1,72 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Template } from '@/lib/templates';
+import { type FormEventHandler, useState } from 'react';
+import { TemplateGallery, TemplateInputs } from './template-gallery';
+import { Button } from './ui/button';
+
+type InsertTemplateProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onInsert: (template: Template, values: Record<string, string>) => void;
+};
+
+export const InsertTemplate = ({
+  open,
+  onOpenChange,
+  onInsert,
+}: InsertTemplateProps) => {
+  const [template, setTemplate] = useState<Template | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const handleInsert: FormEventHandler<HTMLFormElement> = (event) => {
+    event.preventDefault();
+
+    if (!template) {
+      return;
+    }
+
+    onInsert(template, values);
+    onOpenChange(false);
+    setValues({});
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange} modal={false}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Insert template</DialogTitle>
+          <DialogDescription>
+            Add a saved pipeline where you opened the menu.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleInsert} className="mt-2 grid gap-4">
+          <TemplateGallery
+            value={template}
+            onChange={(value) => {
+              setTemplate(value);
+              setValues({});
+            }}
+          />
+          {template && (
+            <TemplateInputs
+              template={template}
+              values={values}
+              onChange={setValues}
+            />
+          )}
+          <Button type="submit" disabled={!template}>
+            Insert
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
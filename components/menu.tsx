@@ -16,12 +16,14 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { type MouseEventHandler, useState } from 'react';
 import { Profile } from './profile';
+import { ProviderKeys } from './provider-keys';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
 import { Button } from './ui/button';
 
 export const Menu = () => {
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const [profileOpen, setProfileOpen] = useState(false);
+  const [keysOpen, setKeysOpen] = useState(false);
   const router = useRouter();
   const user = useUser();
   const { isSubscribed } = useSubscription();
@@ -42,6 +44,16 @@ export const Menu = () => {
     }, 200);
   };
 
+  const handleOpenKeys: MouseEventHandler<HTMLDivElement> = (event) => {
+    event.preventDefault();
+    setDropdownOpen(false);
+
+    // Same dropdown animation issue as the profile modal
+    setTimeout(() => {
+      setKeysOpen(true);
+    }, 200);
+  };
+
   if (!user) {
     return (
       <Button variant="ghost" size="icon" className="rounded-full" disabled>
@@ -96,6 +108,7 @@ export const Menu = () => {
           <DropdownMenuItem onClick={handleOpenProfile}>
             Profile
           </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleOpenKeys}>API keys</DropdownMenuItem>
           <DropdownMenuItem asChild>
             <Link href="/library" className="flex items-center gap-2">
               <FolderIcon size={16} />
@@ -133,6 +146,7 @@ export const Menu = () => {
         </DropdownMenuContent>
       </DropdownMenu>
       <Profile open={profileOpen} setOpen={setProfileOpen} />
+      <ProviderKeys open={keysOpen} setOpen={setKeysOpen} />
     </>
   );
 };
@@ -0,0 +1,100 @@
+import { Button } from '@/components/ui/button';
+import type { AnnotationNodeData, CalloutDirection } from '@/lib/annotations';
+import { cn } from '@/lib/utils';
+import { useProjectRole } from '@/providers/project';
+import { useReactFlow } from '@xyflow/react';
+import {
+  ArrowDownIcon,
+  ArrowLeftIcon,
+  ArrowRightIcon,
+  ArrowUpIcon,
+} from 'lucide-react';
+import { colorClasses } from './colors';
+import { AnnotationLayout } from './layout';
+
+type CalloutNodeProps = {
+  id: string;
+  data: AnnotationNodeData;
+  selected?: boolean;
+};
+
+// The arrow points away from the callout, at whatever it is about
+const arrows: Record<
+  CalloutDirection,
+  { icon: typeof ArrowLeftIcon; className: string; next: CalloutDirection }
+> = {
+  left: {
+    icon: ArrowLeftIcon,
+    className: 'top-1/2 right-full mr-1 -translate-y-1/2',
+    next: 'top',
+  },
+  top: {
+    icon: ArrowUpIcon,
+    className: 'bottom-full left-1/2 mb-1 -translate-x-1/2',
+    next: 'right',
+  },
+  right: {
+    icon: ArrowRightIcon,
+    className: 'top-1/2 left-full ml-1 -translate-y-1/2',
+    next: 'bottom',
+  },
+  bottom: {
+    icon: ArrowDownIcon,
+    className: 'top-full left-1/2 mt-1 -translate-x-1/2',
+    next: 'left',
+  },
+};
+
+export const CalloutNode = ({ id, data, selected }: CalloutNodeProps) => {
+  const { updateNodeData } = useReactFlow();
+  const readOnly = useProjectRole() === 'viewer';
+  const color = colorClasses[data.color ?? 'blue'];
+  const arrow = arrows[data.direction ?? 'left'];
+
+  const toolbar = [
+    {
+      tooltip: 'Arrow direction',
+      children: (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full"
+          onClick={() => updateNodeData(id, { direction: arrow.next })}
+        >
+          <arrow.icon size={12} />
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <AnnotationLayout
+      id={id}
+      data={data}
+      selected={selected}
+      minWidth={120}
+      minHeight={48}
+      toolbar={toolbar}
+    >
+      <div
+        className={cn(
+          'relative size-full rounded-xl border p-3',
+          color.surface
+        )}
+      >
+        <arrow.icon
+          size={40}
+          strokeWidth={2.5}
+          className={cn('absolute', arrow.className, color.arrow)}
+        />
+        <textarea
+          value={data.text ?? ''}
+          placeholder="Point something out..."
+          onChange={({ target }) => updateNodeData(id, { text: target.value })}
+          disabled={readOnly}
+          className="nodrag nowheel size-full resize-none bg-transparent font-medium text-sm outline-none placeholder:text-current/50"
+        />
+      </div>
+    </AnnotationLayout>
+  );
+};
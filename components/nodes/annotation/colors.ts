@@ -0,0 +1,60 @@
+import type { AnnotationColor } from '@/lib/annotations';
+
+type ColorClasses = {
+  // Shown in the colour picker
+  swatch: string;
+
+  // Filled background of notes and callouts
+  surface: string;
+
+  // Outline and tint of frames
+  frame: string;
+
+  // Arrow of callouts
+  arrow: string;
+};
+
+export const colorClasses: Record<AnnotationColor, ColorClasses> = {
+  yellow: {
+    swatch: 'bg-yellow-300',
+    surface:
+      'border-yellow-300 bg-yellow-100 text-yellow-950 dark:border-yellow-800 dark:bg-yellow-950 dark:text-yellow-50',
+    frame: 'border-yellow-400 bg-yellow-400/5',
+    arrow: 'text-yellow-400',
+  },
+  orange: {
+    swatch: 'bg-orange-300',
+    surface:
+      'border-orange-300 bg-orange-100 text-orange-950 dark:border-orange-800 dark:bg-orange-950 dark:text-orange-50',
+    frame: 'border-orange-400 bg-orange-400/5',
+    arrow: 'text-orange-400',
+  },
+  green: {
+    swatch: 'bg-green-300',
+    surface:
+      'border-green-300 bg-green-100 text-green-950 dark:border-green-800 dark:bg-green-950 dark:text-green-50',
+    frame: 'border-green-400 bg-green-400/5',
+    arrow: 'text-green-400',
+  },
+  blue: {
+    swatch: 'bg-blue-300',
+    surface:
+      'border-blue-300 bg-blue-100 text-blue-950 dark:border-blue-800 dark:bg-blue-950 dark:text-blue-50',
+    frame: 'border-blue-400 bg-blue-400/5',
+    arrow: 'text-blue-400',
+  },
+  purple: {
+    swatch: 'bg-purple-300',
+    surface:
+      'border-purple-300 bg-purple-100 text-purple-950 dark:border-purple-800 dark:bg-purple-950 dark:text-purple-50',
+    frame: 'border-purple-400 bg-purple-400/5',
+    arrow: 'text-purple-400',
+  },
+  gray: {
+    swatch: 'bg-neutral-300',
+    surface:
+      'border-neutral-300 bg-neutral-100 text-neutral-950 dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-50',
+    frame: 'border-neutral-400 bg-neutral-400/5',
+    arrow: 'text-neutral-400',
+  },
+};
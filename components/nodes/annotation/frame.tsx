@@ -0,0 +1,45 @@
+import type { AnnotationNodeData } from '@/lib/annotations';
+import { cn } from '@/lib/utils';
+import { useProjectRole } from '@/providers/project';
+import { useReactFlow } from '@xyflow/react';
+import { colorClasses } from './colors';
+import { AnnotationLayout } from './layout';
+
+type FrameNodeProps = {
+  id: string;
+  data: AnnotationNodeData;
+  selected?: boolean;
+};
+
+// A labelled section of the board. Nodes placed inside it move with it, see
+// withFrameContents.
+export const FrameNode = ({ id, data, selected }: FrameNodeProps) => {
+  const { updateNodeData } = useReactFlow();
+  const readOnly = useProjectRole() === 'viewer';
+
+  return (
+    <AnnotationLayout
+      id={id}
+      data={data}
+      selected={selected}
+      minWidth={200}
+      minHeight={120}
+    >
+      <div
+        className={cn(
+          'size-full rounded-[28px] border-2',
+          colorClasses[data.color ?? 'gray'].frame
+        )}
+      >
+        <input
+          type="text"
+          value={data.text ?? ''}
+          placeholder="Frame"
+          onChange={({ target }) => updateNodeData(id, { text: target.value })}
+          disabled={readOnly}
+          className="nodrag w-full bg-transparent px-6 pt-4 font-semibold text-lg outline-none"
+        />
+      </div>
+    </AnnotationLayout>
+  );
+};
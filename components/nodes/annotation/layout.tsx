@@ -0,0 +1,103 @@
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import {
+  type AnnotationColor,
+  type AnnotationNodeData,
+  annotationColors,
+} from '@/lib/annotations';
+import { cn } from '@/lib/utils';
+import { useNodeOperations } from '@/providers/node-operations';
+import { useProjectRole } from '@/providers/project';
+import { NodeResizer, useReactFlow } from '@xyflow/react';
+import { CopyIcon, TrashIcon } from 'lucide-react';
+import type { ComponentProps, ReactNode } from 'react';
+import { NodeToolbar } from '../toolbar';
+import { colorClasses } from './colors';
+
+type AnnotationLayoutProps = {
+  id: string;
+  data: AnnotationNodeData;
+  selected?: boolean;
+  minWidth: number;
+  minHeight: number;
+  toolbar?: ComponentProps<typeof NodeToolbar>['items'];
+  children: ReactNode;
+};
+
+// Annotations don't use NodeLayout since they have no handles, status or
+// generation, only a colour and a size
+export const AnnotationLayout = ({
+  id,
+  data,
+  selected,
+  minWidth,
+  minHeight,
+  toolbar = [],
+  children,
+}: AnnotationLayoutProps) => {
+  const { updateNodeData, deleteElements } = useReactFlow();
+  const { duplicateNode } = useNodeOperations();
+  const readOnly = useProjectRole() === 'viewer';
+
+  const handleColorChange = (color: AnnotationColor) =>
+    updateNodeData(id, { color });
+
+  const colorPicker = {
+    children: (
+      <div className="flex items-center gap-1 px-1">
+        {annotationColors.map((color) => (
+          <button
+            key={color}
+            type="button"
+            aria-label={color}
+            onClick={() => handleColorChange(color)}
+            className={cn(
+              'size-5 rounded-full ring-offset-2 ring-offset-background',
+              colorClasses[color].swatch,
+              data.color === color && 'ring-2 ring-primary'
+            )}
+          />
+        ))}
+      </div>
+    ),
+  };
+
+  return (
+    <>
+      {!readOnly && <NodeToolbar id={id} items={[colorPicker, ...toolbar]} />}
+      <NodeResizer
+        isVisible={selected && !readOnly}
+        minWidth={minWidth}
+        minHeight={minHeight}
+        lineClassName="!border-primary"
+        handleClassName="!size-2 !rounded-sm !border-primary !bg-background"
+      />
+      <ContextMenu>
+        <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+        <ContextMenuContent>
+          <ContextMenuItem
+            onClick={() => duplicateNode(id)}
+            disabled={readOnly}
+          >
+            <CopyIcon size={12} />
+            <span>Duplicate</span>
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem
+            onClick={() => deleteElements({ nodes: [{ id }] })}
+            variant="destructive"
+            disabled={readOnly}
+          >
+            <TrashIcon size={12} />
+            <span>Delete</span>
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+    </>
+  );
+};
@@ -0,0 +1,42 @@
+import type { AnnotationNodeData } from '@/lib/annotations';
+import { cn } from '@/lib/utils';
+import { useProjectRole } from '@/providers/project';
+import { useReactFlow } from '@xyflow/react';
+import { colorClasses } from './colors';
+import { AnnotationLayout } from './layout';
+
+type NoteNodeProps = {
+  id: string;
+  data: AnnotationNodeData;
+  selected?: boolean;
+};
+
+export const NoteNode = ({ id, data, selected }: NoteNodeProps) => {
+  const { updateNodeData } = useReactFlow();
+  const readOnly = useProjectRole() === 'viewer';
+
+  return (
+    <AnnotationLayout
+      id={id}
+      data={data}
+      selected={selected}
+      minWidth={120}
+      minHeight={80}
+    >
+      <div
+        className={cn(
+          'size-full rounded-sm border p-3 shadow-md',
+          colorClasses[data.color ?? 'yellow'].surface
+        )}
+      >
+        <textarea
+          value={data.text ?? ''}
+          placeholder="Write a note..."
+          onChange={({ target }) => updateNodeData(id, { text: target.value })}
+          disabled={readOnly}
+          className="nodrag nowheel size-full resize-none bg-transparent text-sm outline-none placeholder:text-current/50"
+        />
+      </div>
+    </AnnotationLayout>
+  );
+};
@@ -1,10 +1,11 @@
+import type { VersionedNodeData } from '@/lib/history';
 import { useNodeConnections } from '@xyflow/react';
 import { AudioPrimitive } from './primitive';
 import { AudioTransform } from './transform';
 
 export type AudioNodeProps = {
   type: string;
-  data: {
+  data: VersionedNodeData & {
     content?: {
       url: string;
       type: string;
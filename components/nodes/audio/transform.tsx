@@ -2,17 +2,21 @@ import { generateSpeechAction } from '@/app/actions/speech/create';
 import { NodeLayout } from '@/components/nodes/layout';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Textarea } from '@/components/ui/textarea';
 import { useAnalytics } from '@/hooks/use-analytics';
+import { useVariables } from '@/hooks/use-variables';
 import { download } from '@/lib/download';
 import { handleError } from '@/lib/error/handle';
 import { speechModels } from '@/lib/models/speech';
+import { assertResolved, resolveInstructions } from '@/lib/prompt';
 import {
   getDescriptionsFromImageNodes,
+  getInputHash,
+  getInputNodes,
   getTextFromTextNodes,
 } from '@/lib/xyflow';
+import { useNodeRunner } from '@/providers/graph-executor';
 import { useProject } from '@/providers/project';
-import { getIncomers, useReactFlow } from '@xyflow/react';
+import { useReactFlow } from '@xyflow/react';
 import {
   ClockIcon,
   DownloadIcon,
@@ -20,11 +24,13 @@ import {
   PlayIcon,
   RotateCcwIcon,
 } from 'lucide-react';
-import { type ChangeEventHandler, type ComponentProps, useState } from 'react';
+import { type ComponentProps, useState } from 'react';
 import { toast } from 'sonner';
 import { mutate } from 'swr';
 import type { AudioNodeProps } from '.';
+import { InstructionsInput } from '../instructions';
 import { ModelSelector } from '../model-selector';
+import { VersionBrowser } from '../version-browser';
 import { VoiceSelector } from './voice-selector';
 
 type AudioTransformProps = AudioNodeProps & {
@@ -55,28 +61,36 @@ export const AudioTransform = ({
   const modelId = data.model ?? getDefaultModel(speechModels);
   const model = speechModels[modelId];
   const analytics = useAnalytics();
+  const variables = useVariables();
 
-  const handleGenerate = async () => {
+  const generate = async () => {
     if (loading || !project?.id) {
       return;
     }
 
     try {
-      const incomers = getIncomers({ id }, getNodes(), getEdges());
-      const textPrompts = getTextFromTextNodes(incomers);
-      const imagePrompts = getDescriptionsFromImageNodes(incomers);
+      const incomers = getInputNodes(id, getNodes(), getEdges());
+      const resolved = resolveInstructions(
+        data.instructions,
+        incomers,
+        variables
+      );
+      const textPrompts = getTextFromTextNodes(resolved.inputs);
+      const imagePrompts = getDescriptionsFromImageNodes(resolved.inputs);
 
       if (!textPrompts.length && !imagePrompts.length && !data.instructions) {
         throw new Error('No prompts found');
       }
 
+      assertResolved(resolved.missing);
+
       setLoading(true);
 
       let text = [...textPrompts, ...imagePrompts].join('\n');
-      let instructions = data.instructions;
+      let instructions = resolved.instructions;
 
-      if (data.instructions && !text.length) {
-        text = data.instructions;
+      if (instructions && !text.length) {
+        text = instructions;
         instructions = undefined;
       }
 
@@ -95,6 +109,7 @@ export const AudioTransform = ({
         projectId: project.id,
         voice: data.voice,
         instructions,
+        inputHash: getInputHash({ type, data }, incomers, variables),
       });
 
       if ('error' in response) {
@@ -106,13 +121,21 @@ export const AudioTransform = ({
       toast.success('Audio generated successfully');
 
       setTimeout(() => mutate('credits'), 5000);
-    } catch (error) {
-      handleError('Error generating audio', error);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleGenerate = async () => {
+    try {
+      await generate();
+    } catch (error) {
+      handleError('Error generating audio', error);
+    }
+  };
+
+  useNodeRunner(id, generate);
+
   const toolbar: ComponentProps<typeof NodeLayout>['toolbar'] = [
     {
       children: (
@@ -170,6 +193,10 @@ export const AudioTransform = ({
         }
   );
 
+  toolbar.push({
+    children: <VersionBrowser id={id} type={type} data={data} />,
+  });
+
   if (data.generated) {
     toolbar.push({
       tooltip: 'Download',
@@ -200,9 +227,8 @@ export const AudioTransform = ({
     });
   }
 
-  const handleInstructionsChange: ChangeEventHandler<HTMLTextAreaElement> = (
-    event
-  ) => updateNodeData(id, { instructions: event.target.value });
+  const handleInstructionsChange = (instructions: string) =>
+    updateNodeData(id, { instructions });
 
   return (
     <NodeLayout id={id} data={data} type={type} title={title} toolbar={toolbar}>
@@ -230,11 +256,11 @@ export const AudioTransform = ({
           className="w-full rounded-none"
         />
       )}
-      <Textarea
-        value={data.instructions ?? ''}
+      <InstructionsInput
+        id={id}
+        variables={variables}
+        value={data.instructions}
         onChange={handleInstructionsChange}
-        placeholder="Enter instructions"
-        className="shrink-0 resize-none rounded-none border-none bg-transparent! shadow-none focus-visible:ring-0"
       />
     </NodeLayout>
   );
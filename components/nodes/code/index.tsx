@@ -1,10 +1,11 @@
+import type { VersionedNodeData } from '@/lib/history';
 import { useNodeConnections } from '@xyflow/react';
 import { CodePrimitive } from './primitive';
 import { CodeTransform } from './transform';
 
 export type CodeNodeProps = {
   type: string;
-  data: {
+  data: VersionedNodeData & {
     generated?: {
       text?: string;
       language?: string;
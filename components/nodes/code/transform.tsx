@@ -1,31 +1,35 @@
 import { NodeLayout } from '@/components/nodes/layout';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Textarea } from '@/components/ui/textarea';
 import { useAnalytics } from '@/hooks/use-analytics';
+import { useModelOptions } from '@/hooks/use-model-options';
+import { useVariables } from '@/hooks/use-variables';
 import { handleError } from '@/lib/error/handle';
+import { type GenerationVersion, addGenerationVersion } from '@/lib/history';
 import { textModels } from '@/lib/models/text';
+import { assertResolved, resolveInstructions } from '@/lib/prompt';
+import { getServedProvider } from '@/lib/routing';
 import {
   getCodeFromCodeNodes,
   getDescriptionsFromImageNodes,
+  getInputHash,
+  getInputNodes,
   getTextFromTextNodes,
   getTranscriptionFromAudioNodes,
 } from '@/lib/xyflow';
+import { useNodeRunner } from '@/providers/graph-executor';
 import { useProject } from '@/providers/project';
 import { useChat } from '@ai-sdk/react';
 import Editor from '@monaco-editor/react';
-import { getIncomers, useReactFlow } from '@xyflow/react';
+import { useReactFlow } from '@xyflow/react';
 import { ClockIcon, PlayIcon, RotateCcwIcon, SquareIcon } from 'lucide-react';
-import {
-  type ChangeEventHandler,
-  type ComponentProps,
-  useCallback,
-  useMemo,
-} from 'react';
+import { type ComponentProps, useCallback, useMemo, useRef } from 'react';
 import { toast } from 'sonner';
 import { mutate } from 'swr';
 import type { CodeNodeProps } from '.';
+import { InstructionsInput } from '../instructions';
 import { ModelSelector } from '../model-selector';
+import { VersionBrowser } from '../version-browser';
 import { LanguageSelector } from './language-selector';
 
 type CodeTransformProps = CodeNodeProps & {
@@ -50,25 +54,56 @@ export const CodeTransform = ({
   type,
   title,
 }: CodeTransformProps) => {
-  const { updateNodeData, getNodes, getEdges } = useReactFlow();
+  const { updateNodeData, getNode, getNodes, getEdges } = useReactFlow();
   const project = useProject();
   const modelId = data.model ?? getDefaultModel(textModels);
+  const modelOptions = useModelOptions(textModels, 'text');
   const language = data.generated?.language ?? 'javascript';
   const analytics = useAnalytics();
+  const variables = useVariables();
+  const chatError = useRef<Error | undefined>(undefined);
+  const request = useRef<
+    Pick<GenerationVersion, 'model' | 'prompt' | 'instructions'> & {
+      inputHash: string;
+    }
+  >(undefined);
   const { append, messages, setMessages, status, stop } = useChat({
     api: '/api/code',
     body: {
       modelId,
+      projectId: project?.id,
       language,
     },
-    onError: (error) => handleError('Error generating text', error),
+    onError: (error) => {
+      chatError.current = error;
+    },
     onFinish: (message) => {
-      updateNodeData(id, {
-        generated: {
-          text: message.content,
-        },
-        updatedAt: new Date().toISOString(),
-      });
+      const { inputHash, ...version } = request.current ?? {};
+
+      updateNodeData(
+        id,
+        addGenerationVersion(
+          {
+            ...(getNode(id)?.data ?? data),
+            updatedAt: new Date().toISOString(),
+          },
+          {
+            ...version,
+            provider: getServedProvider(message.annotations),
+            output: {
+              generated: {
+                text: message.content,
+              },
+              inputHash,
+            },
+          }
+        )
+      );
+
+      // Show the stored output rather than the stream when the node is pinned
+      if (data.pinned) {
+        setMessages([]);
+      }
 
       toast.success('Text generated successfully');
 
@@ -76,12 +111,17 @@ export const CodeTransform = ({
     },
   });
 
-  const handleGenerate = useCallback(() => {
-    const incomers = getIncomers({ id }, getNodes(), getEdges());
-    const textPrompts = getTextFromTextNodes(incomers);
-    const audioPrompts = getTranscriptionFromAudioNodes(incomers);
-    const codePrompts = getCodeFromCodeNodes(incomers);
-    const imageDescriptions = getDescriptionsFromImageNodes(incomers);
+  const generate = useCallback(async () => {
+    const incomers = getInputNodes(id, getNodes(), getEdges());
+    const { instructions, inputs, missing } = resolveInstructions(
+      data.instructions,
+      incomers,
+      variables
+    );
+    const textPrompts = getTextFromTextNodes(inputs);
+    const audioPrompts = getTranscriptionFromAudioNodes(inputs);
+    const codePrompts = getCodeFromCodeNodes(inputs);
+    const imageDescriptions = getDescriptionsFromImageNodes(inputs);
 
     if (
       !textPrompts.length &&
@@ -90,13 +130,14 @@ export const CodeTransform = ({
       !imageDescriptions.length &&
       !data.instructions
     ) {
-      handleError('Error generating code', 'No prompts found');
-      return;
+      throw new Error('No prompts found');
     }
 
+    assertResolved(missing);
+
     const content = [
       '--- Instructions ---',
-      data.instructions ?? 'None.',
+      instructions ?? 'None.',
       '--- Text Prompts ---',
       ...textPrompts.join('\n'),
       '--- Audio Prompts ---',
@@ -120,13 +161,25 @@ export const CodeTransform = ({
       instructionsLength: data.instructions?.length ?? 0,
     });
 
+    chatError.current = undefined;
+    request.current = {
+      inputHash: getInputHash({ type, data }, incomers, variables),
+      model: modelId,
+      prompt: content.join('\n'),
+      instructions: data.instructions,
+    };
     setMessages([]);
-    append({
+
+    await append({
       role: 'user',
       content: content.join('\n'),
     });
+
+    if (chatError.current) {
+      throw chatError.current;
+    }
   }, [
-    data.instructions,
+    data,
     id,
     getNodes,
     getEdges,
@@ -135,11 +188,21 @@ export const CodeTransform = ({
     analytics,
     modelId,
     type,
+    variables,
   ]);
 
-  const handleInstructionsChange: ChangeEventHandler<HTMLTextAreaElement> = (
-    event
-  ) => updateNodeData(id, { instructions: event.target.value });
+  const handleGenerate = useCallback(async () => {
+    try {
+      await generate();
+    } catch (error) {
+      handleError('Error generating code', error);
+    }
+  }, [generate]);
+
+  useNodeRunner(id, generate);
+
+  const handleInstructionsChange = (instructions: string) =>
+    updateNodeData(id, { instructions });
 
   const handleCodeChange = (value: string | undefined) => {
     updateNodeData(id, {
@@ -171,7 +234,7 @@ export const CodeTransform = ({
         children: (
           <ModelSelector
             value={modelId}
-            options={textModels}
+            options={modelOptions}
             key={id}
             className="w-[200px] rounded-full"
             onChange={(value) => updateNodeData(id, { model: value })}
@@ -224,6 +287,17 @@ export const CodeTransform = ({
       });
     }
 
+    items.push({
+      children: (
+        <VersionBrowser
+          id={id}
+          type={type}
+          data={data}
+          onChange={() => setMessages([])}
+        />
+      ),
+    });
+
     if (data.updatedAt) {
       items.push({
         tooltip: `Last updated: ${new Intl.DateTimeFormat('en-US', {
@@ -250,7 +324,10 @@ export const CodeTransform = ({
     messages,
     project?.id,
     modelId,
+    modelOptions,
     language,
+    type,
+    setMessages,
   ]);
 
   const nonUserMessages = messages.filter((message) => message.role !== 'user');
@@ -279,11 +356,11 @@ export const CodeTransform = ({
           },
         }}
       />
-      <Textarea
-        value={data.instructions ?? ''}
+      <InstructionsInput
+        id={id}
+        variables={variables}
+        value={data.instructions}
         onChange={handleInstructionsChange}
-        placeholder="Enter instructions"
-        className="shrink-0 resize-none rounded-none border-none bg-transparent! shadow-none focus-visible:ring-0"
       />
     </NodeLayout>
   );
@@ -6,6 +6,8 @@ import {
   CommandItem,
   CommandList,
 } from '@/components/ui/command';
+import { isAnnotationNode, withAnnotationDefaults } from '@/lib/annotations';
+import { getFreePosition } from '@/lib/layout';
 import { nodeButtons } from '@/lib/node-buttons';
 import { type XYPosition, useReactFlow } from '@xyflow/react';
 import { nanoid } from 'nanoid';
@@ -21,14 +23,23 @@ type DropNodeProps = {
 };
 
 export const DropNode = ({ data, id }: DropNodeProps) => {
-  const { addNodes, deleteElements, getNode, addEdges, getNodeConnections } =
-    useReactFlow();
+  const {
+    addNodes,
+    deleteElements,
+    getNode,
+    getNodes,
+    addEdges,
+    getNodeConnections,
+  } = useReactFlow();
   const ref = useRef<HTMLDivElement>(null);
 
   const handleSelect = (type: string, options?: Record<string, unknown>) => {
-    // Get the position of the current node
+    // Take the position of the current node, moved clear of existing nodes
     const currentNode = getNode(id);
-    const position = currentNode?.position || { x: 0, y: 0 };
+    const position = getFreePosition(
+      currentNode?.position || { x: 0, y: 0 },
+      getNodes()
+    );
     const sourceNodes = getNodeConnections({
       nodeId: id,
     });
@@ -39,25 +50,31 @@ export const DropNode = ({ data, id }: DropNodeProps) => {
     });
 
     const newNodeId = nanoid();
-    const { data: nodeData, ...rest } = options ?? {};
+    const { data: nodeData, ...rest } = withAnnotationDefaults(type, options);
 
     // Add the new node of the selected type
     addNodes({
       id: newNodeId,
       type,
       position,
-      data: {
-        ...(nodeData ? nodeData : {}),
-      },
+      data: nodeData,
       origin: [0, 0.5],
       ...rest,
     });
 
+    // Annotations can't be connected to anything
+    if (isAnnotationNode({ type })) {
+      return;
+    }
+
     for (const sourceNode of sourceNodes) {
       addEdges({
         id: nanoid(),
         source: data.isSource ? newNodeId : sourceNode.source,
         target: data.isSource ? sourceNode.source : newNodeId,
+
+        // Keeps the route the connection was dragged from
+        sourceHandle: data.isSource ? undefined : sourceNode.sourceHandle,
         type: 'animated',
       });
     }
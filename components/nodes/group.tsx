@@ -0,0 +1,277 @@
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  type GroupHandle,
+  type GroupNodeData,
+  getGroupHandles,
+  getInputHandleId,
+  getNodeLabel,
+  getOutputHandleId,
+  releaseGroup,
+  toggleGroupCollapsed,
+} from '@/lib/groups';
+import { cn } from '@/lib/utils';
+import { useNodeOperations } from '@/providers/node-operations';
+import { useProjectRole } from '@/providers/project';
+import {
+  Handle,
+  type Node,
+  NodeResizer,
+  Position,
+  useEdges,
+  useNodes,
+  useReactFlow,
+} from '@xyflow/react';
+import {
+  CopyIcon,
+  Maximize2Icon,
+  Minimize2Icon,
+  SplitIcon,
+  TrashIcon,
+  UngroupIcon,
+} from 'lucide-react';
+import { type ChangeEventHandler, useMemo } from 'react';
+import { Button } from '../ui/button';
+import { NodeToolbar } from './toolbar';
+
+type GroupNodeProps = {
+  id: string;
+  data: GroupNodeData;
+  selected?: boolean;
+};
+
+type HandleListProps = {
+  handles: GroupHandle[];
+  type: 'target' | 'source';
+};
+
+const HandleList = ({ handles, type }: HandleListProps) => (
+  <div
+    className={cn(
+      'flex flex-col gap-2',
+      type === 'source' ? 'items-end' : 'items-start'
+    )}
+  >
+    {handles.map((handle) => (
+      <div key={handle.id} className="relative flex h-5 items-center">
+        <span className="truncate font-mono text-muted-foreground text-xs tracking-tighter">
+          {handle.label}
+        </span>
+        <Handle
+          type={type}
+          id={
+            type === 'target'
+              ? getInputHandleId(handle.id)
+              : getOutputHandleId(handle.id)
+          }
+          position={type === 'target' ? Position.Left : Position.Right}
+          className="!size-3"
+          style={type === 'target' ? { left: -22 } : { right: -22 }}
+        />
+      </div>
+    ))}
+  </div>
+);
+
+export const GroupNode = ({ id, data, selected }: GroupNodeProps) => {
+  const { setNodes, getNode, getEdges, updateNodeData, deleteElements } =
+    useReactFlow();
+  const { duplicateNode } = useNodeOperations();
+  const readOnly = useProjectRole() === 'viewer';
+  const nodes = useNodes();
+  const edges = useEdges();
+
+  const { children, inputs, outputs, connected } = useMemo(
+    () => getGroupHandles({ id, data }, nodes, edges),
+    [id, data, nodes, edges]
+  );
+
+  const handleToggleCollapsed = () => {
+    const group = getNode(id) as Node<GroupNodeData> | undefined;
+
+    if (group) {
+      setNodes((current) => toggleGroupCollapsed(group, current, getEdges()));
+    }
+  };
+
+  const handleUngroup = () => {
+    const group = getNode(id);
+
+    if (!group) {
+      return;
+    }
+
+    setNodes((current) => [
+      ...current.filter((node) => node.id !== id && node.parentId !== id),
+      ...releaseGroup(group, current),
+    ]);
+  };
+
+  const handleRename: ChangeEventHandler<HTMLInputElement> = (event) =>
+    updateNodeData(id, { label: event.target.value });
+
+  const toggleExposed = (
+    key: 'inputs' | 'outputs',
+    childId: string,
+    checked: boolean
+  ) => {
+    const current = (key === 'inputs' ? inputs : outputs).map(
+      (handle) => handle.id
+    );
+
+    updateNodeData(id, {
+      [key]: checked
+        ? [...current, childId]
+        : current.filter((item) => item !== childId),
+    });
+  };
+
+  const toolbar = [
+    {
+      tooltip: data.collapsed ? 'Expand' : 'Collapse',
+      children: (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full"
+          onClick={handleToggleCollapsed}
+        >
+          {data.collapsed ? (
+            <Maximize2Icon size={12} />
+          ) : (
+            <Minimize2Icon size={12} />
+          )}
+        </Button>
+      ),
+    },
+    {
+      children: (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="rounded-full"
+              disabled={readOnly}
+            >
+              <SplitIcon size={12} />
+              Handles
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="max-h-80 overflow-y-auto">
+            {(['inputs', 'outputs'] as const).map((key) => (
+              <div key={key}>
+                <DropdownMenuLabel className="capitalize">
+                  {key}
+                </DropdownMenuLabel>
+                {children.map((child) => (
+                  <DropdownMenuCheckboxItem
+                    key={child.id}
+                    checked={(key === 'inputs' ? inputs : outputs).some(
+                      (handle) => handle.id === child.id
+                    )}
+                    disabled={connected.has(child.id)}
+                    onCheckedChange={(checked) =>
+                      toggleExposed(key, child.id, checked)
+                    }
+                    onSelect={(event) => event.preventDefault()}
+                  >
+                    {getNodeLabel(child)}
+                  </DropdownMenuCheckboxItem>
+                ))}
+                {key === 'inputs' && <DropdownMenuSeparator />}
+              </div>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      {!readOnly && <NodeToolbar id={id} items={toolbar} />}
+      <NodeResizer
+        isVisible={selected && !data.collapsed && !readOnly}
+        minWidth={200}
+        minHeight={120}
+        lineClassName="!border-primary"
+        handleClassName="!size-2 !rounded-sm !border-primary !bg-background"
+      />
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div
+            className={cn(
+              'flex size-full flex-col rounded-[28px] transition-colors',
+              data.collapsed
+                ? 'bg-card ring-1 ring-border'
+                : 'border-2 border-border border-dashed bg-secondary/20'
+            )}
+          >
+            <div className="flex h-10 shrink-0 items-center gap-2 px-4">
+              <input
+                value={data.label ?? ''}
+                placeholder="Group"
+                onChange={handleRename}
+                disabled={readOnly}
+                className="nodrag min-w-0 flex-1 bg-transparent font-medium text-sm outline-none"
+              />
+              <span className="shrink-0 font-mono text-muted-foreground text-xs tracking-tighter">
+                {children.length} nodes
+              </span>
+            </div>
+            {data.collapsed && (
+              <div className="flex flex-1 justify-between gap-4 px-4 pb-4">
+                <HandleList handles={inputs} type="target" />
+                <HandleList handles={outputs} type="source" />
+              </div>
+            )}
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent>
+          <ContextMenuItem onClick={handleToggleCollapsed}>
+            {data.collapsed ? (
+              <Maximize2Icon size={12} />
+            ) : (
+              <Minimize2Icon size={12} />
+            )}
+            <span>{data.collapsed ? 'Expand' : 'Collapse'}</span>
+          </ContextMenuItem>
+          <ContextMenuItem
+            onClick={() => duplicateNode(id)}
+            disabled={readOnly}
+          >
+            <CopyIcon size={12} />
+            <span>Duplicate</span>
+          </ContextMenuItem>
+          <ContextMenuItem onClick={handleUngroup} disabled={readOnly}>
+            <UngroupIcon size={12} />
+            <span>Ungroup</span>
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem
+            onClick={() => deleteElements({ nodes: [{ id }] })}
+            variant="destructive"
+            disabled={readOnly}
+          >
+            <TrashIcon size={12} />
+            <span>Delete</span>
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+    </>
+  );
+};
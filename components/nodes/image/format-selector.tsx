@@ -21,7 +21,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
 import { handleError } from '@/lib/error/handle';
-import { imageModels } from '@/lib/models/image';
+import { getImageModelInfo } from '@/lib/models/custom';
 import { toast } from 'sonner';
 import { mutate } from 'swr';
 
@@ -168,7 +168,7 @@ export const FormatSelector = ({
   const { addNode } = useNodeOperations();
   const [loadingFormat, setLoadingFormat] = useState<FormatType | null>(null);
   
-  const model = imageModels[modelId];
+  const model = getImageModelInfo(modelId);
   const modelSizes = model?.sizes;
 
   const handleCreateFormat = useCallback(
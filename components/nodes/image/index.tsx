@@ -1,10 +1,12 @@
+import type { VersionedNodeData } from '@/lib/history';
+import type { NodeJob } from '@/lib/jobs';
 import { useNodeConnections } from '@xyflow/react';
 import { ImagePrimitive } from './primitive';
 import { ImageTransform } from './transform';
 
 export type ImageNodeProps = {
   type: string;
-  data: {
+  data: VersionedNodeData & {
     content?: {
       url: string;
       type: string;
@@ -20,6 +22,7 @@ export type ImageNodeProps = {
     model?: string;
     description?: string;
     instructions?: string;
+    job?: NodeJob;
   };
   id: string;
 };
@@ -1,10 +1,8 @@
 import { describeAction } from '@/app/actions/image/describe';
+import { CommentPins } from '@/components/comments/pins';
 import { NodeLayout } from '@/components/nodes/layout';
 import { Button } from '@/components/ui/button';
-import {
-  Dialog,
-  DialogContent,
-} from '@/components/ui/dialog';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { DropzoneEmptyState } from '@/components/ui/kibo-ui/dropzone';
 import { DropzoneContent } from '@/components/ui/kibo-ui/dropzone';
 import { Dropzone } from '@/components/ui/kibo-ui/dropzone';
@@ -94,6 +92,7 @@ export const ImagePrimitive = ({
               height={data.height ?? 1000}
               className="h-auto w-full"
             />
+            <CommentPins nodeId={id} />
             <Button
               size="icon"
               variant="secondary"
@@ -1,24 +1,35 @@
 import { generateImageAction } from '@/app/actions/image/create';
 import { editImageAction } from '@/app/actions/image/edit';
+import { CommentPins } from '@/components/comments/pins';
 import { NodeLayout } from '@/components/nodes/layout';
 import { ModelSelector } from '@/components/nodes/model-selector';
 import { Button } from '@/components/ui/button';
-import {
-  Dialog,
-  DialogContent,
-} from '@/components/ui/dialog';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Textarea } from '@/components/ui/textarea';
 import { useAnalytics } from '@/hooks/use-analytics';
+import { useNodeJob } from '@/hooks/use-job';
+import { useModelOptions } from '@/hooks/use-model-options';
+import { useVariableImages, useVariables } from '@/hooks/use-variables';
 import { download } from '@/lib/download';
 import { handleError } from '@/lib/error/handle';
 import { dataURLtoFile, splitGridImage } from '@/lib/image-split';
+import { isPendingJob } from '@/lib/jobs';
+import { getPlacement } from '@/lib/layout';
+import { getImageModelInfo } from '@/lib/models/custom';
 import { imageModels } from '@/lib/models/image';
+import { assertResolved, resolveInstructions } from '@/lib/prompt';
 import { uploadFile } from '@/lib/upload';
-import { getImagesFromImageNodes, getTextFromTextNodes } from '@/lib/xyflow';
+import { getReferencedVariables } from '@/lib/variables';
+import {
+  getImagesFromImageNodes,
+  getInputHash,
+  getInputNodes,
+  getTextFromTextNodes,
+} from '@/lib/xyflow';
+import { useNodeRunner } from '@/providers/graph-executor';
 import { useNodeOperations } from '@/providers/node-operations';
 import { useProject } from '@/providers/project';
-import { getIncomers, useReactFlow } from '@xyflow/react';
+import { useReactFlow } from '@xyflow/react';
 import {
   BoxIcon,
   CameraIcon,
@@ -37,18 +48,15 @@ import {
   SquareIcon,
 } from 'lucide-react';
 import Image from 'next/image';
-import {
-  type ChangeEventHandler,
-  type ComponentProps,
-  useCallback,
-  useMemo,
-  useState,
-} from 'react';
+import { type ComponentProps, useCallback, useMemo, useState } from 'react';
 import { toast } from 'sonner';
 import { mutate } from 'swr';
 import type { ImageNodeProps } from '.';
 import { ImageSizeSelector } from './image-size-selector';
 import { VariationsDropdown } from './variations-dropdown';
+import { InstructionsInput } from '../instructions';
+import { NodeJobError, NodeJobProgress } from '../job-status';
+import { VersionBrowser } from '../version-browser';
 import { FormatSelector } from './format-selector';
 import {
   DropdownMenu,
@@ -81,39 +89,60 @@ export const ImageTransform = ({
   type,
   title,
 }: ImageTransformProps) => {
-  const { updateNodeData, getNodes, getEdges, getNode, addEdges, updateNode } = useReactFlow();
+  const { updateNodeData, getNodes, getEdges, getNode, addEdges, updateNode } =
+    useReactFlow();
   const { addNode } = useNodeOperations();
   const [loading, setLoading] = useState(false);
   const [splitting, setSplitting] = useState(false);
   const [showImagePreview, setShowImagePreview] = useState(false);
   const project = useProject();
   const hasIncomingImageNodes =
-    getImagesFromImageNodes(getIncomers({ id }, getNodes(), getEdges()))
-      .length > 0;
+    getImagesFromImageNodes(getInputNodes(id, getNodes(), getEdges())).length >
+    0;
   const modelId = data.model ?? getDefaultModel(imageModels);
   const analytics = useAnalytics();
-  const selectedModel = imageModels[modelId];
+  const variables = useVariables();
+  const variableImages = useVariableImages();
+  const modelOptions = useModelOptions(imageModels, 'image');
+
+  const selectedModel = getImageModelInfo(modelId);
   const size = data.size ?? selectedModel?.sizes?.at(0);
   const node = getNode(id);
   const isSelected = node?.selected ?? false;
   const hasGeneratedImage = !!data.generated?.url;
+  const runJob = useNodeJob(id, data.job);
+  const pending = loading || isPendingJob(data.job);
 
-  const handleGenerate = useCallback(async () => {
-    if (loading || !project?.id) {
+  const generate = useCallback(async () => {
+    if (pending || !project?.id) {
       return;
     }
 
-    const incomers = getIncomers({ id }, getNodes(), getEdges());
-    const textNodes = getTextFromTextNodes(incomers);
-    const imageNodes = getImagesFromImageNodes(incomers);
+    const incomers = getInputNodes(id, getNodes(), getEdges());
+    const { instructions, inputs, missing } = resolveInstructions(
+      data.instructions,
+      incomers,
+      variables
+    );
+    const textNodes = getTextFromTextNodes(inputs);
+    const imageNodes = [
+      ...getImagesFromImageNodes(incomers),
+      ...Object.values(
+        getReferencedVariables(data.instructions, variableImages)
+      ),
+    ];
 
     try {
-      if (!textNodes.length && !imageNodes.length) {
+      if (!textNodes.length && !imageNodes.length && !instructions) {
         throw new Error('No input provided');
       }
 
+      assertResolved(missing);
+
       setLoading(true);
 
+      const inputHash = getInputHash({ type, data }, incomers, variables);
+
       analytics.track('canvas', 'node', 'generate', {
         type,
         textPromptsLength: textNodes.length,
@@ -125,52 +154,71 @@ export const ImageTransform = ({
       const response = imageNodes.length
         ? await editImageAction({
             images: imageNodes,
-            instructions: data.instructions,
+            instructions,
             nodeId: id,
             projectId: project.id,
             modelId,
             size,
+            inputHash,
           })
         : await generateImageAction({
             prompt: textNodes.join('\n'),
             modelId,
-            instructions: data.instructions,
+            instructions,
             projectId: project.id,
             nodeId: id,
             size,
+            inputHash,
           });
 
       if ('error' in response) {
         throw new Error(response.error);
       }
 
-      updateNodeData(id, response.nodeData);
+      // Slow models are generated in the background, the node follows along
+      if ('job' in response) {
+        const { job } = response;
+
+        await runJob(async () => job);
+      } else {
+        updateNodeData(id, response.nodeData);
+      }
 
       toast.success('Image generated successfully');
 
       setTimeout(() => mutate('credits'), 5000);
-    } catch (error) {
-      handleError('Error generating image', error);
     } finally {
       setLoading(false);
     }
   }, [
-    loading,
+    pending,
     project?.id,
     size,
     id,
     analytics,
     type,
-    data.instructions,
+    data,
     getEdges,
     modelId,
     getNodes,
     updateNodeData,
+    variables,
+    variableImages,
+    runJob,
   ]);
 
-  const handleInstructionsChange: ChangeEventHandler<HTMLTextAreaElement> = (
-    event
-  ) => updateNodeData(id, { instructions: event.target.value });
+  const handleGenerate = useCallback(async () => {
+    try {
+      await generate();
+    } catch (error) {
+      handleError('Error generating image', error);
+    }
+  }, [generate]);
+
+  useNodeRunner(id, generate);
+
+  const handleInstructionsChange = (instructions: string) =>
+    updateNodeData(id, { instructions });
 
   const handleSplit = useCallback(async () => {
     if (!data.generated?.url || !project?.id || splitting) {
@@ -188,32 +236,26 @@ export const ImageTransform = ({
       // Split the grid image into 9 individual images
       const splitImages = await splitGridImage(data.generated.url);
 
-      // Upload each split image and create a new node
-      const nodeWidth = currentNode.measured?.width ?? 400;
-      const nodeHeight = currentNode.measured?.height ?? 400;
-      const spacing = 60;
-      const cols = 3;
-      const startX = currentNode.position.x + nodeWidth + spacing;
-      const startY = currentNode.position.y - (nodeHeight * 1.2);
+      // Upload each split image and create a new node next to the current
+      // one, clear of the rest of the canvas
+      const positions = getPlacement(
+        currentNode,
+        splitImages.length,
+        getNodes()
+      );
 
       const newNodeIds: string[] = [];
 
       for (let i = 0; i < splitImages.length; i++) {
-        const row = Math.floor(i / cols);
-        const col = i % cols;
-        
         // Convert data URL to File
         const file = dataURLtoFile(splitImages[i], `split-${i + 1}.png`);
-        
+
         // Upload the file
         const uploaded = await uploadFile(file, 'files');
-        
+
         // Create new image node with the split image
         const newNodeId = addNode('image', {
-          position: {
-            x: startX + col * (nodeWidth + spacing),
-            y: startY + row * (nodeHeight + spacing),
-          },
+          position: positions[i],
           data: {
             model: modelId,
             size,
@@ -246,7 +288,19 @@ export const ImageTransform = ({
     } finally {
       setSplitting(false);
     }
-  }, [data.generated, project?.id, splitting, id, getNode, addNode, addEdges, updateNode, modelId, size]);
+  }, [
+    data.generated,
+    project?.id,
+    splitting,
+    id,
+    getNode,
+    getNodes,
+    addNode,
+    addEdges,
+    updateNode,
+    modelId,
+    size,
+  ]);
 
   const toolbar = useMemo<ComponentProps<typeof NodeLayout>['toolbar']>(() => {
     const items: ComponentProps<typeof NodeLayout>['toolbar'] = [];
@@ -256,7 +310,7 @@ export const ImageTransform = ({
       children: (
         <ModelSelector
           value={modelId}
-          options={imageModels}
+          options={modelOptions}
           key={id}
           className="w-[150px] rounded-full"
           onChange={(value) => updateNodeData(id, { model: value })}
@@ -281,7 +335,7 @@ export const ImageTransform = ({
 
     // Add generate/regenerate button
     items.push(
-      loading
+      pending
         ? {
             tooltip: 'Generating...',
             children: (
@@ -297,7 +351,7 @@ export const ImageTransform = ({
                 size="icon"
                 className="rounded-full"
                 onClick={handleGenerate}
-                disabled={loading || !project?.id}
+                disabled={pending || !project?.id}
               >
                 {data.generated?.url ? (
                   <RotateCcwIcon size={12} />
@@ -309,27 +363,48 @@ export const ImageTransform = ({
           }
     );
 
+    items.push({
+      children: <VersionBrowser id={id} type={type} data={data} />,
+    });
+
     // Add more options dropdown if image is generated
     if (data.generated && project?.id) {
-      const handleVariationsClick = async (variationType: 'camera-angles' | 'narrative' | 'environment' | 'artistic-style') => {
+      const handleVariationsClick = async (
+        variationType:
+          | 'camera-angles'
+          | 'narrative'
+          | 'environment'
+          | 'artistic-style'
+      ) => {
         const variations = {
-          'camera-angles': 'Using the provided input image as the base reference, create 9 variations with different camera angles and perspectives arranged in a 3x3 grid. Keep the exact same subject, person, and scene from the input image. Only change the camera angle and perspective.',
-          'narrative': 'Using the provided input image as the base reference, create 9 variations with different narrative elements and storytelling aspects arranged in a 3x3 grid. Keep the exact same subject, person, and scene from the input image. Only change the narrative elements.',
-          'environment': 'Using the provided input image as the base reference, create 9 variations with different environments and settings arranged in a 3x3 grid. Keep the exact same subject and person from the input image. Only change the environment and setting.',
-          'artistic-style': 'Using the provided input image as the base reference, create 9 variations with different artistic styles and visual aesthetics arranged in a 3x3 grid. Keep the exact same subject, person, and scene from the input image. Only change the artistic style.',
+          'camera-angles':
+            'Using the provided input image as the base reference, create 9 variations with different camera angles and perspectives arranged in a 3x3 grid. Keep the exact same subject, person, and scene from the input image. Only change the camera angle and perspective.',
+          narrative:
+            'Using the provided input image as the base reference, create 9 variations with different narrative elements and storytelling aspects arranged in a 3x3 grid. Keep the exact same subject, person, and scene from the input image. Only change the narrative elements.',
+          environment:
+            'Using the provided input image as the base reference, create 9 variations with different environments and settings arranged in a 3x3 grid. Keep the exact same subject and person from the input image. Only change the environment and setting.',
+          'artistic-style':
+            'Using the provided input image as the base reference, create 9 variations with different artistic styles and visual aesthetics arranged in a 3x3 grid. Keep the exact same subject, person, and scene from the input image. Only change the artistic style.',
         };
-        
+
         const currentNode = getNode(id);
         if (!currentNode || !project?.id) return;
 
         // Read the current model from the node data to ensure we use the latest selection
-        const currentModelId = (currentNode.data?.model as string) ?? modelId ?? getDefaultModel(imageModels);
-        const currentSize = currentNode.data?.size as string | undefined ?? size;
+        const currentModelId =
+          (currentNode.data?.model as string) ??
+          modelId ??
+          getDefaultModel(imageModels);
+        const currentSize =
+          (currentNode.data?.size as string | undefined) ?? size;
 
         try {
           const newNodeId = addNode('image', {
             position: {
-              x: currentNode.position.x + (currentNode.measured?.width ?? 400) + 100,
+              x:
+                currentNode.position.x +
+                (currentNode.measured?.width ?? 400) +
+                100,
               y: currentNode.position.y,
             },
             data: {
@@ -377,26 +452,37 @@ export const ImageTransform = ({
         }
       };
 
-      const handleFormatClick = async (formatType: 'square' | 'widescreen' | 'portrait') => {
-        const model = imageModels[modelId];
+      const handleFormatClick = async (
+        formatType: 'square' | 'widescreen' | 'portrait'
+      ) => {
+        const model = getImageModelInfo(modelId);
         const modelSizes = model?.sizes;
-        
+
         const formatConfigs = {
           square: {
-            getSize: (currentSize: string | undefined, modelSizes: string[] | undefined) => {
+            getSize: (
+              currentSize: string | undefined,
+              modelSizes: string[] | undefined
+            ) => {
               if (!modelSizes || modelSizes.length === 0) return null;
-              const squareSizes = modelSizes.filter(size => {
+              const squareSizes = modelSizes.filter((size) => {
                 const [width, height] = size.split('x').map(Number);
                 return width === height;
               });
-              return squareSizes.length > 0 ? squareSizes[squareSizes.length - 1] : modelSizes[0];
+              return squareSizes.length > 0
+                ? squareSizes[squareSizes.length - 1]
+                : modelSizes[0];
             },
-            instructions: 'Convert this image to square format. Adjust the composition to fit a square aspect ratio while maintaining the original subject. Extend or crop the background as needed to create a balanced square composition.',
+            instructions:
+              'Convert this image to square format. Adjust the composition to fit a square aspect ratio while maintaining the original subject. Extend or crop the background as needed to create a balanced square composition.',
           },
           widescreen: {
-            getSize: (currentSize: string | undefined, modelSizes: string[] | undefined) => {
+            getSize: (
+              currentSize: string | undefined,
+              modelSizes: string[] | undefined
+            ) => {
               if (!modelSizes || modelSizes.length === 0) return null;
-              const widescreenSizes = modelSizes.filter(size => {
+              const widescreenSizes = modelSizes.filter((size) => {
                 const [width, height] = size.split('x').map(Number);
                 const ratio = width / height;
                 return ratio > 1.5 && ratio < 2.0;
@@ -404,7 +490,10 @@ export const ImageTransform = ({
               if (widescreenSizes.length > 0) return widescreenSizes[0];
               const maxSize = modelSizes.reduce((max, size) => {
                 const [width, height] = size.split('x').map(Number);
-                const maxPixels = max.split('x').map(Number).reduce((a, b) => a * b);
+                const maxPixels = max
+                  .split('x')
+                  .map(Number)
+                  .reduce((a, b) => a * b);
                 const currentPixels = width * height;
                 return currentPixels > maxPixels ? size : max;
               });
@@ -414,12 +503,16 @@ export const ImageTransform = ({
               if (maxDimension >= 1024) return '1024x576';
               return '512x288';
             },
-            instructions: 'Extend this image to widescreen (16:9) format. Expand the image content horizontally to fill the entire frame, maintaining the original subject and composition. Add appropriate background elements or extend the existing background naturally to fill the widescreen aspect ratio.',
+            instructions:
+              'Extend this image to widescreen (16:9) format. Expand the image content horizontally to fill the entire frame, maintaining the original subject and composition. Add appropriate background elements or extend the existing background naturally to fill the widescreen aspect ratio.',
           },
           portrait: {
-            getSize: (currentSize: string | undefined, modelSizes: string[] | undefined) => {
+            getSize: (
+              currentSize: string | undefined,
+              modelSizes: string[] | undefined
+            ) => {
               if (!modelSizes || modelSizes.length === 0) return null;
-              const portraitSizes = modelSizes.filter(size => {
+              const portraitSizes = modelSizes.filter((size) => {
                 const [width, height] = size.split('x').map(Number);
                 const ratio = width / height;
                 return ratio < 0.7 && ratio > 0.4;
@@ -427,7 +520,10 @@ export const ImageTransform = ({
               if (portraitSizes.length > 0) return portraitSizes[0];
               const maxSize = modelSizes.reduce((max, size) => {
                 const [width, height] = size.split('x').map(Number);
-                const maxPixels = max.split('x').map(Number).reduce((a, b) => a * b);
+                const maxPixels = max
+                  .split('x')
+                  .map(Number)
+                  .reduce((a, b) => a * b);
                 const currentPixels = width * height;
                 return currentPixels > maxPixels ? size : max;
               });
@@ -437,13 +533,14 @@ export const ImageTransform = ({
               if (maxDimension >= 1024) return '576x1024';
               return '288x512';
             },
-            instructions: 'Extend this image to portrait (9:16) format. Expand the image content vertically to fill the entire frame, maintaining the original subject and composition. Add appropriate background elements or extend the existing background naturally to fill the portrait aspect ratio.',
+            instructions:
+              'Extend this image to portrait (9:16) format. Expand the image content vertically to fill the entire frame, maintaining the original subject and composition. Add appropriate background elements or extend the existing background naturally to fill the portrait aspect ratio.',
           },
         };
 
         const format = formatConfigs[formatType];
         const newSize = format.getSize(size, modelSizes);
-        
+
         if (!newSize) {
           toast.error(`Format "${formatType}" is not available for this model`);
           return;
@@ -460,7 +557,10 @@ export const ImageTransform = ({
         try {
           const newNodeId = addNode('image', {
             position: {
-              x: currentNode.position.x + (currentNode.measured?.width ?? 400) + 100,
+              x:
+                currentNode.position.x +
+                (currentNode.measured?.width ?? 400) +
+                100,
               y: currentNode.position.y,
             },
             data: {
@@ -520,19 +620,30 @@ export const ImageTransform = ({
               {selectedModel?.supportsEdit && (
                 <>
                   <DropdownMenuLabel>Variations</DropdownMenuLabel>
-                  <DropdownMenuItem onClick={() => handleVariationsClick('camera-angles')}>
+                  <DropdownMenuItem
+                    onClick={() => handleVariationsClick('camera-angles')}
+                  >
                     <CameraIcon size={14} className="shrink-0 text-blue-500" />
                     <span>Camera Angles</span>
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => handleVariationsClick('narrative')}>
-                    <SparklesIcon size={14} className="shrink-0 text-pink-500" />
+                  <DropdownMenuItem
+                    onClick={() => handleVariationsClick('narrative')}
+                  >
+                    <SparklesIcon
+                      size={14}
+                      className="shrink-0 text-pink-500"
+                    />
                     <span>Narrative</span>
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => handleVariationsClick('environment')}>
+                  <DropdownMenuItem
+                    onClick={() => handleVariationsClick('environment')}
+                  >
                     <BoxIcon size={14} className="shrink-0 text-green-500" />
                     <span>Environment</span>
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => handleVariationsClick('artistic-style')}>
+                  <DropdownMenuItem
+                    onClick={() => handleVariationsClick('artistic-style')}
+                  >
                     <PaletteIcon size={14} className="shrink-0 text-red-500" />
                     <span>Artistic Style</span>
                   </DropdownMenuItem>
@@ -542,11 +653,15 @@ export const ImageTransform = ({
                     <SquareIcon size={14} className="shrink-0" />
                     <span>Square</span>
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => handleFormatClick('widescreen')}>
+                  <DropdownMenuItem
+                    onClick={() => handleFormatClick('widescreen')}
+                  >
                     <RectangleHorizontalIcon size={14} className="shrink-0" />
                     <span>Widescreen (16:9)</span>
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => handleFormatClick('portrait')}>
+                  <DropdownMenuItem
+                    onClick={() => handleFormatClick('portrait')}
+                  >
                     <RectangleVerticalIcon size={14} className="shrink-0" />
                     <span>Portrait (9:16)</span>
                   </DropdownMenuItem>
@@ -554,10 +669,7 @@ export const ImageTransform = ({
                 </>
               )}
               <DropdownMenuLabel>Actions</DropdownMenuLabel>
-              <DropdownMenuItem
-                onClick={handleSplit}
-                disabled={splitting}
-              >
+              <DropdownMenuItem onClick={handleSplit} disabled={splitting}>
                 {splitting ? (
                   <Loader2Icon size={14} className="shrink-0 animate-spin" />
                 ) : (
@@ -594,16 +706,17 @@ export const ImageTransform = ({
     return items;
   }, [
     id,
+    type,
     updateNodeData,
     selectedModel?.sizes,
     selectedModel?.supportsEdit,
     size,
-    loading,
-    data.generated,
-    data.updatedAt,
+    pending,
+    data,
     handleGenerate,
     project,
     modelId,
+    modelOptions,
     splitting,
     handleSplit,
     getNode,
@@ -624,30 +737,35 @@ export const ImageTransform = ({
 
   return (
     <>
-      <NodeLayout id={id} data={data} type={type} title={title} toolbar={toolbar}>
-        {loading && (
+      <NodeLayout
+        id={id}
+        data={data}
+        type={type}
+        title={title}
+        toolbar={toolbar}
+      >
+        {pending && (
           <Skeleton
-            className="flex w-full animate-pulse items-center justify-center rounded-b-xl"
+            className="flex w-full animate-pulse flex-col items-center justify-center gap-2 rounded-b-xl"
             style={{ aspectRatio }}
           >
-            <Loader2Icon
-              size={16}
-              className="size-4 animate-spin text-muted-foreground"
-            />
+            <NodeJobProgress job={data.job} />
           </Skeleton>
         )}
-        {!loading && !data.generated?.url && (
+        {!pending && !data.generated?.url && (
           <div
             className="flex w-full items-center justify-center rounded-b-xl bg-secondary p-4"
             style={{ aspectRatio }}
           >
-            <p className="text-muted-foreground text-sm">
-              Press <PlayIcon size={12} className="-translate-y-px inline" /> to
-              create an image
-            </p>
+            <NodeJobError job={data.job}>
+              <p className="text-muted-foreground text-sm">
+                Press <PlayIcon size={12} className="-translate-y-px inline" />{' '}
+                to create an image
+              </p>
+            </NodeJobError>
           </div>
         )}
-        {!loading && data.generated?.url && (
+        {!pending && data.generated?.url && (
           <div className="relative">
             <Image
               src={data.generated.url}
@@ -656,6 +774,7 @@ export const ImageTransform = ({
               height={1000}
               className="w-full rounded-b-xl object-cover"
             />
+            <CommentPins nodeId={id} />
             <Button
               size="icon"
               variant="secondary"
@@ -671,11 +790,11 @@ export const ImageTransform = ({
             </Button>
           </div>
         )}
-        <Textarea
-          value={data.instructions ?? ''}
+        <InstructionsInput
+          id={id}
+          variables={variables}
+          value={data.instructions}
           onChange={handleInstructionsChange}
-          placeholder="Enter instructions"
-          className="shrink-0 resize-none rounded-none border-none bg-transparent! shadow-none focus-visible:ring-0"
         />
       </NodeLayout>
       {data.generated?.url && (
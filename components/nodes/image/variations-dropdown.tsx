@@ -23,6 +23,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
 import { handleError } from '@/lib/error/handle';
+import { getPlacement } from '@/lib/layout';
 import { toast } from 'sonner';
 import { mutate } from 'swr';
 
@@ -84,7 +85,7 @@ export const VariationsDropdown = ({
   size,
   projectId,
 }: VariationsDropdownProps) => {
-  const { getNode, addEdges, updateNode, updateNodeData } = useReactFlow();
+  const { getNode, getNodes, addEdges, updateNode, updateNodeData } = useReactFlow();
   const { addNode } = useNodeOperations();
   const [loadingVariation, setLoadingVariation] = useState<VariationType | null>(null);
 
@@ -96,12 +97,11 @@ export const VariationsDropdown = ({
       setLoadingVariation(variation.type);
 
       try {
-        // Create new image node positioned to the right of current node
+        // Create new image node to the right of current node, below any
+        // variations already there
+        const [position] = getPlacement(currentNode, 1, getNodes());
         const newNodeId = addNode('image', {
-          position: {
-            x: currentNode.position.x + (currentNode.measured?.width ?? 400) + 100,
-            y: currentNode.position.y,
-          },
+          position,
           data: {
             model: modelId,
             size,
@@ -155,7 +155,7 @@ export const VariationsDropdown = ({
         setLoadingVariation(null);
       }
     },
-    [nodeId, imageUrl, imageType, modelId, size, projectId, getNode, addNode, addEdges, updateNode, updateNodeData]
+    [nodeId, imageUrl, imageType, modelId, size, projectId, getNode, getNodes, addNode, addEdges, updateNode, updateNodeData]
   );
 
   return (
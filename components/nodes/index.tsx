@@ -1,9 +1,16 @@
+import { CalloutNode } from './annotation/callout';
+import { FrameNode } from './annotation/frame';
+import { NoteNode } from './annotation/note';
 import { AudioNode } from './audio';
 import { CodeNode } from './code';
 import { DesignAINode } from './design-ai';
 import { DropNode } from './drop';
 import { FileNode } from './file';
+import { GroupNode } from './group';
 import { ImageNode } from './image';
+import { ListNode } from './list';
+import { MergeNode } from './merge';
+import { RouterNode } from './router';
 import { TextNode } from './text';
 import { TweetNode } from './tweet';
 import { VideoNode } from './video';
@@ -16,6 +23,13 @@ export const nodeTypes = {
   audio: AudioNode,
   code: CodeNode,
   file: FileNode,
+  list: ListNode,
+  router: RouterNode,
+  merge: MergeNode,
   tweet: TweetNode,
   'design-ai': DesignAINode,
+  group: GroupNode,
+  note: NoteNode,
+  frame: FrameNode,
+  callout: CalloutNode,
 };
@@ -0,0 +1,190 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  type PromptSuggestion,
+  buildPrompt,
+  getOpenReference,
+  getPromptSuggestions,
+  hasReferences,
+} from '@/lib/prompt';
+import { cn } from '@/lib/utils';
+import { getInputNodes } from '@/lib/xyflow';
+import { useReactFlow } from '@xyflow/react';
+import { BracesIcon, EyeIcon } from 'lucide-react';
+import { type ChangeEvent, type KeyboardEvent, useRef, useState } from 'react';
+import { Button } from '../ui/button';
+
+type InstructionsInputProps = {
+  id: string;
+  value: string | undefined;
+  onChange: (value: string) => void;
+  variables?: Record<string, string>;
+};
+
+const maxSuggestions = 8;
+
+// The rest of a reference that is already closed after the cursor
+const closingPattern = /^[^{}\n]*}}/;
+
+export const InstructionsInput = ({
+  id,
+  value,
+  onChange,
+  variables,
+}: InstructionsInputProps) => {
+  const { getNodes, getEdges } = useReactFlow();
+  const textarea = useRef<HTMLTextAreaElement>(null);
+  const [suggestions, setSuggestions] = useState<PromptSuggestion[]>([]);
+  const [active, setActive] = useState(0);
+  const [preview, setPreview] = useState<ReturnType<typeof buildPrompt> | null>(
+    null
+  );
+
+  const getIncomers = () => getInputNodes(id, getNodes(), getEdges());
+
+  const updateSuggestions = (text: string, cursor: number) => {
+    const reference = getOpenReference(text, cursor);
+
+    if (!reference) {
+      setSuggestions([]);
+      return;
+    }
+
+    const query = reference.query.toLowerCase();
+
+    setSuggestions(
+      getPromptSuggestions(getIncomers(), variables)
+        .filter((suggestion) => suggestion.value.toLowerCase().includes(query))
+        .slice(0, maxSuggestions)
+    );
+    setActive(0);
+  };
+
+  const handleChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(event.target.value);
+    updateSuggestions(event.target.value, event.target.selectionStart);
+  };
+
+  const insert = (suggestion: PromptSuggestion) => {
+    const element = textarea.current;
+    const text = value ?? '';
+    const cursor = element?.selectionStart ?? text.length;
+    const reference = getOpenReference(text, cursor);
+
+    if (!reference) {
+      return;
+    }
+
+    const before = text.slice(0, reference.start);
+    const after = text.slice(cursor).replace(closingPattern, '');
+    const inserted = `${suggestion.value}}}`;
+
+    onChange(`${before}${inserted}${after}`);
+    setSuggestions([]);
+
+    requestAnimationFrame(() => {
+      const position = before.length + inserted.length;
+
+      element?.focus();
+      element?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!suggestions.length) {
+      return;
+    }
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const offset = event.key === 'ArrowDown' ? 1 : -1;
+      setActive(
+        (current) =>
+          (current + offset + suggestions.length) % suggestions.length
+      );
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      insert(suggestions[active]);
+    } else if (event.key === 'Escape') {
+      event.stopPropagation();
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative shrink-0">
+      <Textarea
+        ref={textarea}
+        value={value ?? ''}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setSuggestions([])}
+        placeholder="Enter instructions, type {{ to reference an input"
+        className="nowheel resize-none rounded-none border-none bg-transparent! pr-10 shadow-none focus-visible:ring-0"
+      />
+      {hasReferences(value) && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute top-1 right-1 size-7 rounded-full"
+          title="Preview resolved prompt"
+          onClick={() =>
+            setPreview(buildPrompt(value, getIncomers(), variables))
+          }
+        >
+          <EyeIcon size={12} />
+        </Button>
+      )}
+      {suggestions.length > 0 && (
+        <div className="nowheel absolute top-full right-0 left-0 z-50 mt-1 overflow-hidden rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.value}
+              type="button"
+              // Keeps the textarea focused so the cursor position is kept
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => insert(suggestion)}
+              className={cn(
+                'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm',
+                index === active && 'bg-accent text-accent-foreground'
+              )}
+            >
+              <BracesIcon
+                size={12}
+                className="shrink-0 text-muted-foreground"
+              />
+              <span className="truncate font-mono">{suggestion.value}</span>
+              <span className="ml-auto truncate text-muted-foreground text-xs">
+                {suggestion.description}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+      <Dialog open={Boolean(preview)} onOpenChange={() => setPreview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolved prompt</DialogTitle>
+            <DialogDescription>
+              The prompt as it will be sent with the current inputs.
+            </DialogDescription>
+          </DialogHeader>
+          {preview?.missing.length ? (
+            <p className="text-destructive text-sm">
+              Unknown {preview.missing.map((item) => `{{${item}}}`).join(', ')}
+            </p>
+          ) : null}
+          <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-lg bg-secondary p-4 text-sm">
+            {preview?.prompt}
+          </pre>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import { type NodeJob, jobStatusLabels } from '@/lib/jobs';
+import { Loader2Icon } from 'lucide-react';
+import type { ReactNode } from 'react';
+
+type NodeJobProgressProps = {
+  job?: NodeJob;
+};
+
+// Shown while the node generates, with the background job's status if any
+export const NodeJobProgress = ({ job }: NodeJobProgressProps) => (
+  <>
+    <Loader2Icon
+      size={16}
+      className="size-4 animate-spin text-muted-foreground"
+    />
+    {job && (
+      <p className="text-muted-foreground text-xs">
+        {jobStatusLabels[job.status]}...
+      </p>
+    )}
+  </>
+);
+
+type NodeJobErrorProps = {
+  job?: NodeJob;
+  children: ReactNode;
+};
+
+// Why the last generation failed, in place of the node's empty state
+export const NodeJobError = ({ job, children }: NodeJobErrorProps) =>
+  job?.status === 'failed' ? (
+    <p className="text-center text-destructive text-sm">
+      {job.error ?? 'The generation failed.'}
+    </p>
+  ) : (
+    children
+  );
@@ -1,3 +1,6 @@
+import { NodeCommentCount } from '@/components/comments/count';
+import { NodeCommentMenuItems } from '@/components/comments/menu-items';
+import { Badge } from '@/components/ui/badge';
 import {
   ContextMenu,
   ContextMenuContent,
@@ -12,11 +15,28 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { useExecution } from '@/hooks/use-execution';
+import { useFocusNode } from '@/hooks/use-focus-node';
 import { cn } from '@/lib/utils';
+import { useGraphExecutor } from '@/providers/graph-executor';
 import { useNodeOperations } from '@/providers/node-operations';
+import { useProjectRole, useProjectShared } from '@/providers/project';
+import { useStale } from '@/providers/stale';
 import { Handle, Position, useReactFlow } from '@xyflow/react';
-import { CodeIcon, CopyIcon, EyeIcon, TrashIcon } from 'lucide-react';
-import { type ReactNode, useState } from 'react';
+import {
+  CodeIcon,
+  CopyIcon,
+  EyeIcon,
+  PencilIcon,
+  PlayIcon,
+  TrashIcon,
+} from 'lucide-react';
+import {
+  type FocusEvent,
+  type KeyboardEvent,
+  type ReactNode,
+  useState,
+} from 'react';
 import { NodeToolbar } from './toolbar';
 
 type NodeLayoutProps = {
@@ -34,6 +54,13 @@ type NodeLayoutProps = {
     children: ReactNode;
   }[];
   className?: string;
+
+  // Replaces the single output handle, e.g. with a router's routes
+  sourceHandles?: {
+    id: string;
+    label: string;
+    active?: boolean;
+  }[];
 };
 
 export const NodeLayout = ({
@@ -44,25 +71,23 @@ export const NodeLayout = ({
   toolbar,
   title,
   className,
+  sourceHandles,
 }: NodeLayoutProps) => {
-  const { deleteElements, setCenter, getNode, updateNode } = useReactFlow();
+  const { deleteElements, getNode, updateNode, updateNodeData } =
+    useReactFlow();
+  const focusNode = useFocusNode();
   const { duplicateNode } = useNodeOperations();
+  const { runDownstream } = useGraphExecutor();
+  const [{ isRunning, statuses }] = useExecution();
+  const status = statuses[id];
+  const stale = useStale(id);
   const [showData, setShowData] = useState(false);
+  const [renaming, setRenaming] = useState(false);
+  const readOnly = useProjectRole() === 'viewer';
+  const shared = useProjectShared();
+  const label = typeof data?.label === 'string' ? data.label : undefined;
 
-  const handleFocus = () => {
-    const node = getNode(id);
-
-    if (!node) {
-      return;
-    }
-
-    const { x, y } = node.position;
-    const width = node.measured?.width ?? 0;
-
-    setCenter(x + width / 2, y, {
-      duration: 1000,
-    });
-  };
+  const handleFocus = () => focusNode(id);
 
   const handleDelete = () => {
     deleteElements({
@@ -76,6 +101,20 @@ export const NodeLayout = ({
     }, 100);
   };
 
+  // The label names the node in other nodes' instructions, e.g. {{node:Hero}}
+  const handleRename = (event: FocusEvent<HTMLInputElement>) => {
+    updateNodeData(id, { label: event.target.value.trim() || undefined });
+    setRenaming(false);
+  };
+
+  const handleRenameKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.currentTarget.blur();
+    } else if (event.key === 'Escape') {
+      setRenaming(false);
+    }
+  };
+
   const handleSelect = (open: boolean) => {
     if (!open) {
       return;
@@ -94,10 +133,10 @@ export const NodeLayout = ({
 
   return (
     <>
-      {type !== 'drop' && toolbar?.length && (
+      {type !== 'drop' && !shared && !readOnly && toolbar?.length && (
         <NodeToolbar id={id} items={toolbar} />
       )}
-      {type !== 'file' && type !== 'tweet' && (
+      {type !== 'file' && type !== 'tweet' && type !== 'list' && (
         <Handle type="target" position={Position.Left} />
       )}
       <ContextMenu onOpenChange={handleSelect}>
@@ -105,14 +144,51 @@ export const NodeLayout = ({
           <div className="relative size-full h-auto w-sm">
             {type !== 'drop' && (
               <div className="-translate-y-full -top-2 absolute right-0 left-0 flex shrink-0 items-center justify-between">
-                <p className="font-mono text-muted-foreground text-xs tracking-tighter">
-                  {title}
-                </p>
+                {renaming ? (
+                  <input
+                    type="text"
+                    ref={(element) => element?.focus()}
+                    defaultValue={label}
+                    placeholder={title}
+                    onBlur={handleRename}
+                    onKeyDown={handleRenameKeyDown}
+                    className="nodrag min-w-0 flex-1 bg-transparent font-mono text-muted-foreground text-xs tracking-tighter outline-none"
+                  />
+                ) : (
+                  <p className="font-mono text-muted-foreground text-xs tracking-tighter">
+                    {label ?? title}
+                  </p>
+                )}
+                <div className="flex items-center gap-2">
+                  <NodeCommentCount id={id} />
+                  {status && (
+                    <p
+                      className={cn(
+                        'font-mono text-muted-foreground text-xs tracking-tighter',
+                        status === 'running' && 'animate-pulse text-primary',
+                        status === 'failed' && 'text-destructive'
+                      )}
+                    >
+                      {status}
+                    </p>
+                  )}
+                  {!status && stale && (
+                    <Badge
+                      variant="outline"
+                      className="border-amber-500/50 px-1.5 py-0 font-mono text-amber-600 tracking-tighter dark:text-amber-400"
+                      title="Inputs changed since this node was last generated"
+                    >
+                      stale
+                    </Badge>
+                  )}
+                </div>
               </div>
             )}
             <div
               className={cn(
                 'node-container flex size-full flex-col divide-y rounded-[28px] bg-card p-2 ring-1 ring-border transition-all',
+                status === 'running' && 'ring-2 ring-primary',
+                status === 'failed' && 'ring-2 ring-destructive',
                 className
               )}
             >
@@ -123,16 +199,38 @@ export const NodeLayout = ({
           </div>
         </ContextMenuTrigger>
         <ContextMenuContent>
-          <ContextMenuItem onClick={() => duplicateNode(id)}>
+          <ContextMenuItem
+            onClick={() => duplicateNode(id)}
+            disabled={readOnly}
+          >
             <CopyIcon size={12} />
             <span>Duplicate</span>
           </ContextMenuItem>
+          <ContextMenuItem
+            onClick={() => setTimeout(() => setRenaming(true), 100)}
+            disabled={readOnly}
+          >
+            <PencilIcon size={12} />
+            <span>Rename</span>
+          </ContextMenuItem>
           <ContextMenuItem onClick={handleFocus}>
             <EyeIcon size={12} />
             <span>Focus</span>
           </ContextMenuItem>
+          <NodeCommentMenuItems id={id} type={type} />
+          <ContextMenuItem
+            onClick={() => runDownstream(id)}
+            disabled={shared || readOnly || isRunning}
+          >
+            <PlayIcon size={12} />
+            <span>Run from here</span>
+          </ContextMenuItem>
           <ContextMenuSeparator />
-          <ContextMenuItem onClick={handleDelete} variant="destructive">
+          <ContextMenuItem
+            onClick={handleDelete}
+            variant="destructive"
+            disabled={readOnly}
+          >
             <TrashIcon size={12} />
             <span>Delete</span>
           </ContextMenuItem>
@@ -147,7 +245,30 @@ export const NodeLayout = ({
           )}
         </ContextMenuContent>
       </ContextMenu>
-      {type !== 'video' && <Handle type="source" position={Position.Right} />}
+      {sourceHandles?.map((handle, index) => (
+        <Handle
+          key={handle.id}
+          id={handle.id}
+          type="source"
+          position={Position.Right}
+          style={{
+            top: `${((index + 1) / (sourceHandles.length + 1)) * 100}%`,
+          }}
+          className={cn(handle.active && '!bg-primary')}
+        >
+          <span
+            className={cn(
+              '-translate-y-1/2 pointer-events-none absolute top-1/2 left-4 max-w-40 truncate whitespace-nowrap font-mono text-muted-foreground text-xs tracking-tighter',
+              handle.active && 'text-primary'
+            )}
+          >
+            {handle.label}
+          </span>
+        </Handle>
+      ))}
+      {type !== 'video' && !sourceHandles && (
+        <Handle type="source" position={Position.Right} />
+      )}
       <Dialog open={showData} onOpenChange={setShowData}>
         <DialogContent>
           <DialogHeader>
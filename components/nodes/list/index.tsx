@@ -0,0 +1,14 @@
+import type { ListNodeData } from '@/lib/batch';
+import { ListPrimitive } from './primitive';
+
+export type ListNodeProps = {
+  type: string;
+  data: ListNodeData & {
+    updatedAt?: string;
+  };
+  id: string;
+};
+
+export const ListNode = (props: ListNodeProps) => (
+  <ListPrimitive {...props} title="List" />
+);
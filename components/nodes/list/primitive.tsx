@@ -0,0 +1,177 @@
+import { NodeLayout } from '@/components/nodes/layout';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useExecution } from '@/hooks/use-execution';
+import {
+  type ListRow,
+  concurrencyOptions,
+  defaultConcurrency,
+} from '@/lib/batch';
+import { useGraphExecutor } from '@/providers/graph-executor';
+import { useReactFlow } from '@xyflow/react';
+import { PlayIcon, PlusIcon, XIcon } from 'lucide-react';
+import { nanoid } from 'nanoid';
+import { type ClipboardEvent, type KeyboardEvent, useState } from 'react';
+import type { ListNodeProps } from '.';
+
+type ListPrimitiveProps = ListNodeProps & {
+  title: string;
+};
+
+const lineBreak = /\r?\n/;
+
+const createRow = (text = ''): ListRow => ({ id: nanoid(), text });
+
+export const ListPrimitive = ({
+  data,
+  id,
+  type,
+  title,
+}: ListPrimitiveProps) => {
+  const { updateNodeData } = useReactFlow();
+  const { runDownstream } = useGraphExecutor();
+  const [{ isRunning }] = useExecution();
+  const [emptyRow] = useState(() => createRow());
+  const rows = data.rows?.length ? data.rows : [emptyRow];
+  const filledRows = rows.filter((row) => row.text.trim()).length;
+
+  const setRows = (next: ListRow[]) =>
+    updateNodeData(id, { rows: next, updatedAt: new Date().toISOString() });
+
+  const updateRow = (rowId: string, text: string) =>
+    setRows(rows.map((row) => (row.id === rowId ? { ...row, text } : row)));
+
+  const removeRow = (rowId: string) =>
+    setRows(rows.filter((row) => row.id !== rowId));
+
+  const insertRows = (index: number, texts: string[]) =>
+    setRows([
+      ...rows.slice(0, index),
+      ...texts.map((text) => createRow(text)),
+      ...rows.slice(index),
+    ]);
+
+  // Pasting several lines, e.g. a spreadsheet column, adds a row per line
+  const handlePaste = (
+    event: ClipboardEvent<HTMLInputElement>,
+    row: ListRow,
+    index: number
+  ) => {
+    const lines = event.clipboardData
+      .getData('text')
+      .split(lineBreak)
+      .map((line) => line.split('\t')[0].trim())
+      .filter(Boolean);
+
+    if (lines.length < 2) {
+      return;
+    }
+
+    event.preventDefault();
+
+    setRows([
+      ...rows.slice(0, index),
+      ...(row.text ? [row] : []),
+      ...lines.map((line) => createRow(line)),
+      ...rows.slice(index + 1),
+    ]);
+  };
+
+  const handleKeyDown = (
+    event: KeyboardEvent<HTMLInputElement>,
+    index: number
+  ) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      insertRows(index + 1, ['']);
+    }
+  };
+
+  const toolbar = [
+    {
+      children: (
+        <Select
+          value={String(data.concurrency ?? defaultConcurrency)}
+          onValueChange={(value) =>
+            updateNodeData(id, { concurrency: Number(value) })
+          }
+        >
+          <SelectTrigger className="w-[150px] rounded-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {concurrencyOptions.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option} at a time
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ),
+    },
+    {
+      tooltip: 'Run every row through the connected nodes',
+      children: (
+        <Button
+          size="icon"
+          className="rounded-full"
+          onClick={() => runDownstream(id)}
+          disabled={isRunning || !filledRows}
+        >
+          <PlayIcon size={12} />
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <NodeLayout id={id} data={data} title={title} type={type} toolbar={toolbar}>
+      <div className="flex items-center justify-between px-4 pt-3 pb-2">
+        <p className="font-mono text-muted-foreground text-xs tracking-tighter">
+          {filledRows} {filledRows === 1 ? 'row' : 'rows'}
+        </p>
+      </div>
+      <div className="nowheel max-h-[30rem] divide-y overflow-auto">
+        {rows.map((row, index) => (
+          <div key={row.id} className="group flex items-center gap-2 px-4">
+            <span className="w-5 shrink-0 font-mono text-muted-foreground text-xs">
+              {index + 1}
+            </span>
+            <input
+              type="text"
+              value={row.text}
+              placeholder="Type or paste a list..."
+              onChange={({ target }) => updateRow(row.id, target.value)}
+              onPaste={(event) => handlePaste(event, row, index)}
+              onKeyDown={(event) => handleKeyDown(event, index)}
+              className="nodrag h-9 min-w-0 flex-1 bg-transparent text-sm outline-none"
+            />
+            <button
+              type="button"
+              aria-label="Remove row"
+              onClick={() => removeRow(row.id)}
+              className="hidden text-muted-foreground hover:text-destructive group-hover:block"
+            >
+              <XIcon size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="m-2 rounded-full"
+        onClick={() => insertRows(rows.length, [''])}
+      >
+        <PlusIcon size={12} />
+        Add row
+      </Button>
+    </NodeLayout>
+  );
+};
@@ -0,0 +1,12 @@
+import type { MergeNodeData } from '@/lib/branching';
+import { MergePrimitive } from './primitive';
+
+export type MergeNodeProps = {
+  type: string;
+  data: MergeNodeData;
+  id: string;
+};
+
+export const MergeNode = (props: MergeNodeProps) => (
+  <MergePrimitive {...props} title="Merge" />
+);
@@ -0,0 +1,94 @@
+import { NodeLayout } from '@/components/nodes/layout';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getMergeMode, isEdgeActive, mergeModes } from '@/lib/branching';
+import { getNodeLabel } from '@/lib/groups';
+import { cn } from '@/lib/utils';
+import { useEdges, useNodes, useReactFlow } from '@xyflow/react';
+import type { MergeNodeProps } from '.';
+
+type MergePrimitiveProps = MergeNodeProps & {
+  title: string;
+};
+
+export const MergePrimitive = ({
+  data,
+  id,
+  type,
+  title,
+}: MergePrimitiveProps) => {
+  const { updateNodeData } = useReactFlow();
+  const nodes = useNodes();
+  const edges = useEdges();
+  const mode = getMergeMode({ data });
+  const branches = edges.filter((edge) => edge.target === id);
+
+  const toolbar = [
+    {
+      children: (
+        <Select
+          value={mode}
+          onValueChange={(value) => updateNodeData(id, { mode: value })}
+        >
+          <SelectTrigger className="w-[170px] rounded-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(mergeModes).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ),
+    },
+  ];
+
+  return (
+    <NodeLayout id={id} data={data} title={title} type={type} toolbar={toolbar}>
+      <div className="px-4 pt-3 pb-2">
+        <p className="font-mono text-muted-foreground text-xs tracking-tighter">
+          {mode === 'first'
+            ? 'Passes on the first branch with content'
+            : 'Passes on every branch'}
+        </p>
+      </div>
+      <div className="divide-y">
+        {branches.length ? (
+          branches.map((edge, index) => {
+            const active = isEdgeActive(edge, nodes);
+
+            return (
+              <div
+                key={edge.id}
+                className="flex h-9 items-center gap-2 px-4 text-sm"
+              >
+                <span className="w-5 shrink-0 font-mono text-muted-foreground text-xs">
+                  {index + 1}
+                </span>
+                <span
+                  className={cn(
+                    'flex-1 truncate',
+                    !active && 'text-muted-foreground line-through'
+                  )}
+                >
+                  {getNodeLabel(nodes.find((node) => node.id === edge.source))}
+                </span>
+              </div>
+            );
+          })
+        ) : (
+          <p className="px-4 pb-3 text-muted-foreground text-sm">
+            Connect the branches to merge.
+          </p>
+        )}
+      </div>
+    </NodeLayout>
+  );
+};
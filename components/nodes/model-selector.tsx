@@ -5,6 +5,7 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import { isCustomModel } from '@/lib/models/custom';
 import type { PriceBracket } from '@/lib/models/text';
 import {
   type TersaModel,
@@ -148,8 +149,10 @@ export const ModelSelector = ({
   const { plan } = useSubscription();
   const activeModel = options[value];
 
+  // The custom endpoint's models are listed after the page loads, so they're
+  // kept selected in the meantime
   useEffect(() => {
-    if (value && !options[value]) {
+    if (value && !options[value] && !isCustomModel(value)) {
       onChange?.(Object.keys(options)[0]);
     }
   }, [value, options, onChange]);
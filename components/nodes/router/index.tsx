@@ -0,0 +1,14 @@
+import type { RouterNodeData } from '@/lib/branching';
+import { RouterTransform } from './transform';
+
+export type RouterNodeProps = {
+  type: string;
+  data: RouterNodeData & {
+    updatedAt?: string;
+  };
+  id: string;
+};
+
+export const RouterNode = (props: RouterNodeProps) => (
+  <RouterTransform {...props} title="Router" />
+);
@@ -0,0 +1,287 @@
+import { classifyAction } from '@/app/actions/router/classify';
+import { NodeLayout } from '@/components/nodes/layout';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAnalytics } from '@/hooks/use-analytics';
+import { useModelOptions } from '@/hooks/use-model-options';
+import {
+  type RouterMode,
+  type RouterRoute,
+  createRoute,
+  evaluateRoutes,
+  fallbackHandle,
+  findRouteByLabel,
+  getRouteHandleId,
+  getSelectedHandle,
+  routerModes,
+} from '@/lib/branching';
+import { handleError } from '@/lib/error/handle';
+import { textModels } from '@/lib/models/text';
+import {
+  getDescriptionsFromImageNodes,
+  getInputHash,
+  getInputNodes,
+  getTextFromTextNodes,
+  getTranscriptionFromAudioNodes,
+} from '@/lib/xyflow';
+import { useNodeRunner } from '@/providers/graph-executor';
+import { useProject } from '@/providers/project';
+import { useReactFlow } from '@xyflow/react';
+import { Loader2Icon, PlayIcon, PlusIcon, XIcon } from 'lucide-react';
+import { type ComponentProps, useState } from 'react';
+import { mutate } from 'swr';
+import type { RouterNodeProps } from '.';
+import { ModelSelector } from '../model-selector';
+
+type RouterTransformProps = RouterNodeProps & {
+  title: string;
+};
+
+const placeholders: Record<RouterMode, string> = {
+  match: 'Keyword or /regex/i',
+  classify: 'Label, e.g. Complaint',
+  compare: 'Comparison, e.g. > 10',
+};
+
+const getDefaultModel = (models: typeof textModels) => {
+  const defaultModel = Object.entries(models).find(
+    ([_, model]) => model.default
+  );
+
+  if (!defaultModel) {
+    throw new Error('No default model found');
+  }
+
+  return defaultModel[0];
+};
+
+export const RouterTransform = ({
+  data,
+  id,
+  type,
+  title,
+}: RouterTransformProps) => {
+  const { updateNodeData, getNodes, getEdges, deleteElements } = useReactFlow();
+  const [loading, setLoading] = useState(false);
+  const project = useProject();
+  const analytics = useAnalytics();
+  const mode = data.mode ?? 'match';
+  const routes = data.routes ?? [];
+  const modelId = data.model ?? getDefaultModel(textModels);
+  const modelOptions = useModelOptions(textModels, 'text');
+  const selectedHandle = getSelectedHandle({ data });
+
+  const generate = async () => {
+    if (loading || !project?.id) {
+      return;
+    }
+
+    try {
+      const incomers = getInputNodes(id, getNodes(), getEdges());
+      const text = [
+        ...getTextFromTextNodes(incomers),
+        ...getTranscriptionFromAudioNodes(incomers),
+        ...getDescriptionsFromImageNodes(incomers),
+      ].join('\n');
+
+      if (!text) {
+        throw new Error('No input to route');
+      }
+
+      setLoading(true);
+
+      analytics.track('canvas', 'node', 'generate', {
+        type,
+        mode,
+        routeCount: routes.length,
+        model: mode === 'classify' ? modelId : null,
+      });
+
+      let selected: string | null;
+
+      if (mode === 'classify') {
+        const response = await classifyAction({
+          text,
+          labels: routes.map((route) => route.value.trim()).filter(Boolean),
+          modelId,
+          projectId: project.id,
+        });
+
+        if ('error' in response) {
+          throw new Error(response.error);
+        }
+
+        selected = findRouteByLabel(routes, response.label);
+
+        setTimeout(() => mutate('credits'), 5000);
+      } else {
+        selected = evaluateRoutes(mode, routes, text);
+      }
+
+      updateNodeData(id, {
+        selected,
+        inputHash: getInputHash({ type, data }, incomers),
+        updatedAt: new Date().toISOString(),
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      await generate();
+    } catch (error) {
+      handleError('Error routing', error);
+    }
+  };
+
+  useNodeRunner(id, generate);
+
+  const setRoutes = (next: RouterRoute[]) =>
+    updateNodeData(id, { routes: next });
+
+  // Edges leaving a removed route would have nowhere to start from
+  const removeRoute = (routeId: string) => {
+    const handle = getRouteHandleId(routeId);
+
+    deleteElements({
+      edges: getEdges().filter(
+        (edge) => edge.source === id && edge.sourceHandle === handle
+      ),
+    });
+    setRoutes(routes.filter((route) => route.id !== routeId));
+  };
+
+  const updateRoute = (routeId: string, value: string) =>
+    setRoutes(
+      routes.map((route) =>
+        route.id === routeId ? { ...route, value } : route
+      )
+    );
+
+  const toolbar: ComponentProps<typeof NodeLayout>['toolbar'] = [
+    {
+      children: (
+        <Select
+          value={mode}
+          onValueChange={(value) => updateNodeData(id, { mode: value })}
+        >
+          <SelectTrigger className="w-[170px] rounded-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(routerModes).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ),
+    },
+  ];
+
+  if (mode === 'classify') {
+    toolbar.push({
+      children: (
+        <ModelSelector
+          value={modelId}
+          options={modelOptions}
+          key={id}
+          className="w-[200px] rounded-full"
+          onChange={(value) => updateNodeData(id, { model: value })}
+        />
+      ),
+    });
+  }
+
+  toolbar.push({
+    tooltip: loading ? 'Routing...' : 'Route',
+    children: (
+      <Button
+        size="icon"
+        className="rounded-full"
+        onClick={handleGenerate}
+        disabled={loading || !project?.id}
+      >
+        {loading ? (
+          <Loader2Icon className="animate-spin" size={12} />
+        ) : (
+          <PlayIcon size={12} />
+        )}
+      </Button>
+    ),
+  });
+
+  const sourceHandles = [
+    ...routes.map((route, index) => ({
+      id: getRouteHandleId(route.id),
+      label: route.value.trim() || `Route ${index + 1}`,
+    })),
+    { id: fallbackHandle, label: 'Otherwise' },
+  ].map((handle) => ({ ...handle, active: handle.id === selectedHandle }));
+
+  return (
+    <NodeLayout
+      id={id}
+      data={data}
+      title={title}
+      type={type}
+      toolbar={toolbar}
+      sourceHandles={sourceHandles}
+    >
+      <div className="divide-y">
+        {routes.map((route, index) => (
+          <div key={route.id} className="group flex items-center gap-2 px-4">
+            <span className="w-5 shrink-0 font-mono text-muted-foreground text-xs">
+              {index + 1}
+            </span>
+            <input
+              type="text"
+              value={route.value}
+              placeholder={placeholders[mode]}
+              onChange={({ target }) => updateRoute(route.id, target.value)}
+              className="nodrag h-9 min-w-0 flex-1 bg-transparent font-mono text-sm outline-none"
+            />
+            {selectedHandle === getRouteHandleId(route.id) && (
+              <span className="font-mono text-primary text-xs">taken</span>
+            )}
+            <button
+              type="button"
+              aria-label="Remove route"
+              onClick={() => removeRoute(route.id)}
+              className="hidden text-muted-foreground hover:text-destructive group-hover:block"
+            >
+              <XIcon size={12} />
+            </button>
+          </div>
+        ))}
+        <div className="flex h-9 items-center gap-2 px-4">
+          <span className="w-5 shrink-0" />
+          <span className="flex-1 text-muted-foreground text-sm">
+            Otherwise
+          </span>
+          {selectedHandle === fallbackHandle && (
+            <span className="font-mono text-primary text-xs">taken</span>
+          )}
+        </div>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="m-2 rounded-full"
+        onClick={() => setRoutes([...routes, createRoute()])}
+      >
+        <PlusIcon size={12} />
+        Add route
+      </Button>
+    </NodeLayout>
+  );
+};
@@ -1,3 +1,4 @@
+import type { VersionedNodeData } from '@/lib/history';
 import type { JSONContent } from '@tiptap/core';
 import { useNodeConnections } from '@xyflow/react';
 import { TextPrimitive } from './primitive';
@@ -5,7 +6,7 @@ import { TextTransform } from './transform';
 
 export type TextNodeProps = {
   type: string;
-  data: {
+  data: VersionedNodeData & {
     generated?: {
       text: string;
     };
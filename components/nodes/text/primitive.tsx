@@ -3,7 +3,7 @@ import { cn } from '@/lib/utils';
 import { useProject } from '@/providers/project';
 import type { Editor, EditorEvents } from '@tiptap/core';
 import { useReactFlow } from '@xyflow/react';
-import { useRef } from 'react';
+import { useEffect, useRef } from 'react';
 import type { TextNodeProps } from '.';
 import { NodeLayout } from '../layout';
 
@@ -36,6 +36,20 @@ export const TextPrimitive = ({
     }
   };
 
+  // The editor only reads its initial content, so changes made from outside
+  // of it (e.g. undo) have to be pushed in
+  useEffect(() => {
+    if (
+      !editor.current ||
+      !data.content ||
+      JSON.stringify(editor.current.getJSON()) === JSON.stringify(data.content)
+    ) {
+      return;
+    }
+
+    editor.current.commands.setContent(data.content, false);
+  }, [data.content]);
+
   return (
     <NodeLayout
       id={id}
@@ -12,23 +12,29 @@ import {
   AISourcesTrigger,
 } from '@/components/ui/kibo-ui/ai/source';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Textarea } from '@/components/ui/textarea';
 import { useAnalytics } from '@/hooks/use-analytics';
+import { useModelOptions } from '@/hooks/use-model-options';
 import { useReasoning } from '@/hooks/use-reasoning';
+import { useVariableImages, useVariables } from '@/hooks/use-variables';
 import { handleError } from '@/lib/error/handle';
+import { type GenerationVersion, addGenerationVersion } from '@/lib/history';
 import { textModels } from '@/lib/models/text';
+import { assertResolved, buildPrompt } from '@/lib/prompt';
+import { getServedProvider } from '@/lib/routing';
+import { getReferencedVariables } from '@/lib/variables';
 import {
-  getDescriptionsFromImageNodes,
   getFilesFromFileNodes,
   getImagesFromImageNodes,
+  getInputHash,
+  getInputNodes,
   getTextFromTextNodes,
   getTranscriptionFromAudioNodes,
-  getTweetContentFromTweetNodes,
 } from '@/lib/xyflow';
+import { useNodeRunner } from '@/providers/graph-executor';
 import { useProject } from '@/providers/project';
 import { ReasoningTunnel } from '@/tunnels/reasoning';
 import { useChat } from '@ai-sdk/react';
-import { getIncomers, useReactFlow } from '@xyflow/react';
+import { useReactFlow } from '@xyflow/react';
 import {
   ClockIcon,
   CopyIcon,
@@ -37,17 +43,19 @@ import {
   SquareIcon,
 } from 'lucide-react';
 import {
-  type ChangeEventHandler,
   type ComponentProps,
   useCallback,
   useEffect,
   useMemo,
+  useRef,
 } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { toast } from 'sonner';
 import { mutate } from 'swr';
 import type { TextNodeProps } from '.';
+import { InstructionsInput } from '../instructions';
 import { ModelSelector } from '../model-selector';
+import { VersionBrowser } from '../version-browser';
 
 type TextTransformProps = TextNodeProps & {
   title: string;
@@ -71,25 +79,57 @@ export const TextTransform = ({
   type,
   title,
 }: TextTransformProps) => {
-  const { updateNodeData, getNodes, getEdges } = useReactFlow();
+  const { updateNodeData, getNode, getNodes, getEdges } = useReactFlow();
   const project = useProject();
   const modelId = data.model ?? getDefaultModel(textModels);
+  const modelOptions = useModelOptions(textModels, 'text');
   const analytics = useAnalytics();
+  const variables = useVariables();
+  const variableImages = useVariableImages();
   const [reasoning, setReasoning] = useReasoning();
+  const chatError = useRef<Error | undefined>(undefined);
+  const request = useRef<
+    Pick<GenerationVersion, 'model' | 'prompt' | 'instructions'> & {
+      inputHash: string;
+    }
+  >(undefined);
   const { append, messages, setMessages, status, stop } = useChat({
     body: {
       modelId,
+      projectId: project?.id,
+    },
+    onError: (error) => {
+      chatError.current = error;
     },
-    onError: (error) => handleError('Error generating text', error),
     onFinish: (message) => {
-      updateNodeData(id, {
-        generated: {
-          text: message.content,
-          sources:
-            message.parts?.filter((part) => part.type === 'source') ?? [],
-        },
-        updatedAt: new Date().toISOString(),
-      });
+      const { inputHash, ...version } = request.current ?? {};
+
+      updateNodeData(
+        id,
+        addGenerationVersion(
+          {
+            ...(getNode(id)?.data ?? data),
+            updatedAt: new Date().toISOString(),
+          },
+          {
+            ...version,
+            provider: getServedProvider(message.annotations),
+            output: {
+              generated: {
+                text: message.content,
+                sources:
+                  message.parts?.filter((part) => part.type === 'source') ?? [],
+              },
+              inputHash,
+            },
+          }
+        )
+      );
+
+      // Show the stored output rather than the stream when the node is pinned
+      if (data.pinned) {
+        setMessages([]);
+      }
 
       setReasoning((oldReasoning) => ({
         ...oldReasoning,
@@ -102,55 +142,51 @@ export const TextTransform = ({
     },
   });
 
-  const handleGenerate = useCallback(async () => {
-    const incomers = getIncomers({ id }, getNodes(), getEdges());
+  const generate = useCallback(async () => {
+    const incomers = getInputNodes(id, getNodes(), getEdges());
     const textPrompts = getTextFromTextNodes(incomers);
     const audioPrompts = getTranscriptionFromAudioNodes(incomers);
-    const images = getImagesFromImageNodes(incomers);
-    const imageDescriptions = getDescriptionsFromImageNodes(incomers);
-    const tweetContent = getTweetContentFromTweetNodes(incomers);
+    const images = [
+      ...getImagesFromImageNodes(incomers),
+      ...Object.values(
+        getReferencedVariables(data.instructions, variableImages)
+      ),
+    ];
     const files = getFilesFromFileNodes(incomers);
 
     if (!textPrompts.length && !audioPrompts.length && !data.instructions) {
-      handleError('Error generating text', 'No prompts found');
-      return;
+      throw new Error('No prompts found');
     }
 
-    const content: string[] = [];
-
-    if (data.instructions) {
-      content.push('--- Instructions ---', data.instructions);
-    }
-
-    if (textPrompts.length) {
-      content.push('--- Text Prompts ---', ...textPrompts);
-    }
-
-    if (audioPrompts.length) {
-      content.push('--- Audio Prompts ---', ...audioPrompts);
-    }
-
-    if (imageDescriptions.length) {
-      content.push('--- Image Descriptions ---', ...imageDescriptions);
-    }
+    const { prompt, missing } = buildPrompt(
+      data.instructions,
+      incomers,
+      variables
+    );
 
-    if (tweetContent.length) {
-      content.push('--- Tweet Content ---', ...tweetContent);
-    }
+    assertResolved(missing);
 
     analytics.track('canvas', 'node', 'generate', {
       type,
-      promptLength: content.join('\n').length,
+      promptLength: prompt.length,
       model: modelId,
       instructionsLength: data.instructions?.length ?? 0,
       imageCount: images.length,
       fileCount: files.length,
     });
 
+    chatError.current = undefined;
+    request.current = {
+      inputHash: getInputHash({ type, data }, incomers, variables),
+      model: modelId,
+      prompt,
+      instructions: data.instructions,
+    };
     setMessages([]);
-    append({
+
+    await append({
       role: 'user',
-      content: content.join('\n'),
+      content: prompt,
       experimental_attachments: [
         ...images.map((image) => ({
           url: image.url,
@@ -163,9 +199,13 @@ export const TextTransform = ({
         })),
       ],
     });
+
+    if (chatError.current) {
+      throw chatError.current;
+    }
   }, [
     append,
-    data.instructions,
+    data,
     getEdges,
     getNodes,
     id,
@@ -173,11 +213,22 @@ export const TextTransform = ({
     type,
     analytics.track,
     setMessages,
+    variables,
+    variableImages,
   ]);
 
-  const handleInstructionsChange: ChangeEventHandler<HTMLTextAreaElement> = (
-    event
-  ) => updateNodeData(id, { instructions: event.target.value });
+  const handleGenerate = useCallback(async () => {
+    try {
+      await generate();
+    } catch (error) {
+      handleError('Error generating text', error);
+    }
+  }, [generate]);
+
+  useNodeRunner(id, generate);
+
+  const handleInstructionsChange = (instructions: string) =>
+    updateNodeData(id, { instructions });
 
   const handleCopy = useCallback((text: string) => {
     navigator.clipboard.writeText(text);
@@ -191,7 +242,7 @@ export const TextTransform = ({
       children: (
         <ModelSelector
           value={modelId}
-          options={textModels}
+          options={modelOptions}
           key={id}
           className="w-[200px] rounded-full"
           onChange={(value) => updateNodeData(id, { model: value })}
@@ -264,6 +315,17 @@ export const TextTransform = ({
       });
     }
 
+    items.push({
+      children: (
+        <VersionBrowser
+          id={id}
+          type={type}
+          data={data}
+          onChange={() => setMessages([])}
+        />
+      ),
+    });
+
     if (data.updatedAt) {
       items.push({
         tooltip: `Last updated: ${new Intl.DateTimeFormat('en-US', {
@@ -280,11 +342,13 @@ export const TextTransform = ({
 
     return items;
   }, [
-    data.generated?.text,
-    data.updatedAt,
+    data,
+    type,
+    setMessages,
     handleGenerate,
     updateNodeData,
     modelId,
+    modelOptions,
     id,
     messages,
     project?.id,
@@ -368,11 +432,11 @@ export const TextTransform = ({
             </AIMessage>
           ))}
       </div>
-      <Textarea
-        value={data.instructions ?? ''}
+      <InstructionsInput
+        id={id}
+        variables={variables}
+        value={data.instructions}
         onChange={handleInstructionsChange}
-        placeholder="Enter instructions"
-        className="shrink-0 resize-none rounded-none border-none bg-transparent! shadow-none focus-visible:ring-0"
       />
       <ReasoningTunnel.In>
         {messages.flatMap((message) =>
@@ -0,0 +1,206 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { handleError } from '@/lib/error/handle';
+import {
+  type GenerationVersion,
+  type VersionedNodeData,
+  getHistory,
+  selectGenerationVersion,
+} from '@/lib/history';
+import { getProviderName } from '@/lib/providers';
+import { cn } from '@/lib/utils';
+import { useNodeOperations } from '@/providers/node-operations';
+import { useReactFlow } from '@xyflow/react';
+import {
+  CheckIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  GitForkIcon,
+  HistoryIcon,
+} from 'lucide-react';
+import { nanoid } from 'nanoid';
+
+type VersionBrowserProps = {
+  id: string;
+  type: string;
+  data: Record<string, unknown>;
+  onChange?: () => void;
+};
+
+const formatDate = (date: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  }).format(new Date(date));
+
+export const VersionBrowser = ({
+  id,
+  type,
+  data,
+  onChange,
+}: VersionBrowserProps) => {
+  const { updateNodeData, getNode, getEdges, addEdges } = useReactFlow();
+  const { addNode } = useNodeOperations();
+  const history = getHistory(data);
+  const { versionId, pinned } = data as VersionedNodeData;
+  const index = history.findIndex((version) => version.id === versionId);
+
+  const handleSelect = (version: GenerationVersion) => {
+    try {
+      updateNodeData(id, selectGenerationVersion(data, version.id));
+      onChange?.();
+    } catch (error) {
+      handleError('Error selecting version', error);
+    }
+  };
+
+  const handleFork = (version: GenerationVersion) => {
+    const node = getNode(id);
+
+    if (!node) {
+      return;
+    }
+
+    const { inputHash, ...rest } = node.data;
+
+    const newNodeId = addNode(type, {
+      position: {
+        x: node.position.x + (node.measured?.width ?? 400) + 100,
+        y: node.position.y,
+      },
+      data: {
+        ...rest,
+        ...version.output,
+        history: [version],
+        versionId: version.id,
+        pinned: false,
+      },
+    });
+
+    // Keep the fork wired to the same inputs so it stays a transform node
+    addEdges(
+      getEdges()
+        .filter((edge) => edge.target === id)
+        .map((edge) => ({
+          id: nanoid(),
+          source: edge.source,
+          sourceHandle: edge.sourceHandle,
+          target: newNodeId,
+          targetHandle: edge.targetHandle,
+          type: 'animated',
+        }))
+    );
+  };
+
+  if (!history.length) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center">
+      <Button
+        size="icon"
+        variant="ghost"
+        className="rounded-full"
+        disabled={index <= 0}
+        onClick={() => handleSelect(history[index - 1])}
+      >
+        <ChevronLeftIcon size={12} />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            className="h-9 gap-1 rounded-full px-2 font-mono text-xs"
+          >
+            <HistoryIcon size={12} />
+            {index + 1}/{history.length}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center" className="w-64">
+          <DropdownMenuLabel>Versions</DropdownMenuLabel>
+          {history
+            .map((version, position) => ({ version, position }))
+            .reverse()
+            .map(({ version, position }) => (
+              <DropdownMenuSub key={version.id}>
+                <DropdownMenuSubTrigger>
+                  <CheckIcon
+                    size={14}
+                    className={cn(
+                      'shrink-0',
+                      version.id === versionId ? 'opacity-100' : 'opacity-0'
+                    )}
+                  />
+                  <div className="flex min-w-0 flex-col">
+                    <span className="truncate">
+                      v{position + 1} · {formatDate(version.createdAt)}
+                    </span>
+                    <span className="truncate text-muted-foreground text-xs">
+                      {[
+                        version.model,
+                        getProviderName(version.provider),
+                        version.size,
+                        version.cost === undefined
+                          ? undefined
+                          : `$${version.cost.toFixed(3)}`,
+                      ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </span>
+                  </div>
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="max-w-80">
+                  {version.instructions && (
+                    <DropdownMenuLabel className="line-clamp-3 font-normal text-muted-foreground text-xs">
+                      {version.instructions}
+                    </DropdownMenuLabel>
+                  )}
+                  <DropdownMenuItem
+                    disabled={version.id === versionId}
+                    onClick={() => handleSelect(version)}
+                  >
+                    <CheckIcon size={14} />
+                    <span>Make current</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleFork(version)}>
+                    <GitForkIcon size={14} />
+                    <span>Fork into new node</span>
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuCheckboxItem
+            checked={Boolean(pinned)}
+            onCheckedChange={(checked) =>
+              updateNodeData(id, { pinned: checked })
+            }
+          >
+            Pin current version
+          </DropdownMenuCheckboxItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="rounded-full"
+        disabled={index === -1 || index >= history.length - 1}
+        onClick={() => handleSelect(history[index + 1])}
+      >
+        <ChevronRightIcon size={12} />
+      </Button>
+    </div>
+  );
+};
@@ -1,10 +1,12 @@
+import type { VersionedNodeData } from '@/lib/history';
+import type { NodeJob } from '@/lib/jobs';
 import { useNodeConnections } from '@xyflow/react';
 import { VideoPrimitive } from './primitive';
 import { VideoTransform } from './transform';
 
 export type VideoNodeProps = {
   type: string;
-  data: {
+  data: VersionedNodeData & {
     content?: {
       url: string;
       type: string;
@@ -18,6 +20,7 @@ export type VideoNodeProps = {
     instructions?: string;
     width?: number;
     height?: number;
+    job?: NodeJob;
   };
   id: string;
 };
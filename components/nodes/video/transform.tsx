@@ -2,14 +2,24 @@ import { generateVideoAction } from '@/app/actions/video/create';
 import { NodeLayout } from '@/components/nodes/layout';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Textarea } from '@/components/ui/textarea';
 import { useAnalytics } from '@/hooks/use-analytics';
+import { useNodeJob } from '@/hooks/use-job';
+import { useVariableImages, useVariables } from '@/hooks/use-variables';
 import { download } from '@/lib/download';
 import { handleError } from '@/lib/error/handle';
+import { isPendingJob } from '@/lib/jobs';
 import { videoModels } from '@/lib/models/video';
-import { getImagesFromImageNodes, getTextFromTextNodes } from '@/lib/xyflow';
+import { assertResolved, resolveInstructions } from '@/lib/prompt';
+import { getReferencedVariables } from '@/lib/variables';
+import {
+  getImagesFromImageNodes,
+  getInputHash,
+  getInputNodes,
+  getTextFromTextNodes,
+} from '@/lib/xyflow';
+import { useNodeRunner } from '@/providers/graph-executor';
 import { useProject } from '@/providers/project';
-import { getIncomers, useReactFlow } from '@xyflow/react';
+import { useReactFlow } from '@xyflow/react';
 import {
   ClockIcon,
   DownloadIcon,
@@ -17,11 +27,14 @@ import {
   PlayIcon,
   RotateCcwIcon,
 } from 'lucide-react';
-import { type ChangeEventHandler, type ComponentProps, useState } from 'react';
+import { type ComponentProps, useState } from 'react';
 import { toast } from 'sonner';
 import { mutate } from 'swr';
 import type { VideoNodeProps } from '.';
+import { InstructionsInput } from '../instructions';
+import { NodeJobError, NodeJobProgress } from '../job-status';
 import { ModelSelector } from '../model-selector';
+import { VersionBrowser } from '../version-browser';
 
 type VideoTransformProps = VideoNodeProps & {
   title: string;
@@ -50,21 +63,37 @@ export const VideoTransform = ({
   const project = useProject();
   const modelId = data.model ?? getDefaultModel(videoModels);
   const analytics = useAnalytics();
+  const variables = useVariables();
+  const variableImages = useVariableImages();
+  const runJob = useNodeJob(id, data.job);
+  const pending = loading || isPendingJob(data.job);
 
-  const handleGenerate = async () => {
-    if (loading || !project?.id) {
+  const generate = async () => {
+    if (pending || !project?.id) {
       return;
     }
 
     try {
-      const incomers = getIncomers({ id }, getNodes(), getEdges());
-      const textPrompts = getTextFromTextNodes(incomers);
-      const images = getImagesFromImageNodes(incomers);
+      const incomers = getInputNodes(id, getNodes(), getEdges());
+      const { instructions, inputs, missing } = resolveInstructions(
+        data.instructions,
+        incomers,
+        variables
+      );
+      const textPrompts = getTextFromTextNodes(inputs);
+      const images = [
+        ...getImagesFromImageNodes(incomers),
+        ...Object.values(
+          getReferencedVariables(data.instructions, variableImages)
+        ),
+      ];
 
-      if (!textPrompts.length && !images.length) {
+      if (!textPrompts.length && !images.length && !instructions) {
         throw new Error('No prompts found');
       }
 
+      assertResolved(missing);
+
       setLoading(true);
 
       analytics.track('canvas', 'node', 'generate', {
@@ -75,30 +104,41 @@ export const VideoTransform = ({
         imageCount: images.length,
       });
 
-      const response = await generateVideoAction({
-        modelId,
-        prompt: [data.instructions ?? '', ...textPrompts].join('\n'),
-        images: images.slice(0, 1),
-        nodeId: id,
-        projectId: project.id,
-      });
+      await runJob(async () => {
+        const response = await generateVideoAction({
+          modelId,
+          prompt: [instructions ?? '', ...textPrompts].join('\n'),
+          images: images.slice(0, 1),
+          nodeId: id,
+          projectId: project.id,
+          inputHash: getInputHash({ type, data }, incomers, variables),
+        });
 
-      if ('error' in response) {
-        throw new Error(response.error);
-      }
+        if ('error' in response) {
+          throw new Error(response.error);
+        }
 
-      updateNodeData(id, response.nodeData);
+        return response.job;
+      });
 
       toast.success('Video generated successfully');
 
       setTimeout(() => mutate('credits'), 5000);
-    } catch (error) {
-      handleError('Error generating video', error);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleGenerate = async () => {
+    try {
+      await generate();
+    } catch (error) {
+      handleError('Error generating video', error);
+    }
+  };
+
+  useNodeRunner(id, generate);
+
   const toolbar: ComponentProps<typeof NodeLayout>['toolbar'] = [
     {
       children: (
@@ -111,7 +151,7 @@ export const VideoTransform = ({
         />
       ),
     },
-    loading
+    pending
       ? {
           tooltip: 'Generating...',
           children: (
@@ -127,7 +167,7 @@ export const VideoTransform = ({
               size="icon"
               className="rounded-full"
               onClick={handleGenerate}
-              disabled={loading || !project?.id}
+              disabled={pending || !project?.id}
             >
               {data.generated?.url ? (
                 <RotateCcwIcon size={12} />
@@ -139,6 +179,10 @@ export const VideoTransform = ({
         },
   ];
 
+  toolbar.push({
+    children: <VersionBrowser id={id} type={type} data={data} />,
+  });
+
   if (data.generated?.url) {
     toolbar.push({
       tooltip: 'Download',
@@ -169,29 +213,27 @@ export const VideoTransform = ({
     });
   }
 
-  const handleInstructionsChange: ChangeEventHandler<HTMLTextAreaElement> = (
-    event
-  ) => updateNodeData(id, { instructions: event.target.value });
+  const handleInstructionsChange = (instructions: string) =>
+    updateNodeData(id, { instructions });
 
   return (
     <NodeLayout id={id} data={data} type={type} title={title} toolbar={toolbar}>
-      {loading && (
-        <Skeleton className="flex aspect-video w-full animate-pulse items-center justify-center rounded-b-xl">
-          <Loader2Icon
-            size={16}
-            className="size-4 animate-spin text-muted-foreground"
-          />
+      {pending && (
+        <Skeleton className="flex aspect-video w-full animate-pulse flex-col items-center justify-center gap-2 rounded-b-xl">
+          <NodeJobProgress job={data.job} />
         </Skeleton>
       )}
-      {!loading && !data.generated?.url && (
-        <div className="flex aspect-video w-full items-center justify-center rounded-b-xl bg-secondary">
-          <p className="text-muted-foreground text-sm">
-            Press <PlayIcon size={12} className="-translate-y-px inline" /> to
-            generate video
-          </p>
+      {!pending && !data.generated?.url && (
+        <div className="flex aspect-video w-full items-center justify-center rounded-b-xl bg-secondary p-4">
+          <NodeJobError job={data.job}>
+            <p className="text-muted-foreground text-sm">
+              Press <PlayIcon size={12} className="-translate-y-px inline" /> to
+              generate video
+            </p>
+          </NodeJobError>
         </div>
       )}
-      {data.generated?.url && !loading && (
+      {data.generated?.url && !pending && (
         <video
           src={data.generated.url}
           width={data.width ?? 800}
@@ -203,11 +245,11 @@ export const VideoTransform = ({
           className="w-full rounded-b-xl object-cover"
         />
       )}
-      <Textarea
-        value={data.instructions ?? ''}
+      <InstructionsInput
+        id={id}
+        variables={variables}
+        value={data.instructions}
         onChange={handleInstructionsChange}
-        placeholder="Enter instructions"
-        className="shrink-0 resize-none rounded-none border-none bg-transparent! shadow-none focus-visible:ring-0"
       />
     </NodeLayout>
   );
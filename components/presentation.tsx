@@ -0,0 +1,342 @@
+'use client';
+
+import { usePresentation } from '@/hooks/use-presentation';
+import { downloadBlob } from '@/lib/download';
+import { handleError } from '@/lib/error/handle';
+import { createPdf } from '@/lib/pdf';
+import {
+  type SlideOrder,
+  getSlideDetails,
+  getSlides,
+  renderSlide,
+  slideOrders,
+} from '@/lib/presentation';
+import { useProject, useProjectRole } from '@/providers/project';
+import {
+  type Node,
+  type Viewport,
+  getViewportForBounds,
+  useReactFlow,
+  useStore,
+} from '@xyflow/react';
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  FileDownIcon,
+  ListOrderedIcon,
+  Loader2Icon,
+  XIcon,
+} from 'lucide-react';
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { Button } from './ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+// Room left around the slide for the header and the caption
+const slidePadding = {
+  top: '96px',
+  bottom: '224px',
+  x: '64px',
+} as const;
+
+type ArrangeSlidesProps = {
+  slides: Node[];
+};
+
+// Writes the sequence to the nodes, so it's saved with the project
+const ArrangeSlides = ({ slides }: ArrangeSlidesProps) => {
+  const { updateNodeData } = useReactFlow();
+  const [, setPresentation] = usePresentation();
+
+  const handleMove = (from: number, to: number) => {
+    const next = [...slides];
+    const [moved] = next.splice(from, 1);
+
+    next.splice(to, 0, moved);
+    next.forEach((node, index) => updateNodeData(node.id, { slide: index }));
+    setPresentation((prev) => ({ ...prev, order: 'custom', index: to }));
+  };
+
+  const handleReset = () => {
+    for (const node of slides) {
+      updateNodeData(node.id, { slide: undefined });
+    }
+
+    setPresentation((prev) => ({ ...prev, order: 'pipeline', index: 0 }));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="rounded-full">
+          <ListOrderedIcon size={16} />
+          Arrange
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="z-[70] w-72 p-1">
+        <div className="max-h-80 overflow-y-auto">
+          {slides.map((node, index) => (
+            <div
+              key={node.id}
+              className="flex items-center gap-1 rounded-sm py-1 pl-2 text-sm"
+            >
+              <span className="w-6 shrink-0 text-muted-foreground text-xs">
+                {index + 1}
+              </span>
+              <span className="flex-1 truncate">
+                {getSlideDetails(node).title}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7 rounded-full"
+                disabled={index === 0}
+                onClick={() => handleMove(index, index - 1)}
+              >
+                <ArrowUpIcon size={12} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7 rounded-full"
+                disabled={index === slides.length - 1}
+                onClick={() => handleMove(index, index + 1)}
+              >
+                <ArrowDownIcon size={12} />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={handleReset}
+        >
+          Reset to pipeline order
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export const PresentationInner = () => {
+  const [presentation, setPresentation] = usePresentation();
+  const { getNodesBounds, getViewport, setViewport } = useReactFlow();
+  const nodes = useStore((state) => state.nodes);
+  const edges = useStore((state) => state.edges);
+  const width = useStore((state) => state.width);
+  const height = useStore((state) => state.height);
+  const project = useProject();
+  const readOnly = useProjectRole() === 'viewer';
+  const [isExporting, setIsExporting] = useState(false);
+  const previousViewport = useRef<Viewport | null>(null);
+  const { open, index, order } = presentation;
+
+  const slides = useMemo(
+    () => (open ? getSlides(nodes, edges, order) : []),
+    [open, order, nodes, edges]
+  );
+  const slide = slides.at(Math.min(index, slides.length - 1));
+  const details = slide ? getSlideDetails(slide) : undefined;
+
+  const goTo = useCallback(
+    (next: number) =>
+      setPresentation((prev) => ({
+        ...prev,
+        index: Math.max(0, Math.min(next, slides.length - 1)),
+      })),
+    [setPresentation, slides.length]
+  );
+
+  const handleClose = useCallback(() => {
+    setPresentation((prev) => ({ ...prev, open: false }));
+
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => null);
+    }
+  }, [setPresentation]);
+
+  const hotkeyOptions = { enabled: open, preventDefault: true };
+
+  useHotkeys(
+    ['right', 'down', 'space', 'pagedown'],
+    () => goTo(index + 1),
+    hotkeyOptions
+  );
+  useHotkeys(['left', 'up', 'pageup'], () => goTo(index - 1), hotkeyOptions);
+  useHotkeys('home', () => goTo(0), hotkeyOptions);
+  useHotkeys('end', () => goTo(slides.length - 1), hotkeyOptions);
+  useHotkeys('escape', handleClose, hotkeyOptions);
+
+  // Presenting takes over the screen, the board is put back afterwards
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    previousViewport.current = getViewport();
+    document.documentElement.requestFullscreen?.().catch(() => null);
+
+    return () => {
+      if (previousViewport.current) {
+        setViewport(previousViewport.current, { duration: 600 });
+      }
+    };
+  }, [open, getViewport, setViewport]);
+
+  // Uses the same viewport fitting as screenshots, leaving room for the
+  // header and caption
+  useEffect(() => {
+    if (!slide) {
+      return;
+    }
+
+    const viewport = getViewportForBounds(
+      getNodesBounds([slide]),
+      width,
+      height,
+      0.1,
+      2,
+      slidePadding
+    );
+
+    setViewport(viewport, { duration: 600 });
+  }, [slide, width, height, getNodesBounds, setViewport]);
+
+  const handleExport = async () => {
+    if (isExporting) {
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+
+      const style = getComputedStyle(document.body);
+      const colors = {
+        background: style.backgroundColor,
+        foreground: style.color,
+      };
+      const pages: Awaited<ReturnType<typeof renderSlide>>[] = [];
+
+      // One at a time, as every slide is captured from the same board
+      for (const node of slides) {
+        pages.push(await renderSlide(node, getNodesBounds([node]), colors));
+      }
+
+      downloadBlob(createPdf(pages), `${project?.name ?? 'tersa'}.pdf`);
+    } catch (error) {
+      handleError('Error exporting presentation', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <div className="pointer-events-none fixed inset-0 z-[60] flex flex-col justify-between">
+      <div className="pointer-events-auto flex h-16 items-center justify-between gap-4 border-b bg-background/95 px-4 backdrop-blur-sm">
+        <p className="text-muted-foreground text-sm">
+          {slides.length
+            ? `${Math.min(index, slides.length - 1) + 1} of ${slides.length}`
+            : 'Nothing to present'}
+        </p>
+        <div className="flex items-center gap-2">
+          <Select
+            value={order}
+            onValueChange={(value) =>
+              setPresentation((prev) => ({
+                ...prev,
+                order: value as SlideOrder,
+                index: 0,
+              }))
+            }
+          >
+            <SelectTrigger size="sm" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-[70]">
+              {Object.entries(slideOrders).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!readOnly && <ArrangeSlides slides={slides} />}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="rounded-full"
+            onClick={handleExport}
+            disabled={isExporting || !slides.length}
+          >
+            {isExporting ? (
+              <Loader2Icon size={16} className="animate-spin" />
+            ) : (
+              <FileDownIcon size={16} />
+            )}
+            Export PDF
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="rounded-full"
+            onClick={handleClose}
+          >
+            <XIcon size={16} />
+          </Button>
+        </div>
+      </div>
+      <div className="pointer-events-auto flex h-48 items-center gap-4 border-t bg-background/95 px-4 backdrop-blur-sm">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="shrink-0 rounded-full"
+          onClick={() => goTo(index - 1)}
+          disabled={index <= 0}
+        >
+          <ChevronLeftIcon size={20} />
+        </Button>
+        <div className="flex min-w-0 flex-1 flex-col gap-1">
+          {details && (
+            <>
+              <p className="truncate font-semibold text-xl">{details.title}</p>
+              {details.model && (
+                <p className="text-muted-foreground text-sm">{details.model}</p>
+              )}
+              {details.prompt && (
+                <p className="line-clamp-3 whitespace-pre-wrap text-sm">
+                  {details.prompt}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="shrink-0 rounded-full"
+          onClick={() => goTo(index + 1)}
+          disabled={index >= slides.length - 1}
+        >
+          <ChevronRightIcon size={20} />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const Presentation = memo(PresentationInner);
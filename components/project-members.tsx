@@ -0,0 +1,204 @@
+'use client';
+
+import { updateProjectAction } from '@/app/actions/project/update';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { handleError } from '@/lib/error/handle';
+import {
+  type ProjectMember,
+  type ProjectRole,
+  parseMembers,
+  projectRoles,
+  serializeMembers,
+} from '@/lib/members';
+import type { projects } from '@/schema';
+import { UsersIcon, XIcon } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { type FormEventHandler, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+type ProjectMembersProps = {
+  data: typeof projects.$inferSelect;
+  role: ProjectRole | null;
+};
+
+type RoleSelectProps = {
+  value: ProjectRole;
+  onChange: (value: ProjectRole) => void;
+  disabled?: boolean;
+};
+
+const RoleSelect = ({ value, onChange, disabled }: RoleSelectProps) => (
+  <Select
+    value={value}
+    onValueChange={(value) => onChange(value as ProjectRole)}
+    disabled={disabled}
+  >
+    <SelectTrigger className="w-28 shrink-0 capitalize">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {projectRoles.map((role) => (
+        <SelectItem key={role} value={role} className="capitalize">
+          {role}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export const ProjectMembers = ({ data, role }: ProjectMembersProps) => {
+  const [open, setOpen] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [members, setMembers] = useState(parseMembers(data.members));
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('editor');
+  const router = useRouter();
+  const canManage = role === 'owner';
+
+  const updateMembers = async (newMembers: ProjectMember[]) => {
+    if (isUpdating) {
+      return false;
+    }
+
+    try {
+      setIsUpdating(true);
+
+      const response = await updateProjectAction(data.id, {
+        members: serializeMembers(newMembers),
+      });
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      setMembers(newMembers);
+      router.refresh();
+
+      return true;
+    } catch (error) {
+      handleError('Error updating members', error);
+
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleInvite: FormEventHandler<HTMLFormElement> = async (event) => {
+    event.preventDefault();
+
+    const invited = email.trim().toLowerCase();
+
+    if (!invited) {
+      return;
+    }
+
+    const updated = await updateMembers([
+      ...members.filter((member) => member.email !== invited),
+      { email: invited, role: inviteRole },
+    ]);
+
+    if (updated) {
+      toast.success(`Invited ${invited} as ${inviteRole}`);
+      setEmail('');
+    }
+  };
+
+  const handleRoleChange = (member: ProjectMember, newRole: ProjectRole) =>
+    updateMembers(
+      members.map((entry) =>
+        entry.email === member.email ? { ...entry, role: newRole } : entry
+      )
+    );
+
+  const handleRemove = (member: ProjectMember) =>
+    updateMembers(members.filter((entry) => entry.email !== member.email));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen} modal={false}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-full">
+          <UsersIcon size={16} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Members</DialogTitle>
+          <DialogDescription>
+            {canManage
+              ? 'Invite teammates to view or edit this project.'
+              : 'People with access to this project.'}
+          </DialogDescription>
+        </DialogHeader>
+        {canManage && (
+          <form
+            onSubmit={handleInvite}
+            className="mt-2 grid gap-2"
+            aria-disabled={isUpdating}
+          >
+            <Label htmlFor="email">Invite by email</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="email"
+                type="email"
+                placeholder="teammate@example.com"
+                value={email}
+                onChange={({ target }) => setEmail(target.value)}
+              />
+              <RoleSelect value={inviteRole} onChange={setInviteRole} />
+            </div>
+            <Button type="submit" disabled={isUpdating || !email.trim()}>
+              Invite
+            </Button>
+          </form>
+        )}
+        <div className="grid gap-2">
+          {members.length ? (
+            members.map((member) => (
+              <div key={member.email} className="flex items-center gap-2">
+                <p className="flex-1 truncate text-sm">{member.email}</p>
+                <RoleSelect
+                  value={member.role}
+                  onChange={(newRole) => handleRoleChange(member, newRole)}
+                  disabled={!canManage || isUpdating}
+                />
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0 rounded-full"
+                    disabled={isUpdating}
+                    onClick={() => handleRemove(member)}
+                  >
+                    <XIcon size={16} />
+                  </Button>
+                )}
+              </div>
+            ))
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              No one else has access yet.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -20,19 +20,31 @@ import {
   ComboboxTrigger,
 } from '@/components/ui/kibo-ui/combobox';
 import { useUser } from '@/hooks/use-user';
+import { importProject } from '@/lib/bundle';
 import { handleError } from '@/lib/error/handle';
+import { type Template, instantiateTemplate } from '@/lib/templates';
 import { cn } from '@/lib/utils';
 import type { projects } from '@/schema';
 import Fuse from 'fuse.js';
-import { CheckIcon, PlusIcon, FolderIcon } from 'lucide-react';
+import {
+  CheckIcon,
+  PlusIcon,
+  FolderIcon,
+  LayoutGridIcon,
+  UploadIcon,
+} from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import {
+  type ChangeEventHandler,
   type FormEventHandler,
   Fragment,
   useCallback,
   useMemo,
+  useRef,
   useState,
 } from 'react';
+import { toast } from 'sonner';
+import { TemplateGallery, TemplateInputs } from './template-gallery';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 
@@ -50,6 +62,9 @@ export const ProjectSelector = ({
   const [name, setName] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [createOpen, setCreateOpen] = useState(false);
+  const [template, setTemplate] = useState<Template | null>(null);
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const importInput = useRef<HTMLInputElement>(null);
   const router = useRouter();
   const user = useUser();
 
@@ -74,7 +89,13 @@ export const ProjectSelector = ({
       setIsCreating(true);
 
       try {
-        const response = await createProjectAction(name.trim());
+        const response = await createProjectAction(
+          name.trim(),
+          false,
+          template
+            ? { content: instantiateTemplate(template, { x: 0, y: 0 }, inputs) }
+            : undefined
+        );
 
         if ('error' in response) {
           throw new Error(response.error);
@@ -82,6 +103,8 @@ export const ProjectSelector = ({
 
         setOpen(false);
         setName('');
+        setTemplate(null);
+        setInputs({});
         router.push(`/projects/${response.id}`);
       } catch (error) {
         handleError('Error creating project', error);
@@ -89,7 +112,7 @@ export const ProjectSelector = ({
         setIsCreating(false);
       }
     },
-    [isCreating, name, router]
+    [isCreating, name, template, inputs, router]
   );
 
   const handleSelect = useCallback(
@@ -99,6 +122,18 @@ export const ProjectSelector = ({
         return;
       }
 
+      if (projectId === 'import') {
+        setOpen(false);
+        importInput.current?.click();
+        return;
+      }
+
+      if (projectId === 'dashboard') {
+        setOpen(false);
+        router.push('/projects');
+        return;
+      }
+
       if (projectId === 'library') {
         setOpen(false);
         router.push('/library');
@@ -112,6 +147,33 @@ export const ProjectSelector = ({
     [router]
   );
 
+  const handleImportProject = useCallback<ChangeEventHandler<HTMLInputElement>>(
+    async (event) => {
+      const file = event.target.files?.[0];
+
+      // Allow importing the same file again
+      event.target.value = '';
+
+      if (!file) {
+        return;
+      }
+
+      const toastId = toast.loading('Importing project...');
+
+      try {
+        const id = await importProject(file);
+
+        toast.success('Project imported successfully');
+        router.push(`/projects/${id}`);
+      } catch (error) {
+        handleError('Error importing project', error);
+      } finally {
+        toast.dismiss(toastId);
+      }
+    },
+    [router]
+  );
+
   const projectGroups = useMemo(() => {
     if (!user) {
       return [];
@@ -185,10 +247,18 @@ export const ProjectSelector = ({
                 </Fragment>
               ))}
             <ComboboxGroup>
+              <ComboboxItem value="dashboard">
+                <LayoutGridIcon size={16} />
+                All projects
+              </ComboboxItem>
               <ComboboxItem value="new">
                 <PlusIcon size={16} />
                 Create new project
               </ComboboxItem>
+              <ComboboxItem value="import">
+                <UploadIcon size={16} />
+                Import project
+              </ComboboxItem>
               <ComboboxItem value="library">
                 <FolderIcon size={16} />
                 Component Library
@@ -197,6 +267,13 @@ export const ProjectSelector = ({
           </ComboboxList>
         </ComboboxContent>
       </Combobox>
+      <input
+        ref={importInput}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={handleImportProject}
+      />
       <Dialog open={createOpen} onOpenChange={setCreateOpen} modal={false}>
         <DialogContent>
           <DialogHeader>
@@ -204,11 +281,13 @@ export const ProjectSelector = ({
             <DialogDescription>
               What would you like to call your new project?
             </DialogDescription>
-            <form
-              onSubmit={handleCreateProject}
-              className="mt-2 flex items-center gap-2"
-              aria-disabled={isCreating}
-            >
+          </DialogHeader>
+          <form
+            onSubmit={handleCreateProject}
+            className="mt-2 grid gap-4"
+            aria-disabled={isCreating}
+          >
+            <div className="flex items-center gap-2">
               <Input
                 placeholder="My new project"
                 value={name}
@@ -217,8 +296,23 @@ export const ProjectSelector = ({
               <Button type="submit" disabled={isCreating || !name.trim()}>
                 Create
               </Button>
-            </form>
-          </DialogHeader>
+            </div>
+            <TemplateGallery
+              value={template}
+              onChange={(value) => {
+                setTemplate(value);
+                setInputs({});
+              }}
+              allowBlank
+            />
+            {template && (
+              <TemplateInputs
+                template={template}
+                values={inputs}
+                onChange={setInputs}
+              />
+            )}
+          </form>
         </DialogContent>
       </Dialog>
     </>
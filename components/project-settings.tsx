@@ -11,12 +11,20 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import { useExportProject } from '@/hooks/use-export-project';
+import { useModelOptions } from '@/hooks/use-model-options';
+import { useProjectSettingsOpen } from '@/hooks/use-project-settings';
 import { handleError } from '@/lib/error/handle';
 import { transcriptionModels } from '@/lib/models/transcription';
 import { visionModels } from '@/lib/models/vision';
 import { useSubscription } from '@/providers/subscription';
 import type { projects } from '@/schema';
-import { SettingsIcon, TrashIcon } from 'lucide-react';
+import {
+  DownloadIcon,
+  Loader2Icon,
+  SettingsIcon,
+  TrashIcon,
+} from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { type FormEventHandler, useState } from 'react';
 import { toast } from 'sonner';
@@ -30,14 +38,17 @@ type ProjectSettingsProps = {
 };
 
 export const ProjectSettings = ({ data }: ProjectSettingsProps) => {
-  const [open, setOpen] = useState(false);
+  const [open, setOpen] = useProjectSettingsOpen();
   const [isUpdating, setIsUpdating] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [name, setName] = useState(data.name);
   const [transcriptionModel, setTranscriptionModel] = useState(
     data.transcriptionModel
   );
   const [visionModel, setVisionModel] = useState(data.visionModel);
+  const visionOptions = useModelOptions(visionModels, 'text');
   const router = useRouter();
+  const exportProject = useExportProject();
   const { isSubscribed, plan } = useSubscription();
 
   const handleUpdateProject: FormEventHandler<HTMLFormElement> = async (
@@ -87,6 +98,22 @@ export const ProjectSettings = ({ data }: ProjectSettingsProps) => {
       handleError('Error deleting project', error);
     }
   };
+  const handleExportProject = async () => {
+    if (isExporting) {
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+      await exportProject(data);
+      toast.success('Project exported successfully');
+    } catch (error) {
+      handleError('Error exporting project', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={setOpen} modal={false}>
       <DialogTrigger asChild>
@@ -129,7 +156,7 @@ export const ProjectSettings = ({ data }: ProjectSettingsProps) => {
             <ModelSelector
               id="visionModel"
               value={visionModel}
-              options={visionModels}
+              options={visionOptions}
               onChange={setVisionModel}
               width={462}
               disabled={!isSubscribed || plan === 'hobby'}
@@ -140,6 +167,19 @@ export const ProjectSettings = ({ data }: ProjectSettingsProps) => {
           </Button>
         </form>
         <DialogFooter className="-mx-6 mt-4 border-t px-6 pt-4 sm:justify-center">
+          <Button
+            variant="link"
+            onClick={handleExportProject}
+            disabled={isExporting}
+            className="flex items-center gap-2"
+          >
+            {isExporting ? (
+              <Loader2Icon size={16} className="animate-spin" />
+            ) : (
+              <DownloadIcon size={16} />
+            )}
+            <span>Export</span>
+          </Button>
           <Button
             variant="link"
             onClick={handleDeleteProject}
@@ -0,0 +1,248 @@
+'use client';
+
+import { createShareAction } from '@/app/actions/share/create';
+import { deleteShareAction } from '@/app/actions/share/delete';
+import { listSharesAction } from '@/app/actions/share/list';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { handleError } from '@/lib/error/handle';
+import type { ShareLink } from '@/lib/share';
+import type { projects } from '@/schema';
+import { CodeIcon, LinkIcon, LockIcon, Share2Icon, XIcon } from 'lucide-react';
+import { type FormEventHandler, useState } from 'react';
+import { toast } from 'sonner';
+import useSWR from 'swr';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
+
+type ProjectSharesProps = {
+  data: typeof projects.$inferSelect;
+};
+
+// Days until a new link expires, 0 for never
+const expiries = [
+  { label: 'Never expires', days: 0 },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+const sharesFetcher = async ([, projectId]: [string, string]) => {
+  const response = await listSharesAction(projectId);
+
+  if ('error' in response) {
+    throw new Error(response.error);
+  }
+
+  return response.shares;
+};
+
+const getShareUrl = (share: ShareLink, path: 'share' | 'embed') =>
+  new URL(`/${path}/${share.token}`, window.location.origin).toString();
+
+const getEmbedCode = (share: ShareLink) =>
+  `<iframe src="${getShareUrl(share, 'embed')}" width="100%" height="600" style="border: 0" allowfullscreen></iframe>`;
+
+const copy = async (text: string, message: string) => {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast.success(message);
+  } catch (error) {
+    handleError('Error copying to clipboard', error);
+  }
+};
+
+export const ProjectShares = ({ data }: ProjectSharesProps) => {
+  const [open, setOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [password, setPassword] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState(0);
+  const { data: shares, mutate } = useSWR(
+    open ? ['shares', data.id] : null,
+    sharesFetcher
+  );
+
+  const handleCreate: FormEventHandler<HTMLFormElement> = async (event) => {
+    event.preventDefault();
+
+    if (isCreating) {
+      return;
+    }
+
+    try {
+      setIsCreating(true);
+
+      const response = await createShareAction(data.id, {
+        password: password || undefined,
+        expiresInDays: expiresInDays || undefined,
+      });
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      setPassword('');
+      await mutate();
+      await copy(getShareUrl(response.share, 'share'), 'Share link copied');
+    } catch (error) {
+      handleError('Error creating share link', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (share: ShareLink) => {
+    try {
+      const response = await deleteShareAction(data.id, share.id);
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      await mutate();
+      toast.success('Share link removed');
+    } catch (error) {
+      handleError('Error removing share link', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen} modal={false}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-full">
+          <Share2Icon size={16} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share</DialogTitle>
+          <DialogDescription>
+            Publish a read-only snapshot of this project. Anyone with the link
+            can view it, but not edit it.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={handleCreate}
+          className="mt-2 grid gap-2"
+          aria-disabled={isCreating}
+        >
+          <Label htmlFor="share-password">Password (optional)</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="share-password"
+              type="password"
+              autoComplete="new-password"
+              placeholder="No password"
+              value={password}
+              onChange={({ target }) => setPassword(target.value)}
+            />
+            <Select
+              value={String(expiresInDays)}
+              onValueChange={(value) => setExpiresInDays(Number(value))}
+            >
+              <SelectTrigger className="w-36 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {expiries.map(({ label, days }) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={isCreating}>
+            Create link
+          </Button>
+        </form>
+        <div className="grid gap-2">
+          {shares?.length ? (
+            shares.map((share) => (
+              <div key={share.id} className="flex items-center gap-2">
+                {share.hasPassword && (
+                  <LockIcon
+                    size={14}
+                    className="shrink-0 text-muted-foreground"
+                  />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-mono text-xs">
+                    /share/{share.token}
+                  </p>
+                  <p className="text-muted-foreground text-xs">
+                    {share.expiresAt
+                      ? `Expires ${new Date(share.expiresAt).toLocaleDateString()}`
+                      : 'Never expires'}
+                  </p>
+                </div>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="shrink-0 rounded-full"
+                      onClick={() =>
+                        copy(getShareUrl(share, 'share'), 'Share link copied')
+                      }
+                    >
+                      <LinkIcon size={16} />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Copy link</TooltipContent>
+                </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="shrink-0 rounded-full"
+                      onClick={() =>
+                        copy(getEmbedCode(share), 'Embed code copied')
+                      }
+                    >
+                      <CodeIcon size={16} />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Copy embed code</TooltipContent>
+                </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="shrink-0 rounded-full"
+                      onClick={() => handleDelete(share)}
+                    >
+                      <XIcon size={16} />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Remove link</TooltipContent>
+                </Tooltip>
+              </div>
+            ))
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              This project hasn't been shared yet.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
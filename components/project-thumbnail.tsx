@@ -0,0 +1,80 @@
+'use client';
+
+import { updateProjectThumbnailAction } from '@/app/actions/project/thumbnail';
+import { useSaveProject } from '@/hooks/use-save-project';
+import { dataURLtoFile } from '@/lib/image-split';
+import { getScreenshot } from '@/lib/screenshot';
+import { uploadFile } from '@/lib/upload';
+import {
+  useProject,
+  useProjectRole,
+  useProjectShared,
+} from '@/providers/project';
+import { useReactFlow } from '@xyflow/react';
+import { memo, useEffect, useRef } from 'react';
+
+// Wait for the canvas to settle after a save and only refresh the thumbnail
+// every few minutes, it just has to be roughly up to date
+const captureDelay = 5000;
+const captureInterval = 5 * 60 * 1000;
+
+const ProjectThumbnailInner = () => {
+  const project = useProject();
+  const readOnly = useProjectRole() === 'viewer';
+  const shared = useProjectShared();
+  const [{ lastSaved }] = useSaveProject();
+  const { getNodes, getNodesBounds } = useReactFlow();
+  const lastCaptured = useRef(0);
+
+  useEffect(() => {
+    if (!project || readOnly || shared) {
+      return;
+    }
+
+    // Projects without a thumbnail get one as soon as they're opened
+    if (!lastSaved && project.image) {
+      return;
+    }
+
+    if (Date.now() - lastCaptured.current < captureInterval) {
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      const nodes = getNodes().filter((node) => !node.hidden);
+
+      if (!nodes.length) {
+        return;
+      }
+
+      lastCaptured.current = Date.now();
+
+      try {
+        const image = await getScreenshot(nodes, {
+          bounds: getNodesBounds(nodes),
+        });
+        const { url } = await uploadFile(
+          dataURLtoFile(image, 'thumbnail.jpg'),
+          'screenshots',
+          `${project.id}.jpg`
+        );
+
+        // The file is overwritten in place, so the URL changes to get past
+        // cached copies
+        await updateProjectThumbnailAction(
+          project.id,
+          `${url}?v=${Date.now()}`
+        );
+      } catch {
+        // Thumbnails are a nicety, failing to capture one shouldn't bother
+        // the user
+      }
+    }, captureDelay);
+
+    return () => clearTimeout(timeout);
+  }, [project, readOnly, shared, lastSaved, getNodes, getNodesBounds]);
+
+  return null;
+};
+
+export const ProjectThumbnail = memo(ProjectThumbnailInner);
@@ -0,0 +1,361 @@
+'use client';
+
+import { updateProjectAction } from '@/app/actions/project/update';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useVariableOverrides } from '@/hooks/use-variables';
+import { handleError } from '@/lib/error/handle';
+import { uploadFile } from '@/lib/upload';
+import {
+  type ProjectVariable,
+  type ProjectVariableType,
+  createVariable,
+  getProjectVariables,
+  getVariableError,
+  variableTypes,
+} from '@/lib/variables';
+import type { projects } from '@/schema';
+import {
+  ImageUpIcon,
+  Loader2Icon,
+  PlusIcon,
+  TrashIcon,
+  VariableIcon,
+} from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { type ChangeEvent, type FormEventHandler, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+type VariableValueInputProps = {
+  variable: ProjectVariable;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+};
+
+const VariableValueInput = ({
+  variable,
+  value,
+  onChange,
+  placeholder,
+}: VariableValueInputProps) => {
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+
+    if (!file) {
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+
+      const { url } = await uploadFile(file, 'files');
+
+      onChange(url);
+    } catch (error) {
+      handleError('Error uploading image', error);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (variable.type === 'enum') {
+    return (
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder={placeholder ?? 'Pick an option'} />
+        </SelectTrigger>
+        <SelectContent>
+          {variable.options?.map((option) => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (variable.type === 'image') {
+    return (
+      <div className="flex items-center gap-2">
+        {value && (
+          // biome-ignore lint/nursery/noImgElement: small preview of an uploaded asset
+          <img
+            src={value}
+            alt={variable.name}
+            className="size-9 rounded-md object-cover"
+          />
+        )}
+        <Button variant="outline" className="flex-1" asChild>
+          <label>
+            {isUploading ? (
+              <Loader2Icon size={14} className="animate-spin" />
+            ) : (
+              <ImageUpIcon size={14} />
+            )}
+            {value ? 'Replace' : (placeholder ?? 'Upload')}
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={handleUpload}
+              disabled={isUploading}
+            />
+          </label>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Input
+      type={variable.type === 'number' ? 'number' : 'text'}
+      value={value}
+      placeholder={placeholder}
+      onChange={({ target }) => onChange(target.value)}
+    />
+  );
+};
+
+type ProjectVariablesProps = {
+  data: typeof projects.$inferSelect;
+};
+
+export const ProjectVariables = ({ data }: ProjectVariablesProps) => {
+  const [open, setOpen] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [variables, setVariables] = useState(() =>
+    getProjectVariables(data.variables)
+  );
+  const [overrides, setOverrides] = useVariableOverrides();
+  const router = useRouter();
+
+  const errors = Object.fromEntries(
+    variables.map((variable) => [
+      variable.id,
+      getVariableError(variable, variables),
+    ])
+  );
+  const hasErrors = Object.values(errors).some(Boolean);
+
+  const updateVariable = (id: string, update: Partial<ProjectVariable>) =>
+    setVariables((current) =>
+      current.map((variable) =>
+        variable.id === id ? { ...variable, ...update } : variable
+      )
+    );
+
+  const setOverride = (id: string, value: string | undefined) =>
+    setOverrides((current) => {
+      const { [id]: _, ...rest } = current;
+
+      return value === undefined || value === ''
+        ? rest
+        : { ...rest, [id]: value };
+    });
+
+  const handleTypeChange = (id: string, type: ProjectVariableType) => {
+    updateVariable(id, {
+      type,
+      value: '',
+      options: type === 'enum' ? [] : undefined,
+    });
+    setOverride(id, undefined);
+  };
+
+  const handleRemove = (id: string) => {
+    setVariables((current) => current.filter((variable) => variable.id !== id));
+    setOverride(id, undefined);
+  };
+
+  const handleSave: FormEventHandler<HTMLFormElement> = async (event) => {
+    event.preventDefault();
+
+    if (isUpdating || hasErrors) {
+      return;
+    }
+
+    try {
+      setIsUpdating(true);
+
+      const response = await updateProjectAction(data.id, { variables });
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      toast.success('Variables saved');
+      setOpen(false);
+      router.refresh();
+    } catch (error) {
+      handleError('Error saving variables', error);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    // Discard unsaved edits
+    if (value) {
+      setVariables(getProjectVariables(data.variables));
+    }
+
+    setOpen(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange} modal={false}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-full">
+          <VariableIcon size={16} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Variables</DialogTitle>
+          <DialogDescription>
+            Values shared by every node in this project. Reference them in
+            instructions with <code>{'{{name}}'}</code>. Overrides only apply to
+            your runs until you reload.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="mt-2 grid gap-4">
+          {variables.length ? (
+            <div className="grid max-h-96 gap-4 overflow-y-auto">
+              <div className="grid grid-cols-[1fr_7rem_1fr_1fr_2.25rem] gap-2 text-muted-foreground text-xs">
+                <Label>Name</Label>
+                <Label>Type</Label>
+                <Label>Value</Label>
+                <Label>Override</Label>
+              </div>
+              {variables.map((variable) => (
+                <div key={variable.id} className="grid gap-2">
+                  <div className="grid grid-cols-[1fr_7rem_1fr_1fr_2.25rem] items-center gap-2">
+                    <Input
+                      value={variable.name}
+                      placeholder="brand"
+                      className="font-mono"
+                      aria-invalid={Boolean(errors[variable.id])}
+                      onChange={({ target }) =>
+                        updateVariable(variable.id, { name: target.value })
+                      }
+                    />
+                    <Select
+                      value={variable.type}
+                      onValueChange={(value) =>
+                        handleTypeChange(
+                          variable.id,
+                          value as ProjectVariableType
+                        )
+                      }
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(variableTypes).map(([type, label]) => (
+                          <SelectItem key={type} value={type}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <VariableValueInput
+                      variable={variable}
+                      value={variable.value}
+                      onChange={(value) =>
+                        updateVariable(variable.id, { value })
+                      }
+                    />
+                    <VariableValueInput
+                      variable={variable}
+                      value={overrides[variable.id] ?? ''}
+                      placeholder="None"
+                      onChange={(value) => setOverride(variable.id, value)}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemove(variable.id)}
+                    >
+                      <TrashIcon size={14} />
+                    </Button>
+                  </div>
+                  {variable.type === 'enum' && (
+                    <Input
+                      placeholder="Options, separated by commas"
+                      defaultValue={variable.options?.join(', ')}
+                      onBlur={({ target }) =>
+                        updateVariable(variable.id, {
+                          options: target.value
+                            .split(',')
+                            .map((option) => option.trim())
+                            .filter(Boolean),
+                        })
+                      }
+                    />
+                  )}
+                  {errors[variable.id] && (
+                    <p className="text-destructive text-xs">
+                      {errors[variable.id]}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-sm">No variables yet.</p>
+          )}
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() =>
+                setVariables((current) => [...current, createVariable()])
+              }
+            >
+              <PlusIcon size={14} />
+              Add variable
+            </Button>
+            {Object.keys(overrides).length > 0 && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setOverrides({})}
+              >
+                Clear overrides
+              </Button>
+            )}
+            <Button
+              type="submit"
+              className="ml-auto"
+              disabled={isUpdating || hasErrors}
+            >
+              Save
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,225 @@
+'use client';
+
+import { deleteProviderKeyAction } from '@/app/actions/provider-key/delete';
+import { listProviderKeysAction } from '@/app/actions/provider-key/list';
+import { saveProviderKeyAction } from '@/app/actions/provider-key/save';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { handleError } from '@/lib/error/handle';
+import { type ProviderKey, keyProviders } from '@/lib/provider-keys';
+import { KeyRoundIcon, XIcon } from 'lucide-react';
+import { type FormEventHandler, useState } from 'react';
+import { toast } from 'sonner';
+import useSWR from 'swr';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
+
+type ProviderKeysProps = {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+
+  // Manages the project's keys instead of the user's own
+  projectId?: string;
+};
+
+const keysFetcher = async ([, projectId]: [string, string | undefined]) => {
+  const response = await listProviderKeysAction(projectId);
+
+  if ('error' in response) {
+    throw new Error(response.error);
+  }
+
+  return response.keys;
+};
+
+const getKeyProvider = (id: string) =>
+  keyProviders.find((provider) => provider.id === id);
+
+type SavedKeyProps = {
+  data: ProviderKey;
+  onDelete: (key: ProviderKey) => void;
+};
+
+const SavedKey = ({ data, onDelete }: SavedKeyProps) => {
+  const provider = getKeyProvider(data.provider);
+
+  return (
+    <div className="flex items-center gap-2">
+      {provider && <provider.icon className="size-4 shrink-0" />}
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm">{provider?.name ?? data.provider}</p>
+        <p className="font-mono text-muted-foreground text-xs">
+          ••••{data.hint}
+        </p>
+      </div>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="shrink-0 rounded-full"
+            onClick={() => onDelete(data)}
+          >
+            <XIcon size={16} />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>Remove key</TooltipContent>
+      </Tooltip>
+    </div>
+  );
+};
+
+export const ProviderKeys = ({
+  open,
+  setOpen,
+  projectId,
+}: ProviderKeysProps) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [provider, setProvider] = useState(keyProviders[0].id);
+  const [key, setKey] = useState('');
+  const { data: keys, mutate } = useSWR(
+    open ? ['provider-keys', projectId] : null,
+    keysFetcher
+  );
+
+  const handleSave: FormEventHandler<HTMLFormElement> = async (event) => {
+    event.preventDefault();
+
+    if (isSaving || !key.trim()) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      const response = await saveProviderKeyAction({
+        provider,
+        key,
+        projectId,
+      });
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      setKey('');
+      await mutate();
+      toast.success('Key saved');
+    } catch (error) {
+      handleError('Error saving key', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (data: ProviderKey) => {
+    try {
+      const response = await deleteProviderKeyAction(data.id, projectId);
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      await mutate();
+      toast.success('Key removed');
+    } catch (error) {
+      handleError('Error removing key', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen} modal={false}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>API keys</DialogTitle>
+          <DialogDescription>
+            {projectId
+              ? "Everyone generating in this project uses the team's keys instead of their own."
+              : 'Generate with your own provider accounts.'}{' '}
+            Calls made with your keys are billed by the provider, not from your
+            credits. Keys are encrypted and can't be viewed once saved.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={handleSave}
+          className="mt-2 grid gap-2"
+          aria-disabled={isSaving}
+        >
+          <Label htmlFor="provider-key">Key</Label>
+          <div className="flex items-center gap-2">
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger className="w-40 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {keyProviders.map(({ id, name }) => (
+                  <SelectItem key={id} value={id}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              id="provider-key"
+              type="password"
+              autoComplete="off"
+              placeholder="Paste your API key"
+              value={key}
+              onChange={({ target }) => setKey(target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={isSaving || !key.trim()}>
+            Save key
+          </Button>
+        </form>
+        <div className="grid gap-2">
+          {keys?.length ? (
+            keys.map((data) => (
+              <SavedKey key={data.id} data={data} onDelete={handleDelete} />
+            ))
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              No keys saved yet, the app's are used.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+type ProjectKeysProps = {
+  projectId: string;
+};
+
+export const ProjectKeys = ({ projectId }: ProjectKeysProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="rounded-full"
+        onClick={() => setOpen(true)}
+      >
+        <KeyRoundIcon size={16} />
+      </Button>
+      <ProviderKeys open={open} setOpen={setOpen} projectId={projectId} />
+    </>
+  );
+};
@@ -1,60 +1,113 @@
 'use client';
 
+import { updateProjectAction } from '@/app/actions/project/update';
 import { useSaveProject } from '@/hooks/use-save-project';
+import type { ProjectContent } from '@/lib/content';
+import { handleError } from '@/lib/error/handle';
+import { withoutGroupProxyEdges } from '@/lib/groups';
+import { getFormattedTime } from '@/lib/time';
 import { cn } from '@/lib/utils';
 import { useProject } from '@/providers/project';
-import { Panel } from '@xyflow/react';
-import { CheckIcon, Loader2Icon } from 'lucide-react';
+import { Panel, useReactFlow } from '@xyflow/react';
+import { CheckIcon, Loader2Icon, TriangleAlertIcon } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from './ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
 
-const getFormattedTime = (date: Date | undefined) => {
-  if (!date) {
-    return 'Never';
+const ConflictResolver = () => {
+  const project = useProject();
+  const [{ conflict }, setSaveState] = useSaveProject();
+  const { setNodes, setEdges, toObject } = useReactFlow();
+  const [isResolving, setIsResolving] = useState(false);
+
+  if (!conflict || !project) {
+    return null;
   }
 
-  let unit: Intl.RelativeTimeFormatUnit = 'seconds';
-  let value = Math.round((date.getTime() - Date.now()) / 1000);
-  const absoluteValue = Math.abs(value);
+  const handleLoadLatest = () => {
+    setSaveState((prev) => ({
+      ...prev,
+      conflict: null,
+      revision: conflict.revision,
+      savedContent: conflict.content,
+    }));
+    setNodes(conflict.content.nodes);
+    setEdges(conflict.content.edges);
+  };
 
-  if (absoluteValue > 60) {
-    unit = 'minutes';
-    value = Math.round(value / 60);
-  }
+  const handleKeepMine = async () => {
+    setIsResolving(true);
 
-  if (absoluteValue > 3600) {
-    unit = 'hours';
-    value = Math.round(value / 60);
-  }
+    try {
+      const content: ProjectContent = withoutGroupProxyEdges(toObject());
+      const response = await updateProjectAction(
+        project.id,
+        { content },
+        conflict.revision
+      );
 
-  if (absoluteValue > 86400) {
-    unit = 'days';
-    value = Math.round(value / 24);
-  }
+      if ('error' in response) {
+        // Someone saved again, so the user has to decide on the new version
+        const { conflict: latest } = response;
 
-  if (absoluteValue > 604800) {
-    unit = 'weeks';
-    value = Math.round(value / 7);
-  }
+        if (latest) {
+          setSaveState((prev) => ({ ...prev, conflict: latest }));
+          return;
+        }
 
-  if (absoluteValue > 2592000) {
-    unit = 'months';
-    value = Math.round(value / 4);
-  }
+        throw new Error(response.error);
+      }
 
-  if (absoluteValue > 31536000) {
-    unit = 'years';
-    value = Math.round(value / 12);
-  }
+      setSaveState((prev) => ({
+        ...prev,
+        conflict: null,
+        lastSaved: new Date(),
+        revision: response.revision,
+        savedContent: content,
+      }));
+    } catch (error) {
+      handleError('Error saving project', error);
+    } finally {
+      setIsResolving(false);
+    }
+  };
 
-  return new Intl.RelativeTimeFormat('en', { numeric: 'auto' }).format(
-    value,
-    unit
+  return (
+    <Panel
+      position="bottom-right"
+      className="m-4 flex items-center gap-2 whitespace-nowrap rounded-full border bg-card/90 p-1 pl-3 drop-shadow-xs backdrop-blur-sm"
+    >
+      <TriangleAlertIcon size={16} className="shrink-0 text-destructive" />
+      <p className="text-sm">Changed somewhere else</p>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="rounded-full"
+        disabled={isResolving}
+        onClick={handleLoadLatest}
+      >
+        Load latest
+      </Button>
+      <Button
+        size="sm"
+        className="rounded-full"
+        disabled={isResolving}
+        onClick={handleKeepMine}
+      >
+        Keep mine
+      </Button>
+    </Panel>
   );
 };
 
 export const SaveIndicator = () => {
   const project = useProject();
-  const [{ isSaving, lastSaved }] = useSaveProject();
+  const [{ isSaving, lastSaved, conflict }] = useSaveProject();
+
+  // Saving is paused until the user picks which version to keep
+  if (conflict) {
+    return <ConflictResolver />;
+  }
 
   return (
     <Panel
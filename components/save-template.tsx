@@ -0,0 +1,186 @@
+'use client';
+
+import { createTemplateAction } from '@/app/actions/template/create';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useTemplates } from '@/hooks/use-templates';
+import { handleError } from '@/lib/error/handle';
+import {
+  type TemplateInput,
+  createTemplateContent,
+  isTemplateInputNode,
+} from '@/lib/templates';
+import type { Edge, Node } from '@xyflow/react';
+import { type FormEventHandler, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+type SaveTemplateProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  nodes: Node[];
+  edges: Edge[];
+};
+
+const getPreview = (node: Node) => {
+  const text = typeof node.data.text === 'string' ? node.data.text : '';
+
+  return text.trim().slice(0, 40) || 'Empty text node';
+};
+
+export const SaveTemplate = ({
+  open,
+  onOpenChange,
+  nodes,
+  edges,
+}: SaveTemplateProps) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [inputs, setInputs] = useState<TemplateInput[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { refresh } = useTemplates();
+
+  const inputNodes = useMemo(
+    () => nodes.filter((node) => isTemplateInputNode(node, edges)),
+    [nodes, edges]
+  );
+
+  const toggleInput = (node: Node, checked: boolean) =>
+    setInputs((prev) =>
+      checked
+        ? [...prev, { nodeId: node.id, label: `Input ${prev.length + 1}` }]
+        : prev.filter((input) => input.nodeId !== node.id)
+    );
+
+  const renameInput = (nodeId: string, label: string) =>
+    setInputs((prev) =>
+      prev.map((input) =>
+        input.nodeId === nodeId ? { ...input, label } : input
+      )
+    );
+
+  const handleSaveTemplate: FormEventHandler<HTMLFormElement> = async (
+    event
+  ) => {
+    event.preventDefault();
+
+    if (isSaving) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      const response = await createTemplateAction(
+        name.trim(),
+        createTemplateContent(nodes, edges),
+        inputs.map((input) => ({ ...input, label: input.label.trim() })),
+        description.trim() || undefined
+      );
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      toast.success('Template saved successfully');
+      await refresh();
+      onOpenChange(false);
+      setName('');
+      setDescription('');
+      setInputs([]);
+    } catch (error) {
+      handleError('Error saving template', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange} modal={false}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            Reuse the {nodes.length} selected nodes in any project.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={handleSaveTemplate}
+          className="mt-2 grid gap-4"
+          aria-disabled={isSaving}
+        >
+          <div className="grid gap-2">
+            <Label htmlFor="templateName">Name</Label>
+            <Input
+              id="templateName"
+              placeholder="My pipeline"
+              value={name}
+              onChange={({ target }) => setName(target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="templateDescription">Description</Label>
+            <Input
+              id="templateDescription"
+              placeholder="What does this template do?"
+              value={description}
+              onChange={({ target }) => setDescription(target.value)}
+            />
+          </div>
+          {inputNodes.length > 0 && (
+            <div className="grid gap-2">
+              <Label>Inputs</Label>
+              <p className="text-muted-foreground text-sm">
+                Inputs are filled in whenever the template is used.
+              </p>
+              {inputNodes.map((node) => {
+                const input = inputs.find((item) => item.nodeId === node.id);
+
+                return (
+                  <div key={node.id} className="flex items-center gap-2">
+                    <Checkbox
+                      checked={Boolean(input)}
+                      onCheckedChange={(checked) =>
+                        toggleInput(node, checked === true)
+                      }
+                    />
+                    {input ? (
+                      <Input
+                        value={input.label}
+                        onChange={({ target }) =>
+                          renameInput(node.id, target.value)
+                        }
+                      />
+                    ) : (
+                      <span className="truncate text-muted-foreground text-sm">
+                        {getPreview(node)}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <Button
+            type="submit"
+            disabled={
+              isSaving ||
+              !name.trim() ||
+              inputs.some((input) => !input.label.trim())
+            }
+          >
+            Save template
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,73 @@
+'use client';
+
+import { duplicateShareAction } from '@/app/actions/share/duplicate';
+import { handleError } from '@/lib/error/handle';
+import { CopyIcon, EyeIcon, Loader2Icon } from 'lucide-react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { Button } from './ui/button';
+
+type ShareHeaderProps = {
+  token: string;
+  name: string;
+  signedIn: boolean;
+};
+
+export const ShareHeader = ({ token, name, signedIn }: ShareHeaderProps) => {
+  const [isDuplicating, setIsDuplicating] = useState(false);
+  const router = useRouter();
+
+  const handleDuplicate = async () => {
+    if (isDuplicating) {
+      return;
+    }
+
+    try {
+      setIsDuplicating(true);
+
+      const response = await duplicateShareAction(token);
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      router.push(`/projects/${response.id}`);
+    } catch (error) {
+      handleError('Error duplicating project', error);
+      setIsDuplicating(false);
+    }
+  };
+
+  return (
+    <div className="absolute top-0 right-0 left-0 z-[50] m-4 flex items-center justify-between gap-2">
+      <div className="flex min-w-0 items-center gap-2 rounded-full border bg-card/90 px-4 py-2.5 drop-shadow-xs backdrop-blur-sm">
+        <p className="truncate font-medium text-sm">{name}</p>
+        <span className="flex shrink-0 items-center gap-1 text-muted-foreground text-xs">
+          <EyeIcon size={12} />
+          Read-only
+        </span>
+      </div>
+      <div className="flex shrink-0 items-center rounded-full border bg-card/90 p-1 drop-shadow-xs backdrop-blur-sm">
+        {signedIn ? (
+          <Button
+            className="rounded-full"
+            onClick={handleDuplicate}
+            disabled={isDuplicating}
+          >
+            {isDuplicating ? (
+              <Loader2Icon size={16} className="animate-spin" />
+            ) : (
+              <CopyIcon size={16} />
+            )}
+            Duplicate into my workspace
+          </Button>
+        ) : (
+          <Button className="rounded-full" asChild>
+            <Link href="/auth/sign-up">Sign up to duplicate</Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+'use client';
+
+import { unlockShareAction } from '@/app/actions/share/unlock';
+import { handleError } from '@/lib/error/handle';
+import { LockIcon } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { type FormEventHandler, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+type SharePasswordProps = {
+  token: string;
+};
+
+export const SharePassword = ({ token }: SharePasswordProps) => {
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+
+  const handleUnlock: FormEventHandler<HTMLFormElement> = async (event) => {
+    event.preventDefault();
+
+    if (isLoading) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+
+      const response = await unlockShareAction(token, password);
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      router.refresh();
+    } catch (error) {
+      handleError('Error opening project', error);
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen w-full items-center justify-center bg-secondary/50 p-8 dark:bg-background">
+      <form
+        onSubmit={handleUnlock}
+        className="grid w-full max-w-sm gap-4 rounded-xl border bg-background p-6"
+        aria-disabled={isLoading}
+      >
+        <div className="flex items-center gap-2">
+          <LockIcon size={16} className="text-muted-foreground" />
+          <p className="font-semibold">This project is password protected</p>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="password">Password</Label>
+          <Input
+            id="password"
+            type="password"
+            required
+            value={password}
+            onChange={({ target }) => setPassword(target.value)}
+          />
+        </div>
+        <Button type="submit" disabled={isLoading || !password}>
+          View project
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+'use client';
+
+import { deleteTemplateAction } from '@/app/actions/template/delete';
+import { useTemplates } from '@/hooks/use-templates';
+import { handleError } from '@/lib/error/handle';
+import type { Template } from '@/lib/templates';
+import { cn } from '@/lib/utils';
+import { FileIcon, LayoutTemplateIcon, TrashIcon } from 'lucide-react';
+import type { MouseEvent } from 'react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+type TemplateGalleryProps = {
+  value: Template | null;
+  onChange: (template: Template | null) => void;
+
+  // Offers an empty project as the first option
+  allowBlank?: boolean;
+};
+
+export const TemplateGallery = ({
+  value,
+  onChange,
+  allowBlank,
+}: TemplateGalleryProps) => {
+  const { templates, refresh } = useTemplates();
+
+  const handleDelete = async (event: MouseEvent, template: Template) => {
+    event.stopPropagation();
+
+    try {
+      const response = await deleteTemplateAction(template.id);
+
+      if ('error' in response) {
+        throw new Error(response.error);
+      }
+
+      if (value?.id === template.id) {
+        onChange(null);
+      }
+
+      await refresh();
+    } catch (error) {
+      handleError('Error deleting template', error);
+    }
+  };
+
+  const options: (Template | null)[] = allowBlank
+    ? [null, ...templates]
+    : templates;
+
+  return (
+    <div className="grid max-h-72 grid-cols-2 gap-2 overflow-y-auto">
+      {options.map((template) => (
+        <button
+          key={template?.id ?? 'blank'}
+          type="button"
+          onClick={() => onChange(template)}
+          className={cn(
+            'group relative flex flex-col items-start gap-1 rounded-lg border p-3 text-left text-sm transition-colors hover:bg-secondary',
+            value?.id === template?.id && 'border-primary bg-secondary'
+          )}
+        >
+          <span className="flex items-center gap-2 font-medium">
+            {template ? (
+              <LayoutTemplateIcon size={14} />
+            ) : (
+              <FileIcon size={14} />
+            )}
+            {template?.name ?? 'Blank project'}
+          </span>
+          <span className="line-clamp-2 text-muted-foreground text-xs">
+            {template
+              ? (template.description ??
+                `${template.content.nodes.length} nodes`)
+              : 'Start from an empty canvas.'}
+          </span>
+          {template && !template.builtIn && (
+            <TrashIcon
+              size={14}
+              role="button"
+              aria-label="Delete template"
+              onClick={(event) => handleDelete(event, template)}
+              className="absolute top-3 right-3 hidden text-muted-foreground hover:text-destructive group-hover:block"
+            />
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+type TemplateInputsProps = {
+  template: Template;
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+};
+
+export const TemplateInputs = ({
+  template,
+  values,
+  onChange,
+}: TemplateInputsProps) => (
+  <>
+    {template.inputs.map((input) => (
+      <div key={input.nodeId} className="grid gap-2">
+        <Label htmlFor={`input-${input.nodeId}`}>{input.label}</Label>
+        <Input
+          id={`input-${input.nodeId}`}
+          placeholder={
+            (template.content.nodes.find((node) => node.id === input.nodeId)
+              ?.data.text as string | undefined) ?? ''
+          }
+          value={values[input.nodeId] ?? ''}
+          onChange={({ target }) =>
+            onChange({ ...values, [input.nodeId]: target.value })
+          }
+        />
+      </div>
+    ))}
+  </>
+);
@@ -1,9 +1,15 @@
-import { currentUser } from '@/lib/auth';
-import { database } from '@/lib/database';
-import { projects } from '@/schema';
-import { eq } from 'drizzle-orm';
+import {
+  currentUser,
+  getAccessibleProjects,
+  getProjectPreferences,
+} from '@/lib/auth';
+import { getProjectRole } from '@/lib/members';
+import { ProjectMembers } from './project-members';
 import { ProjectSelector } from './project-selector';
 import { ProjectSettings } from './project-settings';
+import { ProjectShares } from './project-shares';
+import { ProjectVariables } from './project-variables';
+import { ProjectKeys } from './provider-keys';
 
 type TopLeftProps = {
   id: string;
@@ -16,9 +22,7 @@ export const TopLeft = async ({ id }: TopLeftProps) => {
     return null;
   }
 
-  const allProjects = await database.query.projects.findMany({
-    where: eq(projects.userId, user.id),
-  });
+  const allProjects = await getAccessibleProjects(user);
 
   if (!allProjects.length) {
     return null;
@@ -30,16 +34,31 @@ export const TopLeft = async ({ id }: TopLeftProps) => {
     return null;
   }
 
+  const role = getProjectRole(currentProject, user);
+  const preferences = await getProjectPreferences(user.id);
+
   return (
     <div className="absolute top-16 right-0 left-0 z-[50] m-4 flex items-center gap-2 sm:top-0 sm:right-auto">
       <div className="flex flex-1 items-center rounded-full border bg-card/90 p-1 drop-shadow-xs backdrop-blur-sm">
         <ProjectSelector
-          projects={allProjects}
+          projects={allProjects.filter(
+            (project) =>
+              !preferences.get(project.id)?.archivedAt ||
+              project.id === currentProject.id
+          )}
           currentProject={currentProject.id}
         />
       </div>
       <div className="flex shrink-0 items-center rounded-full border bg-card/90 p-1 drop-shadow-xs backdrop-blur-sm">
-        <ProjectSettings data={currentProject} />
+        <ProjectMembers data={currentProject} role={role} />
+        {role !== 'viewer' && (
+          <>
+            <ProjectShares data={currentProject} />
+            <ProjectVariables data={currentProject} />
+            {role === 'owner' && <ProjectKeys projectId={currentProject.id} />}
+            <ProjectSettings data={currentProject} />
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,65 @@
+import { Head, Hr, Html, Link, Preview, Text } from '@react-email/components';
+import { EmailLayout } from './layout';
+
+type CommentEmailTemplateProps = {
+  author: string;
+  projectName: string;
+  nodeTitle: string;
+  body: string;
+  link: string;
+  email: string;
+
+  // Mentioned people are told so, others are following the thread
+  reason: 'mention' | 'reply';
+};
+
+export const CommentEmailTemplate = ({
+  author,
+  projectName,
+  nodeTitle,
+  body,
+  link,
+  email,
+  reason,
+}: CommentEmailTemplateProps) => (
+  <Html>
+    <Head />
+    <Preview>
+      {reason === 'mention'
+        ? `${author} mentioned you in ${projectName}`
+        : `${author} replied in ${projectName}`}
+    </Preview>
+    <EmailLayout>
+      <Text className="text-left text-[#525f7f] text-base leading-6">
+        {reason === 'mention'
+          ? `${author} mentioned you in a comment on ${nodeTitle} in ${projectName}:`
+          : `${author} replied to a thread you're in on ${nodeTitle} in ${projectName}:`}
+      </Text>
+      <Text className="whitespace-pre-wrap border-[#e6ebf1] border-l-4 border-solid pl-4 text-left text-[#525f7f] text-base leading-6">
+        {body}
+      </Text>
+      <Link
+        className="block w-full rounded-md bg-[#009869] py-2.5 text-center font-bold text-base text-white no-underline"
+        href={link}
+      >
+        Open the thread
+      </Link>
+      <Hr className="my-5 border-[#e6ebf1]" />
+      <Text className="text-[#8898aa] text-xs leading-4">
+        This email was sent to {email}
+      </Text>
+    </EmailLayout>
+  </Html>
+);
+
+CommentEmailTemplate.PreviewProps = {
+  author: 'Jane',
+  projectName: 'Spring campaign',
+  nodeTitle: 'Hero image',
+  body: '@test@test.com can we try a warmer palette here?',
+  link: 'https://www.tersa.ai/projects/1?comment=1',
+  email: 'test@test.com',
+  reason: 'mention',
+} as CommentEmailTemplateProps;
+
+export default CommentEmailTemplate;
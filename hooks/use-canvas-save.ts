@@ -0,0 +1,123 @@
+'use client';
+
+import { updateProjectAction } from '@/app/actions/project/update';
+import {
+  type ProjectConflict,
+  type ProjectContent,
+  mergeProjectContent,
+} from '@/lib/content';
+import { handleError } from '@/lib/error/handle';
+import { withoutGroupProxyEdges } from '@/lib/groups';
+import { useProject, useProjectRole } from '@/providers/project';
+import { type Edge, type Node, useReactFlow } from '@xyflow/react';
+import { useDebouncedCallback } from 'use-debounce';
+import { useSaveProject } from './use-save-project';
+
+const maxSaveAttempts = 3;
+
+type SaveResult =
+  | { revision: number; content: ProjectContent }
+  | { conflict: ProjectConflict };
+
+// When someone else saved in the meantime their changes are merged in and the
+// save is retried on top of their revision. Changes that can't be merged are
+// left for the user to resolve in the SaveIndicator.
+const saveContent = async (
+  projectId: string,
+  savedContent: ProjectContent,
+  savedRevision: number,
+  localContent: ProjectContent,
+  onMerge: (content: ProjectContent) => void
+): Promise<SaveResult> => {
+  let base = savedContent;
+  let revision = savedRevision;
+  let content = localContent;
+
+  for (let attempt = 0; attempt < maxSaveAttempts; attempt++) {
+    const response = await updateProjectAction(
+      projectId,
+      { content },
+      revision
+    );
+
+    if ('success' in response) {
+      return { revision: response.revision, content };
+    }
+
+    if (!response.conflict) {
+      throw new Error(response.error);
+    }
+
+    const { conflict } = response;
+    const merged = mergeProjectContent(base, content, conflict.content);
+
+    if (merged.conflicts.length) {
+      return { conflict };
+    }
+
+    onMerge(merged.content);
+
+    base = conflict.content;
+    revision = conflict.revision;
+    content = merged.content;
+  }
+
+  throw new Error('The project is changing too quickly, please try again.');
+};
+
+// Saves the canvas a second after the last change. Merged changes from other
+// sessions are applied through `setNodes` and `setEdges`.
+export const useCanvasSave = (
+  setNodes: (nodes: Node[]) => void,
+  setEdges: (edges: Edge[]) => void
+) => {
+  const project = useProject();
+  const readOnly = useProjectRole() === 'viewer';
+  const [saveState, setSaveState] = useSaveProject();
+  const { toObject } = useReactFlow();
+
+  return useDebouncedCallback(async () => {
+    if (
+      saveState.isSaving ||
+      saveState.conflict ||
+      readOnly ||
+      !project?.userId ||
+      !project?.id
+    ) {
+      return;
+    }
+
+    try {
+      setSaveState((prev) => ({ ...prev, isSaving: true }));
+
+      const result = await saveContent(
+        project.id,
+        saveState.savedContent ?? (project.content as ProjectContent),
+        saveState.revision ?? project.revision,
+        withoutGroupProxyEdges(toObject()),
+        (content) => {
+          setNodes(content.nodes);
+          setEdges(content.edges);
+        }
+      );
+
+      if ('conflict' in result) {
+        const { conflict } = result;
+
+        setSaveState((prev) => ({ ...prev, conflict }));
+        return;
+      }
+
+      setSaveState((prev) => ({
+        ...prev,
+        lastSaved: new Date(),
+        revision: result.revision,
+        savedContent: result.content,
+      }));
+    } catch (error) {
+      handleError('Error saving project', error);
+    } finally {
+      setSaveState((prev) => ({ ...prev, isSaving: false }));
+    }
+  }, 1000);
+};
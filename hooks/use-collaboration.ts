@@ -0,0 +1,196 @@
+'use client';
+
+import type { ProjectRole } from '@/lib/members';
+import { createClient } from '@/lib/supabase/client';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { EdgeChange, NodeChange, XYPosition } from '@xyflow/react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useThrottledCallback } from 'use-debounce';
+import { useUser } from './use-user';
+
+export type CanvasChanges = {
+  nodes: NodeChange[];
+  edges: EdgeChange[];
+};
+
+export type Collaborator = {
+  id: string;
+  name: string;
+  color: string;
+  cursor?: XYPosition;
+};
+
+type Presence = {
+  name: string;
+  role: ProjectRole | null;
+};
+
+const colors = [
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#06b6d4',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+];
+
+const getColor = (id: string) =>
+  colors[
+    [...id].reduce((total, char) => total + char.charCodeAt(0), 0) %
+      colors.length
+  ];
+
+// Drop nodes and temporary edges only exist while picking a node type
+const isSessionItem = (item: { type?: string }) =>
+  item.type === 'drop' || item.type === 'temporary';
+
+// Selection, measurements and drag and resize frames of other sessions are
+// local state, so only the changes that end up in the saved content are shared
+const getSharedChanges = <T extends NodeChange | EdgeChange>(changes: T[]) =>
+  changes
+    .filter((change) => {
+      if (change.type === 'add') {
+        return !isSessionItem(change.item);
+      }
+
+      if (change.type === 'position') {
+        return !change.dragging;
+      }
+
+      // Resized groups set their size, measurements of other nodes are local
+      if (change.type === 'dimensions') {
+        return Boolean(change.setAttributes) && !change.resizing;
+      }
+
+      return change.type !== 'select';
+    })
+    .map((change) =>
+      change.type === 'add' || change.type === 'replace'
+        ? { ...change, item: { ...change.item, selected: false } }
+        : change
+    );
+
+export const useCollaboration = (
+  projectId: string | undefined,
+  role: ProjectRole | null,
+  onRemoteChanges: (changes: CanvasChanges) => void
+) => {
+  const user = useUser();
+  const channel = useRef<RealtimeChannel | null>(null);
+  const remoteChangesHandler = useRef(onRemoteChanges);
+  const [collaborators, setCollaborators] = useState<
+    Record<string, Collaborator>
+  >({});
+
+  remoteChangesHandler.current = onRemoteChanges;
+
+  useEffect(() => {
+    if (!projectId || !user) {
+      return;
+    }
+
+    const client = createClient();
+
+    // Private channels are authorized by the Realtime policies on
+    // realtime.messages, see supabase-setup.sql
+    const current = client.channel(`project:${projectId}`, {
+      config: {
+        private: true,
+        broadcast: { self: false },
+        presence: { key: user.id },
+      },
+    });
+
+    current
+      .on('broadcast', { event: 'changes' }, ({ payload }) => {
+        const { id, ...changes } = payload as CanvasChanges & { id: string };
+        const [sender] = current.presenceState<Presence>()[id] ?? [];
+
+        // Viewers can't edit, so their changes are never applied
+        if (!sender || sender.role === 'viewer') {
+          return;
+        }
+
+        remoteChangesHandler.current(changes);
+      })
+      .on('broadcast', { event: 'cursor' }, ({ payload }) => {
+        const { id, cursor } = payload as { id: string; cursor: XYPosition };
+
+        setCollaborators((prev) =>
+          prev[id] ? { ...prev, [id]: { ...prev[id], cursor } } : prev
+        );
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const state = current.presenceState<Presence>();
+
+        setCollaborators((prev) =>
+          Object.fromEntries(
+            Object.entries(state)
+              .filter(([id]) => id !== user.id)
+              .map(([id, [presence]]) => [
+                id,
+                {
+                  id,
+                  name: presence.name,
+                  color: getColor(id),
+                  cursor: prev[id]?.cursor,
+                },
+              ])
+          )
+        );
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await current.track({ name: user.email ?? 'Anonymous', role });
+        }
+      });
+
+    channel.current = current;
+
+    return () => {
+      channel.current = null;
+      setCollaborators({});
+      client.removeChannel(current);
+    };
+  }, [projectId, role, user]);
+
+  const broadcastChanges = useCallback(
+    (changes: Partial<CanvasChanges>) => {
+      const payload: CanvasChanges = {
+        nodes: getSharedChanges(changes.nodes ?? []),
+        edges: getSharedChanges(changes.edges ?? []),
+      };
+
+      if (!user || (!payload.nodes.length && !payload.edges.length)) {
+        return;
+      }
+
+      channel.current?.send({
+        type: 'broadcast',
+        event: 'changes',
+        payload: { id: user.id, ...payload },
+      });
+    },
+    [user]
+  );
+
+  const broadcastCursor = useThrottledCallback((cursor: XYPosition) => {
+    if (!user) {
+      return;
+    }
+
+    channel.current?.send({
+      type: 'broadcast',
+      event: 'cursor',
+      payload: { id: user.id, cursor },
+    });
+  }, 50);
+
+  return {
+    collaborators: Object.values(collaborators),
+    broadcastChanges,
+    broadcastCursor,
+  };
+};
@@ -0,0 +1,56 @@
+'use client';
+
+import { listCommentsAction } from '@/app/actions/comment/list';
+import { type CommentAnchor, getThreads } from '@/lib/comments';
+import { useProject, useProjectShared } from '@/providers/project';
+import { atom, useAtom } from 'jotai';
+import { useMemo } from 'react';
+import useSWR from 'swr';
+
+export type CommentsPanel = {
+  open: boolean;
+
+  // The thread being read, or the node and point a new thread is started on
+  threadId?: string;
+  nodeId?: string;
+  anchor?: CommentAnchor;
+};
+
+export const commentsPanelAtom = atom<CommentsPanel>({ open: false });
+
+export const useCommentsPanel = () => useAtom(commentsPanelAtom);
+
+// The image node waiting for a click on the point to comment on
+export const commentPinAtom = atom<string | null>(null);
+
+export const useCommentPin = () => useAtom(commentPinAtom);
+
+const commentsFetcher = async ([, projectId]: [string, string]) => {
+  const response = await listCommentsAction(projectId);
+
+  if ('error' in response) {
+    throw new Error(response.error);
+  }
+
+  return response;
+};
+
+// Comments from other members show up within half a minute. Shared
+// snapshots don't show the project's comments.
+export const useComments = () => {
+  const project = useProject();
+  const shared = useProjectShared();
+  const { data, mutate } = useSWR(
+    project && !shared ? ['comments', project.id] : null,
+    commentsFetcher,
+    { refreshInterval: 30_000 }
+  );
+
+  const threads = useMemo(() => getThreads(data?.comments ?? []), [data]);
+
+  return {
+    threads,
+    people: data?.people ?? [],
+    refresh: mutate,
+  };
+};
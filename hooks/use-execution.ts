@@ -0,0 +1,11 @@
+'use client';
+
+import type { NodeExecutionStatus } from '@/lib/execution';
+import { atom, useAtom } from 'jotai';
+
+export const executionAtom = atom({
+  isRunning: false,
+  statuses: {} as Record<string, NodeExecutionStatus>,
+});
+
+export const useExecution = () => useAtom(executionAtom);
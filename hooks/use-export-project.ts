@@ -0,0 +1,23 @@
+'use client';
+
+import { exportProject } from '@/lib/bundle';
+import type { ProjectContent } from '@/lib/content';
+import { withoutGroupProxyEdges } from '@/lib/groups';
+import type { projects } from '@/schema';
+import { useReactFlow } from '@xyflow/react';
+import { useCallback } from 'react';
+
+// Exports what is on the canvas, including changes that aren't saved yet,
+// rather than the content the project was loaded with
+export const useExportProject = () => {
+  const { toObject } = useReactFlow();
+
+  return useCallback(
+    (project: typeof projects.$inferSelect) =>
+      exportProject({
+        ...project,
+        content: withoutGroupProxyEdges(toObject()) as ProjectContent,
+      }),
+    [toObject]
+  );
+};
@@ -0,0 +1,27 @@
+'use client';
+
+import { useReactFlow } from '@xyflow/react';
+import { useCallback } from 'react';
+
+// Pans the canvas to a node, centred horizontally on it
+export const useFocusNode = () => {
+  const { getNode, setCenter } = useReactFlow();
+
+  return useCallback(
+    (id: string) => {
+      const node = getNode(id);
+
+      if (!node) {
+        return;
+      }
+
+      const { x, y } = node.position;
+      const width = node.measured?.width ?? 0;
+
+      setCenter(x + width / 2, y, {
+        duration: 1000,
+      });
+    },
+    [getNode, setCenter]
+  );
+};
@@ -0,0 +1,360 @@
+'use client';
+
+import { isAnnotationNode } from '@/lib/annotations';
+import {
+  type BatchResult,
+  type ListNodeData,
+  defaultConcurrency,
+  getBatchList,
+  getBatchPosition,
+  getBatchResultData,
+  getBatchResults,
+  getRows,
+} from '@/lib/batch';
+import { isEdgeActive, isMergeNode } from '@/lib/branching';
+import { handleError } from '@/lib/error/handle';
+import { parseError } from '@/lib/error/parse';
+import {
+  type NodeExecutionStatus,
+  type NodeRunner,
+  executeGraph,
+  getDownstreamNodes,
+  runWithConcurrency,
+} from '@/lib/execution';
+import { isGroupProxyEdge } from '@/lib/groups';
+import { getInputHash, getInputNodes } from '@/lib/xyflow';
+import { useProjectRole, useProjectShared } from '@/providers/project';
+import {
+  type Edge,
+  type EdgeChange,
+  type Node,
+  type NodeChange,
+  useReactFlow,
+} from '@xyflow/react';
+import { nanoid } from 'nanoid';
+import { useCallback, useRef } from 'react';
+import { useAnalytics } from './use-analytics';
+import { useExecution } from './use-execution';
+import { useVariables } from './use-variables';
+
+// Nodes added while running register their runner once they have rendered
+const maxRunnerAttempts = 100;
+
+// Lets React Flow commit new nodes and node data before they are read
+// through getNodes()
+const waitForRender = () =>
+  new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve, 0)));
+
+// The result nodes for each row of the list, reusing the ones from earlier
+// runs, along with the changes that add or update them
+const getBatchChanges = (
+  node: Node,
+  list: Node,
+  nodes: Node[],
+  edges: Edge[]
+) => {
+  const rows = getRows(list);
+  const existing = getBatchResults(node.id, nodes);
+  const inputs = edges.filter(
+    (edge) =>
+      edge.target === node.id &&
+      edge.source !== list.id &&
+      !isGroupProxyEdge(edge)
+  );
+  const nodeChanges: NodeChange[] = [];
+  const edgeChanges: EdgeChange[] = [];
+
+  const results = rows.map((row, index) => {
+    const batch: BatchResult = { source: node.id, row: row.id };
+    const data = getBatchResultData(node, batch);
+    const result = existing.find(
+      (item) => (item.data.batch as BatchResult).row === row.id
+    );
+
+    if (result) {
+      // Results follow the transform's instructions and settings
+      if (
+        JSON.stringify(getBatchResultData(result, batch)) !==
+        JSON.stringify(data)
+      ) {
+        nodeChanges.push({
+          type: 'replace',
+          id: result.id,
+          item: { ...result, data: { ...result.data, ...data } },
+        });
+      }
+
+      return result.id;
+    }
+
+    const id = nanoid();
+
+    nodeChanges.push({
+      type: 'add',
+      item: {
+        id,
+        type: node.type,
+        origin: [0, 0.5],
+        position: getBatchPosition(node, index, rows.length),
+        data,
+      },
+    });
+    edgeChanges.push(
+      {
+        type: 'add',
+        item: {
+          id: nanoid(),
+          source: list.id,
+          target: id,
+          type: 'animated',
+          data: { row: row.id },
+        },
+      },
+      ...inputs.map((edge) => ({
+        type: 'add' as const,
+        item: { ...edge, id: nanoid(), target: id, selected: false },
+      }))
+    );
+
+    return id;
+  });
+
+  return { results, nodeChanges, edgeChanges };
+};
+
+// Runs nodes in graph order through the runners they register once rendered.
+// Nodes whose inputs haven't changed since their last run are skipped.
+export const useGraphRunner = (
+  handleNodesChange: (changes: NodeChange[]) => void,
+  handleEdgesChange: (changes: EdgeChange[]) => void
+) => {
+  const role = useProjectRole();
+  const shared = useProjectShared();
+  const readOnly = role === 'viewer';
+  const { getNode, getNodes, getEdges } = useReactFlow();
+  const analytics = useAnalytics();
+  const [execution, setExecution] = useExecution();
+  const variables = useVariables();
+  const runners = useRef(new Map<string, NodeRunner>());
+
+  const registerRunner = useCallback((id: string, runner: NodeRunner) => {
+    runners.current.set(id, runner);
+
+    return () => {
+      if (runners.current.get(id) === runner) {
+        runners.current.delete(id);
+      }
+    };
+  }, []);
+
+  const setStatus = useCallback(
+    (id: string, status: NodeExecutionStatus) =>
+      setExecution((prev) => ({
+        ...prev,
+        statuses: { ...prev.statuses, [id]: status },
+      })),
+    [setExecution]
+  );
+
+  const hasChangedInputs = useCallback(
+    (id: string) => {
+      const current = getNode(id);
+
+      if (!current?.data.inputHash) {
+        return true;
+      }
+
+      const incomers = getInputNodes(id, getNodes(), getEdges());
+
+      return (
+        current.data.inputHash !== getInputHash(current, incomers, variables)
+      );
+    },
+    [getNode, getNodes, getEdges, variables]
+  );
+
+  const getRunner = useCallback(async (id: string) => {
+    for (let attempt = 0; attempt < maxRunnerAttempts; attempt++) {
+      const runner = runners.current.get(id);
+
+      if (runner) {
+        return runner;
+      }
+
+      await waitForRender();
+    }
+
+    throw new Error('The node could not be loaded');
+  }, []);
+
+  // Runs a transform once per row of the list it is connected to. Each row
+  // gets its own result node, laid out next to the transform and reused on
+  // later runs, which reads the row and the transform's other inputs.
+  const runBatch = useCallback(
+    async (node: Node, list: Node) => {
+      const rows = getRows(list);
+
+      if (!rows.length) {
+        throw new Error('The list is empty');
+      }
+
+      const { results, nodeChanges, edgeChanges } = getBatchChanges(
+        node,
+        list,
+        getNodes(),
+        getEdges()
+      );
+
+      if (nodeChanges.length) {
+        handleNodesChange(nodeChanges);
+      }
+
+      if (edgeChanges.length) {
+        handleEdgesChange(edgeChanges);
+      }
+
+      await waitForRender();
+
+      const errors: unknown[] = [];
+
+      await runWithConcurrency(
+        results,
+        (list.data as ListNodeData).concurrency ?? defaultConcurrency,
+        async (id) => {
+          if (!hasChangedInputs(id)) {
+            setStatus(id, 'unchanged');
+            return;
+          }
+
+          setStatus(id, 'running');
+
+          try {
+            const runner = await getRunner(id);
+
+            await runner();
+            await waitForRender();
+            setStatus(id, 'succeeded');
+          } catch (error) {
+            errors.push(error);
+            setStatus(id, 'failed');
+          }
+        }
+      );
+
+      if (errors.length) {
+        throw new Error(
+          `${errors.length} of ${rows.length} rows failed: ${parseError(errors[0])}`
+        );
+      }
+    },
+    [
+      getNodes,
+      getEdges,
+      handleNodesChange,
+      handleEdgesChange,
+      hasChangedInputs,
+      getRunner,
+      setStatus,
+    ]
+  );
+
+  const runNodes = useCallback(
+    async (targets: Node[]) => {
+      if (shared || readOnly || execution.isRunning || !targets.length) {
+        return;
+      }
+
+      setExecution({ isRunning: true, statuses: {} });
+
+      // Batch results are run by the transform they were generated from,
+      // annotations have nothing to run
+      const ids = new Set(targets.map((node) => node.id));
+      const nodes = targets.filter(
+        (node) =>
+          !isAnnotationNode(node) &&
+          !ids.has((node.data.batch as BatchResult | undefined)?.source ?? '')
+      );
+
+      try {
+        const statuses = await executeGraph({
+          nodes,
+          edges: getEdges(),
+          run: async (node) => {
+            const list = getBatchList(node, getNodes(), getEdges());
+
+            if (list) {
+              await runBatch(node, list);
+              return;
+            }
+
+            const runner = runners.current.get(node.id);
+
+            // Primitive nodes have nothing to generate, they just pass their
+            // content downstream.
+            if (!runner) {
+              return;
+            }
+
+            await runner();
+            await waitForRender();
+          },
+          shouldRun: (node) => hasChangedInputs(node.id),
+          isEdgeActive: (edge) => isEdgeActive(edge, getNodes()),
+          acceptsAnyInput: isMergeNode,
+          onStatusChange: setStatus,
+          onError: (node, error) =>
+            handleError(`Error running ${node.type ?? 'node'}`, error),
+        });
+
+        const results = Object.values(statuses);
+
+        analytics.track('canvas', 'graph', 'run', {
+          nodeCount: results.length,
+          failedCount: results.filter((status) => status === 'failed').length,
+          skippedCount: results.filter((status) => status === 'skipped').length,
+        });
+      } catch (error) {
+        handleError('Error running nodes', error);
+      } finally {
+        setExecution((prev) => ({ ...prev, isRunning: false }));
+      }
+    },
+    [
+      shared,
+      readOnly,
+      execution.isRunning,
+      setExecution,
+      setStatus,
+      hasChangedInputs,
+      runBatch,
+      getNodes,
+      getEdges,
+      analytics,
+    ]
+  );
+
+  const runAll = useCallback(() => runNodes(getNodes()), [runNodes, getNodes]);
+
+  const runSelected = useCallback(
+    () => runNodes(getNodes().filter((node) => node.selected)),
+    [runNodes, getNodes]
+  );
+
+  const runDownstream = useCallback(
+    (id: string) => {
+      const node = getNode(id);
+
+      if (!node) {
+        return Promise.resolve();
+      }
+
+      return runNodes([
+        node,
+        ...getDownstreamNodes(node, getNodes(), getEdges()),
+      ]);
+    },
+    [runNodes, getNode, getNodes, getEdges]
+  );
+
+  return { registerRunner, runAll, runSelected, runDownstream };
+};
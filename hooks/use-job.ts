@@ -0,0 +1,85 @@
+'use client';
+
+import { getJobAction } from '@/app/actions/job/get';
+import { handleError } from '@/lib/error/handle';
+import { type NodeJob, isPendingJob } from '@/lib/jobs';
+import { useProjectShared } from '@/providers/project';
+import { useReactFlow } from '@xyflow/react';
+import { useCallback, useEffect, useRef } from 'react';
+
+const pollInterval = 3000;
+
+// Polls the job until it settles, reporting each update. Returns the node's
+// data as of the finished generation.
+const waitForJob = async (jobId: string, onUpdate: (job: NodeJob) => void) => {
+  while (true) {
+    const response = await getJobAction(jobId);
+
+    if ('error' in response) {
+      throw new Error(response.error);
+    }
+
+    const { job, nodeData } = response;
+
+    onUpdate(job);
+
+    if (job.status === 'failed') {
+      throw new Error(job.error ?? 'The generation failed.');
+    }
+
+    if (job.status === 'succeeded') {
+      return nodeData ?? {};
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+};
+
+// Runs a node's generation as a background job. The returned function
+// submits the job and resolves once it's done, so graph runs still wait for
+// the node. Jobs outlive the page, a node that was waiting on one when the
+// page was closed picks it up again.
+export const useNodeJob = (nodeId: string, job: NodeJob | undefined) => {
+  const { updateNodeData } = useReactFlow();
+  const shared = useProjectShared();
+  const following = useRef<string | null>(null);
+
+  const follow = useCallback(
+    async (jobId: string) => {
+      following.current = jobId;
+
+      try {
+        const nodeData = await waitForJob(jobId, (update) =>
+          updateNodeData(nodeId, { job: update })
+        );
+
+        updateNodeData(nodeId, { ...nodeData, job: undefined });
+      } finally {
+        if (following.current === jobId) {
+          following.current = null;
+        }
+      }
+    },
+    [nodeId, updateNodeData]
+  );
+
+  useEffect(() => {
+    if (shared || !job || !isPendingJob(job) || following.current === job.id) {
+      return;
+    }
+
+    follow(job.id).catch((error) => handleError('Error generating', error));
+  }, [shared, job, follow]);
+
+  return useCallback(
+    async (submit: () => Promise<NodeJob>) => {
+      const submitted = await submit();
+
+      following.current = submitted.id;
+      updateNodeData(nodeId, { job: submitted });
+
+      await follow(submitted.id);
+    },
+    [nodeId, updateNodeData, follow]
+  );
+};
@@ -0,0 +1,43 @@
+'use client';
+
+import { listCustomModelsAction } from '@/app/actions/custom-model/list';
+import { type CustomModel, toCustomOption } from '@/lib/models/custom';
+import type { TersaModel } from '@/lib/providers';
+import { useMemo } from 'react';
+import useSWR from 'swr';
+
+const customModelsFetcher = async () => {
+  const response = await listCustomModelsAction();
+
+  if ('error' in response) {
+    throw new Error(response.error);
+  }
+
+  return response.models;
+};
+
+// The registry's models, followed by those of its type the custom endpoint
+// lists. The listing is shared by every selector on the canvas.
+export const useModelOptions = (
+  models: Record<string, TersaModel>,
+  type: CustomModel['type']
+) => {
+  const { data } = useSWR('custom-models', customModelsFetcher, {
+    revalidateOnFocus: false,
+  });
+
+  return useMemo(() => {
+    const customModels = (data ?? []).filter((model) => model.type === type);
+
+    if (!customModels.length) {
+      return models;
+    }
+
+    return {
+      ...models,
+      ...Object.fromEntries(
+        customModels.map((model) => [model.id, toCustomOption(model)])
+      ),
+    };
+  }, [data, models, type]);
+};
@@ -0,0 +1,36 @@
+'use client';
+
+import { type SlideOrder, hasCustomOrder } from '@/lib/presentation';
+import { useReactFlow } from '@xyflow/react';
+import { atom, useAtom } from 'jotai';
+import { useCallback } from 'react';
+
+export type Presentation = {
+  open: boolean;
+  index: number;
+  order: SlideOrder;
+};
+
+export const presentationAtom = atom<Presentation>({
+  open: false,
+  index: 0,
+  order: 'pipeline',
+});
+
+export const usePresentation = () => useAtom(presentationAtom);
+
+// Starts from the first slide, in the user's own order if they arranged one
+export const useStartPresentation = () => {
+  const { getNodes } = useReactFlow();
+  const [, setPresentation] = usePresentation();
+
+  return useCallback(
+    () =>
+      setPresentation({
+        open: true,
+        index: 0,
+        order: hasCustomOrder(getNodes()) ? 'custom' : 'pipeline',
+      }),
+    [getNodes, setPresentation]
+  );
+};
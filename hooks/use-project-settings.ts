@@ -0,0 +1,9 @@
+'use client';
+
+import { atom, useAtom } from 'jotai';
+
+// Project settings live outside the canvas but can be opened from it, e.g.
+// from the command palette
+export const projectSettingsOpenAtom = atom(false);
+
+export const useProjectSettingsOpen = () => useAtom(projectSettingsOpenAtom);
@@ -1,10 +1,17 @@
 'use client';
 
+import type { ProjectConflict, ProjectContent } from '@/lib/content';
 import { atom, useAtom } from 'jotai';
 
 export const saveProjectAtom = atom({
   isSaving: false,
   lastSaved: null as Date | null,
+
+  // Revision and content of the last successful save, used to detect and
+  // merge changes saved by someone else
+  revision: null as number | null,
+  savedContent: null as ProjectContent | null,
+  conflict: null as ProjectConflict | null,
 });
 
 export const useSaveProject = () => useAtom(saveProjectAtom);
@@ -0,0 +1,25 @@
+'use client';
+
+import { listTemplatesAction } from '@/app/actions/template/list';
+import { builtInTemplates } from '@/lib/templates';
+import useSWR from 'swr';
+
+const templatesFetcher = async () => {
+  const response = await listTemplatesAction();
+
+  if ('error' in response) {
+    throw new Error(response.error);
+  }
+
+  return response.templates;
+};
+
+// Built-in templates are always available, the user's own are listed first
+export const useTemplates = () => {
+  const { data, mutate } = useSWR('templates', templatesFetcher);
+
+  return {
+    templates: [...(data ?? []), ...builtInTemplates],
+    refresh: mutate,
+  };
+};
@@ -0,0 +1,36 @@
+'use client';
+
+import {
+  getProjectVariables,
+  getVariableImages,
+  getVariableValues,
+} from '@/lib/variables';
+import { useProject } from '@/providers/project';
+import { atom, useAtom, useAtomValue } from 'jotai';
+import { useMemo } from 'react';
+
+// Values used instead of the project's for this session, keyed by variable
+// id, so the same canvas can be run for someone else without editing it
+export const variableOverridesAtom = atom<Record<string, string>>({});
+
+export const useVariableOverrides = () => useAtom(variableOverridesAtom);
+
+export const useVariables = () => {
+  const project = useProject();
+  const overrides = useAtomValue(variableOverridesAtom);
+
+  return useMemo(
+    () => getVariableValues(getProjectVariables(project?.variables), overrides),
+    [project?.variables, overrides]
+  );
+};
+
+export const useVariableImages = () => {
+  const project = useProject();
+  const overrides = useAtomValue(variableOverridesAtom);
+
+  return useMemo(
+    () => getVariableImages(getProjectVariables(project?.variables), overrides),
+    [project?.variables, overrides]
+  );
+};
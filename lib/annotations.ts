@@ -0,0 +1,155 @@
+import type { Node, NodeChange, NodePositionChange } from '@xyflow/react';
+
+// Sticky notes, frames and callouts are commentary for whoever reads the
+// board. They have no handles, never feed another node and are skipped when
+// running.
+export const annotationTypes = ['note', 'frame', 'callout'];
+
+export type AnnotationColor =
+  | 'yellow'
+  | 'orange'
+  | 'green'
+  | 'blue'
+  | 'purple'
+  | 'gray';
+
+export const annotationColors: AnnotationColor[] = [
+  'yellow',
+  'orange',
+  'green',
+  'blue',
+  'purple',
+  'gray',
+];
+
+export type CalloutDirection = 'left' | 'right' | 'top' | 'bottom';
+
+export type AnnotationNodeData = {
+  color?: AnnotationColor;
+
+  // The note's or callout's text, or the frame's title
+  text?: string;
+
+  // Side of the callout its arrow points from
+  direction?: CalloutDirection;
+};
+
+export const isAnnotationNode = (node: Pick<Node, 'type'>) =>
+  annotationTypes.includes(node.type ?? '');
+
+export const isFrameNode = (node: Pick<Node, 'type'>) => node.type === 'frame';
+
+// Annotations are sized by the user. Frames sit behind the nodes they
+// contain.
+const getAnnotationDefaults = (type: string): Partial<Node> => {
+  switch (type) {
+    case 'note':
+      return { width: 240, height: 200, data: { color: 'yellow' } };
+    case 'callout':
+      return {
+        width: 240,
+        height: 100,
+        data: { color: 'blue', direction: 'left' },
+      };
+    case 'frame':
+      return {
+        width: 800,
+        height: 600,
+        zIndex: -1,
+        data: { color: 'gray' },
+      };
+    default:
+      return {};
+  }
+};
+
+// Options for a new node of the given type, on top of the annotation defaults
+export const withAnnotationDefaults = (
+  type: string,
+  options: Record<string, unknown> = {}
+) => {
+  const { data: defaultData, ...defaults } = getAnnotationDefaults(type);
+
+  return {
+    ...defaults,
+    ...options,
+    data: {
+      ...defaultData,
+      ...(options.data as Record<string, unknown> | undefined),
+    },
+  };
+};
+
+const getBox = (node: Node) => {
+  const width = node.measured?.width ?? node.width ?? 0;
+  const height = node.measured?.height ?? node.height ?? 0;
+  const [originX, originY] = node.origin ?? [0, 0];
+
+  return {
+    x: node.position.x - width * originX,
+    y: node.position.y - height * originY,
+    width,
+    height,
+  };
+};
+
+// Top-level nodes lying entirely within the frame
+export const getFrameContents = (frame: Node, nodes: Node[]) => {
+  const bounds = getBox(frame);
+
+  return nodes.filter((node) => {
+    if (node.id === frame.id || node.parentId || isFrameNode(node)) {
+      return false;
+    }
+
+    const box = getBox(node);
+
+    return (
+      box.x >= bounds.x &&
+      box.y >= bounds.y &&
+      box.x + box.width <= bounds.x + bounds.width &&
+      box.y + box.height <= bounds.y + bounds.height
+    );
+  });
+};
+
+// Nodes placed in a frame move along with it. The frame's position changes
+// are extended to its contents, unless they are being moved themselves,
+// e.g. because they are selected too.
+export const withFrameContents = (changes: NodeChange[], nodes: Node[]) => {
+  const moved = new Set(
+    changes.flatMap((change) => (change.type === 'position' ? change.id : []))
+  );
+  const extra: NodePositionChange[] = [];
+
+  for (const change of changes) {
+    if (change.type !== 'position' || !change.position) {
+      continue;
+    }
+
+    const frame = nodes.find((node) => node.id === change.id);
+
+    if (!frame || !isFrameNode(frame)) {
+      continue;
+    }
+
+    const dx = change.position.x - frame.position.x;
+    const dy = change.position.y - frame.position.y;
+
+    for (const node of getFrameContents(frame, nodes)) {
+      if (moved.has(node.id)) {
+        continue;
+      }
+
+      moved.add(node.id);
+      extra.push({
+        type: 'position',
+        id: node.id,
+        position: { x: node.position.x + dx, y: node.position.y + dy },
+        dragging: change.dragging,
+      });
+    }
+  }
+
+  return extra.length ? [...changes, ...extra] : changes;
+};
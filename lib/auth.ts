@@ -1,8 +1,13 @@
-import { getCredits } from '@/app/actions/credits/get';
-import { profile } from '@/schema';
-import { eq } from 'drizzle-orm';
+import { profile, projectPreferences, projects } from '@/schema';
+import { eq, or, sql } from 'drizzle-orm';
 import { database } from './database';
-import { env } from './env';
+import {
+  type ProjectRole,
+  getProjectRole,
+  hasProjectRole,
+  parseMembers,
+} from './members';
+import { createAdminClient } from './supabase/admin';
 import { createClient } from './supabase/server';
 
 export const currentUser = async () => {
@@ -43,6 +48,12 @@ export const currentUserProfile = async () => {
   return userProfile;
 };
 
+// For work done outside of the user's request, e.g. background jobs
+export const getProfile = (userId: string) =>
+  database.query.profile.findFirst({
+    where: eq(profile.id, userId),
+  });
+
 export const getSubscribedUser = async () => {
   const user = await currentUser();
 
@@ -79,3 +90,76 @@ export const getSubscribedUser = async () => {
 
   return user;
 };
+
+// Projects the user owns or was invited to. Shared projects list the user's
+// email in their `email:role` members.
+export const getAccessibleProjects = (user: { id: string; email?: string }) => {
+  const email = user.email?.toLowerCase() ?? '';
+
+  return database.query.projects.findMany({
+    where: or(
+      eq(projects.userId, user.id),
+      sql`exists (select 1 from unnest(${projects.members}) as member where split_part(member, ':', 1) = ${email})`
+    ),
+  });
+};
+
+// How the user organises their projects on the dashboard, by project
+export const getProjectPreferences = async (userId: string) => {
+  const preferences = await database.query.projectPreferences.findMany({
+    where: eq(projectPreferences.userId, userId),
+  });
+
+  return new Map(
+    preferences.map((preference) => [preference.projectId, preference])
+  );
+};
+
+export const getProjectAccess = async (
+  projectId: string,
+  required: ProjectRole
+) => {
+  const user = await currentUser();
+
+  if (!user) {
+    throw new Error('You need to be logged in to access this project!');
+  }
+
+  const project = await database.query.projects.findFirst({
+    where: eq(projects.id, projectId),
+  });
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+
+  const role = getProjectRole(project, user);
+
+  if (!hasProjectRole(role, required)) {
+    throw new Error(
+      required === 'viewer'
+        ? "You don't have access to this project."
+        : `You need to be a project ${required} to do this.`
+    );
+  }
+
+  return { user, project, role: role as ProjectRole };
+};
+
+// The emails of everyone with access to a project: its owner and its current
+// members. Owners are only stored by id, so their email is looked up.
+export const getProjectPeople = async (
+  project: typeof projects.$inferSelect
+) => {
+  const { data } = await createAdminClient().auth.admin.getUserById(
+    project.userId
+  );
+  const owner = data.user?.email?.toLowerCase();
+
+  return [
+    ...new Set([
+      ...(owner ? [owner] : []),
+      ...parseMembers(project.members).map(({ email }) => email),
+    ]),
+  ];
+};
@@ -0,0 +1,114 @@
+import type { Edge, Node, XYPosition } from '@xyflow/react';
+
+export type ListRow = {
+  id: string;
+  text: string;
+};
+
+export type ListNodeData = {
+  rows?: ListRow[];
+
+  // Number of rows generated at the same time when fanning out
+  concurrency?: number;
+};
+
+// Set on the nodes generated for a row, pointing back at the transform that
+// was fanned out and the row it was generated for
+export type BatchResult = {
+  source: string;
+  row: string;
+};
+
+export const defaultConcurrency = 3;
+export const concurrencyOptions = [1, 2, 3, 5, 10];
+
+const spacing = 60;
+const defaultSize = 400;
+
+// Fields produced by running a node, which the per-row copies don't inherit
+const outputFields = [
+  'generated',
+  'history',
+  'versionId',
+  'pinned',
+  'inputHash',
+  'updatedAt',
+  'description',
+  'transcript',
+  'batch',
+];
+
+type NodeLike = Pick<Node, 'id' | 'type' | 'data'>;
+
+export const isListNode = (node: Pick<Node, 'type'>) => node.type === 'list';
+
+export const getRows = (node: Pick<Node, 'data'>) =>
+  ((node.data as ListNodeData).rows ?? []).filter((row) => row.text.trim());
+
+// Edges from a list feed it as a whole, unless they carry the row they were
+// created for
+export const getEdgeRow = (edge: Pick<Edge, 'data'>) =>
+  (edge.data?.row as string | undefined) ?? null;
+
+// List nodes are read by the other nodes as text, either one row or all of
+// them, one per line
+export const resolveListInput = (
+  node: NodeLike,
+  row: string | null
+): NodeLike => {
+  if (!isListNode(node)) {
+    return node;
+  }
+
+  const rows = getRows(node);
+  const text = row
+    ? rows.find((item) => item.id === row)?.text
+    : rows.map((item) => item.text).join('\n');
+
+  return { id: node.id, type: 'text', data: { text } };
+};
+
+// The list a transform is fanned out over, i.e. one connected as a whole
+export const getBatchList = (node: Node, nodes: Node[], edges: Edge[]) => {
+  const edge = edges.find(
+    (item) =>
+      item.target === node.id &&
+      !getEdgeRow(item) &&
+      nodes.some((other) => other.id === item.source && isListNode(other))
+  );
+
+  return edge ? nodes.find((other) => other.id === edge.source) : undefined;
+};
+
+export const getBatchResults = (source: string, nodes: Node[]) =>
+  nodes.filter(
+    (node) => (node.data.batch as BatchResult | undefined)?.source === source
+  );
+
+// Results are laid out in a grid to the right of the transform
+export const getBatchPosition = (
+  node: Node,
+  index: number,
+  count: number
+): XYPosition => {
+  const width = node.measured?.width ?? defaultSize;
+  const height = node.measured?.height ?? defaultSize;
+  const columns = Math.ceil(Math.sqrt(count));
+  const row = Math.floor(index / columns);
+  const column = index % columns;
+
+  return {
+    x: node.position.x + (width + spacing) * (column + 1),
+    y:
+      node.position.y -
+      ((Math.ceil(count / columns) - 1) * (height + spacing)) / 2 +
+      row * (height + spacing),
+  };
+};
+
+export const getBatchResultData = (node: Node, batch: BatchResult) => ({
+  ...Object.fromEntries(
+    Object.entries(node.data).filter(([key]) => !outputFields.includes(key))
+  ),
+  batch,
+});
@@ -0,0 +1,175 @@
+import type { Edge, Node } from '@xyflow/react';
+import { nanoid } from 'nanoid';
+
+export type RouterMode = 'match' | 'classify' | 'compare';
+
+export type RouterRoute = {
+  id: string;
+
+  // A keyword or /regex/ when matching, the label the model picks from when
+  // classifying, or a comparison such as `> 10`
+  value: string;
+};
+
+export type RouterNodeData = {
+  mode?: RouterMode;
+  routes?: RouterRoute[];
+
+  // Model used when classifying
+  model?: string;
+
+  // The route taken on the last run, null when no route matched and the
+  // fallback was taken
+  selected?: string | null;
+  inputHash?: string;
+};
+
+export type MergeMode = 'first' | 'join';
+
+export type MergeNodeData = {
+  mode?: MergeMode;
+};
+
+export const routerModes: Record<RouterMode, string> = {
+  match: 'Keyword or regex',
+  classify: 'Classify',
+  compare: 'Number',
+};
+
+export const mergeModes: Record<MergeMode, string> = {
+  first: 'First available',
+  join: 'Join all',
+};
+
+// Every router has a fallback handle, taken when no route matches
+export const fallbackHandle = 'route:else';
+
+const routePrefix = 'route:';
+const regexPattern = /^\/(.+)\/([a-z]*)$/;
+const comparisonPattern = /^(<=|>=|!=|==|=|<|>)\s*(-?\d+(?:\.\d+)?)$/;
+const numberPattern = /-?\d+(?:\.\d+)?/;
+
+export const isRouterNode = (node: Pick<Node, 'type'>) =>
+  node.type === 'router';
+export const isMergeNode = (node: Pick<Node, 'type'>) => node.type === 'merge';
+
+export const getRouteHandleId = (routeId: string) => `${routePrefix}${routeId}`;
+
+export const createRoute = (value = ''): RouterRoute => ({
+  id: nanoid(),
+  value,
+});
+
+export const getRoutes = (node: Pick<Node, 'data'>) =>
+  (node.data as RouterNodeData).routes ?? [];
+
+export const getRouterMode = (node: Pick<Node, 'data'>) =>
+  (node.data as RouterNodeData).mode ?? 'match';
+
+export const getMergeMode = (node: Pick<Node, 'data'>) =>
+  (node.data as MergeNodeData).mode ?? 'first';
+
+// The handle of the route taken on the last run. Routers that haven't run
+// yet don't let anything through.
+export const getSelectedHandle = (node: Pick<Node, 'data'>) => {
+  const { selected } = node.data as RouterNodeData;
+
+  if (selected === undefined) {
+    return undefined;
+  }
+
+  return selected === null ? fallbackHandle : getRouteHandleId(selected);
+};
+
+export const isRouteHandle = (
+  node: Pick<Node, 'data'>,
+  handle: string | null | undefined
+) =>
+  handle === fallbackHandle ||
+  getRoutes(node).some((route) => getRouteHandleId(route.id) === handle);
+
+// Edges leaving a router only carry content when they start at the route it
+// took. Every other edge is always active.
+export const isEdgeActive = (edge: Edge, nodes: Node[]) => {
+  const source = nodes.find((node) => node.id === edge.source);
+
+  if (!source || !isRouterNode(source)) {
+    return true;
+  }
+
+  return edge.sourceHandle === getSelectedHandle(source);
+};
+
+const matchesKeyword = (text: string, value: string) => {
+  const regex = value.match(regexPattern);
+
+  if (!regex) {
+    return text.toLowerCase().includes(value.toLowerCase());
+  }
+
+  try {
+    return new RegExp(regex[1], regex[2]).test(text);
+  } catch {
+    throw new Error(`Invalid regular expression ${value}`);
+  }
+};
+
+const compare = (text: string, value: string) => {
+  const comparison = value.match(comparisonPattern);
+
+  if (!comparison) {
+    throw new Error(`Invalid comparison ${value}, use e.g. "> 10"`);
+  }
+
+  const number = text.match(numberPattern);
+
+  if (!number) {
+    return false;
+  }
+
+  const left = Number(number[0]);
+  const right = Number(comparison[2]);
+
+  switch (comparison[1]) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    case '!=':
+      return left !== right;
+    default:
+      return left === right;
+  }
+};
+
+// The first route whose condition holds for the text, or null for the
+// fallback. Classification is done by the model, see the router node.
+export const evaluateRoutes = (
+  mode: Exclude<RouterMode, 'classify'>,
+  routes: RouterRoute[],
+  text: string
+) => {
+  const route = routes.find(
+    (item) =>
+      item.value.trim() &&
+      (mode === 'compare'
+        ? compare(text, item.value.trim())
+        : matchesKeyword(text, item.value.trim()))
+  );
+
+  return route?.id ?? null;
+};
+
+// Models don't always answer with the label verbatim
+export const findRouteByLabel = (routes: RouterRoute[], label: string) => {
+  const answer = label.trim().toLowerCase().replace(/[."']/g, '');
+
+  return (
+    routes.find((route) => route.value.trim().toLowerCase() === answer)?.id ??
+    null
+  );
+};
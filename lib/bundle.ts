@@ -0,0 +1,194 @@
+import { createProjectAction } from '@/app/actions/project/create';
+import type { projects } from '@/schema';
+import {
+  type Unzipped,
+  type Zippable,
+  strFromU8,
+  strToU8,
+  unzip,
+  zip,
+} from 'fflate';
+import type { ProjectContent } from './content';
+import { downloadBlob } from './download';
+import { env } from './env';
+import { uploadFile } from './upload';
+import { type ProjectVariable, getProjectVariables } from './variables';
+
+// Bump when the manifest shape changes, older bundles must keep importing
+export const bundleVersion = 1;
+
+type BundleAsset = {
+  file: string;
+  url: string;
+  type: string;
+};
+
+export type BundleManifest = {
+  version: number;
+  exportedAt: string;
+  project: {
+    name: string;
+    transcriptionModel: string;
+    visionModel: string;
+
+    // Missing from bundles exported before projects had variables
+    variables?: ProjectVariable[];
+  };
+  content: ProjectContent;
+  assets: BundleAsset[];
+};
+
+const storageUrl = `${env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/`;
+
+const zipAsync = (files: Zippable) =>
+  new Promise<Uint8Array>((resolve, reject) =>
+    zip(files, (error, data) => (error ? reject(error) : resolve(data)))
+  );
+
+const unzipAsync = (data: Uint8Array) =>
+  new Promise<Unzipped>((resolve, reject) =>
+    unzip(data, (error, files) => (error ? reject(error) : resolve(files)))
+  );
+
+// Storage URLs can be anywhere in node data, e.g. in generation history
+const getAssetUrls = (value: unknown, urls = new Set<string>()) => {
+  if (typeof value === 'string' && value.startsWith(storageUrl)) {
+    urls.add(value);
+  } else if (value && typeof value === 'object') {
+    for (const item of Object.values(value)) {
+      getAssetUrls(item, urls);
+    }
+  }
+
+  return urls;
+};
+
+const replaceAssetUrls = (
+  value: unknown,
+  urls: Map<string, string>
+): unknown => {
+  if (typeof value === 'string') {
+    return urls.get(value) ?? value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceAssetUrls(item, urls));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        replaceAssetUrls(item, urls),
+      ])
+    );
+  }
+
+  return value;
+};
+
+const getExtension = (url: string) => {
+  const name = new URL(url).pathname.split('/').at(-1) ?? '';
+
+  return name.includes('.') ? `.${name.split('.').at(-1)}` : '';
+};
+
+export const exportProject = async (project: typeof projects.$inferSelect) => {
+  const content = (project.content ?? {
+    nodes: [],
+    edges: [],
+  }) as ProjectContent;
+  const variables = getProjectVariables(project.variables);
+  const files: Zippable = {};
+  const assets: BundleAsset[] = [];
+  const urls = getAssetUrls(variables, getAssetUrls(content));
+
+  for (const [index, url] of [...urls].entries()) {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      throw new Error(`Failed to download ${url}`);
+    }
+
+    const blob = await response.blob();
+    const file = `assets/${index}${getExtension(url)}`;
+
+    files[file] = new Uint8Array(await blob.arrayBuffer());
+    assets.push({ file, url, type: blob.type });
+  }
+
+  const manifest: BundleManifest = {
+    version: bundleVersion,
+    exportedAt: new Date().toISOString(),
+    project: {
+      name: project.name,
+      transcriptionModel: project.transcriptionModel,
+      visionModel: project.visionModel,
+      variables,
+    },
+    content,
+    assets,
+  };
+
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+
+  const archive = await zipAsync(files);
+  const slug = project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+  downloadBlob(
+    new Blob([archive as BlobPart], { type: 'application/zip' }),
+    `tersa-${slug || project.id}.zip`
+  );
+};
+
+// Re-uploads the bundled assets to the current user's storage and creates a
+// new project pointing at the uploaded copies. Returns the new project's id.
+export const importProject = async (file: File) => {
+  const files = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+  const manifestFile = files['manifest.json'];
+
+  if (!manifestFile) {
+    throw new Error('This file is not a Tersa project export.');
+  }
+
+  const manifest = JSON.parse(strFromU8(manifestFile)) as BundleManifest;
+
+  if (typeof manifest.version !== 'number') {
+    throw new Error('This file is not a Tersa project export.');
+  }
+
+  if (manifest.version > bundleVersion) {
+    throw new Error('This export was made with a newer version of Tersa.');
+  }
+
+  const urls = new Map<string, string>();
+
+  for (const asset of manifest.assets) {
+    const data = files[asset.file];
+
+    if (!data) {
+      throw new Error(`The export is missing ${asset.file}.`);
+    }
+
+    const name = asset.file.split('/').at(-1) ?? asset.file;
+    const uploaded = await uploadFile(
+      new File([data as BlobPart], name, { type: asset.type }),
+      'files'
+    );
+
+    urls.set(asset.url, uploaded.url);
+  }
+
+  const response = await createProjectAction(manifest.project.name, false, {
+    content: replaceAssetUrls(manifest.content, urls),
+    transcriptionModel: manifest.project.transcriptionModel,
+    visionModel: manifest.project.visionModel,
+    variables: replaceAssetUrls(manifest.project.variables ?? [], urls),
+  });
+
+  if ('error' in response) {
+    throw new Error(response.error);
+  }
+
+  return response.id;
+};
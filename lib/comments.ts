@@ -0,0 +1,71 @@
+import type { comments } from '@/schema';
+
+export type Comment = typeof comments.$inferSelect;
+
+// A point on the node's image output, as a fraction of its width and height
+export type CommentAnchor = {
+  x: number;
+  y: number;
+};
+
+export type CommentThread = {
+  id: string;
+  nodeId: string;
+  anchor: CommentAnchor | null;
+  resolvedAt: Date | null;
+  comments: Comment[];
+};
+
+// Members are mentioned by their email, e.g. @jane@acme.com
+const mentionPattern = /(?:^|\s)@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+// An @ being typed right before the cursor
+const openMentionPattern = /(?:^|\s)@([^\s@]*(?:@[^\s@]*)?)$/;
+
+export const getMentions = (body: string) => [
+  ...new Set(
+    [...body.matchAll(mentionPattern)].map(([, email]) => email.toLowerCase())
+  ),
+];
+
+export const getOpenMention = (text: string, cursor: number) => {
+  const match = text.slice(0, cursor).match(openMentionPattern);
+
+  if (!match) {
+    return null;
+  }
+
+  return { query: match[1], start: cursor - match[1].length };
+};
+
+// Comments come back in the order they were written, threads are listed
+// with the most recent activity first
+export const getThreads = (rows: Comment[]): CommentThread[] => {
+  const threads = new Map<string, CommentThread>();
+
+  for (const row of rows) {
+    if (!row.threadId) {
+      threads.set(row.id, {
+        id: row.id,
+        nodeId: row.nodeId,
+        anchor: row.anchor as CommentAnchor | null,
+        resolvedAt: row.resolvedAt,
+        comments: [row],
+      });
+    }
+  }
+
+  for (const row of rows) {
+    if (row.threadId) {
+      threads.get(row.threadId)?.comments.push(row);
+    }
+  }
+
+  const getActivity = (thread: CommentThread) =>
+    new Date(thread.comments.at(-1)?.createdAt ?? 0).getTime();
+
+  return [...threads.values()].sort((a, b) => getActivity(b) - getActivity(a));
+};
+
+export const getAuthorName = (comment: Comment) =>
+  comment.authorName ?? comment.authorEmail;
@@ -0,0 +1,207 @@
+import type { Edge, Node, Viewport } from '@xyflow/react';
+
+export type ProjectContent = {
+  nodes: Node[];
+  edges: Edge[];
+  viewport?: Viewport;
+};
+
+export type ProjectConflict = {
+  revision: number;
+  content: ProjectContent;
+};
+
+// Fields that are part of the saved document, as opposed to session state
+// like selection and measurements
+const nodeFields = [
+  'type',
+  'position',
+  'data',
+  'parentId',
+  'extent',
+  'hidden',
+  'width',
+  'height',
+] as const;
+
+const edgeFields = [
+  'source',
+  'target',
+  'sourceHandle',
+  'targetHandle',
+  'type',
+  'data',
+] as const;
+
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+type Data = Record<string, unknown>;
+
+const isData = (value: unknown): value is Data =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Takes each key from the side that changed it. Keys changed differently on
+// both sides are conflicts and keep the local value.
+const mergeKeys = <T extends object>(
+  base: T | undefined,
+  local: T,
+  remote: T,
+  keys: readonly (keyof T)[]
+) => {
+  const merged = { ...local };
+  let conflict = false;
+
+  for (const key of keys) {
+    const [previous, mine, theirs] = [base?.[key], local[key], remote[key]];
+
+    if (isEqual(mine, theirs) || isEqual(previous, theirs)) {
+      continue;
+    }
+
+    if (isEqual(previous, mine)) {
+      merged[key] = theirs;
+    } else {
+      conflict = true;
+    }
+  }
+
+  return { merged, conflict };
+};
+
+// Data holds each of a node's settings under its own key, e.g. a text node's
+// model and instructions, so it's merged per key and only edits to the same
+// key conflict
+const mergeData = (base: unknown, local: unknown, remote: unknown) => {
+  if (!isData(local) || !isData(remote)) {
+    return mergeKeys({ data: base }, { data: local }, { data: remote }, [
+      'data',
+    ]);
+  }
+
+  const previous = isData(base) ? base : {};
+  const keys = new Set([
+    ...Object.keys(previous),
+    ...Object.keys(local),
+    ...Object.keys(remote),
+  ]);
+  const { merged, conflict } = mergeKeys(previous, local, remote, [...keys]);
+
+  return { merged: { data: merged }, conflict };
+};
+
+const mergeFields = <T extends Node | Edge>(
+  base: T | undefined,
+  local: T,
+  remote: T,
+  fields: readonly (keyof T)[]
+) => {
+  const { merged, conflict } = mergeKeys(
+    base,
+    local,
+    remote,
+    fields.filter((field) => field !== 'data')
+  );
+  const data = mergeData(base?.data, local.data, remote.data);
+
+  return {
+    merged: { ...merged, data: data.merged.data } as T,
+    conflict: conflict || data.conflict,
+  };
+};
+
+const isChanged = <T extends Node | Edge>(
+  previous: T,
+  item: T,
+  fields: readonly (keyof T)[]
+) => fields.some((field) => !isEqual(previous[field], item[field]));
+
+// Merges an item this session still has with the saved copy, if any
+const mergeLocalItem = <T extends Node | Edge>(
+  previous: T | undefined,
+  item: T,
+  theirs: T | undefined,
+  fields: readonly (keyof T)[]
+): { item?: T; conflict: boolean } => {
+  if (theirs) {
+    const { merged, conflict } = mergeFields(previous, item, theirs, fields);
+
+    return { item: merged, conflict };
+  }
+
+  // Added in this session
+  if (!previous) {
+    return { item, conflict: false };
+  }
+
+  // Deleted elsewhere, which conflicts if it was being edited here
+  return isChanged(previous, item, fields)
+    ? { item, conflict: true }
+    : { conflict: false };
+};
+
+const mergeItems = <T extends Node | Edge>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  fields: readonly (keyof T)[]
+) => {
+  const baseItems = new Map(base.map((item) => [item.id, item]));
+  const localItems = new Map(local.map((item) => [item.id, item]));
+  const remoteItems = new Map(remote.map((item) => [item.id, item]));
+  const items: T[] = [];
+  const conflicts: string[] = [];
+
+  for (const item of local) {
+    const merged = mergeLocalItem(
+      baseItems.get(item.id),
+      item,
+      remoteItems.get(item.id),
+      fields
+    );
+
+    if (merged.item) {
+      items.push(merged.item);
+    }
+
+    if (merged.conflict) {
+      conflicts.push(item.id);
+    }
+  }
+
+  for (const item of remote) {
+    const previous = baseItems.get(item.id);
+
+    if (localItems.has(item.id)) {
+      continue;
+    }
+
+    if (!previous) {
+      // Added elsewhere
+      items.push(item);
+    } else if (isChanged(previous, item, fields)) {
+      // Deleted in this session while it was being edited elsewhere
+      conflicts.push(item.id);
+    }
+  }
+
+  return { items, conflicts };
+};
+
+// Three-way merge of the content this session last saved (`base`), its
+// current content and the content saved since by someone else. Fields changed
+// on one side only are taken from that side, fields changed differently on
+// both sides are reported as conflicts and keep the local value.
+export const mergeProjectContent = (
+  base: ProjectContent,
+  local: ProjectContent,
+  remote: ProjectContent
+) => {
+  const nodes = mergeItems(base.nodes, local.nodes, remote.nodes, nodeFields);
+  const edges = mergeItems(base.edges, local.edges, remote.edges, edgeFields);
+
+  return {
+    content: { ...local, nodes: nodes.items, edges: edges.items },
+    conflicts: [...nodes.conflicts, ...edges.conflicts],
+  };
+};
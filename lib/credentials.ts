@@ -0,0 +1,123 @@
+import { providerKeys } from '@/schema';
+import { and, eq, isNull, or } from 'drizzle-orm';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'node:crypto';
+import { currentUser, getProjectAccess } from './auth';
+import { database } from './database';
+import { env } from './env';
+import { setProviderKeyResolver } from './provider-keys';
+
+type ProviderKeys = Record<string, string>;
+
+const getSecret = () => {
+  if (!env.PROVIDER_KEYS_SECRET) {
+    throw new Error('Provider keys are not configured.');
+  }
+
+  return createHash('sha256').update(env.PROVIDER_KEYS_SECRET).digest();
+};
+
+// AES-256-GCM, stored as `iv:tag:ciphertext`
+export const encryptProviderKey = (key: string) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getSecret(), iv);
+  const encrypted = Buffer.concat([cipher.update(key, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString('base64'))
+    .join(':');
+};
+
+const decryptProviderKey = (stored: string) => {
+  const [iv, tag, encrypted] = stored
+    .split(':')
+    .map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', getSecret(), iv);
+
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    'utf8'
+  );
+};
+
+export const getKeyHint = (key: string) => key.slice(-4);
+
+const isPersonalKey = (userId: string) =>
+  and(eq(providerKeys.userId, userId), isNull(providerKeys.projectId));
+
+// Personal keys are managed by their user, a project's keys by its owner.
+// Returns the condition matching the keys in that scope.
+export const getManagedKeys = async (projectId?: string) => {
+  if (projectId) {
+    const { user } = await getProjectAccess(projectId, 'owner');
+
+    return { user, where: eq(providerKeys.projectId, projectId) };
+  }
+
+  const user = await currentUser();
+
+  if (!user) {
+    throw new Error('You need to be logged in to manage your keys.');
+  }
+
+  return {
+    user,
+    where: isPersonalKey(user.id),
+  };
+};
+
+type KeyScope = {
+  userId: string;
+
+  // A project the user can edit, checked by the caller
+  projectId?: string;
+};
+
+// The user's own keys, overridden by the project's, so a team's contract
+// covers everything generated in its projects
+const getProviderKeys = async ({
+  userId,
+  projectId,
+}: KeyScope): Promise<ProviderKeys> => {
+  const rows = await database.query.providerKeys.findMany({
+    where: or(
+      isPersonalKey(userId),
+      projectId ? eq(providerKeys.projectId, projectId) : undefined
+    ),
+  });
+
+  // The project's keys come last, so they win
+  const ordered = [...rows].sort(
+    (a, b) => Number(Boolean(a.projectId)) - Number(Boolean(b.projectId))
+  );
+
+  return Object.fromEntries(
+    ordered.map((row) => [row.provider, decryptProviderKey(row.encryptedKey)])
+  );
+};
+
+const store = new AsyncLocalStorage<ProviderKeys>();
+
+setProviderKeyResolver((provider) => store.getStore()?.[provider]);
+
+// Runs the work with the keys of whoever it's done for. Models called within
+// it use their key for its provider, and the app's for the rest.
+export const withProviderKeys = async <T>(
+  scope: KeyScope,
+  work: () => Promise<T>
+) => {
+  const keys = await getProviderKeys(scope);
+
+  return store.run(keys, work);
+};
+
+// Whether calls to the provider are made with the caller's key, and so
+// billed to them by the provider rather than metered by us
+export const usesOwnKey = (provider: string) =>
+  Boolean(store.getStore()?.[provider]);
@@ -0,0 +1,110 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { env } from './env';
+import {
+  type CustomModel,
+  customImageSizes,
+  fromCustomModelId,
+  isCustomModel,
+  toCustomModelId,
+} from './models/custom';
+import { type TersaImageModel, imageModels } from './models/image';
+import { type TersaTextModel, textModels } from './models/text';
+import { type TersaVisionModel, visionModels } from './models/vision';
+import { providers } from './providers';
+
+type ModelsResponse = {
+  data?: { id: string }[];
+};
+
+// The endpoint's listing is cached briefly, as every model selector asks
+const listingTtl = 60_000;
+
+let listing: { models: CustomModel[]; expiresAt: number } | undefined;
+
+const getEndpoint = () =>
+  createOpenAI({
+    name: providers.custom.id,
+    baseURL: env.CUSTOM_ENDPOINT_URL,
+
+    // Never falls back on OPENAI_API_KEY, which isn't the endpoint's to see
+    apiKey: env.CUSTOM_ENDPOINT_API_KEY ?? '',
+    compatibility: 'compatible',
+  });
+
+const getImageModelIds = () =>
+  env.CUSTOM_ENDPOINT_IMAGE_MODELS?.split(',').map((id) => id.trim()) ?? [];
+
+// The models the endpoint serves, none when it isn't configured
+export const getCustomModels = async (): Promise<CustomModel[]> => {
+  if (!env.CUSTOM_ENDPOINT_URL) {
+    return [];
+  }
+
+  if (listing && listing.expiresAt > Date.now()) {
+    return listing.models;
+  }
+
+  const response = await fetch(`${env.CUSTOM_ENDPOINT_URL}/models`, {
+    headers: env.CUSTOM_ENDPOINT_API_KEY
+      ? { Authorization: `Bearer ${env.CUSTOM_ENDPOINT_API_KEY}` }
+      : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `The custom endpoint's models couldn't be listed: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const { data = [] } = (await response.json()) as ModelsResponse;
+  const imageModelIds = getImageModelIds();
+  const models: CustomModel[] = data.map(({ id }) => ({
+    id: toCustomModelId(id),
+    label: id,
+    type: imageModelIds.includes(id) ? 'image' : 'text',
+  }));
+
+  listing = { models, expiresAt: Date.now() + listingTtl };
+
+  return models;
+};
+
+// Builds the registry entry for a model on the custom endpoint. They're
+// self-hosted, so calls to them cost nothing.
+const getCustomModel = <T extends object>(
+  id: string,
+  create: (modelId: string) => T
+) => {
+  if (!env.CUSTOM_ENDPOINT_URL || !isCustomModel(id)) {
+    return undefined;
+  }
+
+  const modelId = fromCustomModelId(id);
+
+  return {
+    label: modelId,
+    chef: providers.custom,
+    providers: [{ ...providers.custom, ...create(modelId), getCost: () => 0 }],
+  };
+};
+
+// Looks up a model in its registry, falling back on the custom endpoint's
+export const getTextModel = (id: string): TersaTextModel | undefined =>
+  textModels[id] ??
+  getCustomModel(id, (modelId) => ({ model: getEndpoint()(modelId) }));
+
+export const getVisionModel = (id: string): TersaVisionModel | undefined =>
+  visionModels[id] ??
+  getCustomModel(id, (modelId) => ({ model: getEndpoint()(modelId) }));
+
+export const getImageModel = (id: string): TersaImageModel | undefined => {
+  if (imageModels[id]) {
+    return imageModels[id];
+  }
+
+  const model = getCustomModel(id, (modelId) => ({
+    model: getEndpoint().image(modelId),
+  }));
+
+  return model && { ...model, sizes: customImageSizes };
+};
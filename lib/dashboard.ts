@@ -0,0 +1,77 @@
+import type { projectPreferences, projects } from '@/schema';
+import { isAnnotationNode } from './annotations';
+import type { ProjectContent } from './content';
+
+type Project = typeof projects.$inferSelect;
+
+type ProjectPreference = typeof projectPreferences.$inferSelect;
+
+// What a dashboard card shows, without shipping the project's content to the
+// client
+export type ProjectSummary = {
+  id: string;
+  name: string;
+  image: string | null;
+  tags: string[];
+  pinned: boolean;
+  archived: boolean;
+  nodeCount: number;
+  spend: number;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type ProjectSort = 'updated' | 'name' | 'created' | 'spend';
+
+export const projectSorts: Record<ProjectSort, string> = {
+  updated: 'Last edited',
+  name: 'Name',
+  created: 'Created',
+  spend: 'Spend',
+};
+
+export const getProjectSummary = (
+  project: Project,
+  preference: ProjectPreference | undefined
+): ProjectSummary => {
+  // Drop nodes are placeholders and annotations are only commentary
+  const nodes = (
+    (project.content as ProjectContent | null)?.nodes ?? []
+  ).filter((node) => node.type !== 'drop' && !isAnnotationNode(node));
+
+  return {
+    id: project.id,
+    name: project.name,
+    image: project.image,
+    tags: preference?.tags ?? [],
+    pinned: preference?.pinned ?? false,
+    archived: Boolean(preference?.archivedAt),
+    nodeCount: nodes.length,
+    spend: project.spend,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt ?? project.createdAt,
+  };
+};
+
+const compare: Record<
+  ProjectSort,
+  (a: ProjectSummary, b: ProjectSummary) => number
+> = {
+  updated: (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+  name: (a, b) => a.name.localeCompare(b.name),
+  created: (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  spend: (a, b) => b.spend - a.spend,
+};
+
+// Pinned projects stay on top whichever way the rest is sorted
+export const sortProjects = (items: ProjectSummary[], sort: ProjectSort) =>
+  [...items].sort(
+    (a, b) => Number(b.pinned) - Number(a.pinned) || compare[sort](a, b)
+  );
+
+export const getProjectTags = (items: ProjectSummary[]) =>
+  [...new Set(items.flatMap((item) => item.tags))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase();
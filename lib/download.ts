@@ -5,6 +5,17 @@ type Downloadable = {
   type: string;
 };
 
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement('a');
+  const blobUrl = URL.createObjectURL(blob);
+  link.href = blobUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(blobUrl);
+};
+
 export const download = (
   data: Downloadable | undefined,
   id: string,
@@ -15,22 +26,13 @@ export const download = (
     return;
   }
 
-  const link = document.createElement('a');
   const extension = data.type.split('/').at(-1) ?? defaultExtension;
   const filename = `tersa-${id}.${extension}`;
 
   // Create a blob URL from the data URL
   fetch(data.url)
     .then((response) => response.blob())
-    .then((blob) => {
-      const blobUrl = URL.createObjectURL(blob);
-      link.href = blobUrl;
-      link.download = filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(blobUrl);
-    })
+    .then((blob) => downloadBlob(blob, filename))
     .catch((error) => {
       handleError('Error downloading file', error.message);
     });
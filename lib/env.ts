@@ -2,6 +2,13 @@ import { vercel } from '@t3-oss/env-core/presets-zod';
 import { createEnv } from '@t3-oss/env-nextjs';
 import { z } from 'zod';
 
+// Mock mode fakes every model provider, see lib/models/mock, so their
+// secrets can be left out and are typed as possibly missing
+const mockProviders = process.env.MOCK_PROVIDERS === 'true';
+
+const providerSecret = <T extends z.ZodTypeAny>(schema: T) =>
+  mockProviders ? schema.optional() : schema;
+
 export const env = createEnv({
   extends: [vercel()],
   server: {
@@ -21,38 +28,58 @@ export const env = createEnv({
 
     SUPABASE_AUTH_HOOK_SECRET: z.string().min(1).startsWith('v1,whsec_'),
 
+    // Sent by Vercel Cron to the job worker
+    CRON_SECRET: z.string().min(1),
+
+    // Encrypts the provider keys people bring
+    PROVIDER_KEYS_SECRET: z.string().min(32).optional(),
+
     // Supabase Integration
     POSTGRES_URL: z.string().url().min(1),
     SUPABASE_SERVICE_ROLE_KEY: z.string().min(1),
 
     // AI SDK
-    OPENAI_API_KEY: z.string().min(1).startsWith('sk-'),
-    GOOGLE_GENERATIVE_AI_API_KEY: z.string().min(1),
-    GROQ_API_KEY: z.string().min(1).startsWith('gsk_'),
-    DEEPSEEK_API_KEY: z.string().min(1).startsWith('sk-'),
-    ANTHROPIC_API_KEY: z.string().min(1).startsWith('sk-'),
-    XAI_API_KEY: z.string().min(1).startsWith('xai-'),
-    AWS_ACCESS_KEY_ID: z.string().min(1),
-    AWS_SECRET_ACCESS_KEY: z.string().min(1),
-    AWS_REGION: z.string().min(1),
-    FAL_API_KEY: z.string().min(1),
-    TOGETHER_AI_API_KEY: z.string().min(1).startsWith('tgp_v1_'),
-    COHERE_API_KEY: z.string().min(1),
-    VERCEL_API_KEY: z.string().min(1).startsWith('v1:'),
-    MISTRAL_API_KEY: z.string().min(1),
-    HUME_API_KEY: z.string().min(1),
-    LMNT_API_KEY: z.string().min(1),
-    PERPLEXITY_API_KEY: z.string().min(1).startsWith('pplx-'),
+    OPENAI_API_KEY: providerSecret(z.string().min(1).startsWith('sk-')),
+    GOOGLE_GENERATIVE_AI_API_KEY: providerSecret(z.string().min(1)),
+    GROQ_API_KEY: providerSecret(z.string().min(1).startsWith('gsk_')),
+    DEEPSEEK_API_KEY: providerSecret(z.string().min(1).startsWith('sk-')),
+    ANTHROPIC_API_KEY: providerSecret(z.string().min(1).startsWith('sk-')),
+    XAI_API_KEY: providerSecret(z.string().min(1).startsWith('xai-')),
+    AWS_ACCESS_KEY_ID: providerSecret(z.string().min(1)),
+    AWS_SECRET_ACCESS_KEY: providerSecret(z.string().min(1)),
+    AWS_REGION: providerSecret(z.string().min(1)),
+    FAL_API_KEY: providerSecret(z.string().min(1)),
+    TOGETHER_AI_API_KEY: providerSecret(
+      z.string().min(1).startsWith('tgp_v1_')
+    ),
+    COHERE_API_KEY: providerSecret(z.string().min(1)),
+    VERCEL_API_KEY: providerSecret(z.string().min(1).startsWith('v1:')),
+    MISTRAL_API_KEY: providerSecret(z.string().min(1)),
+    HUME_API_KEY: providerSecret(z.string().min(1)),
+    LMNT_API_KEY: providerSecret(z.string().min(1)),
+    PERPLEXITY_API_KEY: providerSecret(z.string().min(1).startsWith('pplx-')),
 
     // Other Models
-    MINIMAX_GROUP_ID: z.string().min(1),
-    MINIMAX_API_KEY: z.string().min(1),
-    RUNWAYML_API_SECRET: z.string().min(1).startsWith('key_'),
-    LUMA_API_KEY: z.string().min(1).startsWith('luma-'),
-    BF_API_KEY: z.string().min(1),
-    NANO_BANANA_PRO_API_KEY: z.string().min(1),
+    MINIMAX_GROUP_ID: providerSecret(z.string().min(1)),
+    MINIMAX_API_KEY: providerSecret(z.string().min(1)),
+    RUNWAYML_API_SECRET: providerSecret(z.string().min(1).startsWith('key_')),
+    LUMA_API_KEY: providerSecret(z.string().min(1).startsWith('luma-')),
+    BF_API_KEY: providerSecret(z.string().min(1)),
+    NANO_BANANA_PRO_API_KEY: providerSecret(z.string().min(1)),
     NANO_BANANA_PRO_API_URL: z.string().url().optional(),
-    RUNWARE_API_KEY: z.string().min(1),
+    RUNWARE_API_KEY: providerSecret(z.string().min(1)),
+
+    // An OpenAI-compatible endpoint, e.g. vLLM or Ollama, serving our own
+    // models. The models it lists in CUSTOM_ENDPOINT_IMAGE_MODELS (comma
+    // separated) generate images, the rest text.
+    CUSTOM_ENDPOINT_URL: z.string().url().optional(),
+    CUSTOM_ENDPOINT_API_KEY: z.string().min(1).optional(),
+    CUSTOM_ENDPOINT_IMAGE_MODELS: z.string().min(1).optional(),
+
+    // Backs every model with deterministic fakes, for developing and testing
+    // offline. The seed varies their outputs.
+    MOCK_PROVIDERS: z.enum(['true', 'false']).optional(),
+    MOCK_PROVIDERS_SEED: z.string().min(1).optional(),
 
     // Figma Integration
     FIGMA_ACCESS_TOKEN: z.string().min(1).optional(),
@@ -101,6 +128,8 @@ export const env = createEnv({
     STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
     SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
     SUPABASE_AUTH_HOOK_SECRET: process.env.SUPABASE_AUTH_HOOK_SECRET,
+    CRON_SECRET: process.env.CRON_SECRET,
+    PROVIDER_KEYS_SECRET: process.env.PROVIDER_KEYS_SECRET,
     RUNWAYML_API_SECRET: process.env.RUNWAYML_API_SECRET,
     LUMA_API_KEY: process.env.LUMA_API_KEY,
     NEXT_PUBLIC_POSTHOG_KEY: process.env.NEXT_PUBLIC_POSTHOG_KEY,
@@ -112,6 +141,11 @@ export const env = createEnv({
     NANO_BANANA_PRO_API_KEY: process.env.NANO_BANANA_PRO_API_KEY,
     NANO_BANANA_PRO_API_URL: process.env.NANO_BANANA_PRO_API_URL,
     RUNWARE_API_KEY: process.env.RUNWARE_API_KEY,
+    CUSTOM_ENDPOINT_URL: process.env.CUSTOM_ENDPOINT_URL,
+    CUSTOM_ENDPOINT_API_KEY: process.env.CUSTOM_ENDPOINT_API_KEY,
+    CUSTOM_ENDPOINT_IMAGE_MODELS: process.env.CUSTOM_ENDPOINT_IMAGE_MODELS,
+    MOCK_PROVIDERS: process.env.MOCK_PROVIDERS,
+    MOCK_PROVIDERS_SEED: process.env.MOCK_PROVIDERS_SEED,
     PERPLEXITY_API_KEY: process.env.PERPLEXITY_API_KEY,
     FIGMA_ACCESS_TOKEN: process.env.FIGMA_ACCESS_TOKEN,
     FIGMA_TEAM_ID: process.env.FIGMA_TEAM_ID,
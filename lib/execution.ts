@@ -0,0 +1,215 @@
+import { type Edge, type Node, getOutgoers } from '@xyflow/react';
+
+export type NodeRunner = () => Promise<void>;
+
+export type NodeExecutionStatus =
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'unchanged'
+  | 'failed'
+  | 'skipped';
+
+export const getDownstreamNodes = (
+  node: Node,
+  nodes: Node[],
+  edges: Edge[]
+) => {
+  const visited = new Set<string>([node.id]);
+  const downstream: Node[] = [];
+  const queue = [node];
+
+  while (queue.length) {
+    const current = queue.shift() as Node;
+
+    for (const outgoer of getOutgoers(current, nodes, edges)) {
+      if (visited.has(outgoer.id)) {
+        continue;
+      }
+
+      visited.add(outgoer.id);
+      downstream.push(outgoer);
+      queue.push(outgoer);
+    }
+  }
+
+  return downstream;
+};
+
+// Kahn's algorithm, restricted to the edges between the given nodes
+export const sortTopologically = (nodes: Node[], edges: Edge[]) => {
+  const ids = new Set(nodes.map((node) => node.id));
+  const internalEdges = edges.filter(
+    (edge) => ids.has(edge.source) && ids.has(edge.target)
+  );
+  const inDegree = new Map<string, number>(nodes.map((node) => [node.id, 0]));
+
+  for (const edge of internalEdges) {
+    inDegree.set(edge.target, (inDegree.get(edge.target) ?? 0) + 1);
+  }
+
+  const queue = nodes.filter((node) => inDegree.get(node.id) === 0);
+  const sorted: Node[] = [];
+
+  while (queue.length) {
+    const node = queue.shift() as Node;
+    sorted.push(node);
+
+    for (const edge of internalEdges.filter((e) => e.source === node.id)) {
+      const degree = (inDegree.get(edge.target) ?? 0) - 1;
+      inDegree.set(edge.target, degree);
+
+      if (degree === 0) {
+        const target = nodes.find((n) => n.id === edge.target);
+
+        if (target) {
+          queue.push(target);
+        }
+      }
+    }
+  }
+
+  if (sorted.length !== nodes.length) {
+    throw new Error('The graph contains a cycle');
+  }
+
+  return sorted;
+};
+
+// Runs `run` for every item with at most `limit` of them in flight
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  run: (item: T) => Promise<void>
+) => {
+  const queue = [...items];
+
+  const worker = async () => {
+    while (queue.length) {
+      await run(queue.shift() as T);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker)
+  );
+};
+
+type ExecuteGraphProps = {
+  nodes: Node[];
+  edges: Edge[];
+  run: (node: Node) => Promise<void>;
+  shouldRun?: (node: Node) => boolean;
+
+  // Edges that don't carry anything, e.g. the routes a router didn't take.
+  // Nodes behind them are skipped, as are nodes behind skipped nodes, unless
+  // they accept any of their inputs like merges do.
+  isEdgeActive?: (edge: Edge) => boolean;
+  acceptsAnyInput?: (node: Node) => boolean;
+  onStatusChange?: (id: string, status: NodeExecutionStatus) => void;
+  onError?: (node: Node, error: unknown) => void;
+};
+
+type TaskResult = 'done' | 'failed' | 'inactive';
+
+export const executeGraph = async ({
+  nodes,
+  edges,
+  run,
+  shouldRun,
+  isEdgeActive,
+  acceptsAnyInput,
+  onStatusChange,
+  onError,
+}: ExecuteGraphProps) => {
+  const order = sortTopologically(nodes, edges);
+  const ids = new Set(order.map((node) => node.id));
+  const statuses: Record<string, NodeExecutionStatus> = {};
+  const tasks = new Map<string, Promise<TaskResult>>();
+
+  const setStatus = (id: string, status: NodeExecutionStatus) => {
+    statuses[id] = status;
+    onStatusChange?.(id, status);
+  };
+
+  // Checked once the upstream tasks are done, so routers upstream have
+  // picked their route
+  const getReadiness = (
+    node: Node,
+    incoming: Edge[],
+    results: Map<string, TaskResult>
+  ) => {
+    if ([...results.values()].includes('failed')) {
+      return 'failed';
+    }
+
+    const active = incoming.filter(
+      (edge) =>
+        results.get(edge.source) !== 'inactive' &&
+        (isEdgeActive?.(edge) ?? true)
+    );
+    const inactive = acceptsAnyInput?.(node)
+      ? incoming.length > 0 && !active.length
+      : active.length < incoming.length;
+
+    return inactive ? 'inactive' : 'ready';
+  };
+
+  for (const node of order) {
+    setStatus(node.id, 'queued');
+  }
+
+  // Each node waits on its upstream tasks only, so independent branches run
+  // in parallel and a failure only stops the nodes that depend on it.
+  for (const node of order) {
+    const incoming = edges.filter((edge) => edge.target === node.id);
+    const sources = [
+      ...new Set(
+        incoming.map((edge) => edge.source).filter((id) => ids.has(id))
+      ),
+    ];
+
+    tasks.set(
+      node.id,
+      (async () => {
+        const results = new Map(
+          await Promise.all(
+            sources.map(
+              async (id) =>
+                [id, await (tasks.get(id) as Promise<TaskResult>)] as const
+            )
+          )
+        );
+
+        const readiness = getReadiness(node, incoming, results);
+
+        if (readiness !== 'ready') {
+          setStatus(node.id, 'skipped');
+          return readiness;
+        }
+
+        // Checked lazily so upstream results are taken into account
+        if (shouldRun && !shouldRun(node)) {
+          setStatus(node.id, 'unchanged');
+          return 'done';
+        }
+
+        setStatus(node.id, 'running');
+
+        try {
+          await run(node);
+          setStatus(node.id, 'succeeded');
+          return 'done';
+        } catch (error) {
+          setStatus(node.id, 'failed');
+          onError?.(node, error);
+          return 'failed';
+        }
+      })()
+    );
+  }
+
+  await Promise.all(tasks.values());
+
+  return statuses;
+};
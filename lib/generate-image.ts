@@ -0,0 +1,231 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  type Experimental_GenerateImageResult,
+  experimental_generateImage as generateImage,
+  generateText,
+} from 'ai';
+import { nanoid } from 'nanoid';
+import OpenAI from 'openai';
+import { getImageModel, getVisionModel } from './custom-endpoint';
+import { getProviderKey } from './provider-keys';
+import { routeRequest } from './routing';
+import { trackCreditUsage } from './stripe';
+
+type GenerateImageOutputProps = {
+  modelId: string;
+  prompt: string;
+  instructions?: string;
+  size?: string;
+  visionModelId: string;
+  userId: string;
+  projectId: string;
+
+  // The user's own client in a request, the admin client in background jobs
+  storage: Pick<SupabaseClient, 'storage'>;
+};
+
+const generateGptImage1Image = async ({
+  instructions,
+  prompt,
+  size,
+}: {
+  instructions?: string;
+  prompt: string;
+  size?: string;
+}) => {
+  const openai = new OpenAI({ apiKey: getProviderKey('openai') });
+  const response = await openai.images.generate({
+    model: 'gpt-image-1',
+    prompt: [
+      'Generate an image based on the following instructions and context.',
+      '---',
+      'Instructions:',
+      instructions ?? 'None.',
+      '---',
+      'Context:',
+      prompt,
+    ].join('\n'),
+    size: size as never | undefined,
+    moderation: 'low',
+    quality: 'high',
+    output_format: 'png',
+  });
+
+  const json = response.data?.at(0)?.b64_json;
+
+  if (!json) {
+    throw new Error('No response JSON found');
+  }
+
+  if (!response.usage) {
+    throw new Error('No usage found');
+  }
+
+  const image: Experimental_GenerateImageResult['image'] = {
+    base64: json,
+    uint8Array: Buffer.from(json, 'base64'),
+    mimeType: 'image/png',
+  };
+
+  return {
+    image,
+    usage: {
+      textInput: response.usage?.input_tokens_details.text_tokens,
+      imageInput: response.usage?.input_tokens_details.image_tokens,
+      output: response.usage?.output_tokens,
+    },
+  };
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+// Generates, bills, stores and describes an image. Returns the fields of the
+// new generation version's output. Run within withProviderKeys so the
+// caller's own keys are used.
+export const generateImageOutput = async ({
+  modelId,
+  prompt,
+  instructions,
+  size,
+  visionModelId,
+  userId,
+  projectId,
+  storage,
+}: GenerateImageOutputProps) => {
+  const model = getImageModel(modelId);
+
+  if (!model) {
+    throw new Error('Model not found');
+  }
+
+  const {
+    result: { image, cost },
+    provider,
+  } = await routeRequest(
+    model,
+    async (provider) => {
+      if (provider.model.modelId === 'gpt-image-1') {
+        const generatedImageResponse = await generateGptImage1Image({
+          instructions,
+          prompt,
+          size,
+        });
+
+        return {
+          image: generatedImageResponse.image,
+          cost: provider.getCost({
+            ...generatedImageResponse.usage,
+            size,
+          }),
+        };
+      }
+
+      let aspectRatio: `${number}:${number}` | undefined;
+      if (size) {
+        const [width, height] = size.split('x').map(Number);
+        const divisor = gcd(width, height);
+        aspectRatio = `${width / divisor}:${height / divisor}`;
+      }
+
+      const generatedImageResponse = await generateImage({
+        model: provider.model,
+        prompt: [
+          'Generate an image based on the following instructions and context.',
+          '---',
+          'Instructions:',
+          instructions ?? 'None.',
+          '---',
+          'Context:',
+          prompt,
+        ].join('\n'),
+        size: size as never,
+        aspectRatio,
+        providerOptions: model.providerOptions,
+      });
+
+      return {
+        image: generatedImageResponse.image,
+        cost: provider.getCost({ size }),
+      };
+    },
+    (provider) => provider.getCost({ size })
+  );
+
+  await trackCreditUsage({
+    action: 'generate_image',
+    cost,
+    userId,
+    provider: provider.id,
+    projectId,
+  });
+
+  let extension = image.mimeType.split('/').pop();
+
+  if (extension === 'jpeg') {
+    extension = 'jpg';
+  }
+
+  const name = `${nanoid()}.${extension}`;
+
+  const file: File = new File([image.uint8Array as BlobPart], name, {
+    type: image.mimeType,
+  });
+
+  const blob = await storage.storage
+    .from('files')
+    .upload(`${userId}/${name}`, file, {
+      contentType: file.type,
+    });
+
+  if (blob.error) {
+    throw new Error(blob.error.message);
+  }
+
+  const { data: downloadUrl } = storage.storage
+    .from('files')
+    .getPublicUrl(blob.data.path);
+
+  const url =
+    process.env.NODE_ENV === 'production'
+      ? downloadUrl.publicUrl
+      : `data:${image.mimeType};base64,${Buffer.from(image.uint8Array).toString('base64')}`;
+
+  const visionModel = getVisionModel(visionModelId);
+
+  if (!visionModel) {
+    throw new Error('Vision model not found');
+  }
+
+  const {
+    result: { text: description },
+  } = await routeRequest(visionModel, (provider) =>
+    generateText({
+      model: provider.model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe this image.' },
+            { type: 'image', image: new URL(url) },
+          ],
+        },
+      ],
+    })
+  );
+
+  if (!description) {
+    throw new Error('No description found');
+  }
+
+  return {
+    output: {
+      generated: {
+        url: downloadUrl.publicUrl,
+        type: image.mimeType,
+      },
+      description,
+    },
+    cost,
+    provider: provider.id,
+  };
+};
@@ -0,0 +1,362 @@
+import type { Edge, Node, XYPosition } from '@xyflow/react';
+import { nanoid } from 'nanoid';
+
+export type GroupNodeData = {
+  label?: string;
+  collapsed?: boolean;
+
+  // Size of the group while expanded, restored when it is expanded again
+  expandedSize?: { width: number; height: number };
+
+  // Children exposed as handles while collapsed. Defaults to the children
+  // the pipeline starts and ends with.
+  inputs?: string[];
+  outputs?: string[];
+};
+
+export type GroupHandle = {
+  id: string;
+  label: string;
+};
+
+const padding = 40;
+const headerHeight = 40;
+const collapsedWidth = 320;
+const handleHeight = 28;
+
+// Collapsed groups re-route the edges of their hidden children to the group's
+// handles. These edges are only rendered, never saved or shared.
+const proxyPrefix = 'group-proxy:';
+
+const handlePattern = /^(?:in|out):(.+)$/;
+
+export const isGroupNode = (node: Node) => node.type === 'group';
+
+export const isGroupProxyEdge = (edge: Pick<Edge, 'id'>) =>
+  edge.id.startsWith(proxyPrefix);
+
+export const getInputHandleId = (childId: string) => `in:${childId}`;
+export const getOutputHandleId = (childId: string) => `out:${childId}`;
+
+// Connections made to a collapsed group's handles belong to the child behind
+// the handle
+export const getHandleChildId = (handleId: string | null | undefined) => {
+  const match = handleId?.match(handlePattern);
+
+  return match ? match[1] : null;
+};
+
+const getSize = (node: Node) => ({
+  width: node.measured?.width ?? node.width ?? 0,
+  height: node.measured?.height ?? node.height ?? 0,
+});
+
+const getChildren = (groupId: string, nodes: Node[]) =>
+  nodes.filter((node) => node.parentId === groupId);
+
+// Nodes are positioned by their origin, so the bounds account for it
+const getBounds = (nodes: Node[]) => {
+  const boxes = nodes.map((node) => {
+    const { width, height } = getSize(node);
+    const [originX, originY] = node.origin ?? [0, 0];
+
+    return {
+      x: node.position.x - width * originX,
+      y: node.position.y - height * originY,
+      width,
+      height,
+    };
+  });
+
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Wraps the given top-level nodes in a new group. The group is returned
+// separately since React Flow needs parents before their children.
+export const createGroup = (nodes: Node[], label = 'Group') => {
+  const bounds = getBounds(nodes);
+  const position: XYPosition = {
+    x: bounds.x - padding,
+    y: bounds.y - padding - headerHeight,
+  };
+
+  const group: Node<GroupNodeData> = {
+    id: nanoid(),
+    type: 'group',
+    position,
+    width: bounds.width + padding * 2,
+    height: bounds.height + padding * 2 + headerHeight,
+    data: { label },
+  };
+
+  const children = nodes.map((node) => ({
+    ...node,
+    parentId: group.id,
+    extent: 'parent' as const,
+    selected: false,
+    position: {
+      x: node.position.x - position.x,
+      y: node.position.y - position.y,
+    },
+  }));
+
+  return { group, children };
+};
+
+// Moves the group's children back to the top level, keeping them in place
+export const releaseGroup = (group: Node, nodes: Node[]) =>
+  getChildren(group.id, nodes).map(({ parentId, extent, hidden, ...node }) => ({
+    ...node,
+    position: {
+      x: node.position.x + group.position.x,
+      y: node.position.y + group.position.y,
+    },
+  }));
+
+const getGroupEdges = (groupId: string, nodes: Node[], edges: Edge[]) => {
+  const ids = new Set(getChildren(groupId, nodes).map((node) => node.id));
+
+  return {
+    ids,
+    internal: edges.filter(
+      (edge) => ids.has(edge.source) && ids.has(edge.target)
+    ),
+    incoming: edges.filter(
+      (edge) => ids.has(edge.target) && !ids.has(edge.source)
+    ),
+    outgoing: edges.filter(
+      (edge) => ids.has(edge.source) && !ids.has(edge.target)
+    ),
+  };
+};
+
+export const getNodeLabel = (node: Node | undefined) =>
+  (node?.data.label as string | undefined) ??
+  (node?.data.instructions as string | undefined)?.slice(0, 32) ??
+  node?.type ??
+  'Node';
+
+// Handles shown while collapsed: the chosen ones plus any child that is
+// already connected to something outside the group
+export const getGroupHandles = (
+  group: Pick<Node<GroupNodeData>, 'id' | 'data'>,
+  nodes: Node[],
+  edges: Edge[]
+) => {
+  const children = getChildren(group.id, nodes);
+  const { ids, internal, incoming, outgoing } = getGroupEdges(
+    group.id,
+    nodes,
+    edges
+  );
+  const entries = [...ids].filter(
+    (id) => !internal.some((edge) => edge.target === id)
+  );
+  const exits = [...ids].filter(
+    (id) => !internal.some((edge) => edge.source === id)
+  );
+
+  const inputs = new Set([
+    ...(group.data.inputs ?? entries),
+    ...incoming.map((edge) => edge.target),
+  ]);
+  const outputs = new Set([
+    ...(group.data.outputs ?? exits),
+    ...outgoing.map((edge) => edge.source),
+  ]);
+
+  const toHandles = (childIds: Set<string>): GroupHandle[] =>
+    [...childIds]
+      .filter((id) => ids.has(id))
+      .map((id) => ({
+        id,
+        label: getNodeLabel(children.find((child) => child.id === id)),
+      }));
+
+  return {
+    children,
+    inputs: toHandles(inputs),
+    outputs: toHandles(outputs),
+
+    // Children connected outside the group always keep their handle
+    connected: new Set([
+      ...incoming.map((edge) => edge.target),
+      ...outgoing.map((edge) => edge.source),
+    ]),
+  };
+};
+
+export const getCollapsedSize = (handleCount: number) => ({
+  width: collapsedWidth,
+  height: headerHeight + Math.max(handleCount, 1) * handleHeight + padding,
+});
+
+// Collapsing hides the children and shrinks the group, expanding restores
+// the size it had before
+export const toggleGroupCollapsed = (
+  group: Node<GroupNodeData>,
+  nodes: Node[],
+  edges: Edge[]
+) => {
+  const collapsed = !group.data.collapsed;
+  const { inputs, outputs } = getGroupHandles(group, nodes, edges);
+  const size = collapsed
+    ? getCollapsedSize(Math.max(inputs.length, outputs.length))
+    : (group.data.expandedSize ?? getSize(group));
+
+  return nodes.map((node) => {
+    if (node.id === group.id) {
+      return {
+        ...node,
+        ...size,
+        data: {
+          ...node.data,
+          collapsed,
+          expandedSize: collapsed ? getSize(group) : undefined,
+        },
+      };
+    }
+
+    if (node.parentId === group.id) {
+      return { ...node, hidden: collapsed, selected: false };
+    }
+
+    return node;
+  });
+};
+
+export const getGroupProxyEdges = (nodes: Node[], edges: Edge[]) => {
+  const collapsedParents = new Map<string, string>();
+
+  for (const node of nodes) {
+    if (!node.parentId) {
+      continue;
+    }
+
+    const parent = nodes.find((item) => item.id === node.parentId);
+
+    if (parent && isGroupNode(parent) && parent.data.collapsed) {
+      collapsedParents.set(node.id, parent.id);
+    }
+  }
+
+  if (!collapsedParents.size) {
+    return [];
+  }
+
+  return edges.flatMap((edge) => {
+    const sourceGroup = collapsedParents.get(edge.source);
+    const targetGroup = collapsedParents.get(edge.target);
+
+    if ((!sourceGroup && !targetGroup) || sourceGroup === targetGroup) {
+      return [];
+    }
+
+    const proxy: Edge = {
+      ...edge,
+      id: `${proxyPrefix}${edge.id}`,
+      selectable: false,
+      deletable: false,
+      selected: false,
+    };
+
+    if (sourceGroup) {
+      proxy.source = sourceGroup;
+      proxy.sourceHandle = getOutputHandleId(edge.source);
+    }
+
+    if (targetGroup) {
+      proxy.target = targetGroup;
+      proxy.targetHandle = getInputHandleId(edge.target);
+    }
+
+    return [proxy];
+  });
+};
+
+// Copies a group together with its children and the edges between them
+export const duplicateGroup = (
+  group: Node,
+  nodes: Node[],
+  edges: Edge[],
+  offset: XYPosition
+) => {
+  const { internal } = getGroupEdges(group.id, nodes, edges);
+  const groupId = nanoid();
+  const ids = new Map(
+    getChildren(group.id, nodes).map((node) => [node.id, nanoid()])
+  );
+
+  const remap = (list: string[] | undefined) =>
+    list?.flatMap((id) => {
+      const newId = ids.get(id);
+
+      return newId ? [newId] : [];
+    });
+
+  const copy: Node<GroupNodeData> = {
+    ...(group as Node<GroupNodeData>),
+    id: groupId,
+    position: {
+      x: group.position.x + offset.x,
+      y: group.position.y + offset.y,
+    },
+    selected: true,
+    data: {
+      ...group.data,
+      inputs: remap((group.data as GroupNodeData).inputs),
+      outputs: remap((group.data as GroupNodeData).outputs),
+    },
+  };
+
+  const children = getChildren(group.id, nodes).map((node) => ({
+    ...node,
+    id: ids.get(node.id) ?? nanoid(),
+    parentId: groupId,
+    selected: false,
+  }));
+
+  const copiedEdges = internal.map((edge) => ({
+    ...edge,
+    id: nanoid(),
+    source: ids.get(edge.source) ?? edge.source,
+    target: ids.get(edge.target) ?? edge.target,
+    selected: false,
+  }));
+
+  return { group: copy, children, edges: copiedEdges };
+};
+
+type ConnectionLike = {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+};
+
+// Edges are always stored between the actual nodes, a connection to a
+// collapsed group's handle is made to the child behind it
+export const resolveGroupConnection = <T extends ConnectionLike>(
+  connection: T
+): T => {
+  const source = getHandleChildId(connection.sourceHandle);
+  const target = getHandleChildId(connection.targetHandle);
+
+  return {
+    ...connection,
+    ...(source ? { source, sourceHandle: null } : {}),
+    ...(target ? { target, targetHandle: null } : {}),
+  };
+};
+
+export const withoutGroupProxyEdges = <T extends { edges: Edge[] }>(
+  content: T
+): T => ({
+  ...content,
+  edges: content.edges.filter((edge) => !isGroupProxyEdge(edge)),
+});
@@ -0,0 +1,62 @@
+import { nanoid } from 'nanoid';
+
+// Older versions are dropped beyond this to keep project content small
+const maxVersions = 50;
+
+export type GenerationVersion = {
+  id: string;
+
+  // Node data fields produced by the generation, e.g. `generated` and
+  // `description`, restored as-is when the version is made current
+  output: Record<string, unknown>;
+  model?: string;
+  prompt?: string;
+  instructions?: string;
+  size?: string;
+  cost?: number;
+
+  // ID of the provider that served the generation, see routeRequest
+  provider?: string;
+  createdAt: string;
+};
+
+export type VersionedNodeData = {
+  history?: GenerationVersion[];
+  versionId?: string;
+  pinned?: boolean;
+};
+
+export const getHistory = (data: Record<string, unknown>) =>
+  (data as VersionedNodeData).history ?? [];
+
+export const addGenerationVersion = (
+  data: Record<string, unknown>,
+  version: Omit<GenerationVersion, 'id' | 'createdAt'>
+) => {
+  const entry: GenerationVersion = {
+    ...version,
+    id: nanoid(),
+    createdAt: new Date().toISOString(),
+  };
+  const history = [...getHistory(data), entry].slice(-maxVersions);
+
+  // A pinned node keeps its current output, the new result is only recorded
+  if ((data as VersionedNodeData).pinned) {
+    return { ...data, history };
+  }
+
+  return { ...data, ...entry.output, history, versionId: entry.id };
+};
+
+export const selectGenerationVersion = (
+  data: Record<string, unknown>,
+  versionId: string
+) => {
+  const version = getHistory(data).find((entry) => entry.id === versionId);
+
+  if (!version) {
+    throw new Error('Version not found');
+  }
+
+  return { ...version.output, versionId: version.id };
+};
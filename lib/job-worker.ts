@@ -0,0 +1,387 @@
+import { jobs, projects } from '@/schema';
+import { and, asc, eq, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { after } from 'next/server';
+import { withProviderKeys } from './credentials';
+import { database } from './database';
+import { parseError } from './error/parse';
+import { generateImageOutput } from './generate-image';
+import { addGenerationVersion } from './history';
+import {
+  type JobInputs,
+  type JobKind,
+  type JobStatus,
+  type NodeJob,
+  pendingJobStatuses,
+} from './jobs';
+import { videoModels } from './models/video';
+import { patchProjectNode } from './patch-node';
+import { getProvider, routeRequest } from './routing';
+import { trackCreditUsage } from './stripe';
+import { createAdminClient } from './supabase/admin';
+
+type Job = typeof jobs.$inferSelect;
+
+type JobOutput = {
+  output: Record<string, unknown>;
+  cost: number;
+  provider?: string;
+};
+
+// Generations either finish when started, or hand back the provider's job ID
+// to be checked on until they do, along with the provider it was routed to
+type JobHandler = {
+  start: (
+    job: Job
+  ) => Promise<JobOutput | { providerJobId: string; provider: string }>;
+  check?: (job: Job, providerJobId: string) => Promise<JobOutput | null>;
+};
+
+// A claimed job is left alone by other workers for this long, which covers
+// generations that run to completion when started
+const lockDuration = 5 * 60 * 1000;
+
+// Starting is retried when a worker died before recording the provider's job
+const maxAttempts = 3;
+
+const maxAge = 30 * 60 * 1000;
+
+const getVideoModel = (modelId: string) => {
+  const model = videoModels[modelId];
+
+  if (!model) {
+    throw new Error('Model not found');
+  }
+
+  return model;
+};
+
+// Videos are checked on with the provider that accepted them
+const getVideoProvider = (job: Job) => {
+  const provider = getProvider(getVideoModel(job.modelId), job.provider);
+
+  if (!provider) {
+    throw new Error('Provider not found');
+  }
+
+  return provider;
+};
+
+const handlers: Record<JobKind, JobHandler> = {
+  video: {
+    start: async (job) => {
+      const inputs = job.inputs as JobInputs;
+      const model = getVideoModel(job.modelId);
+      const image = inputs.images?.at(0);
+      let firstFrameImage = image?.url;
+
+      if (image && process.env.NODE_ENV !== 'production') {
+        const response = await fetch(image.url);
+        const arrayBuffer = await response.arrayBuffer();
+        const base64 = Buffer.from(arrayBuffer).toString('base64');
+
+        firstFrameImage = `data:${image.type};base64,${base64}`;
+      }
+
+      const { result: providerJobId, provider } = await routeRequest(
+        model,
+        (provider) =>
+          provider.model.submit({
+            prompt: inputs.prompt,
+            imagePrompt: firstFrameImage,
+            duration: 5,
+            aspectRatio: '16:9',
+          }),
+        (provider) => provider.getCost({ duration: 5 })
+      );
+
+      return { providerJobId, provider: provider.id };
+    },
+    check: async (job, providerJobId) => {
+      const provider = getVideoProvider(job);
+      const url = await provider.model.poll(providerJobId);
+
+      if (!url) {
+        return null;
+      }
+
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        throw new Error(
+          `The video couldn't be downloaded: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const arrayBuffer = await response.arrayBuffer();
+      const client = createAdminClient();
+      const blob = await client.storage
+        .from('files')
+        .upload(`${job.userId}/${nanoid()}.mp4`, arrayBuffer, {
+          contentType: 'video/mp4',
+        });
+
+      if (blob.error) {
+        throw new Error(blob.error.message);
+      }
+
+      const { data: downloadUrl } = client.storage
+        .from('files')
+        .getPublicUrl(blob.data.path);
+
+      // Only billed once the video is stored, a failed download or upload
+      // fails the job without charging for it
+      const cost = provider.getCost({ duration: 5 });
+
+      await trackCreditUsage({
+        action: 'generate_video',
+        cost,
+        userId: job.userId,
+        provider: provider.id,
+        projectId: job.projectId,
+      });
+
+      return {
+        output: {
+          generated: {
+            url: downloadUrl.publicUrl,
+            type: 'video/mp4',
+          },
+        },
+        cost,
+        provider: provider.id,
+      };
+    },
+  },
+  image: {
+    start: async (job) => {
+      const inputs = job.inputs as JobInputs;
+      const project = await database.query.projects.findFirst({
+        where: eq(projects.id, job.projectId),
+      });
+
+      if (!project) {
+        throw new Error('Project not found');
+      }
+
+      return await generateImageOutput({
+        modelId: job.modelId,
+        prompt: inputs.prompt,
+        instructions: inputs.instructions,
+        size: inputs.size,
+        visionModelId: project.visionModel,
+        userId: job.userId,
+        projectId: job.projectId,
+        storage: createAdminClient(),
+      });
+    },
+  },
+};
+
+export const toNodeJob = (job: Job): NodeJob => ({
+  id: job.id,
+  status: job.status as JobStatus,
+  error: job.error ?? undefined,
+});
+
+const updateJob = (jobId: string, data: Partial<typeof jobs.$inferInsert>) =>
+  database
+    .update(jobs)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(jobs.id, jobId));
+
+// The output becomes the node's current version, like a generation that was
+// awaited. The node is patched on the server so the result isn't lost when no
+// one has the project open.
+const completeJob = async (job: Job, { output, cost, provider }: JobOutput) => {
+  const inputs = job.inputs as JobInputs;
+
+  const { data } = await patchProjectNode(job.projectId, job.nodeId, (data) =>
+    addGenerationVersion(
+      { ...data, job: undefined, updatedAt: new Date().toISOString() },
+      {
+        output: { ...output, inputHash: inputs.inputHash },
+        model: job.modelId,
+        prompt: inputs.prompt,
+        instructions: inputs.instructions,
+        size: inputs.size,
+        cost,
+        provider,
+      }
+    )
+  );
+
+  await updateJob(job.id, {
+    status: 'succeeded',
+    result: { nodeData: data },
+    lockedUntil: null,
+    completedAt: new Date(),
+  });
+};
+
+// The node's copy of the job is updated too, so the stored content doesn't
+// stay queued for whoever opens the project next
+const failJob = async (job: Job, error: string) => {
+  await updateJob(job.id, {
+    status: 'failed',
+    error,
+    lockedUntil: null,
+    completedAt: new Date(),
+  });
+
+  try {
+    await patchProjectNode(job.projectId, job.nodeId, (data) => ({
+      ...data,
+      job: { ...toNodeJob(job), status: 'failed', error },
+    }));
+  } catch {
+    // The node or project was deleted while the job ran
+  }
+};
+
+// Moves a job one step along: starts it, or checks on it once. Jobs that are
+// settled or being worked on elsewhere are skipped.
+export const processJob = async (jobId: string) => {
+  const now = new Date();
+
+  const [job] = await database
+    .update(jobs)
+    .set({
+      status: 'running',
+      lockedUntil: new Date(now.getTime() + lockDuration),
+      attempts: sql`case when ${jobs.providerJobId} is null then ${jobs.attempts} + 1 else ${jobs.attempts} end`,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(jobs.id, jobId),
+        inArray(jobs.status, pendingJobStatuses),
+        or(isNull(jobs.lockedUntil), lt(jobs.lockedUntil, now))
+      )
+    )
+    .returning();
+
+  if (!job) {
+    return;
+  }
+
+  try {
+    if (now.getTime() - job.createdAt.getTime() > maxAge) {
+      throw new Error('The generation timed out.');
+    }
+
+    const handler = handlers[job.kind as JobKind];
+
+    if (!handler) {
+      throw new Error(`Unknown job kind: ${job.kind}`);
+    }
+
+    // Generations use the keys of whoever queued them
+    const keyScope = { userId: job.userId, projectId: job.projectId };
+
+    if (!job.providerJobId) {
+      if (job.attempts > maxAttempts) {
+        throw new Error("The generation couldn't be started.");
+      }
+
+      const step = await withProviderKeys(keyScope, () => handler.start(job));
+
+      if ('providerJobId' in step) {
+        await updateJob(job.id, {
+          providerJobId: step.providerJobId,
+          provider: step.provider,
+          lockedUntil: null,
+        });
+        return;
+      }
+
+      await completeJob(job, step);
+      return;
+    }
+
+    const { providerJobId } = job;
+    const step = await withProviderKeys(
+      keyScope,
+      async () => (await handler.check?.(job, providerJobId)) ?? null
+    );
+
+    if (!step) {
+      await updateJob(job.id, { lockedUntil: null });
+      return;
+    }
+
+    await completeJob(job, step);
+  } catch (error) {
+    await failJob(job, parseError(error));
+  }
+};
+
+// Works through the backlog oldest first, run by the cron worker
+export const processJobs = async (limit = 10) => {
+  const now = new Date();
+  const pending = await database
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(
+      and(
+        inArray(jobs.status, pendingJobStatuses),
+        or(isNull(jobs.lockedUntil), lt(jobs.lockedUntil, now))
+      )
+    )
+    .orderBy(asc(jobs.createdAt))
+    .limit(limit);
+
+  // One at a time, a single generation can take most of the invocation
+  for (const { id } of pending) {
+    await processJob(id);
+  }
+
+  return pending.length;
+};
+
+type CreateJobProps = {
+  kind: JobKind;
+  userId: string;
+  projectId: string;
+  nodeId: string;
+  modelId: string;
+  inputs: JobInputs;
+};
+
+// Queues a generation and marks the node as waiting on it. The job starts as
+// soon as the response is sent, the cron worker picks up anything left over.
+export const createJob = async ({
+  kind,
+  userId,
+  projectId,
+  nodeId,
+  modelId,
+  inputs,
+}: CreateJobProps) => {
+  const [job] = await database
+    .insert(jobs)
+    .values({
+      kind,
+      userId,
+      projectId,
+      nodeId,
+      modelId,
+      inputs,
+    })
+    .returning();
+
+  if (!job) {
+    throw new Error('Failed to create job');
+  }
+
+  const nodeJob = toNodeJob(job);
+
+  await patchProjectNode(projectId, nodeId, (data) => ({
+    ...data,
+    job: nodeJob,
+  }));
+
+  after(() => processJob(job.id));
+
+  return nodeJob;
+};
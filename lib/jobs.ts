@@ -0,0 +1,34 @@
+export type JobKind = 'video' | 'image';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// What the generation was asked for, recorded with its version once done
+export type JobInputs = {
+  prompt: string;
+  instructions?: string;
+  size?: string;
+  images?: {
+    url: string;
+    type: string;
+  }[];
+  inputHash?: string;
+};
+
+// The node keeps track of its latest job, so its state survives reloads
+export type NodeJob = {
+  id: string;
+  status: JobStatus;
+  error?: string;
+};
+
+export const jobStatusLabels: Record<JobStatus, string> = {
+  queued: 'Queued',
+  running: 'Generating',
+  succeeded: 'Generated',
+  failed: 'Failed',
+};
+
+export const pendingJobStatuses: JobStatus[] = ['queued', 'running'];
+
+export const isPendingJob = (job: NodeJob | undefined) =>
+  Boolean(job && pendingJobStatuses.includes(job.status));
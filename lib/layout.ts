@@ -0,0 +1,341 @@
+import type { Edge, Node, XYPosition } from '@xyflow/react';
+import { isAnnotationNode, isFrameNode } from './annotations';
+import { isGroupProxyEdge } from './groups';
+
+export type LayoutSpacing = {
+  // Between layers, i.e. between a node and the nodes it feeds
+  x: number;
+
+  // Between nodes of the same layer
+  y: number;
+};
+
+export type LayoutDensity = 'compact' | 'comfortable' | 'spacious';
+
+export const layoutSpacings: Record<LayoutDensity, LayoutSpacing> = {
+  compact: { x: 60, y: 30 },
+  comfortable: { x: 120, y: 60 },
+  spacious: { x: 240, y: 120 },
+};
+
+export const layoutDensities: Record<LayoutDensity, string> = {
+  compact: 'Compact',
+  comfortable: 'Comfortable',
+  spacious: 'Spacious',
+};
+
+type Box = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// Nodes that haven't rendered yet have no measured size
+const defaultSize = 400;
+
+// Sweeps over the layers when ordering them, further sweeps rarely help
+const orderingPasses = 4;
+
+const getSize = (node: Node) => ({
+  width: node.measured?.width ?? node.width ?? defaultSize,
+  height: node.measured?.height ?? node.height ?? defaultSize,
+});
+
+// Nodes are positioned by their origin, the layout works with their boxes
+const getBox = (node: Node): Box => {
+  const { width, height } = getSize(node);
+  const [originX, originY] = node.origin ?? [0, 0];
+
+  return {
+    x: node.position.x - width * originX,
+    y: node.position.y - height * originY,
+    width,
+    height,
+  };
+};
+
+const getPosition = (
+  box: Box,
+  origin: Node['origin'] = [0, 0]
+): XYPosition => ({
+  x: box.x + box.width * origin[0],
+  y: box.y + box.height * origin[1],
+});
+
+const overlaps = (a: Box, b: Box, margin: number) =>
+  a.x < b.x + b.width + margin &&
+  b.x < a.x + a.width + margin &&
+  a.y < b.y + b.height + margin &&
+  b.y < a.y + a.height + margin;
+
+// Only top-level nodes are laid out, children move with their group. Drop
+// nodes are about to be replaced and annotations stay where they were put.
+export const isLayoutNode = (node: Node) =>
+  !node.parentId && node.type !== 'drop' && !isAnnotationNode(node);
+
+// New nodes can be placed inside frames, but not over anything else
+const isObstacle = (node: Node) =>
+  !node.parentId && node.type !== 'drop' && !isFrameNode(node);
+
+// Edges between the laid out nodes, with edges of group children attributed
+// to their group
+const getLayoutEdges = (ids: Set<string>, nodes: Node[], edges: Edge[]) => {
+  const parents = new Map(
+    nodes.map((node) => [node.id, node.parentId ?? node.id])
+  );
+  const links = new Set<string>();
+  const result: [string, string][] = [];
+
+  for (const edge of edges) {
+    if (isGroupProxyEdge(edge)) {
+      continue;
+    }
+
+    const source = parents.get(edge.source) ?? edge.source;
+    const target = parents.get(edge.target) ?? edge.target;
+    const key = `${source}>${target}`;
+
+    if (
+      source === target ||
+      !ids.has(source) ||
+      !ids.has(target) ||
+      links.has(key)
+    ) {
+      continue;
+    }
+
+    links.add(key);
+    result.push([source, target]);
+  }
+
+  return result;
+};
+
+// Every node is placed one layer after the furthest of its inputs
+const getLayers = (ids: string[], links: [string, string][]) => {
+  const layer = new Map(ids.map((id) => [id, 0]));
+  const indegree = new Map(ids.map((id) => [id, 0]));
+
+  for (const [, target] of links) {
+    indegree.set(target, (indegree.get(target) ?? 0) + 1);
+  }
+
+  const queue = ids.filter((id) => !indegree.get(id));
+
+  while (queue.length) {
+    const id = queue.shift() as string;
+    const targets = links
+      .filter(([source]) => source === id)
+      .map(([, target]) => target);
+
+    for (const target of targets) {
+      layer.set(
+        target,
+        Math.max(layer.get(target) ?? 0, (layer.get(id) ?? 0) + 1)
+      );
+      indegree.set(target, (indegree.get(target) ?? 0) - 1);
+
+      if (!indegree.get(target)) {
+        queue.push(target);
+      }
+    }
+  }
+
+  const layers: string[][] = [];
+
+  for (const id of ids) {
+    const index = layer.get(id) ?? 0;
+    layers[index] = [...(layers[index] ?? []), id];
+  }
+
+  return layers.filter(Boolean);
+};
+
+// Orders each layer by the average position of its neighbours in the
+// previous one, sweeping back and forth to untangle edges
+const orderLayers = (layers: string[][], links: [string, string][]) => {
+  const rank = new Map<string, number>();
+  const updateRanks = (layer: string[]) =>
+    layer.forEach((id, index) => rank.set(id, index));
+
+  layers.forEach(updateRanks);
+
+  const sortByNeighbours = (
+    layer: string[],
+    neighbours: (id: string) => string[]
+  ) => {
+    const weights = new Map(
+      layer.map((id) => {
+        const ranks = neighbours(id).map((other) => rank.get(other) ?? 0);
+
+        return [
+          id,
+          ranks.length
+            ? ranks.reduce((sum, value) => sum + value, 0) / ranks.length
+            : (rank.get(id) ?? 0),
+        ];
+      })
+    );
+
+    layer.sort((a, b) => (weights.get(a) ?? 0) - (weights.get(b) ?? 0));
+    updateRanks(layer);
+  };
+
+  const getSources = (id: string) =>
+    links.filter(([, target]) => target === id).map(([source]) => source);
+  const getTargets = (id: string) =>
+    links.filter(([source]) => source === id).map(([, target]) => target);
+
+  for (let pass = 0; pass < orderingPasses; pass++) {
+    if (pass % 2 === 0) {
+      for (const layer of layers.slice(1)) {
+        sortByNeighbours(layer, getSources);
+      }
+    } else {
+      for (const layer of layers.slice(0, -1).reverse()) {
+        sortByNeighbours(layer, getTargets);
+      }
+    }
+  }
+
+  return layers;
+};
+
+// Lays the nodes out left to right following their edges. The laid out nodes
+// keep the top left corner they occupied, so laying out a selection leaves the
+// rest of the canvas where it is.
+export const getLayout = (
+  nodes: Node[],
+  edges: Edge[],
+  spacing: LayoutSpacing = layoutSpacings.comfortable
+) => {
+  const positions = new Map<string, XYPosition>();
+  const items = nodes.filter(isLayoutNode);
+
+  if (!items.length) {
+    return positions;
+  }
+
+  const boxes = new Map(items.map((node) => [node.id, getBox(node)]));
+
+  // Nodes start in their current vertical order, which the ordering keeps
+  // for nodes without connections
+  const ids = items
+    .map((node) => node.id)
+    .sort(
+      (a, b) =>
+        (boxes.get(a)?.y ?? 0) - (boxes.get(b)?.y ?? 0) ||
+        (boxes.get(a)?.x ?? 0) - (boxes.get(b)?.x ?? 0)
+    );
+  const links = getLayoutEdges(new Set(ids), nodes, edges);
+  const layers = orderLayers(getLayers(ids, links), links);
+
+  const left = Math.min(...[...boxes.values()].map((box) => box.x));
+  const top = Math.min(...[...boxes.values()].map((box) => box.y));
+  const heights = layers.map(
+    (layer) =>
+      layer.reduce((sum, id) => sum + (boxes.get(id)?.height ?? 0), 0) +
+      (layer.length - 1) * spacing.y
+  );
+  const tallest = Math.max(...heights);
+  const placed = new Map<string, Box>();
+  let x = left;
+
+  layers.forEach((layer, index) => {
+    let y = top + (tallest - heights[index]) / 2;
+    let width = 0;
+
+    for (const id of layer) {
+      const box = boxes.get(id) as Box;
+
+      placed.set(id, { ...box, x, y });
+      y += box.height + spacing.y;
+      width = Math.max(width, box.width);
+    }
+
+    x += width + spacing.x;
+  });
+
+  for (const node of items) {
+    positions.set(
+      node.id,
+      getPosition(placed.get(node.id) as Box, node.origin)
+    );
+  }
+
+  return positions;
+};
+
+// Moves a box down until it clears every other node
+const findFreeBox = (box: Box, others: Box[], spacing: LayoutSpacing) => {
+  let result = box;
+  let blocker = others.find((other) => overlaps(result, other, spacing.y));
+
+  while (blocker) {
+    result = { ...result, y: blocker.y + blocker.height + spacing.y };
+    blocker = others.find((other) => overlaps(result, other, spacing.y));
+  }
+
+  return result;
+};
+
+// Where to put a node created at a given position, e.g. from the drop node,
+// so that it doesn't cover existing nodes. Its size isn't known until it has
+// rendered.
+export const getFreePosition = (
+  position: XYPosition,
+  nodes: Node[],
+  origin: Node['origin'] = [0, 0.5],
+  spacing: LayoutSpacing = layoutSpacings.comfortable
+) => {
+  const box = {
+    x: position.x - defaultSize * origin[0],
+    y: position.y - defaultSize * origin[1],
+    width: defaultSize,
+    height: defaultSize,
+  };
+
+  return getPosition(
+    findFreeBox(box, nodes.filter(isObstacle).map(getBox), spacing),
+    origin
+  );
+};
+
+// Where to put nodes generated from a source node, e.g. split images or
+// variations: stacked in the next layer of the source, centred on it and
+// below anything already there. New nodes are assumed to be the size of the
+// source until they are measured.
+export const getPlacement = (
+  source: Node,
+  count: number,
+  nodes: Node[],
+  origin: Node['origin'] = [0, 0.5],
+  spacing: LayoutSpacing = layoutSpacings.comfortable
+) => {
+  const sourceBox = getBox(source);
+  const height = count * sourceBox.height + (count - 1) * spacing.y;
+  const column = findFreeBox(
+    {
+      x: sourceBox.x + sourceBox.width + spacing.x,
+      y: sourceBox.y + sourceBox.height / 2 - height / 2,
+      width: sourceBox.width,
+      height,
+    },
+    nodes
+      .filter((node) => node.id !== source.id && isObstacle(node))
+      .map(getBox),
+    spacing
+  );
+
+  return Array.from({ length: count }, (_, index) =>
+    getPosition(
+      {
+        ...sourceBox,
+        x: column.x,
+        y: column.y + index * (sourceBox.height + spacing.y),
+      },
+      origin
+    )
+  );
+};
@@ -0,0 +1,61 @@
+import type { projects } from '@/schema';
+
+export const projectRoles = ['viewer', 'editor', 'owner'] as const;
+
+export type ProjectRole = (typeof projectRoles)[number];
+
+export type ProjectMember = {
+  email: string;
+  role: ProjectRole;
+};
+
+type ProjectLike = Pick<typeof projects.$inferSelect, 'userId' | 'members'>;
+
+type UserLike = {
+  id: string;
+  email?: string;
+};
+
+// Members are stored in the `members` column as `email:role` entries. Entries
+// without a role predate roles and are treated as editors.
+export const parseMembers = (members: string[] | null): ProjectMember[] =>
+  (members ?? []).map((entry) => {
+    const separator = entry.lastIndexOf(':');
+    const role = entry.slice(separator + 1) as ProjectRole;
+
+    if (separator === -1 || !projectRoles.includes(role)) {
+      return { email: entry.toLowerCase(), role: 'editor' };
+    }
+
+    return { email: entry.slice(0, separator).toLowerCase(), role };
+  });
+
+export const serializeMembers = (members: ProjectMember[]) =>
+  members.map(({ email, role }) => `${email.trim().toLowerCase()}:${role}`);
+
+export const getProjectRole = (
+  project: ProjectLike,
+  user: UserLike
+): ProjectRole | null => {
+  if (project.userId === user.id) {
+    return 'owner';
+  }
+
+  const email = user.email?.toLowerCase();
+  const member = parseMembers(project.members).find(
+    (entry) => entry.email === email
+  );
+
+  return member?.role ?? null;
+};
+
+export const hasProjectRole = (
+  role: ProjectRole | null,
+  required: ProjectRole
+) => {
+  if (!role) {
+    return false;
+  }
+
+  return projectRoles.indexOf(role) >= projectRoles.indexOf(required);
+};
@@ -0,0 +1,58 @@
+import { type TersaModel, providers } from '../providers';
+import { type ImageSize, type TersaImageModel, imageModels } from './image';
+
+// Models on the custom endpoint are listed by it rather than registered here,
+// so their IDs are prefixed to tell them apart from the built-in ones
+const customModelPrefix = 'custom:';
+
+export const isCustomModel = (id: string) => id.startsWith(customModelPrefix);
+
+export const toCustomModelId = (modelId: string) =>
+  `${customModelPrefix}${modelId}`;
+
+export const fromCustomModelId = (id: string) =>
+  id.slice(customModelPrefix.length);
+
+// What the client sees of a model the custom endpoint lists. Text models
+// also describe images, as the endpoint doesn't say which can see.
+export type CustomModel = {
+  id: string;
+  label: string;
+  type: 'text' | 'image';
+};
+
+export const toCustomOption = ({ label }: CustomModel): TersaModel => ({
+  label,
+  chef: providers.custom,
+  providers: [providers.custom],
+});
+
+// OpenAI-compatible endpoints take the sizes of OpenAI's image API
+export const customImageSizes: ImageSize[] = [
+  '1024x1024',
+  '1536x1024',
+  '1024x1536',
+];
+
+type ImageModelInfo = Pick<
+  TersaImageModel,
+  'label' | 'chef' | 'sizes' | 'supportsEdit'
+>;
+
+// What the client needs to know of an image model, whether it's registered or
+// on the custom endpoint. The endpoint itself is only called on the server,
+// see getImageModel in lib/custom-endpoint.ts.
+export const getImageModelInfo = (id: string): ImageModelInfo | undefined => {
+  if (imageModels[id]) {
+    return imageModels[id];
+  }
+
+  if (!isCustomModel(id)) {
+    return undefined;
+  }
+
+  return {
+    ...toCustomOption({ id, label: fromCustomModelId(id), type: 'image' }),
+    sizes: customImageSizes,
+  };
+};
@@ -1,10 +1,13 @@
 import { env } from '@/lib/env';
+import { getProviderKey } from '@/lib/provider-keys';
 import type { paths } from '@/openapi/bfl';
 import type { ImageModel } from 'ai';
 import createFetchClient, { type Client } from 'openapi-fetch';
 
 const createClient = () => {
-  if (!env.BF_API_KEY) {
+  const apiKey = getProviderKey('black-forest-labs') ?? env.BF_API_KEY;
+
+  if (!apiKey) {
     throw new Error(
       'Black Forest Labs API key is not configured. ' +
       'Please set BF_API_KEY environment variable.'
@@ -15,7 +18,7 @@ const createClient = () => {
     baseUrl: 'https://api.us1.bfl.ai',
     headers: {
       'Content-Type': 'application/json',
-      'X-Key': env.BF_API_KEY,
+      'X-Key': apiKey,
     },
     fetch: fetch,
   });
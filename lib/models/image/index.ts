@@ -4,11 +4,10 @@ import {
   providers,
 } from '@/lib/providers';
 import { bedrock } from '@ai-sdk/amazon-bedrock';
-import { luma } from '@ai-sdk/luma';
-import { openai } from '@ai-sdk/openai';
-import { xai } from '@ai-sdk/xai';
 import type { ImageModel } from 'ai';
 import { AmazonBedrockIcon, GrokIcon, NanoBanaProIcon } from '../../icons';
+import { mockImageModel, withMockModels } from '../mock';
+import { luma, openai, xai } from '../sdk';
 import { blackForestLabs } from './black-forest-labs';
 import { nanoBananaPro } from './nano-banana-pro';
 
@@ -16,7 +15,7 @@ const million = 1000000;
 
 export type ImageSize = `${number}x${number}`;
 
-type TersaImageModel = TersaModel & {
+export type TersaImageModel = TersaModel & {
   providers: (TersaProvider & {
     model: ImageModel;
     getCost: (props?: {
@@ -29,9 +28,12 @@ type TersaImageModel = TersaModel & {
   sizes?: ImageSize[];
   supportsEdit?: boolean;
   providerOptions?: Record<string, Record<string, string>>;
+
+  // Generations that can outlast a request are queued as background jobs
+  background?: boolean;
 };
 
-export const imageModels: Record<string, TersaImageModel> = {
+const registeredImageModels: Record<string, TersaImageModel> = {
   'nano-banana-pro': {
     label: 'Nano Banana Pro',
     chef: providers['nano-banana-pro'],
@@ -84,6 +86,7 @@ export const imageModels: Record<string, TersaImageModel> = {
     ],
     // sizes removed - using model defaults from Runware
     supportsEdit: true,
+    background: true,
   },
   'dall-e-2': {
     label: 'DALL-E 2',
@@ -198,7 +201,7 @@ export const imageModels: Record<string, TersaImageModel> = {
       {
         ...providers['nano-banana-pro'],
         model: nanoBananaPro.image('midjourney-7'),
-        getCost: () => 0.10, // Estimated pricing - Midjourney tends to be premium
+        getCost: () => 0.1, // Estimated pricing - Midjourney tends to be premium
       },
     ],
     // sizes removed - using model defaults from Runware
@@ -206,6 +209,11 @@ export const imageModels: Record<string, TersaImageModel> = {
   },
 };
 
+export const imageModels = withMockModels(
+  registeredImageModels,
+  mockImageModel
+);
+
 // Backup of all models (commented out)
 /*
 export const allImageModels: Record<string, TersaImageModel> = {
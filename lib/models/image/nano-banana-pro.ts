@@ -1,4 +1,5 @@
 import { env } from '@/lib/env';
+import { getProviderKey } from '@/lib/provider-keys';
 import type { ImageModel } from 'ai';
 import { Runware } from '@runware/sdk-js';
 
@@ -57,12 +58,18 @@ type CreateImageParams = {
   modelOverride?: string; // Override default model (for switching between Runware models)
 };
 
-// Create a singleton Runware instance to reuse WebSocket connections
-let runwareInstance: InstanceType<typeof Runware> | null = null;
+// Create a Runware instance per API key to reuse WebSocket connections. Callers
+// who brought their own Runware key get their own connection.
+const runwareInstances = new Map<string, InstanceType<typeof Runware>>();
 
 const getRunwareInstance = (): InstanceType<typeof Runware> => {
+  const apiKey =
+    getProviderKey('nano-banana-pro') ||
+    env.RUNWARE_API_KEY ||
+    env.NANO_BANANA_PRO_API_KEY;
+  let runwareInstance = apiKey ? runwareInstances.get(apiKey) : undefined;
+
   if (!runwareInstance) {
-    const apiKey = env.RUNWARE_API_KEY || env.NANO_BANANA_PRO_API_KEY;
     if (!apiKey) {
       throw new Error(
         'Runware API key is not configured. ' +
@@ -78,6 +85,7 @@ const getRunwareInstance = (): InstanceType<typeof Runware> => {
       timeoutDuration: 300000, // 5 minutes for long operations
     });
     console.log('Runware SDK instance created');
+    runwareInstances.set(apiKey, runwareInstance);
   }
   return runwareInstance;
 };
@@ -0,0 +1,209 @@
+// Fixtures the mock providers return. They're derived from a seed, so the
+// same request gets the same output, and are built without any native
+// modules as the registries are also loaded by the client.
+
+// FNV-1a, to turn a request into a seed
+export const hashSeed = (value: string) => {
+  let hash = 0x811c9dc5;
+
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+};
+
+// Mulberry32, returns numbers in [0, 1)
+export const createRandom = (seed: number) => {
+  let state = seed;
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+
+    value ^= value + Math.imul(value ^ (value >>> 7), 61 | value);
+
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const loremWords = (
+  'lorem ipsum dolor sit amet consectetur adipiscing elit sed do ' +
+  'eiusmod tempor incididunt ut labore et dolore magna aliqua enim ad ' +
+  'minim veniam quis nostrud exercitation ullamco laboris nisi ' +
+  'aliquip ex ea commodo consequat duis aute irure in reprehenderit ' +
+  'voluptate velit esse cillum fugiat nulla pariatur excepteur sint ' +
+  'occaecat cupidatat non proident sunt culpa qui officia deserunt ' +
+  'mollit anim id est laborum'
+).split(' ');
+
+// A few sentences of lorem ipsum
+export const getLoremText = (seed: number) => {
+  const random = createRandom(seed);
+  const pick = () => loremWords[Math.floor(random() * loremWords.length)];
+  const sentences: string[] = [];
+  const sentenceCount = 3 + Math.floor(random() * 4);
+
+  for (let index = 0; index < sentenceCount; index++) {
+    const words = Array.from({ length: 6 + Math.floor(random() * 10) }, pick);
+    const sentence = words.join(' ');
+
+    sentences.push(`${sentence[0].toUpperCase()}${sentence.slice(1)}.`);
+  }
+
+  return sentences.join(' ');
+};
+
+const crcTable = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+
+  return value >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array) => {
+  let a = 1;
+  let b = 0;
+
+  for (const byte of bytes) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+
+  return ((b << 16) | a) >>> 0;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(
+    parts.reduce((sum, part) => sum + part.length, 0)
+  );
+  let offset = 0;
+
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+
+  return bytes;
+};
+
+const uint32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+
+  new DataView(bytes.buffer).setUint32(0, value);
+
+  return bytes;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const body = concat([new TextEncoder().encode(type), data]);
+
+  return concat([uint32(data.length), body, uint32(crc32(body))]);
+};
+
+// Zlib with stored blocks, which every decoder reads without us having to
+// compress anything
+const zlibStore = (data: Uint8Array) => {
+  const blocks: Uint8Array[] = [new Uint8Array([0x78, 0x01])];
+  const maxBlock = 0xffff;
+
+  for (let offset = 0; offset < data.length || !offset; offset += maxBlock) {
+    const block = data.subarray(offset, offset + maxBlock);
+    const last = offset + maxBlock >= data.length;
+    const header = new Uint8Array(5);
+
+    header[0] = last ? 1 : 0;
+    header[1] = block.length & 0xff;
+    header[2] = block.length >>> 8;
+    header[3] = ~block.length & 0xff;
+    header[4] = (~block.length >>> 8) & 0xff;
+    blocks.push(header, block);
+  }
+
+  blocks.push(uint32(adler32(data)));
+
+  return concat(blocks);
+};
+
+// Placeholders are kept small, they only need the requested shape
+const maxPlaceholderSide = 256;
+
+// A PNG of a diagonal gradient between two colours picked by the seed
+export const getPlaceholderImage = (
+  seed: number,
+  aspectWidth: number,
+  aspectHeight: number
+) => {
+  const random = createRandom(seed);
+  const from = [random(), random(), random()].map((value) => value * 255);
+  const to = [random(), random(), random()].map((value) => value * 255);
+  const scale = maxPlaceholderSide / Math.max(aspectWidth, aspectHeight);
+  const width = Math.max(1, Math.round(aspectWidth * scale));
+  const height = Math.max(1, Math.round(aspectHeight * scale));
+  const rowLength = width * 3 + 1;
+  const pixels = new Uint8Array(rowLength * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const mix = (x / width + y / height) / 2;
+      const offset = y * rowLength + 1 + x * 3;
+
+      for (let channel = 0; channel < 3; channel++) {
+        pixels[offset + channel] = Math.round(
+          from[channel] + (to[channel] - from[channel]) * mix
+        );
+      }
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour
+
+  return concat([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStore(pixels)),
+    pngChunk('IEND', new Uint8Array()),
+  ]);
+};
+
+// An MPEG-1 Layer III frame at 32 kbps, 44.1 kHz and mono, with no audio
+// data, so it decodes to 1152 samples of silence
+const silentFrame = concat([
+  new Uint8Array([0xff, 0xfb, 0x10, 0xc0]),
+  new Uint8Array(100),
+]);
+
+const framesPerSecond = 44100 / 1152;
+
+export const getSilentAudio = (seconds: number) =>
+  concat(
+    Array.from(
+      { length: Math.ceil(seconds * framesPerSecond) },
+      () => silentFrame
+    )
+  );
+
+// A second of black 160x90 H.264, with no audio track
+export const silentVideoUrl =
+  'data:video/mp4;base64,AAAAIGZ0eXBpc29tAAACAGlzb21pc28yYXZjMW1wNDEAAAMabW9vdgAAAGxtdmhkAAAAAAAAAAAAAAAAAAAD6AAAA+gAAQAAAQAAAAAAAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAgAAAml0cmFrAAAAXHRraGQAAAADAAAAAAAAAAAAAAABAAAAAAAAA+gAAAAAAAAAAAAAAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAABAAAAAAKAAAABaAAAAAAAkZWR0cwAAABxlbHN0AAAAAAAAAAEAAAPoAAAAAAABAAAAAAHhbWRpYQAAACBtZGhkAAAAAAAAAAAAAAAAAAAoAAAAKABVxAAAAAAALWhkbHIAAAAAAAAAAHZpZGUAAAAAAAAAAAAAAABWaWRlb0hhbmRsZXIAAAABjG1pbmYAAAAUdm1oZAAAAAEAAAAAAAAAAAAAACRkaW5mAAAAHGRyZWYAAAAAAAAAAQAAAAx1cmwgAAAAAQAAAUxzdGJsAAAArHN0c2QAAAAAAAAAAQAAAJxhdmMxAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAAAAKAAWgBIAAAASAAAAAAAAAABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAGP//AAAAMmF2Y0MBQsAM/+EAGGdCwAymEQo35IQAAAMABAAAAwBQPFCoRgEAB2jIQgGUTIAAAAAUYnRydAAAAAAAABiYAAAFQAAAABhzdHRzAAAAAAAAAAEAAAAKAAAEAAAAABRzdHNzAAAAAAAAAAEAAAABAAAAHHN0c2MAAAAAAAAAAQAAAAEAAAAKAAAAAQAAADxzdHN6AAAAAAAAAAAAAAAKAAAAPAAAAAwAAAAMAAAADAAAAAwAAAAMAAAADAAAAAwAAAAMAAAADAAAABRzdGNvAAAAAAAAAAEAAANKAAAAPXVkdGEAAAA1bWV0YQAAAAAAAAAhaGRscgAAAAAAAAAAbWRpcmFwcGwAAAAAAAAAAAAAAAAIaWxzdAAAAAhmcmVlAAAAsG1kYXQAAAABZYiCAhnOTFAAEEO+++++++++uuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuuvAAAAABQZocBDOcHsAAAAABQZoqAQznB7AAAAABQZo7AQznB7AAAAABQZpJAEM5wewAAAABQZpZQPznB7AAAAABQZppgPznB7AAAAABQZp5wPznB7AAAAABQZqIgD85wewAAAABQZqYkDs5wew=';
@@ -0,0 +1,218 @@
+import {
+  type ImageModel,
+  type LanguageModelV1,
+  type SpeechModel,
+  type TranscriptionModel,
+  simulateReadableStream,
+} from 'ai';
+import type { VideoModel } from '../video';
+import {
+  getLoremText,
+  getPlaceholderImage,
+  getSilentAudio,
+  hashSeed,
+  silentVideoUrl,
+} from './fixtures';
+
+// Mock mode swaps every registry's providers for fakes that answer from
+// fixtures, for developing and testing without keys or network. Only the
+// server reads it, the client never calls the models.
+const isMockMode = process.env.MOCK_PROVIDERS === 'true';
+
+// Outputs are seeded by the request, and MOCK_PROVIDERS_SEED to vary them
+const getSeed = (modelId: string, input: string) =>
+  hashSeed(`${process.env.MOCK_PROVIDERS_SEED ?? ''}:${modelId}:${input}`);
+
+const provider = 'mock';
+
+// Fakes get IDs of their own, so nothing mistakes them for the real model
+// and calls its API directly, e.g. for GPT Image 1
+const getMockModelId = (modelId: string) => `${provider}:${modelId}`;
+
+const getResponse = (modelId: string) => ({
+  timestamp: new Date(0),
+  modelId,
+  headers: undefined,
+});
+
+type LanguageModelPrompt = Parameters<LanguageModelV1['doGenerate']>[0];
+
+type LanguageModelStreamPart = Awaited<
+  ReturnType<LanguageModelV1['doStream']>
+>['stream'] extends ReadableStream<infer T>
+  ? T
+  : never;
+
+const getPromptText = ({ prompt }: LanguageModelPrompt) =>
+  prompt
+    .map(({ content }) =>
+      typeof content === 'string'
+        ? content
+        : content.map((part) => ('text' in part ? part.text : '')).join(' ')
+    )
+    .join('\n');
+
+const wordEnds = /(?<= )/;
+const whitespace = /\s+/;
+
+// Roughly four characters a token
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const mockLanguageModel = (model: LanguageModelV1): LanguageModelV1 => {
+  const modelId = getMockModelId(model.modelId);
+  const respond = (options: LanguageModelPrompt) => {
+    const input = getPromptText(options);
+    const text = getLoremText(getSeed(modelId, input));
+
+    return {
+      text,
+      usage: {
+        promptTokens: countTokens(input),
+        completionTokens: countTokens(text),
+      },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider,
+    modelId,
+    defaultObjectGenerationMode: 'json',
+
+    // Images are never looked at, so there's no need to download them
+    supportsImageUrls: true,
+    supportsUrl: () => true,
+
+    doGenerate: (options) =>
+      Promise.resolve({ ...respond(options), finishReason: 'stop' }),
+    doStream: async (options) => {
+      const { text, usage, rawCall } = respond(options);
+      const chunks: LanguageModelStreamPart[] = [
+        ...text
+          .split(wordEnds)
+          .map((textDelta) => ({ type: 'text-delta' as const, textDelta })),
+        { type: 'finish', finishReason: 'stop', usage },
+      ];
+
+      return {
+        stream: simulateReadableStream({ chunks, chunkDelayInMs: 20 }),
+        rawCall,
+      };
+    },
+  };
+};
+
+const getAspect = (
+  size: string | undefined,
+  aspectRatio: string | undefined
+) => {
+  const [width, height] = (size?.split('x') ?? aspectRatio?.split(':') ?? [])
+    .map(Number)
+    .filter((value) => value > 0);
+
+  return width && height ? { width, height } : { width: 1, height: 1 };
+};
+
+export const mockImageModel = (model: ImageModel): ImageModel => {
+  const modelId = getMockModelId(model.modelId);
+
+  return {
+    specificationVersion: 'v1',
+    provider,
+    modelId,
+    maxImagesPerCall: undefined,
+    doGenerate: async ({ prompt, n, size, aspectRatio, seed }) => {
+      const { width, height } = getAspect(size, aspectRatio);
+
+      return {
+        images: Array.from({ length: n }, (_, index) =>
+          getPlaceholderImage(
+            getSeed(modelId, `${prompt}:${seed ?? ''}:${index}`),
+            width,
+            height
+          )
+        ),
+        warnings: [],
+        response: getResponse(modelId),
+      };
+    },
+  };
+};
+
+// Speech lasts about as long as reading the text would, within reason
+const getSpeechSeconds = (text: string) =>
+  Math.min(Math.max(text.split(whitespace).length / 2.5, 1), 30);
+
+export const mockSpeechModel = (model: SpeechModel): SpeechModel => {
+  const modelId = getMockModelId(model.modelId);
+
+  return {
+    specificationVersion: 'v1',
+    provider,
+    modelId,
+    doGenerate: async ({ text }) => ({
+      audio: getSilentAudio(getSpeechSeconds(text)),
+      warnings: [],
+      response: getResponse(modelId),
+    }),
+  };
+};
+
+export const mockTranscriptionModel = (
+  model: TranscriptionModel
+): TranscriptionModel => {
+  const modelId = getMockModelId(model.modelId);
+
+  return {
+    specificationVersion: 'v1',
+    provider,
+    modelId,
+
+    // Seeded by the audio's length, as the audio itself isn't decoded
+    doGenerate: async ({ audio }) => ({
+      text: getLoremText(getSeed(modelId, String(audio.length))),
+      segments: [],
+      language: 'la',
+      durationInSeconds: undefined,
+      warnings: [],
+      response: getResponse(modelId),
+    }),
+  };
+};
+
+// Jobs finish as soon as they're checked on
+export const mockVideoModel = (model: VideoModel): VideoModel => {
+  const modelId = getMockModelId(model.modelId);
+
+  return {
+    modelId,
+    submit: async ({ prompt }) => `${provider}-${getSeed(modelId, prompt)}`,
+    poll: async () => silentVideoUrl,
+  };
+};
+
+type Registry<Model> = Record<string, { providers: { model: Model }[] }>;
+
+// The registry as is, or with its providers' models faked in mock mode
+export const withMockModels = <Model, R extends Registry<Model>>(
+  models: R,
+  mock: (model: Model) => Model
+): R => {
+  if (!isMockMode) {
+    return models;
+  }
+
+  return Object.fromEntries(
+    Object.entries(models).map(([id, model]) => [
+      id,
+      {
+        ...model,
+        providers: model.providers.map((entry) => ({
+          ...entry,
+          model: mock(entry.model),
+        })),
+      },
+    ])
+  ) as R;
+};
@@ -0,0 +1,68 @@
+import { anthropic as appAnthropic, createAnthropic } from '@ai-sdk/anthropic';
+import { cohere as appCohere, createCohere } from '@ai-sdk/cohere';
+import { deepseek as appDeepseek, createDeepSeek } from '@ai-sdk/deepseek';
+import { google as appGoogle, createGoogleGenerativeAI } from '@ai-sdk/google';
+import { groq as appGroq, createGroq } from '@ai-sdk/groq';
+import { hume as appHume, createHume } from '@ai-sdk/hume';
+import { lmnt as appLmnt, createLMNT } from '@ai-sdk/lmnt';
+import { luma as appLuma, createLuma } from '@ai-sdk/luma';
+import { mistral as appMistral, createMistral } from '@ai-sdk/mistral';
+import { openai as appOpenai, createOpenAI } from '@ai-sdk/openai';
+import {
+  perplexity as appPerplexity,
+  createPerplexity,
+} from '@ai-sdk/perplexity';
+import { xai as appXai, createXai } from '@ai-sdk/xai';
+import { withProviderKey } from '../provider-keys';
+
+// The AI SDK's providers, using the caller's own key when they've saved one
+// and the app's otherwise
+export const openai = withProviderKey('openai', appOpenai, (apiKey) =>
+  createOpenAI({ apiKey })
+);
+
+export const anthropic = withProviderKey('anthropic', appAnthropic, (apiKey) =>
+  createAnthropic({ apiKey })
+);
+
+export const google = withProviderKey('google', appGoogle, (apiKey) =>
+  createGoogleGenerativeAI({ apiKey })
+);
+
+export const groq = withProviderKey('groq', appGroq, (apiKey) =>
+  createGroq({ apiKey })
+);
+
+export const mistral = withProviderKey('mistral', appMistral, (apiKey) =>
+  createMistral({ apiKey })
+);
+
+export const xai = withProviderKey('xai', appXai, (apiKey) =>
+  createXai({ apiKey })
+);
+
+export const deepseek = withProviderKey('deepseek', appDeepseek, (apiKey) =>
+  createDeepSeek({ apiKey })
+);
+
+export const cohere = withProviderKey('cohere', appCohere, (apiKey) =>
+  createCohere({ apiKey })
+);
+
+export const perplexity = withProviderKey(
+  'perplexity',
+  appPerplexity,
+  (apiKey) => createPerplexity({ apiKey })
+);
+
+export const hume = withProviderKey('hume', appHume, (apiKey) =>
+  createHume({ apiKey })
+);
+
+export const lmnt = withProviderKey('lmnt', appLmnt, (apiKey) =>
+  createLMNT({ apiKey })
+);
+
+export const luma = withProviderKey('luma', appLuma, (apiKey) =>
+  createLuma({ apiKey })
+);
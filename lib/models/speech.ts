@@ -1,8 +1,7 @@
-import { hume } from '@ai-sdk/hume';
-import { lmnt } from '@ai-sdk/lmnt';
-import { openai } from '@ai-sdk/openai';
 import type { SpeechModel } from 'ai';
 import { type TersaModel, type TersaProvider, providers } from '../providers';
+import { mockSpeechModel, withMockModels } from './mock';
+import { hume, lmnt, openai } from './sdk';
 
 const million = 1000000;
 const thousand = 1000;
@@ -15,7 +14,7 @@ type TersaSpeechModel = TersaModel & {
   voices: string[];
 };
 
-export const speechModels: Record<string, TersaSpeechModel> = {
+const registeredSpeechModels: Record<string, TersaSpeechModel> = {
   'tts-1': {
     label: 'TTS-1',
     chef: providers.openai,
@@ -146,3 +145,8 @@ export const speechModels: Record<string, TersaSpeechModel> = {
     voices: [],
   },
 };
+
+export const speechModels = withMockModels(
+  registeredSpeechModels,
+  mockSpeechModel
+);
@@ -1,13 +1,4 @@
-import { anthropic } from '@ai-sdk/anthropic';
-import { cohere } from '@ai-sdk/cohere';
-import { deepseek } from '@ai-sdk/deepseek';
-import { google } from '@ai-sdk/google';
-import { groq } from '@ai-sdk/groq';
-import { mistral } from '@ai-sdk/mistral';
-import { openai } from '@ai-sdk/openai';
-import { perplexity } from '@ai-sdk/perplexity';
 import { vercel } from '@ai-sdk/vercel';
-import { xai } from '@ai-sdk/xai';
 import {
   type LanguageModelV1,
   extractReasoningMiddleware,
@@ -21,21 +12,38 @@ import {
   PerplexityIcon,
 } from '../icons';
 import { type TersaModel, type TersaProvider, providers } from '../providers';
+import { mockLanguageModel, withMockModels } from './mock';
+import {
+  anthropic,
+  cohere,
+  deepseek,
+  google,
+  groq,
+  mistral,
+  openai,
+  perplexity,
+  xai,
+} from './sdk';
 
 export type PriceBracket = 'lowest' | 'low' | 'high' | 'highest';
 
 const million = 1000000;
 const thousand = 1000;
 
-type TersaTextModel = TersaModel & {
+export type TersaTextModel = TersaModel & {
   providers: (TersaProvider & {
     model: LanguageModelV1;
     getCost: ({ input, output }: { input: number; output: number }) => number;
   })[];
 };
 
+// A nominal request for comparing providers' prices before routing
+export const estimateTextCost = (
+  provider: TersaTextModel['providers'][number]
+) => provider.getCost({ input: thousand, output: thousand });
+
 // Median input cost: 2.7
-export const textModels: Record<string, TersaTextModel> = {
+const registeredTextModels: Record<string, TersaTextModel> = {
   'gpt-3.5-turbo': {
     label: 'GPT-3.5 Turbo',
     chef: providers.openai,
@@ -893,3 +901,8 @@ export const textModels: Record<string, TersaTextModel> = {
     ],
   },
 };
+
+export const textModels = withMockModels(
+  registeredTextModels,
+  mockLanguageModel
+);
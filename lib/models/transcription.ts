@@ -1,6 +1,7 @@
-import { openai } from '@ai-sdk/openai';
 import type { TranscriptionModel } from 'ai';
 import { type TersaModel, type TersaProvider, providers } from '../providers';
+import { mockTranscriptionModel, withMockModels } from './mock';
+import { openai } from './sdk';
 
 type TersaTranscriptionModel = TersaModel & {
   providers: (TersaProvider & {
@@ -8,7 +9,7 @@ type TersaTranscriptionModel = TersaModel & {
   })[];
 };
 
-export const transcriptionModels: Record<string, TersaTranscriptionModel> = {
+const registeredTranscriptionModels: Record<string, TersaTranscriptionModel> = {
   'gpt-4o-mini-transcribe': {
     label: 'GPT-4o Mini Transcribe',
     chef: providers.openai,
@@ -41,3 +42,8 @@ export const transcriptionModels: Record<string, TersaTranscriptionModel> = {
     ],
   },
 };
+
+export const transcriptionModels = withMockModels(
+  registeredTranscriptionModels,
+  mockTranscriptionModel
+);
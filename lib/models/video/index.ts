@@ -4,6 +4,7 @@ import {
   type TersaProvider,
   providers,
 } from '@/lib/providers';
+import { mockVideoModel, withMockModels } from '../mock';
 import { luma } from './luma';
 import { minimax } from './minimax';
 import { replicate } from './replicate';
@@ -11,14 +12,22 @@ import { runway } from './runway';
 
 const million = 1000000;
 
+// Video generations take minutes, so they are submitted and then checked on
+// by the job worker rather than awaited in one request
 export type VideoModel = {
   modelId: string;
-  generate: (props: {
+
+  // Starts the generation and returns the provider's job ID
+  submit: (props: {
     prompt: string;
     imagePrompt: string | undefined;
     duration: 5;
     aspectRatio: string;
   }) => Promise<string>;
+
+  // The video's URL once the generation succeeded, null while it's running.
+  // Throws if the generation failed.
+  poll: (jobId: string) => Promise<string | null>;
 };
 
 export type TersaVideoModel = TersaModel & {
@@ -28,7 +37,7 @@ export type TersaVideoModel = TersaModel & {
   })[];
 };
 
-export const videoModels: Record<string, TersaVideoModel> = {
+const registeredVideoModels: Record<string, TersaVideoModel> = {
   'minimax-t2v-01-director': {
     label: 'T2V-01-Director',
     chef: providers.minimax,
@@ -297,3 +306,8 @@ export const videoModels: Record<string, TersaVideoModel> = {
     ],
   },
 };
+
+export const videoModels = withMockModels(
+  registeredVideoModels,
+  mockVideoModel
+);
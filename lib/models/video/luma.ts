@@ -1,13 +1,27 @@
 import { env } from '@/lib/env';
 import type { VideoModel } from '@/lib/models/video';
+import { getProviderKey } from '@/lib/provider-keys';
 import { LumaAI } from 'lumaai';
 
+// The key is missing in mock mode, where Luma is never called
+const createClient = () => {
+  const authToken = getProviderKey('luma') ?? env.LUMA_API_KEY;
+
+  if (!authToken) {
+    throw new Error(
+      'Luma API key is not configured. Please set LUMA_API_KEY environment variable.'
+    );
+  }
+
+  return new LumaAI({ authToken });
+};
+
 export const luma = (
   modelId: 'ray-1-6' | 'ray-2' | 'ray-flash-2'
 ): VideoModel => ({
   modelId,
-  generate: async ({ prompt, imagePrompt, duration }) => {
-    const luma = new LumaAI({ authToken: env.LUMA_API_KEY });
+  submit: async ({ prompt, imagePrompt, duration }) => {
+    const luma = createClient();
 
     if (process.env.NODE_ENV !== 'production' && imagePrompt) {
       throw new Error('Luma does not support base64 image input.');
@@ -34,29 +48,26 @@ export const luma = (
       throw new Error("Luma didn't return a job ID");
     }
 
-    const startTime = Date.now();
-    const maxPollTime = 5 * 60 * 1000; // 5 minutes in milliseconds
-
-    while (Date.now() - startTime < maxPollTime) {
-      const generation = await luma.generations.get(jobId);
-
-      if (generation.state === 'failed') {
-        throw new Error(
-          `Luma video generation failed: ${generation.failure_reason ?? 'unknown reason'}`
-        );
-      }
+    return jobId;
+  },
+  poll: async (jobId) => {
+    const luma = createClient();
+    const generation = await luma.generations.get(jobId);
 
-      if (generation.state === 'completed') {
-        if (!generation.assets?.video) {
-          throw new Error("Luma video generation didn't return a video asset");
-        }
+    if (generation.state === 'failed') {
+      throw new Error(
+        `Luma video generation failed: ${generation.failure_reason ?? 'unknown reason'}`
+      );
+    }
 
-        return generation.assets.video;
-      }
+    if (generation.state !== 'completed') {
+      return null;
+    }
 
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+    if (!generation.assets?.video) {
+      throw new Error("Luma video generation didn't return a video asset");
     }
 
-    throw new Error('Luma video generation timed out');
+    return generation.assets.video;
   },
 });
@@ -52,23 +52,37 @@ type RetrieveUrlResponse = {
 
 const baseUrl = 'https://api.minimaxi.chat/';
 
+// The credentials are missing in mock mode, where Minimax is never called
+const getCredentials = () => {
+  if (!env.MINIMAX_API_KEY || !env.MINIMAX_GROUP_ID) {
+    throw new Error(
+      'Minimax API key is not configured. Please set MINIMAX_API_KEY and MINIMAX_GROUP_ID environment variables.'
+    );
+  }
+
+  return { apiKey: env.MINIMAX_API_KEY, groupId: env.MINIMAX_GROUP_ID };
+};
+
+const headers = () => ({
+  authorization: `Bearer ${getCredentials().apiKey}`,
+});
+
 export const minimax = (modelId: CreateJobProps['model']): VideoModel => ({
   modelId,
-  generate: async ({ prompt, imagePrompt }) => {
+  submit: async ({ prompt, imagePrompt }) => {
     const props: CreateJobProps = {
       model: modelId,
       prompt,
       first_frame_image: imagePrompt,
     };
 
-    // Create job
     const createJobResponse = await fetch(
       new URL('/v1/video_generation', baseUrl),
       {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${env.MINIMAX_API_KEY}`,
+          ...headers(),
         },
         body: JSON.stringify(props),
       }
@@ -80,57 +94,42 @@ export const minimax = (modelId: CreateJobProps['model']): VideoModel => ({
       throw new Error(`API error: ${createJobData.base_resp.status_msg}`);
     }
 
-    const taskId = createJobData.task_id;
-    // Poll for job completion (max 2 minutes)
-    let isCompleted = false;
-    let fileId: string | null = null;
-    const startTime = Date.now();
-    const maxPollTime = 5 * 60 * 1000; // 5 minutes in milliseconds
-
-    while (!isCompleted && Date.now() - startTime < maxPollTime) {
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      const queryJobResponse = await fetch(
-        new URL(`/v1/query/video_generation?task_id=${taskId}`, baseUrl),
-        {
-          headers: {
-            authorization: `Bearer ${env.MINIMAX_API_KEY}`,
-          },
-        }
-      );
-
-      const queryJobData = (await queryJobResponse.json()) as QueryJobResponse;
-
-      if (queryJobData.base_resp.status_code !== 0) {
-        throw new Error(`API error: ${queryJobData.base_resp.status_msg}`);
-      }
+    return createJobData.task_id;
+  },
+  poll: async (taskId) => {
+    const queryJobResponse = await fetch(
+      new URL(`/v1/query/video_generation?task_id=${taskId}`, baseUrl),
+      { headers: headers() }
+    );
 
-      if (queryJobData.status === 'Success') {
-        isCompleted = true;
-        fileId = queryJobData.file_id as string;
-      } else if (queryJobData.status === 'Fail') {
-        throw new Error('Video generation failed');
-      }
+    const queryJobData = (await queryJobResponse.json()) as QueryJobResponse;
+
+    if (queryJobData.base_resp.status_code !== 0) {
+      throw new Error(`API error: ${queryJobData.base_resp.status_msg}`);
+    }
+
+    if (queryJobData.status === 'Fail') {
+      throw new Error('Video generation failed');
     }
 
-    if (!isCompleted) {
-      throw new Error('Video generation timed out after 2 minutes');
+    if (queryJobData.status !== 'Success') {
+      return null;
     }
 
-    if (!fileId) {
+    if (!queryJobData.file_id) {
       throw new Error('Failed to get file_id');
     }
 
     // Retrieve download URL
     const retrieveUrlResponse = await fetch(
       new URL(
-        `/v1/files/retrieve?GroupId=${env.MINIMAX_GROUP_ID}&file_id=${fileId}`,
+        `/v1/files/retrieve?GroupId=${getCredentials().groupId}&file_id=${queryJobData.file_id}`,
         baseUrl
       ),
       {
         headers: {
           authority: 'api.minimaxi.chat',
-          authorization: `Bearer ${env.MINIMAX_API_KEY}`,
+          ...headers(),
         },
       }
     );
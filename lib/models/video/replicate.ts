@@ -1,3 +1,4 @@
+import { getProviderKey } from '@/lib/provider-keys';
 import Replicate from 'replicate';
 import type { VideoModel } from '.';
 
@@ -11,10 +12,11 @@ type KlingModel =
 export const replicate: Record<string, (modelId: KlingModel) => VideoModel> = {
   kling: (modelId: KlingModel) => ({
     modelId,
-    generate: async ({ prompt, imagePrompt, duration, aspectRatio }) => {
-      const replicate = new Replicate();
+    submit: async ({ prompt, imagePrompt, duration, aspectRatio }) => {
+      const replicate = new Replicate({ auth: getProviderKey('replicate') });
 
-      const output = await replicate.run(modelId, {
+      const prediction = await replicate.predictions.create({
+        model: modelId,
         input: {
           prompt,
           duration,
@@ -23,11 +25,31 @@ export const replicate: Record<string, (modelId: KlingModel) => VideoModel> = {
         },
       });
 
-      if (!('url' in output) || typeof output.url !== 'function') {
+      return prediction.id;
+    },
+    poll: async (jobId) => {
+      const replicate = new Replicate({ auth: getProviderKey('replicate') });
+      const prediction = await replicate.predictions.get(jobId);
+
+      if (prediction.status === 'failed' || prediction.status === 'canceled') {
+        throw new Error(
+          `Kling video generation failed: ${prediction.error ?? 'unknown reason'}`
+        );
+      }
+
+      if (prediction.status !== 'succeeded') {
+        return null;
+      }
+
+      const output = Array.isArray(prediction.output)
+        ? prediction.output.at(0)
+        : prediction.output;
+
+      if (typeof output !== 'string') {
         throw new Error('No output');
       }
 
-      return output.url() as string;
+      return output;
     },
   }),
 };
@@ -1,15 +1,29 @@
 import { env } from '@/lib/env';
 import type { VideoModel } from '@/lib/models/video';
+import { getProviderKey } from '@/lib/provider-keys';
 import RunwayML from '@runwayml/sdk';
 
+// The key is missing in mock mode, where Runway is never called
+const createClient = () => {
+  const apiKey = getProviderKey('runway') ?? env.RUNWAYML_API_SECRET;
+
+  if (!apiKey) {
+    throw new Error(
+      'Runway API key is not configured. Please set RUNWAYML_API_SECRET environment variable.'
+    );
+  }
+
+  return new RunwayML({ apiKey });
+};
+
 export const runway = (modelId: 'gen4_turbo' | 'gen3a_turbo'): VideoModel => ({
   modelId,
-  generate: async ({ prompt, imagePrompt, duration }) => {
+  submit: async ({ prompt, imagePrompt, duration }) => {
     if (!imagePrompt) {
       throw new Error('Runway requires at least one image');
     }
 
-    const client = new RunwayML({ apiKey: env.RUNWAYML_API_SECRET });
+    const client = createClient();
 
     const response = await client.imageToVideo.create({
       model: modelId,
@@ -19,35 +33,30 @@ export const runway = (modelId: 'gen4_turbo' | 'gen3a_turbo'): VideoModel => ({
       duration,
     });
 
-    const startTime = Date.now();
-    const maxPollTime = 5 * 60 * 1000; // 5 minutes in milliseconds
-
-    while (Date.now() - startTime < maxPollTime) {
-      const task = await client.tasks.retrieve(response.id);
-
-      if (task.status === 'CANCELLED' || task.status === 'FAILED') {
-        throw new Error(`Runway video generation failed: ${task.failure}`);
-      }
+    return response.id;
+  },
+  poll: async (jobId) => {
+    const client = createClient();
+    const task = await client.tasks.retrieve(jobId);
 
-      if (task.status === 'SUCCEEDED') {
-        if (!task.output?.length) {
-          throw new Error(
-            `Runway video didn't generate output: ${task.failure}`
-          );
-        }
+    if (task.status === 'CANCELLED' || task.status === 'FAILED') {
+      throw new Error(`Runway video generation failed: ${task.failure}`);
+    }
 
-        const url = task.output.at(0);
+    if (task.status !== 'SUCCEEDED') {
+      return null;
+    }
 
-        if (!url) {
-          throw new Error('Runway video generation failed: No output URL');
-        }
+    if (!task.output?.length) {
+      throw new Error(`Runway video didn't generate output: ${task.failure}`);
+    }
 
-        return url;
-      }
+    const url = task.output.at(0);
 
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+    if (!url) {
+      throw new Error('Runway video generation failed: No output URL');
     }
 
-    throw new Error('Runway video generation timed out');
+    return url;
   },
 });
@@ -1,14 +1,15 @@
-import { openai } from '@ai-sdk/openai';
 import type { LanguageModelV1 } from 'ai';
 import { type TersaModel, type TersaProvider, providers } from '../providers';
+import { mockLanguageModel, withMockModels } from './mock';
+import { openai } from './sdk';
 
-type TersaVisionModel = TersaModel & {
+export type TersaVisionModel = TersaModel & {
   providers: (TersaProvider & {
     model: LanguageModelV1;
   })[];
 };
 
-export const visionModels: Record<string, TersaVisionModel> = {
+const registeredVisionModels: Record<string, TersaVisionModel> = {
   'openai-gpt-4.1': {
     label: 'GPT-4.1',
     chef: providers.openai,
@@ -141,3 +142,8 @@ export const visionModels: Record<string, TersaVisionModel> = {
     ],
   },
 };
+
+export const visionModels = withMockModels(
+  registeredVisionModels,
+  mockLanguageModel
+);
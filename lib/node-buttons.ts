@@ -1,5 +1,15 @@
 import { SiX } from '@icons-pack/react-simple-icons';
-import { AudioWaveformIcon, FileIcon, VideoIcon } from 'lucide-react';
+import {
+  AudioWaveformIcon,
+  FileIcon,
+  FrameIcon,
+  ListIcon,
+  MergeIcon,
+  MessageSquareIcon,
+  SplitIcon,
+  StickyNoteIcon,
+  VideoIcon,
+} from 'lucide-react';
 
 import { CodeIcon, ImageIcon, TextIcon, SparklesIcon } from 'lucide-react';
 
@@ -32,6 +42,21 @@ export const nodeButtons = [
       content: { language: 'javascript' },
     },
   },
+  {
+    id: 'list',
+    label: 'List',
+    icon: ListIcon,
+  },
+  {
+    id: 'router',
+    label: 'Router',
+    icon: SplitIcon,
+  },
+  {
+    id: 'merge',
+    label: 'Merge',
+    icon: MergeIcon,
+  },
   {
     id: 'file',
     label: 'File',
@@ -47,4 +72,19 @@ export const nodeButtons = [
     label: 'Design AI',
     icon: SparklesIcon,
   },
+  {
+    id: 'note',
+    label: 'Note',
+    icon: StickyNoteIcon,
+  },
+  {
+    id: 'frame',
+    label: 'Frame',
+    icon: FrameIcon,
+  },
+  {
+    id: 'callout',
+    label: 'Callout',
+    icon: MessageSquareIcon,
+  },
 ];
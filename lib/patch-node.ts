@@ -0,0 +1,58 @@
+import { projects } from '@/schema';
+import { and, eq } from 'drizzle-orm';
+import type { ProjectContent } from './content';
+import { database } from './database';
+
+const maxAttempts = 5;
+
+type NodeData = Record<string, unknown>;
+
+// Updates a single node's data without overwriting anything else in the
+// project. The write only succeeds if no one saved in between, otherwise the
+// patch is re-applied on top of the latest content.
+export const patchProjectNode = async (
+  projectId: string,
+  nodeId: string,
+  patch: (data: NodeData) => NodeData
+) => {
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const project = await database.query.projects.findFirst({
+      where: eq(projects.id, projectId),
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const content = project.content as ProjectContent;
+    const node = content.nodes.find((n) => n.id === nodeId);
+
+    if (!node) {
+      throw new Error('Node not found');
+    }
+
+    const data = patch(node.data ?? {});
+
+    const updated = await database
+      .update(projects)
+      .set({
+        content: {
+          ...content,
+          nodes: content.nodes.map((n) =>
+            n.id === nodeId ? { ...n, data } : n
+          ),
+        },
+        revision: project.revision + 1,
+      })
+      .where(
+        and(eq(projects.id, projectId), eq(projects.revision, project.revision))
+      )
+      .returning({ revision: projects.revision });
+
+    if (updated.length) {
+      return { data, revision: updated[0].revision };
+    }
+  }
+
+  throw new Error('The project is changing too quickly, please try again.');
+};
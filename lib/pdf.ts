@@ -0,0 +1,79 @@
+// A minimal PDF writer for decks of JPEG pages. JPEGs can be embedded as
+// they are, so no PDF library is needed.
+export type PdfPage = {
+  jpeg: Uint8Array;
+
+  // Pixel size of the image, the page is sized to match at 96 DPI
+  width: number;
+  height: number;
+};
+
+const pointsPerPixel = 72 / 96;
+
+export const createPdf = (pages: PdfPage[]) => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const chunk = typeof part === 'string' ? encoder.encode(part) : part;
+
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+
+  const writeObject = (body: (string | Uint8Array)[]) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n`);
+
+    for (const part of body) {
+      write(part);
+    }
+
+    write('\nendobj\n');
+  };
+
+  // Objects 1 and 2 are the catalog and page tree, then every page takes
+  // three: the page, its image and its content stream
+  const pageIds = pages.map((_, index) => 3 + index * 3);
+
+  write('%PDF-1.4\n');
+  writeObject(['<< /Type /Catalog /Pages 2 0 R >>']);
+  writeObject([
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+  ]);
+
+  pages.forEach((page, index) => {
+    const id = pageIds[index];
+    const width = Math.round(page.width * pointsPerPixel);
+    const height = Math.round(page.height * pointsPerPixel);
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+    writeObject([
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${id + 1} 0 R >> >> /Contents ${id + 2} 0 R >>`,
+    ]);
+    writeObject([
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+      page.jpeg,
+      '\nendstream',
+    ]);
+    writeObject([
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    ]);
+  });
+
+  const xref = length;
+
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+
+  for (const offset of offsets) {
+    write(`${String(offset).padStart(10, '0')} 00000 n \n`);
+  }
+
+  write(
+    `trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+  );
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
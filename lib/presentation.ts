@@ -0,0 +1,236 @@
+import type { Edge, Node, Rect } from '@xyflow/react';
+import { isAnnotationNode } from './annotations';
+import { sortTopologically } from './execution';
+import { isGroupNode } from './groups';
+import { fromCustomModelId, isCustomModel } from './models/custom';
+import { imageModels } from './models/image';
+import { speechModels } from './models/speech';
+import { textModels } from './models/text';
+import { videoModels } from './models/video';
+import type { TersaModel } from './providers';
+import { getScreenshot } from './screenshot';
+import { getNodeTitle } from './search';
+
+// Slides follow the pipeline, or the sequence the user arranged them in
+export type SlideOrder = 'pipeline' | 'custom';
+
+export const slideOrders: Record<SlideOrder, string> = {
+  pipeline: 'Pipeline order',
+  custom: 'Custom order',
+};
+
+export type SlideDetails = {
+  title: string;
+  model?: string;
+  prompt?: string;
+};
+
+const modelRegistries: Record<string, Record<string, TersaModel>> = {
+  text: textModels,
+  code: textModels,
+  image: imageModels,
+  video: videoModels,
+  audio: speechModels,
+};
+
+export const isSlideNode = (node: Node) =>
+  node.type !== 'drop' && !isAnnotationNode(node) && !isGroupNode(node);
+
+// Nodes store their place in a custom sequence as `data.slide`
+const getSlideIndex = (node: Node) =>
+  typeof node.data.slide === 'number' ? node.data.slide : undefined;
+
+export const hasCustomOrder = (nodes: Node[]) =>
+  nodes.some((node) => getSlideIndex(node) !== undefined);
+
+// Left to right, then top to bottom, so parallel branches are read in the
+// order they're laid out
+const byPosition = (a: Node, b: Node) =>
+  a.position.x - b.position.x || a.position.y - b.position.y;
+
+const getPipelineOrder = (nodes: Node[], edges: Edge[]) => {
+  const sorted = [...nodes].sort(byPosition);
+
+  try {
+    return sortTopologically(sorted, edges);
+  } catch {
+    return sorted;
+  }
+};
+
+// Nodes left out of the custom sequence, e.g. added since it was arranged,
+// come after it in pipeline order
+export const getSlides = (nodes: Node[], edges: Edge[], order: SlideOrder) => {
+  const pipeline = getPipelineOrder(nodes.filter(isSlideNode), edges);
+
+  if (order === 'pipeline') {
+    return pipeline;
+  }
+
+  const arranged = pipeline
+    .filter((node) => getSlideIndex(node) !== undefined)
+    .sort((a, b) => (getSlideIndex(a) ?? 0) - (getSlideIndex(b) ?? 0));
+
+  return [
+    ...arranged,
+    ...pipeline.filter((node) => getSlideIndex(node) === undefined),
+  ];
+};
+
+export const getSlideDetails = (node: Node): SlideDetails => {
+  const registry = node.type ? modelRegistries[node.type] : undefined;
+  const model =
+    typeof node.data.model === 'string'
+      ? registry?.[node.data.model]
+      : Object.values(registry ?? {}).find((entry) => entry.default);
+  const instructions = node.data.instructions;
+
+  // The custom endpoint's models aren't registered, their ID is their name
+  const customModel =
+    typeof node.data.model === 'string' && isCustomModel(node.data.model)
+      ? fromCustomModelId(node.data.model)
+      : undefined;
+
+  return {
+    title: getNodeTitle(node),
+    model: model?.label ?? customModel,
+    prompt:
+      typeof instructions === 'string' && instructions.trim()
+        ? instructions.trim()
+        : undefined,
+  };
+};
+
+// PDF slides are rendered at 16:9 with the node on top and its details in a
+// band underneath
+const slideWidth = 1600;
+const slideHeight = 900;
+const captionHeight = 220;
+const margin = 64;
+const maxPromptLines = 3;
+
+const whitespacePattern = /\s+/;
+
+type SlideColors = {
+  background: string;
+  foreground: string;
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+
+const getLines = (
+  context: CanvasRenderingContext2D,
+  text: string,
+  width: number
+) => {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(whitespacePattern)) {
+    const next = line ? `${line} ${word}` : word;
+
+    if (line && context.measureText(next).width > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+
+  if (line) {
+    lines.push(line);
+  }
+
+  if (lines.length > maxPromptLines) {
+    return [
+      ...lines.slice(0, maxPromptLines - 1),
+      `${lines[maxPromptLines - 1]}…`,
+    ];
+  }
+
+  return lines;
+};
+
+const drawCaption = (
+  context: CanvasRenderingContext2D,
+  details: SlideDetails
+) => {
+  let y = slideHeight - captionHeight + margin / 2;
+
+  context.font = '600 36px sans-serif';
+  context.fillText(details.title, margin, y);
+  y += 48;
+
+  if (details.model) {
+    context.globalAlpha = 0.6;
+    context.font = '24px sans-serif';
+    context.fillText(details.model, margin, y);
+    context.globalAlpha = 1;
+    y += 34;
+  }
+
+  if (details.prompt) {
+    context.font = '24px sans-serif';
+
+    for (const line of getLines(
+      context,
+      details.prompt,
+      slideWidth - margin * 2
+    )) {
+      context.fillText(line, margin, y);
+      y += 34;
+    }
+  }
+};
+
+// Uses the canvas's own rendering of the node, so the slide looks the way
+// it does on the board
+export const renderSlide = async (
+  node: Node,
+  bounds: Rect,
+  colors: SlideColors
+) => {
+  const screenshot = await getScreenshot([node], {
+    width: slideWidth,
+    height: slideHeight - captionHeight,
+    padding: `${margin / 2}px`,
+    bounds,
+  });
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+
+  if (!context) {
+    throw new Error('Canvas is not supported');
+  }
+
+  canvas.width = slideWidth;
+  canvas.height = slideHeight;
+  context.fillStyle = colors.background;
+  context.fillRect(0, 0, slideWidth, slideHeight);
+  context.drawImage(await loadImage(screenshot), 0, 0);
+  context.textBaseline = 'top';
+  context.fillStyle = colors.foreground;
+  drawCaption(context, getSlideDetails(node));
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, 'image/jpeg', 0.92)
+  );
+
+  if (!blob) {
+    throw new Error('Failed to render slide');
+  }
+
+  return {
+    jpeg: new Uint8Array(await blob.arrayBuffer()),
+    width: slideWidth,
+    height: slideHeight,
+  };
+};
@@ -0,0 +1,288 @@
+import type { Node } from '@xyflow/react';
+import {
+  getDescriptionsFromImageNodes,
+  getTextFromTextNodes,
+  getTranscriptionFromAudioNodes,
+  getTweetContentFromTweetNodes,
+} from './xyflow';
+import { referencePattern } from './variables';
+
+// Instructions can reference their inputs and the project's variables with
+// {{name}}, {{node:Title}} or {{image1.description}}. Inputs are named by
+// their label and by their type and position, e.g. the second text input is
+// text2.
+
+const nodePrefix = 'node:';
+
+type NodeLike = Pick<Node, 'id' | 'type' | 'data'>;
+
+type FieldGetter = (data: Record<string, unknown>) => unknown;
+
+type Content = { text?: string; url?: string; name?: string } | undefined;
+
+// The fields each type of input exposes. The first one is used when a
+// reference doesn't name a field.
+const fields: Record<string, Record<string, FieldGetter>> = {
+  text: {
+    text: (data) => (data.generated as Content)?.text ?? data.text,
+  },
+  image: {
+    description: (data) => data.description,
+    url: (data) =>
+      (data.generated as Content)?.url ?? (data.content as Content)?.url,
+  },
+  audio: {
+    transcript: (data) => data.transcript,
+    url: (data) =>
+      (data.generated as Content)?.url ?? (data.content as Content)?.url,
+  },
+  video: {
+    url: (data) =>
+      (data.generated as Content)?.url ?? (data.content as Content)?.url,
+  },
+  code: {
+    code: (data) =>
+      (data.generated as Content)?.text ?? (data.content as Content)?.text,
+    language: (data) =>
+      (data.generated as { language?: string } | undefined)?.language ??
+      (data.content as { language?: string } | undefined)?.language,
+  },
+  file: {
+    name: (data) => (data.content as Content)?.name,
+    url: (data) => (data.content as Content)?.url,
+  },
+  tweet: {
+    text: (data) => (data.content as Content)?.text,
+    author: (data) => (data.content as { author?: string } | undefined)?.author,
+  },
+};
+
+export type PromptInput = {
+  node: NodeLike;
+
+  // Positional name, e.g. image1
+  name: string;
+  label?: string;
+};
+
+export const getNodeName = (node: Pick<Node, 'data'>) => {
+  const label = node.data.label;
+
+  return typeof label === 'string' && label.trim() ? label.trim() : undefined;
+};
+
+export const getPromptInputs = (incomers: NodeLike[]): PromptInput[] => {
+  const counts = new Map<string, number>();
+
+  return incomers.flatMap((node) => {
+    if (!node.type || !fields[node.type]) {
+      return [];
+    }
+
+    const count = (counts.get(node.type) ?? 0) + 1;
+    counts.set(node.type, count);
+
+    return [{ node, name: `${node.type}${count}`, label: getNodeName(node) }];
+  });
+};
+
+const matches = (a: string, b: string | undefined) =>
+  b !== undefined && a.toLowerCase() === b.toLowerCase();
+
+const findInput = (inputs: PromptInput[], name: string, labelOnly: boolean) =>
+  inputs.find((input) => matches(name, input.label)) ??
+  (labelOnly ? undefined : inputs.find((input) => matches(name, input.name)));
+
+const readField = (input: PromptInput, field?: string) => {
+  const getters = fields[input.node.type ?? ''] ?? {};
+  const getter = field ? getters[field] : Object.values(getters)[0];
+
+  if (!getter) {
+    return undefined;
+  }
+
+  const value = getter(input.node.data);
+
+  return typeof value === 'string' ? value : undefined;
+};
+
+type Resolved = { value: string; node?: string } | null;
+
+const resolveReference = (
+  reference: string,
+  inputs: PromptInput[],
+  variables: Record<string, string>
+): Resolved => {
+  const labelOnly = reference.startsWith(nodePrefix);
+  const name = labelOnly
+    ? reference.slice(nodePrefix.length).trim()
+    : reference;
+
+  if (!labelOnly) {
+    const variable = Object.entries(variables).find(([key]) =>
+      matches(name, key)
+    );
+
+    if (variable) {
+      return { value: variable[1] };
+    }
+  }
+
+  const whole = findInput(inputs, name, labelOnly);
+
+  if (whole) {
+    return { value: readField(whole) ?? '', node: whole.node.id };
+  }
+
+  // Titles may contain dots, so the field is only split off when the whole
+  // reference doesn't name an input
+  const dot = name.lastIndexOf('.');
+
+  if (dot === -1) {
+    return null;
+  }
+
+  const input = findInput(inputs, name.slice(0, dot).trim(), labelOnly);
+  const field = name.slice(dot + 1).trim();
+
+  if (!input || !(field in (fields[input.node.type ?? ''] ?? {}))) {
+    return null;
+  }
+
+  return { value: readField(input, field) ?? '', node: input.node.id };
+};
+
+export const hasReferences = (text: string | undefined) =>
+  Boolean(text?.match(referencePattern));
+
+// Replaces the references in the text. Inputs that were referenced are
+// returned so they aren't added to the prompt a second time.
+export const resolveTemplate = (
+  text: string,
+  incomers: NodeLike[],
+  variables: Record<string, string> = {}
+) => {
+  const inputs = getPromptInputs(incomers);
+  const used = new Set<string>();
+  const missing: string[] = [];
+
+  const resolved = text.replace(referencePattern, (match, reference) => {
+    const result = resolveReference(reference, inputs, variables);
+
+    if (!result) {
+      missing.push(reference);
+      return match;
+    }
+
+    if (result.node) {
+      used.add(result.node);
+    }
+
+    return result.value;
+  });
+
+  return { text: resolved, used, missing };
+};
+
+export const assertResolved = (missing: string[]) => {
+  if (missing.length) {
+    throw new Error(
+      `Unknown reference ${missing.map((item) => `{{${item}}}`).join(', ')}`
+    );
+  }
+};
+
+// Resolves a node's instructions against its inputs. The inputs that weren't
+// referenced are still passed along as before.
+export const resolveInstructions = (
+  instructions: string | undefined,
+  incomers: NodeLike[],
+  variables: Record<string, string> = {}
+) => {
+  if (!instructions) {
+    return { instructions, inputs: incomers as Node[], missing: [] };
+  }
+
+  const { text, used, missing } = resolveTemplate(
+    instructions,
+    incomers,
+    variables
+  );
+
+  return {
+    instructions: text,
+    inputs: incomers.filter((node) => !used.has(node.id)) as Node[],
+    missing,
+  };
+};
+
+// The full prompt a text node sends: its instructions followed by the inputs
+// they didn't reference, grouped by type
+export const buildPrompt = (
+  instructions: string | undefined,
+  incomers: NodeLike[],
+  variables: Record<string, string> = {}
+) => {
+  const resolved = resolveInstructions(instructions, incomers, variables);
+  const sections: [string, string[]][] = [
+    ['Text Prompts', getTextFromTextNodes(resolved.inputs)],
+    ['Audio Prompts', getTranscriptionFromAudioNodes(resolved.inputs)],
+    ['Image Descriptions', getDescriptionsFromImageNodes(resolved.inputs)],
+    ['Tweet Content', getTweetContentFromTweetNodes(resolved.inputs)],
+  ];
+  const content: string[] = [];
+
+  if (resolved.instructions) {
+    content.push('--- Instructions ---', resolved.instructions);
+  }
+
+  for (const [title, values] of sections) {
+    if (values.length) {
+      content.push(`--- ${title} ---`, ...values);
+    }
+  }
+
+  return { ...resolved, prompt: content.join('\n') };
+};
+
+export type PromptSuggestion = {
+  value: string;
+  description: string;
+};
+
+// Everything that can be referenced from a node's instructions
+export const getPromptSuggestions = (
+  incomers: NodeLike[],
+  variables: Record<string, string> = {}
+): PromptSuggestion[] => [
+  ...Object.keys(variables).map((name) => ({
+    value: name,
+    description: 'Project variable',
+  })),
+  ...getPromptInputs(incomers).flatMap((input) => {
+    const names = input.label
+      ? [`${nodePrefix}${input.label}`, input.name]
+      : [input.name];
+    const extra = Object.keys(fields[input.node.type ?? ''] ?? {});
+
+    return names.flatMap((name) => [
+      { value: name, description: input.label ?? input.name },
+      ...extra.map((field) => ({
+        value: `${name}.${field}`,
+        description: `${input.label ?? input.name} ${field}`,
+      })),
+    ]);
+  }),
+];
+
+// The reference being typed at the cursor, if any, i.e. an unclosed {{
+export const getOpenReference = (text: string, cursor: number) => {
+  const before = text.slice(0, cursor);
+  const start = before.lastIndexOf('{{');
+
+  if (start === -1 || before.slice(start).includes('}}')) {
+    return null;
+  }
+
+  return { start: start + 2, query: before.slice(start + 2).trimStart() };
+};
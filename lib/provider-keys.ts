@@ -0,0 +1,115 @@
+import type { providerKeys } from '@/schema';
+import { providers } from './providers';
+
+// Providers people can bring their own key for. Keys are saved against the
+// provider's ID, which is also the ID of the models' providers they serve.
+export const keyProviders = [
+  providers.openai,
+  providers.anthropic,
+  providers.google,
+  providers.groq,
+  providers.mistral,
+  providers.xai,
+  providers.deepseek,
+  providers.cohere,
+  providers.perplexity,
+  providers.hume,
+  providers.lmnt,
+  providers.luma,
+  providers.runway,
+  providers.replicate,
+  providers['black-forest-labs'],
+  { ...providers['nano-banana-pro'], name: 'Runware' },
+];
+
+export const isKeyProvider = (id: string) =>
+  keyProviders.some((provider) => provider.id === id);
+
+// What the client sees of a saved key, never the key itself
+export type ProviderKey = Pick<
+  typeof providerKeys.$inferSelect,
+  'id' | 'provider' | 'hint' | 'updatedAt'
+>;
+
+export const toProviderKey = ({
+  id,
+  provider,
+  hint,
+  updatedAt,
+}: typeof providerKeys.$inferSelect): ProviderKey => ({
+  id,
+  provider,
+  hint,
+  updatedAt,
+});
+
+// The model registries are shared with the client, so they can't load keys
+// themselves. The server sets the resolver, see withProviderKeys.
+let resolveProviderKey: (provider: string) => string | undefined = () =>
+  undefined;
+
+export const setProviderKeyResolver = (
+  resolver: (provider: string) => string | undefined
+) => {
+  resolveProviderKey = resolver;
+};
+
+// The caller's own key for the provider, if they've saved one
+export const getProviderKey = (provider: string) =>
+  resolveProviderKey(provider);
+
+// Reads the model's properties off a client made with the caller's key when
+// there is one, and off the app's otherwise. Models are only called while
+// handling a request, so this resolves to the key of whoever made it.
+const withModelKey = <T extends object>(
+  provider: string,
+  model: T,
+  create: (apiKey: string) => T
+): T =>
+  new Proxy(model, {
+    get: (target, property) => {
+      const apiKey = getProviderKey(provider);
+      const source = apiKey ? create(apiKey) : target;
+      const value = Reflect.get(source, property);
+
+      return typeof value === 'function' ? value.bind(source) : value;
+    },
+  });
+
+type ModelFactory = (...args: unknown[]) => object;
+
+// Wraps one of the AI SDK's providers, so the models it creates, whether
+// called directly or through a method like `.image()`, use the caller's key
+export const withProviderKey = <T extends object>(
+  provider: string,
+  factory: T,
+  create: (apiKey: string) => T
+): T =>
+  new Proxy(factory, {
+    apply: (target, thisArg, args) =>
+      withModelKey(
+        provider,
+        Reflect.apply(target as ModelFactory, thisArg, args),
+        (apiKey) =>
+          Reflect.apply(create(apiKey) as ModelFactory, undefined, args)
+      ),
+    get: (target, property) => {
+      const method = Reflect.get(target, property);
+
+      if (typeof method !== 'function') {
+        return method;
+      }
+
+      return (...args: unknown[]) =>
+        withModelKey(
+          provider,
+          Reflect.apply(method as ModelFactory, target, args),
+          (apiKey) => {
+            const keyed = create(apiKey);
+            const keyedMethod = Reflect.get(keyed, property) as ModelFactory;
+
+            return Reflect.apply(keyedMethod, keyed, args);
+          }
+        );
+    },
+  });
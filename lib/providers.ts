@@ -6,6 +6,7 @@ import {
   BlackForestLabsIcon,
   CerebrasIcon,
   CohereIcon,
+  CustomEndpointIcon,
   DeepSeekIcon,
   DeepinfraIcon,
   FalIcon,
@@ -177,8 +178,19 @@ export const providers = {
     name: 'Nano Banana Pro',
     icon: NanoBanaProIcon,
   },
+
+  // Our own models behind an OpenAI-compatible endpoint, see
+  // lib/custom-endpoint.ts
+  custom: {
+    id: 'custom',
+    name: 'Custom endpoint',
+    icon: CustomEndpointIcon,
+  },
 };
 
+export const getProviderName = (id: string | undefined) =>
+  id ? (providers[id as keyof typeof providers]?.name ?? id) : undefined;
+
 export type TersaModel = {
   // Inherits from chef if not provided
   icon?: typeof OpenAiIcon;
@@ -189,4 +201,8 @@ export type TersaModel = {
   priceIndicator?: PriceBracket;
   disabled?: boolean;
   default?: boolean;
+
+  // Providers are tried in order, falling back on outages and rate limits.
+  // `cheapest` tries them by their estimated cost instead.
+  routing?: 'fallback' | 'cheapest';
 };
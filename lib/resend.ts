@@ -0,0 +1,4 @@
+import { Resend } from 'resend';
+import { env } from './env';
+
+export const resend = new Resend(env.RESEND_TOKEN);
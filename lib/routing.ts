@@ -0,0 +1,164 @@
+import type { LanguageModelV1 } from 'ai';
+import type { TersaModel, TersaProvider } from './providers';
+
+type ErrorLike = {
+  status?: unknown;
+  statusCode?: unknown;
+  lastError?: unknown;
+  cause?: unknown;
+};
+
+const getStatus = (error: ErrorLike) => {
+  const status = error.statusCode ?? error.status;
+
+  return typeof status === 'number' ? status : undefined;
+};
+
+// Outages, server errors and rate limits are worth trying another provider
+// for. Anything else, e.g. a rejected prompt, would fail there too.
+export const isRetryableError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const status = getStatus(error as ErrorLike);
+
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+
+  // The AI SDK's own retries wrap the error they gave up on
+  const { lastError, cause } = error as ErrorLike;
+
+  if (lastError) {
+    return isRetryableError(lastError);
+  }
+
+  if (cause) {
+    return isRetryableError(cause);
+  }
+
+  // The provider couldn't be reached at all
+  return error instanceof TypeError && error.message === 'fetch failed';
+};
+
+// Providers in the order they're tried. Models that route by price try the
+// cheapest first, going by the caller's estimate of the request's cost.
+export const getProviderOrder = <P extends TersaProvider>(
+  model: TersaModel & { providers: P[] },
+  estimateCost?: (provider: P) => number
+) => {
+  if (model.routing !== 'cheapest' || !estimateCost) {
+    return model.providers;
+  }
+
+  return [...model.providers].sort((a, b) => estimateCost(a) - estimateCost(b));
+};
+
+// The provider an earlier request was routed to, e.g. to check on a job it
+// accepted
+export const getProvider = <P extends TersaProvider>(
+  model: TersaModel & { providers: P[] },
+  id: string | null | undefined
+) => {
+  const providers: P[] = model.providers;
+
+  return providers.find((provider) => provider.id === id);
+};
+
+// Runs the request against the model's providers in turn until one serves
+// it. Returns the result along with the provider that served it, so its cost
+// is the one billed and it can be recorded with the output.
+export const routeRequest = async <P extends TersaProvider, T>(
+  model: TersaModel & { providers: P[] },
+  request: (provider: P) => PromiseLike<T>,
+  estimateCost?: (provider: P) => number
+) => {
+  const order = getProviderOrder(model, estimateCost);
+  let lastError: unknown = new Error('No providers available');
+
+  for (const provider of order) {
+    try {
+      const result = await request(provider);
+
+      return { result, provider };
+    } catch (error) {
+      lastError = error;
+
+      if (!isRetryableError(error)) {
+        break;
+      }
+    }
+  }
+
+  throw lastError;
+};
+
+// A language model that falls back across the model's providers. Streams
+// can't be retried once they've started, so the fallback happens while
+// establishing the call, which is where outages and rate limits surface.
+export const routeLanguageModel = <
+  P extends TersaProvider & { model: LanguageModelV1 },
+>(
+  model: TersaModel & { providers: P[] },
+  onServed: (provider: P) => void,
+  estimateCost?: (provider: P) => number
+): LanguageModelV1 => {
+  const [first] = getProviderOrder(model, estimateCost);
+
+  if (!first) {
+    throw new Error('No providers available');
+  }
+
+  const doGenerate: LanguageModelV1['doGenerate'] = async (options) => {
+    const { result, provider } = await routeRequest(
+      model,
+      (provider) => provider.model.doGenerate(options),
+      estimateCost
+    );
+
+    onServed(provider);
+
+    return result;
+  };
+
+  const doStream: LanguageModelV1['doStream'] = async (options) => {
+    const { result, provider } = await routeRequest(
+      model,
+      (provider) => provider.model.doStream(options),
+      estimateCost
+    );
+
+    onServed(provider);
+
+    return result;
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: first.model.provider,
+    modelId: first.model.modelId,
+    defaultObjectGenerationMode: first.model.defaultObjectGenerationMode,
+    supportsImageUrls: first.model.supportsImageUrls,
+    supportsStructuredOutputs: first.model.supportsStructuredOutputs,
+    supportsUrl: first.model.supportsUrl?.bind(first.model),
+    doGenerate,
+    doStream,
+  };
+};
+
+// Streamed responses name their provider in a message annotation
+export const getServedProvider = (annotations: unknown[] | undefined) => {
+  for (const annotation of annotations ?? []) {
+    if (
+      annotation &&
+      typeof annotation === 'object' &&
+      'provider' in annotation &&
+      typeof annotation.provider === 'string'
+    ) {
+      return annotation.provider;
+    }
+  }
+
+  return undefined;
+};
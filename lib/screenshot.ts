@@ -1,18 +1,40 @@
-import { type Node, getNodesBounds, getViewportForBounds } from '@xyflow/react';
+import {
+  type Node,
+  type Rect,
+  getNodesBounds,
+  getViewportForBounds,
+} from '@xyflow/react';
 import { domToJpeg } from 'modern-screenshot';
 
-export const getScreenshot = async (nodes: Node[]) => {
-  const nodesBounds = getNodesBounds(nodes);
-  const viewport = getViewportForBounds(nodesBounds, 1200, 630, 0.5, 2, 16);
+type ScreenshotOptions = {
+  width?: number;
+  height?: number;
+  padding?: Parameters<typeof getViewportForBounds>[5];
+
+  // Defaults to the bounds of the nodes, e.g. when the nodes are in groups
+  // and their absolute bounds are known
+  bounds?: Rect;
+};
+
+export const getScreenshot = async (
+  nodes: Node[],
+  {
+    width = 1200,
+    height = 630,
+    padding = 16,
+    bounds = getNodesBounds(nodes),
+  }: ScreenshotOptions = {}
+) => {
+  const viewport = getViewportForBounds(bounds, width, height, 0.5, 2, padding);
 
   const image = await domToJpeg(
     document.querySelector('.react-flow__viewport') as HTMLElement,
     {
-      width: 1200,
-      height: 630,
+      width,
+      height,
       style: {
-        width: '1200px',
-        height: '630px',
+        width: `${width}px`,
+        height: `${height}px`,
         transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`,
       },
     }
@@ -20,10 +42,3 @@ export const getScreenshot = async (nodes: Node[]) => {
 
   return image;
 };
-
-// const image = await getScreenshot(rfInstance.getNodes());
-// const screenshot = await uploadFile(
-//   new File([image], 'screenshot.jpg', { type: 'image/jpeg' }),
-//   'screenshots',
-//   `${projectId}.jpg`
-// );
@@ -0,0 +1,89 @@
+import type { Node } from '@xyflow/react';
+import { nodeButtons } from './node-buttons';
+import { getNodeName } from './prompt';
+
+type Content = { text?: string; name?: string } | undefined;
+
+export type NodeSearchResult = {
+  node: Node;
+  title: string;
+
+  // The text around the match, when it isn't in the title
+  snippet?: string;
+};
+
+// Characters of context kept on each side of a match
+const snippetContext = 40;
+
+const maxResults = 50;
+
+const whitespacePattern = /\s+/g;
+
+export const getNodeTitle = (node: Node) =>
+  getNodeName(node) ??
+  nodeButtons.find((button) => button.id === node.type)?.label ??
+  node.type ??
+  'Node';
+
+// Prompts, instructions, generated text and descriptions a node can be found by
+const getSearchableText = (node: Node) => {
+  const data = node.data as Record<string, unknown>;
+  const generated = data.generated as Content;
+  const content = data.content as Content;
+
+  return [
+    data.text,
+    data.instructions,
+    generated?.text,
+    content?.text,
+    content?.name,
+    data.description,
+    data.transcript,
+  ].filter((value): value is string => typeof value === 'string' && !!value);
+};
+
+const getSnippet = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - snippetContext);
+  const end = Math.min(text.length, index + length + snippetContext);
+
+  return [
+    start > 0 ? '…' : '',
+    text.slice(start, end).replace(whitespacePattern, ' ').trim(),
+    end < text.length ? '…' : '',
+  ].join('');
+};
+
+// Nodes whose title or content contains the query, title matches first
+export const searchNodes = (nodes: Node[], query: string) => {
+  const search = query.trim().toLowerCase();
+  const titleMatches: NodeSearchResult[] = [];
+  const contentMatches: NodeSearchResult[] = [];
+
+  for (const node of nodes) {
+    if (node.type === 'drop') {
+      continue;
+    }
+
+    const title = getNodeTitle(node);
+
+    if (!search || title.toLowerCase().includes(search)) {
+      titleMatches.push({ node, title });
+      continue;
+    }
+
+    for (const text of getSearchableText(node)) {
+      const index = text.toLowerCase().indexOf(search);
+
+      if (index !== -1) {
+        contentMatches.push({
+          node,
+          title,
+          snippet: getSnippet(text, index, search.length),
+        });
+        break;
+      }
+    }
+  }
+
+  return [...titleMatches, ...contentMatches].slice(0, maxResults);
+};
@@ -0,0 +1,109 @@
+import {
+  createHash,
+  randomBytes,
+  scryptSync,
+  timingSafeEqual,
+} from 'node:crypto';
+import { type projects, shares } from '@/schema';
+import { eq } from 'drizzle-orm';
+import { cookies } from 'next/headers';
+import { database } from './database';
+import type { ProjectRole } from './members';
+
+export type Share = typeof shares.$inferSelect;
+
+// What the project's editors see of a share, without its snapshot or hash
+export type ShareLink = Pick<
+  Share,
+  'id' | 'token' | 'expiresAt' | 'createdAt'
+> & {
+  hasPassword: boolean;
+};
+
+export const toShareLink = ({
+  id,
+  token,
+  expiresAt,
+  createdAt,
+  passwordHash,
+}: Share): ShareLink => ({
+  id,
+  token,
+  expiresAt,
+  createdAt,
+  hasPassword: Boolean(passwordHash),
+});
+
+export const createShareToken = () => randomBytes(24).toString('base64url');
+
+export const hashSharePassword = (password: string) => {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 64).toString('hex');
+
+  return `${salt}:${hash}`;
+};
+
+export const verifySharePassword = (password: string, stored: string) => {
+  const [salt, hash] = stored.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+
+  return timingSafeEqual(actual, expected);
+};
+
+// Unlocked shares are remembered with a cookie holding a digest of the
+// password hash, so changing or removing the share invalidates it
+export const getShareCookieName = (token: string) => `share-${token}`;
+
+export const getShareAccessKey = (share: Share) =>
+  createHash('sha256')
+    .update(`${share.token}:${share.passwordHash}`)
+    .digest('hex');
+
+// Expired shares behave as if they didn't exist
+export const getShare = async (token: string) => {
+  const share = await database.query.shares.findFirst({
+    where: eq(shares.token, token),
+  });
+
+  if (!share || (share.expiresAt && share.expiresAt < new Date())) {
+    return null;
+  }
+
+  return share;
+};
+
+export const hasShareAccess = async (share: Share) => {
+  if (!share.passwordHash) {
+    return true;
+  }
+
+  const cookieStore = await cookies();
+  const key = cookieStore.get(getShareCookieName(share.token))?.value;
+
+  return key === getShareAccessKey(share);
+};
+
+// Everyone opening a share link sees the canvas as a viewer
+export const shareRole: ProjectRole = 'viewer';
+
+// The snapshot dressed up as a project for the canvas. Nothing about the
+// original project, like its owner or members, is passed to the client.
+export const getSharedProject = (
+  share: Share
+): typeof projects.$inferSelect => ({
+  id: share.id,
+  name: share.name,
+  content: share.content,
+  variables: share.variables,
+  transcriptionModel: '',
+  visionModel: '',
+  createdAt: share.createdAt,
+  updatedAt: null,
+  revision: 0,
+  userId: '',
+  image: null,
+  members: null,
+  welcomeProject: false,
+  spend: 0,
+});
@@ -1,5 +1,9 @@
+import { projects } from '@/schema';
+import { eq, sql } from 'drizzle-orm';
 import Stripe from 'stripe';
-import { currentUserProfile } from './auth';
+import { currentUserProfile, getProfile } from './auth';
+import { usesOwnKey } from './credentials';
+import { database } from './database';
 import { env } from './env';
 
 export const stripe = new Stripe(env.STRIPE_SECRET_KEY, {
@@ -8,18 +12,46 @@ export const stripe = new Stripe(env.STRIPE_SECRET_KEY, {
 
 const creditValue = 0.005;
 
+const getBillingProfile = (userId?: string) =>
+  userId ? getProfile(userId) : currentUserProfile();
+
 export const trackCreditUsage = async ({
   action,
   cost,
+  userId,
+  provider,
+  projectId,
 }: {
   action: string;
   cost: number;
+
+  // Background jobs have no session, so they name the user to bill
+  userId?: string;
+
+  // The provider that served the call, see routeRequest
+  provider?: string;
+
+  // The project the generation was made in, whose spend it adds to
+  projectId?: string;
 }) => {
+  // Spend counts every generation, whoever's key it was made with
+  if (projectId) {
+    await database
+      .update(projects)
+      .set({ spend: sql`${projects.spend} + ${cost}` })
+      .where(eq(projects.id, projectId));
+  }
+
+  // The provider bills calls made with the caller's own key
+  if (provider && usesOwnKey(provider)) {
+    return;
+  }
+
   // Temporarily bypass credit tracking for testing
   console.log(`[TESTING] Would track credit usage: ${action}, cost: ${cost}`);
   return;
-  
-  const profile = await currentUserProfile();
+
+  const profile = await getBillingProfile(userId);
   const credits = Math.ceil(cost / creditValue);
 
   if (!profile) {
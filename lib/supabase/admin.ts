@@ -0,0 +1,9 @@
+import { createClient } from '@supabase/supabase-js';
+import { env } from '../env';
+
+// Bypasses row level security. Only for work done on a user's behalf outside
+// of their request, e.g. background jobs storing their output.
+export const createAdminClient = () =>
+  createClient(env.NEXT_PUBLIC_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
@@ -52,7 +52,9 @@ export const updateSession = async (request: NextRequest) => {
   if (
     !user &&
     !publicPaths.includes(request.nextUrl.pathname) &&
-    !request.nextUrl.pathname.startsWith('/auth')
+    !request.nextUrl.pathname.startsWith('/auth') &&
+    !request.nextUrl.pathname.startsWith('/share/') &&
+    !request.nextUrl.pathname.startsWith('/embed/')
   ) {
     // no user, potentially respond by redirecting the user to the login page
     const url = request.nextUrl.clone();
@@ -0,0 +1,286 @@
+import type { Edge, Node, XYPosition } from '@xyflow/react';
+import { nanoid } from 'nanoid';
+import { sampleEdges, sampleNodes } from './demo';
+import { type GroupNodeData, isGroupNode, isGroupProxyEdge } from './groups';
+
+// A text node whose content is filled in when the template is used
+export type TemplateInput = {
+  nodeId: string;
+  label: string;
+};
+
+export type TemplateContent = {
+  nodes: Node[];
+  edges: Edge[];
+};
+
+export type Template = {
+  id: string;
+  name: string;
+  description?: string | null;
+  content: TemplateContent;
+  inputs: TemplateInput[];
+
+  // Built-in templates ship with the app and can't be deleted
+  builtIn?: boolean;
+};
+
+// Generation state and outputs are specific to the project the nodes were
+// saved from, so templates start clean
+const sessionFields = [
+  'history',
+  'versionId',
+  'pinned',
+  'inputHash',
+  'job',
+  'generated',
+];
+
+// Children are positioned relative to their group, so only top-level nodes
+// are moved when the template is placed
+const getTopLeft = (nodes: Node[]) => {
+  const topLevel = nodes.filter((node) => !node.parentId);
+
+  return {
+    left: Math.min(...topLevel.map((node) => node.position.x)),
+    top: Math.min(...topLevel.map((node) => node.position.y)),
+  };
+};
+
+const getTextContent = (text: string) => ({
+  type: 'doc',
+  content: text
+    .split('\n')
+    .map((line) =>
+      line
+        ? { type: 'paragraph', content: [{ type: 'text', text: line }] }
+        : { type: 'paragraph' }
+    ),
+});
+
+const textNode = (
+  id: string,
+  position: XYPosition,
+  data: Record<string, unknown>
+): Node => ({
+  id,
+  type: 'text',
+  position,
+  origin: [0, 0.5],
+  data,
+});
+
+const animatedEdge = (source: string, target: string): Edge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  type: 'animated',
+});
+
+export const builtInTemplates: Template[] = [
+  {
+    id: 'campaign',
+    name: 'Campaign from a brief',
+    description:
+      'Turns a short brief into ad copy, a hero image and a video teaser.',
+    builtIn: true,
+    inputs: [{ nodeId: 'brief', label: 'Brief' }],
+    content: {
+      nodes: [
+        textNode(
+          'brief',
+          { x: 0, y: 0 },
+          {
+            text: 'A reusable water bottle for hikers.',
+            content: getTextContent('A reusable water bottle for hikers.'),
+          }
+        ),
+        textNode(
+          'copy',
+          { x: 600, y: -300 },
+          {
+            instructions:
+              'Write a headline and two sentences of ad copy for this brief.',
+          }
+        ),
+        {
+          id: 'hero',
+          type: 'image',
+          position: { x: 600, y: 200 },
+          origin: [0, 0.5],
+          data: {
+            instructions:
+              'Create a bright, editorial hero image for this campaign.',
+          },
+        },
+        {
+          id: 'teaser',
+          type: 'video',
+          position: { x: 1200, y: 200 },
+          origin: [0, 0.5],
+          data: {
+            instructions: 'Animate this image into a short, calm teaser.',
+          },
+        },
+      ],
+      edges: [
+        animatedEdge('brief', 'copy'),
+        animatedEdge('brief', 'hero'),
+        animatedEdge('hero', 'teaser'),
+      ],
+    },
+  },
+  {
+    id: 'demo',
+    name: 'Multimodal demo',
+    description:
+      'The welcome demo: text, audio and images feeding video, speech and descriptions.',
+    builtIn: true,
+    inputs: [{ nodeId: sampleNodes[0].id, label: 'Subject' }],
+    content: { nodes: sampleNodes, edges: sampleEdges },
+  },
+];
+
+// Only text nodes without incoming connections hold user-written content
+export const isTemplateInputNode = (node: Node, edges: Edge[]) =>
+  node.type === 'text' && !edges.some((edge) => edge.target === node.id);
+
+// Groups are saved whole: a selected group brings its children and a selected
+// child brings its group. Canvas order is kept so parents come first.
+export const getTemplateNodes = (selected: Node[], nodes: Node[]) => {
+  const ids = new Set(selected.map((node) => node.id));
+
+  for (const node of selected) {
+    if (node.parentId) {
+      ids.add(node.parentId);
+    }
+  }
+
+  return nodes.filter(
+    (node) =>
+      node.type !== 'drop' &&
+      (ids.has(node.id) || Boolean(node.parentId && ids.has(node.parentId)))
+  );
+};
+
+// Copies the given nodes and the edges between them, positioned relative to
+// the top-left of the selection
+export const createTemplateContent = (
+  nodes: Node[],
+  edges: Edge[]
+): TemplateContent => {
+  const ids = new Set(nodes.map((node) => node.id));
+  const { left, top } = getTopLeft(nodes);
+
+  return {
+    nodes: nodes.map(
+      ({
+        id,
+        type,
+        data,
+        position,
+        origin,
+        parentId,
+        extent,
+        hidden,
+        width,
+        height,
+      }) => ({
+        id,
+        type,
+        origin,
+        parentId,
+        extent,
+        hidden,
+        width,
+        height,
+        position: parentId
+          ? position
+          : { x: position.x - left, y: position.y - top },
+        data: Object.fromEntries(
+          Object.entries(data).filter(([key]) => !sessionFields.includes(key))
+        ),
+      })
+    ),
+    edges: edges
+      .filter(
+        (edge) =>
+          !isGroupProxyEdge(edge) &&
+          ids.has(edge.source) &&
+          ids.has(edge.target)
+      )
+      .map(
+        ({ id, source, target, sourceHandle, targetHandle, type, data }) => ({
+          id,
+          source,
+          target,
+          sourceHandle,
+          targetHandle,
+          type,
+          data,
+        })
+      ),
+  };
+};
+
+// Creates fresh copies of the template's nodes and edges at `position`. Input
+// values replace the text of their nodes, missing values keep the original.
+export const instantiateTemplate = (
+  template: Template,
+  position: XYPosition,
+  values: Record<string, string> = {}
+): TemplateContent => {
+  const ids = new Map(
+    template.content.nodes.map((node) => [node.id, nanoid()])
+  );
+  const { left, top } = getTopLeft(template.content.nodes);
+
+  const remap = (list: string[] | undefined) =>
+    list?.flatMap((id) => {
+      const newId = ids.get(id);
+
+      return newId ? [newId] : [];
+    });
+
+  const getData = (node: Node) => {
+    const value = values[node.id]?.trim();
+
+    if (value) {
+      return { ...node.data, text: value, content: getTextContent(value) };
+    }
+
+    if (isGroupNode(node)) {
+      const data = node.data as GroupNodeData;
+
+      return {
+        ...data,
+        inputs: remap(data.inputs),
+        outputs: remap(data.outputs),
+      };
+    }
+
+    return node.data;
+  };
+
+  const nodes = template.content.nodes.map((node) => ({
+    ...node,
+    id: ids.get(node.id) ?? nanoid(),
+    parentId: node.parentId ? ids.get(node.parentId) : undefined,
+    position: node.parentId
+      ? node.position
+      : {
+          x: node.position.x - left + position.x,
+          y: node.position.y - top + position.y,
+        },
+    data: getData(node),
+  }));
+
+  const edges = template.content.edges.flatMap((edge) => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+
+    return source && target ? [{ ...edge, id: nanoid(), source, target }] : [];
+  });
+
+  return { nodes, edges };
+};
@@ -0,0 +1,45 @@
+// Relative to now, e.g. "5 minutes ago"
+export const getFormattedTime = (date: Date | undefined) => {
+  if (!date) {
+    return 'Never';
+  }
+
+  let unit: Intl.RelativeTimeFormatUnit = 'seconds';
+  let value = Math.round((date.getTime() - Date.now()) / 1000);
+  const absoluteValue = Math.abs(value);
+
+  if (absoluteValue > 60) {
+    unit = 'minutes';
+    value = Math.round(value / 60);
+  }
+
+  if (absoluteValue > 3600) {
+    unit = 'hours';
+    value = Math.round(value / 60);
+  }
+
+  if (absoluteValue > 86400) {
+    unit = 'days';
+    value = Math.round(value / 24);
+  }
+
+  if (absoluteValue > 604800) {
+    unit = 'weeks';
+    value = Math.round(value / 7);
+  }
+
+  if (absoluteValue > 2592000) {
+    unit = 'months';
+    value = Math.round(value / 4);
+  }
+
+  if (absoluteValue > 31536000) {
+    unit = 'years';
+    value = Math.round(value / 12);
+  }
+
+  return new Intl.RelativeTimeFormat('en', { numeric: 'auto' }).format(
+    value,
+    unit
+  );
+};
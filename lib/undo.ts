@@ -0,0 +1,211 @@
+import type {
+  Edge,
+  EdgeChange,
+  Node,
+  NodeChange,
+  NodePositionChange,
+  XYPosition,
+} from '@xyflow/react';
+
+// Consecutive data edits to the same nodes within this window are undone
+// together, so typing a prompt doesn't take one undo per keystroke
+const mergeWindow = 1000;
+
+type ChangeSet<T> = {
+  changes: T[];
+  inverse: T[];
+};
+
+export type CanvasCommand = {
+  nodes: ChangeSet<NodeChange>[];
+  edges: ChangeSet<EdgeChange>[];
+  updatedAt: number;
+};
+
+// Drop nodes and their temporary edges only exist while picking a node type
+const isTransientNode = (node: Node) => node.type === 'drop';
+const isTransientEdge = (edge: Edge) => edge.type === 'temporary';
+
+const byIndex = (a: { index?: number }, b: { index?: number }) =>
+  (a.index ?? 0) - (b.index ?? 0);
+
+// Selection is also updated through replace changes, only edits to the
+// saved node are worth undoing, e.g. its data or the group it belongs to
+const isContentChange = (previous: Node, next: Node) =>
+  previous.data !== next.data ||
+  previous.type !== next.type ||
+  previous.parentId !== next.parentId ||
+  previous.hidden !== next.hidden ||
+  previous.width !== next.width ||
+  previous.height !== next.height ||
+  previous.position.x !== next.position.x ||
+  previous.position.y !== next.position.y;
+
+// Dragging emits a change per frame, only the drop is recorded. Returns the
+// position the node had before the drag once it has actually moved.
+const getDragOrigin = (
+  change: NodePositionChange,
+  previous: Node,
+  dragOrigins: Map<string, XYPosition>
+) => {
+  if (!change.position) {
+    return null;
+  }
+
+  if (change.dragging) {
+    if (!dragOrigins.has(change.id)) {
+      dragOrigins.set(change.id, previous.position);
+    }
+
+    return null;
+  }
+
+  const origin = dragOrigins.get(change.id) ?? previous.position;
+  dragOrigins.delete(change.id);
+
+  if (origin.x === change.position.x && origin.y === change.position.y) {
+    return null;
+  }
+
+  return origin;
+};
+
+// Edits to an existing node that are worth undoing, with the change that
+// reverts them
+const getNodeUpdate = (
+  change: NodeChange,
+  previous: Node,
+  dragOrigins: Map<string, XYPosition>
+): { change: NodeChange; inverse: NodeChange } | null => {
+  if (change.type === 'replace') {
+    return isContentChange(previous, change.item)
+      ? {
+          change,
+          inverse: { type: 'replace', id: change.id, item: previous },
+        }
+      : null;
+  }
+
+  if (change.type === 'position') {
+    const origin = getDragOrigin(change, previous, dragOrigins);
+
+    return origin
+      ? {
+          change: { ...change, dragging: false },
+          inverse: { type: 'position', id: change.id, position: origin },
+        }
+      : null;
+  }
+
+  return null;
+};
+
+export const getNodeChangeSet = (
+  changes: NodeChange[],
+  nodes: Node[],
+  dragOrigins: Map<string, XYPosition>
+): ChangeSet<NodeChange> => {
+  const recorded: NodeChange[] = [];
+  const inverse: NodeChange[] = [];
+  const restored: (NodeChange & { type: 'add' })[] = [];
+
+  for (const change of changes) {
+    if (change.type === 'add') {
+      if (!isTransientNode(change.item)) {
+        recorded.push(change);
+        inverse.push({ type: 'remove', id: change.item.id });
+      }
+
+      continue;
+    }
+
+    const index = nodes.findIndex((node) => node.id === change.id);
+    const previous = nodes[index];
+
+    if (!previous || isTransientNode(previous)) {
+      continue;
+    }
+
+    if (change.type === 'remove') {
+      recorded.push(change);
+      restored.push({ type: 'add', item: previous, index });
+      continue;
+    }
+
+    const update = getNodeUpdate(change, previous, dragOrigins);
+
+    if (update) {
+      recorded.push(update.change);
+      inverse.push(update.inverse);
+    }
+  }
+
+  // Removed nodes are added back in their original order
+  return {
+    changes: recorded,
+    inverse: [...inverse, ...restored.sort(byIndex)],
+  };
+};
+
+export const getEdgeChangeSet = (
+  changes: EdgeChange[],
+  edges: Edge[]
+): ChangeSet<EdgeChange> => {
+  const recorded: EdgeChange[] = [];
+  const inverse: EdgeChange[] = [];
+  const restored: (EdgeChange & { type: 'add' })[] = [];
+
+  for (const change of changes) {
+    if (change.type === 'add' && !isTransientEdge(change.item)) {
+      recorded.push(change);
+      inverse.push({ type: 'remove', id: change.item.id });
+    }
+
+    if (change.type === 'remove') {
+      const index = edges.findIndex((edge) => edge.id === change.id);
+      const previous = edges[index];
+
+      if (previous && !isTransientEdge(previous)) {
+        recorded.push(change);
+        restored.push({ type: 'add', item: previous, index });
+      }
+    }
+  }
+
+  return {
+    changes: recorded,
+    inverse: [...inverse, ...restored.sort(byIndex)],
+  };
+};
+
+export const isEmptyCommand = (command: CanvasCommand) =>
+  command.nodes.every((set) => !set.changes.length) &&
+  command.edges.every((set) => !set.changes.length);
+
+const getEditedNodeIds = (command: CanvasCommand) => {
+  const changes = command.nodes.flatMap((set) => set.changes);
+
+  if (
+    command.edges.some((set) => set.changes.length) ||
+    changes.some((change) => change.type !== 'replace')
+  ) {
+    return null;
+  }
+
+  return [...new Set(changes.map((change) => 'id' in change && change.id))]
+    .sort()
+    .join();
+};
+
+export const canMergeCommands = (
+  previous: CanvasCommand,
+  next: CanvasCommand
+) => {
+  if (next.updatedAt - previous.updatedAt > mergeWindow) {
+    return false;
+  }
+
+  const previousIds = getEditedNodeIds(previous);
+
+  return previousIds !== null && previousIds === getEditedNodeIds(next);
+};
@@ -0,0 +1,155 @@
+import { nanoid } from 'nanoid';
+
+export type ProjectVariableType = 'string' | 'number' | 'enum' | 'image';
+
+export type ProjectVariable = {
+  id: string;
+  name: string;
+  type: ProjectVariableType;
+
+  // Stored as text whatever the type, since it ends up in a prompt. Image
+  // variables hold the URL of the uploaded asset, see getVariableImages.
+  value: string;
+
+  // The values an enum variable can take
+  options?: string[];
+};
+
+export const variableTypes: Record<ProjectVariableType, string> = {
+  string: 'Text',
+  number: 'Number',
+  enum: 'Choice',
+  image: 'Image',
+};
+
+// {{name}}, {{node:Title}} or {{image1.description}}, see lib/prompt.ts
+export const referencePattern = /{{\s*([^{}]+?)\s*}}/g;
+
+const namePattern = /^[\w-]+$/;
+
+export const createVariable = (
+  type: ProjectVariableType = 'string'
+): ProjectVariable => ({
+  id: nanoid(),
+  name: '',
+  type,
+  value: '',
+  options: type === 'enum' ? [] : undefined,
+});
+
+// Names are used as-is in references, so they can't contain spaces, dots or
+// braces and must be unique regardless of case
+export const getVariableError = (
+  variable: ProjectVariable,
+  variables: ProjectVariable[]
+) => {
+  if (!namePattern.test(variable.name)) {
+    return 'Use letters, numbers, dashes and underscores only';
+  }
+
+  if (
+    variables.some(
+      (other) =>
+        other.id !== variable.id &&
+        other.name.toLowerCase() === variable.name.toLowerCase()
+    )
+  ) {
+    return 'A variable with this name already exists';
+  }
+
+  if (variable.type === 'number' && Number.isNaN(Number(variable.value))) {
+    return 'Enter a number';
+  }
+
+  if (
+    variable.type === 'enum' &&
+    variable.value &&
+    !variable.options?.includes(variable.value)
+  ) {
+    return 'Pick one of the options';
+  }
+
+  return null;
+};
+
+export const getProjectVariables = (value: unknown) =>
+  Array.isArray(value) ? (value as ProjectVariable[]) : [];
+
+// The values nodes are generated with: the project's, replaced by the
+// overrides set for the current session
+export const getVariableValues = (
+  variables: ProjectVariable[],
+  overrides: Record<string, string> = {}
+) =>
+  Object.fromEntries(
+    variables
+      .filter((variable) => variable.name)
+      .map((variable) => [
+        variable.name,
+        overrides[variable.id] ?? variable.value,
+      ])
+  );
+
+export type VariableImage = {
+  url: string;
+  type: string;
+};
+
+const imageTypes: Record<string, string> = {
+  avif: 'image/avif',
+  gif: 'image/gif',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+};
+
+// Uploads keep their extension, see lib/upload.ts
+const getImageType = (url: string) => {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase();
+
+  return imageTypes[extension ?? ''] ?? 'image/png';
+};
+
+// The images of the image variables, keyed by name like getVariableValues.
+// Transforms pass the ones their instructions reference to the model along
+// with their image inputs.
+export const getVariableImages = (
+  variables: ProjectVariable[],
+  overrides: Record<string, string> = {}
+): Record<string, VariableImage> =>
+  Object.fromEntries(
+    Object.entries(
+      getVariableValues(
+        variables.filter((variable) => variable.type === 'image'),
+        overrides
+      )
+    )
+      .filter(([, url]) => url)
+      .map(([name, url]) => [name, { url, type: getImageType(url) }])
+  );
+
+// The variables a text references, used to tell when a node is stale
+export const getReferencedVariables = <T>(
+  text: unknown,
+  values: Record<string, T>
+) => {
+  if (typeof text !== 'string' || !Object.keys(values).length) {
+    return {};
+  }
+
+  const referenced: Record<string, T> = {};
+
+  for (const [, reference] of text.matchAll(referencePattern)) {
+    const entry = Object.entries(values).find(
+      ([name]) => name.toLowerCase() === reference.toLowerCase()
+    );
+
+    if (entry) {
+      referenced[entry[0]] = entry[1];
+    }
+  }
+
+  return referenced;
+};
@@ -4,7 +4,19 @@ import type { FileNodeProps } from '@/components/nodes/file';
 import type { ImageNodeProps } from '@/components/nodes/image';
 import type { TextNodeProps } from '@/components/nodes/text';
 import type { TweetNodeProps } from '@/components/nodes/tweet';
-import type { Node } from '@xyflow/react';
+import type { Edge, Node } from '@xyflow/react';
+import { isAnnotationNode } from './annotations';
+import { getEdgeRow, isListNode, resolveListInput } from './batch';
+import {
+  getMergeMode,
+  getRouterMode,
+  getRoutes,
+  isEdgeActive,
+  isMergeNode,
+  isRouteHandle,
+  isRouterNode,
+} from './branching';
+import { getReferencedVariables } from './variables';
 
 export const getTextFromTextNodes = (nodes: Node[]) => {
   const sourceTexts = nodes
@@ -50,16 +62,37 @@ export const getImagesFromImageNodes = (nodes: Node[]) => {
   return [...sourceImages, ...generatedImages];
 };
 
-export const isValidSourceTarget = (source: Node, target: Node) => {
-  if (source.type === 'video' || source.type === 'drop') {
+// Routers and merges pass their inputs through, so they can feed any node.
+// Edges leaving a router must start at one of its routes.
+export const isValidSourceTarget = (
+  source: Node,
+  target: Node,
+  sourceHandle?: string | null
+) => {
+  if (
+    source.type === 'video' ||
+    source.type === 'drop' ||
+    isAnnotationNode(source) ||
+    isAnnotationNode(target)
+  ) {
     return false;
   }
 
-  if (target.type === 'audio' && source.type !== 'text') {
+  if (isRouterNode(source) && !isRouteHandle(source, sourceHandle)) {
     return false;
   }
 
-  if (target.type === 'file') {
+  if (
+    target.type === 'audio' &&
+    source.type !== 'text' &&
+    source.type !== 'list' &&
+    !isRouterNode(source) &&
+    !isMergeNode(source)
+  ) {
+    return false;
+  }
+
+  if (target.type === 'file' || target.type === 'list') {
     return false;
   }
 
@@ -101,3 +134,146 @@ export const getTweetContentFromTweetNodes = (nodes: Node[]) => {
 
   return tweetContent;
 };
+
+type NodeLike = Pick<Node, 'type' | 'data'>;
+
+// What a node receives through one of its incoming edges. Lists provide
+// their text, routers pass their own inputs through the route they took and
+// merges pass through the first branch that has something, or all of them.
+const resolveEdgeInput = (
+  edge: Edge,
+  nodes: Node[],
+  edges: Edge[],
+  visited: Set<string>
+): Node[] => {
+  const source = nodes.find((node) => node.id === edge.source);
+
+  if (!source || visited.has(source.id)) {
+    return [];
+  }
+
+  if (isListNode(source)) {
+    return [resolveListInput(source, getEdgeRow(edge)) as Node];
+  }
+
+  if (isRouterNode(source)) {
+    return isEdgeActive(edge, nodes)
+      ? getInputNodes(source.id, nodes, edges, new Set([...visited, source.id]))
+      : [];
+  }
+
+  if (isMergeNode(source)) {
+    const branches = edges
+      .filter((item) => item.target === source.id)
+      .map((item) =>
+        resolveEdgeInput(item, nodes, edges, new Set([...visited, source.id]))
+      );
+
+    return getMergeMode(source) === 'first'
+      ? (branches.find((branch) => branch.length) ?? [])
+      : branches.flat();
+  }
+
+  return [source];
+};
+
+// The nodes feeding into a node, like getIncomers, with list, router and
+// merge nodes resolved to the content they provide through each edge.
+// Annotations never provide content, so none of the get*FromNodes helpers
+// see them.
+export const getInputNodes = (
+  id: string,
+  nodes: Node[],
+  edges: Edge[],
+  visited = new Set([id])
+): Node[] => {
+  const incoming = edges.filter((edge) => edge.target === id);
+
+  return nodes.flatMap((node) => {
+    const nodeEdges = incoming.filter((edge) => edge.source === node.id);
+
+    if (isAnnotationNode(node)) {
+      return [];
+    }
+
+    if (!isListNode(node) && !isRouterNode(node) && !isMergeNode(node)) {
+      return nodeEdges.length && !visited.has(node.id) ? [node] : [];
+    }
+
+    return nodeEdges.flatMap((edge) =>
+      resolveEdgeInput(edge, nodes, edges, visited)
+    );
+  });
+};
+
+// cyrb53, a small non-cryptographic string hash that is stable across
+// client and server
+const hashString = (value: string) => {
+  let h1 = 0xde_ad_be_ef;
+  let h2 = 0x41_c6_ce_57;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2_654_435_761);
+    h2 = Math.imul(h2 ^ char, 1_597_334_677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2_246_822_507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3_266_489_909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2_246_822_507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3_266_489_909);
+
+  return (4_294_967_296 * (2_097_151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+export const getNodeInputs = (
+  node: NodeLike,
+  incomers: NodeLike[],
+  variables: Record<string, string> = {}
+) => {
+  const upstream = incomers as Node[];
+  const referenced = getReferencedVariables(node.data.instructions, variables);
+
+  return {
+    text: getTextFromTextNodes(upstream),
+    transcripts: getTranscriptionFromAudioNodes(upstream),
+    descriptions: getDescriptionsFromImageNodes(upstream),
+    images: getImagesFromImageNodes(upstream).map((image) => image.url),
+    code: getCodeFromCodeNodes(upstream),
+    files: getFilesFromFileNodes(upstream).map((file) => file.url),
+    tweets: getTweetContentFromTweetNodes(upstream),
+    instructions: node.data.instructions ?? null,
+    model: node.data.model ?? null,
+    size: node.data.size ?? null,
+    voice: node.data.voice ?? null,
+
+    // Routers are re-run when their conditions change
+    ...(isRouterNode(node)
+      ? { mode: getRouterMode(node), routes: getRoutes(node) }
+      : {}),
+
+    // Only present when used, so nodes without variables keep their hash
+    ...(Object.keys(referenced).length ? { variables: referenced } : {}),
+  };
+};
+
+export const getInputHash = (
+  node: NodeLike,
+  incomers: NodeLike[],
+  variables?: Record<string, string>
+) => hashString(JSON.stringify(getNodeInputs(node, incomers, variables)));
+
+// A node is stale when it was generated from inputs that have since changed.
+// Nodes generated before input hashing existed have no hash and are never
+// reported as stale.
+export const isStale = (
+  node: NodeLike,
+  incomers: NodeLike[],
+  variables?: Record<string, string>
+) => {
+  const { inputHash } = node.data as { inputHash?: string };
+
+  return (
+    Boolean(inputHash) && inputHash !== getInputHash(node, incomers, variables)
+  );
+};
@@ -0,0 +1,60 @@
+'use client';
+
+import type { NodeRunner } from '@/lib/execution';
+import type { ReactNode } from 'react';
+import { createContext, useContext, useEffect, useRef } from 'react';
+
+type GraphExecutorContextType = {
+  registerRunner: (id: string, runner: NodeRunner) => () => void;
+  runAll: () => Promise<void>;
+  runSelected: () => Promise<void>;
+  runDownstream: (id: string) => Promise<void>;
+};
+
+const GraphExecutorContext = createContext<GraphExecutorContextType | null>(
+  null
+);
+
+export const useGraphExecutor = () => {
+  const context = useContext(GraphExecutorContext);
+  if (!context) {
+    throw new Error(
+      'useGraphExecutor must be used within a GraphExecutorProvider'
+    );
+  }
+  return context;
+};
+
+// Registers the node's generate function so the executor can run it. The
+// runner is read through a ref so callers don't need to memoize it.
+export const useNodeRunner = (id: string, runner: NodeRunner) => {
+  const { registerRunner } = useGraphExecutor();
+  const runnerRef = useRef(runner);
+
+  runnerRef.current = runner;
+
+  useEffect(
+    () => registerRunner(id, () => runnerRef.current()),
+    [id, registerRunner]
+  );
+};
+
+type GraphExecutorProviderProps = GraphExecutorContextType & {
+  children: ReactNode;
+};
+
+export const GraphExecutorProvider = ({
+  registerRunner,
+  runAll,
+  runSelected,
+  runDownstream,
+  children,
+}: GraphExecutorProviderProps) => {
+  return (
+    <GraphExecutorContext.Provider
+      value={{ registerRunner, runAll, runSelected, runDownstream }}
+    >
+      {children}
+    </GraphExecutorContext.Provider>
+  );
+};
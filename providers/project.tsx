@@ -1,14 +1,21 @@
 'use client';
 
+import type { ProjectRole } from '@/lib/members';
 import type { projects } from '@/schema';
 import { type ReactNode, createContext, useContext } from 'react';
 
 type ProjectContextType = {
   project: typeof projects.$inferSelect | null;
+  role: ProjectRole | null;
+
+  // Published snapshots opened from a share link, see lib/share.ts
+  shared: boolean;
 };
 
 export const ProjectContext = createContext<ProjectContextType>({
   project: null,
+  role: null,
+  shared: false,
 });
 
 export const useProject = () => {
@@ -21,14 +28,38 @@ export const useProject = () => {
   return context.project;
 };
 
+export const useProjectRole = () => {
+  const context = useContext(ProjectContext);
+
+  if (!context) {
+    throw new Error('useProjectRole must be used within a ProjectProvider');
+  }
+
+  return context.role;
+};
+
+export const useProjectShared = () => {
+  const context = useContext(ProjectContext);
+
+  if (!context) {
+    throw new Error('useProjectShared must be used within a ProjectProvider');
+  }
+
+  return context.shared;
+};
+
 export const ProjectProvider = ({
   children,
   data,
+  access,
+  shared = false,
 }: {
   children: ReactNode;
   data: typeof projects.$inferSelect;
+  access: ProjectRole;
+  shared?: boolean;
 }) => (
-  <ProjectContext.Provider value={{ project: data }}>
+  <ProjectContext.Provider value={{ project: data, role: access, shared }}>
     {children}
   </ProjectContext.Provider>
 );
@@ -0,0 +1,50 @@
+'use client';
+
+import { getInputNodes, isStale } from '@/lib/xyflow';
+import type { Edge, Node } from '@xyflow/react';
+import type { ReactNode } from 'react';
+import { createContext, useContext, useMemo } from 'react';
+
+const StaleContext = createContext<Set<string>>(new Set());
+
+// Whether the node was generated from inputs that have since changed
+export const useStale = (id: string) => useContext(StaleContext).has(id);
+
+type StaleProviderProps = {
+  nodes: Node[];
+  edges: Edge[];
+  variables: Record<string, string>;
+  children: ReactNode;
+};
+
+// Stale nodes are worked out once for the whole canvas. Inputs are read the
+// same way the node's runner reads them, so lists connected row by row are
+// compared per row.
+export const StaleProvider = ({
+  nodes,
+  edges,
+  variables,
+  children,
+}: StaleProviderProps) => {
+  const staleIds = useMemo(
+    () =>
+      nodes
+        .filter((node) =>
+          isStale(node, getInputNodes(node.id, nodes, edges), variables)
+        )
+        .map((node) => node.id)
+        .join(','),
+    [nodes, edges, variables]
+  );
+
+  // Keyed by the ids so nodes only re-render when the set itself changes,
+  // not on every drag
+  const value = useMemo(
+    () => new Set(staleIds ? staleIds.split(',') : []),
+    [staleIds]
+  );
+
+  return (
+    <StaleContext.Provider value={value}>{children}</StaleContext.Provider>
+  );
+};
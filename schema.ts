@@ -1,8 +1,11 @@
 import { sql } from 'drizzle-orm';
 import {
   boolean,
+  doublePrecision,
+  integer,
   json,
   pgTable,
+  primaryKey,
   text,
   timestamp,
   varchar,
@@ -18,10 +21,112 @@ export const projects = pgTable('project', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at'),
   content: json('content'),
+  variables: json('variables'),
+  revision: integer('revision').notNull().default(0),
   userId: varchar('user_id').notNull(),
   image: varchar('image'),
   members: text('members').array(),
   welcomeProject: boolean('demo_project').notNull().default(false),
+
+  // What generations in the project have cost, added to as they're charged.
+  // Node history can't tell, as it's capped and goes with deleted nodes.
+  spend: doublePrecision('spend').notNull().default(0),
+});
+
+// How each user organises the projects on their dashboard. Everyone with
+// access to a project organises it for themselves.
+export const projectPreferences = pgTable(
+  'project_preference',
+  {
+    userId: varchar('user_id').notNull(),
+    projectId: text('project_id').notNull(),
+    tags: text('tags').array(),
+    pinned: boolean('pinned').notNull().default(false),
+    archivedAt: timestamp('archived_at'),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.projectId] })]
+);
+
+// Comment threads on a project's nodes. A thread is its first comment, replies
+// point at it through threadId.
+export const comments = pgTable('comment', {
+  id: text('id').primaryKey().default(uuid).notNull(),
+  projectId: text('project_id').notNull(),
+  nodeId: varchar('node_id').notNull(),
+  threadId: text('thread_id'),
+  anchor: json('anchor'),
+  body: text('body').notNull(),
+  mentions: text('mentions').array(),
+  userId: varchar('user_id').notNull(),
+  authorEmail: varchar('author_email').notNull(),
+  authorName: varchar('author_name'),
+  resolvedAt: timestamp('resolved_at'),
+  resolvedBy: varchar('resolved_by'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at'),
+});
+
+// Published read-only snapshots of a project. The token is the unguessable
+// part of the share link, passwords are stored as scrypt hashes.
+export const shares = pgTable('share', {
+  id: text('id').primaryKey().default(uuid).notNull(),
+  token: varchar('token').notNull().unique(),
+  projectId: text('project_id').notNull(),
+  userId: varchar('user_id').notNull(),
+  name: varchar('name').notNull(),
+  content: json('content').notNull(),
+  variables: json('variables'),
+  passwordHash: varchar('password_hash'),
+  expiresAt: timestamp('expires_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Generations that take too long to await in a request. They are picked up
+// by the job worker, which records the provider's job ID so it can check on
+// them across invocations.
+export const jobs = pgTable('job', {
+  id: text('id').primaryKey().default(uuid).notNull(),
+  kind: varchar('kind').notNull(),
+  status: varchar('status').notNull().default('queued'),
+  userId: varchar('user_id').notNull(),
+  projectId: text('project_id').notNull(),
+  nodeId: varchar('node_id').notNull(),
+  modelId: varchar('model_id').notNull(),
+  inputs: json('inputs').notNull(),
+  provider: varchar('provider'),
+  providerJobId: varchar('provider_job_id'),
+  result: json('result'),
+  error: text('error'),
+  attempts: integer('attempts').notNull().default(0),
+  lockedUntil: timestamp('locked_until'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at'),
+  completedAt: timestamp('completed_at'),
+});
+
+// Users' own provider keys, encrypted. Keys with a projectId were saved by
+// the project's owner and are used by everyone generating in it.
+export const providerKeys = pgTable('provider_key', {
+  id: text('id').primaryKey().default(uuid).notNull(),
+  userId: varchar('user_id').notNull(),
+  projectId: text('project_id'),
+  provider: varchar('provider').notNull(),
+  encryptedKey: text('encrypted_key').notNull(),
+
+  // The key's last characters, to tell keys apart once saved
+  hint: varchar('hint').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const templates = pgTable('template', {
+  id: text('id').primaryKey().default(uuid).notNull(),
+  name: varchar('name').notNull(),
+  description: text('description'),
+  content: json('content').notNull(),
+  inputs: json('inputs').notNull().default([]),
+  userId: varchar('user_id').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
 export const profile = pgTable('profile', {
@@ -147,6 +147,60 @@ CREATE POLICY "Users can view their own profile" ON profile
 CREATE POLICY "Users can update their own profile" ON profile
     FOR UPDATE USING (auth.uid()::text = id);
 
+-- The caller's role on a project, mirroring getProjectRole in lib/members.ts.
+-- Members are `email:role` entries, entries without a role are editors.
+CREATE OR REPLACE FUNCTION public.project_role(project_id TEXT)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT CASE
+        WHEN project.user_id = auth.uid()::text THEN 'owner'
+        ELSE (
+            SELECT CASE
+                WHEN substring(entry FROM ':([^:]*)$') IN ('viewer', 'editor', 'owner')
+                THEN substring(entry FROM ':([^:]*)$')
+                ELSE 'editor'
+            END
+            FROM unnest(project.members) AS entry
+            WHERE lower(
+                CASE
+                    WHEN substring(entry FROM ':([^:]*)$') IN ('viewer', 'editor', 'owner')
+                    THEN regexp_replace(entry, ':[^:]*$', '')
+                    ELSE entry
+                END
+            ) = lower(auth.jwt() ->> 'email')
+            LIMIT 1
+        )
+    END
+    FROM project
+    WHERE project.id = project_id;
+$$;
+
+-- Realtime policies for the private `project:<id>` collaboration channels.
+-- Anyone with access joins and shares presence and cursors, only editors and
+-- owners broadcast canvas changes.
+CREATE POLICY "Project members can receive collaboration messages" ON realtime.messages
+    FOR SELECT TO authenticated USING (
+        realtime.topic() LIKE 'project:%'
+        AND public.project_role(substring(realtime.topic() FROM 9)) IS NOT NULL
+    );
+
+CREATE POLICY "Project members can send collaboration messages" ON realtime.messages
+    FOR INSERT TO authenticated WITH CHECK (
+        realtime.topic() LIKE 'project:%'
+        AND (
+            (
+                realtime.messages.extension = 'presence'
+                AND public.project_role(substring(realtime.topic() FROM 9)) IS NOT NULL
+            )
+            OR (
+                realtime.messages.extension = 'broadcast'
+                AND realtime.messages.event = 'cursor'
+                AND public.project_role(substring(realtime.topic() FROM 9)) IS NOT NULL
+            )
+            OR public.project_role(substring(realtime.topic() FROM 9)) IN ('editor', 'owner')
+        )
+    );
+
 -- Insert a sample project if none exist (optional)
 INSERT INTO project (id, name, transcription_model, vision_model, user_id, demo_project)
 SELECT 